@@ -5,6 +5,8 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
+import SettingsPage from "@/pages/settings-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import { ProtectedRoute } from "@/lib/protected-route";
 import Header from "@/components/header";
 import Footer from "@/components/footer";
@@ -17,7 +19,9 @@ function Router() {
       <main className="flex-grow container mx-auto px-4 py-6">
         <Switch>
           <ProtectedRoute path="/" component={HomePage} />
+          <ProtectedRoute path="/settings" component={SettingsPage} />
           <Route path="/auth" component={AuthPage} />
+          <Route path="/reset-password" component={ResetPasswordPage} />
           <Route component={NotFound} />
         </Switch>
       </main>
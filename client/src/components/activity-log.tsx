@@ -0,0 +1,246 @@
+import { useState, useEffect } from "react";
+import { useWebSocket } from "@/lib/websocket";
+import { useAuditEvents, useSiteAuditEvents } from "@/lib/api";
+import { AuditEventWithActor, Course } from "@shared/schema";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History as HistoryIcon, RefreshCcw, ShieldCheck } from "lucide-react";
+
+type ActivityLogProps = {
+  selectedCourse: Course;
+};
+
+// Human-readable labels for the audit actions recorded by the server
+const ACTION_LABELS: Record<string, string> = {
+  "course.create": "Created course",
+  "course.update": "Updated course",
+  "course.delete": "Deleted course",
+  "course.join_code.regenerate": "Regenerated join code",
+  "enrollment.create": "Enrolled student",
+  "enrollment.delete": "Unenrolled student",
+  "roster.import": "Imported roster",
+  "invitation.create": "Created invitation",
+  "invitation.revoke": "Revoked invitation",
+  "invitation.accept": "Accepted invitation",
+  "staff.add": "Added TA",
+  "staff.remove": "Removed TA",
+  "user.password.force_reset": "Reset student password",
+  "session.open": "Started session",
+  "session.close": "Closed session",
+  "request.create": "Raised hand",
+  "request.deactivate": "Lowered hand",
+  "record.create": "Awarded points",
+  "record.update": "Edited record",
+  "record.delete": "Deleted record",
+  "records.delete_day": "Deleted day's records",
+  "record.restore": "Restored record",
+  "records.restore": "Restored records",
+  "rubric.create": "Added rubric category",
+  "rubric.update": "Edited rubric category",
+  "rubric.delete": "Removed rubric category",
+  "grading_policy.update": "Updated grading policy",
+  "grades.publish": "Sent grades to LMS",
+  "webhook.create": "Added webhook",
+  "webhook.update": "Updated webhook",
+  "webhook.delete": "Removed webhook",
+  "webhook.replay": "Replayed webhook delivery",
+};
+
+// Labels for the actions recorded outside any course, shown in the site activity log
+const SITE_ACTION_LABELS: Record<string, string> = {
+  "user.register": "Registered",
+  "user.update": "Updated profile",
+  "user.login.failed": "Failed login",
+  "user.password.change": "Changed password",
+  "user.password.reset": "Reset password",
+  "user.sso.provision": "Created account by SSO",
+  "user.sso.link": "Linked SSO login",
+  "api_token.create": "Created API token",
+  "api_token.revoke": "Revoked API token",
+  "term.create": "Created term",
+  "term.update": "Updated term",
+  "lti.platform.create": "Registered LMS",
+  "lti.platform.delete": "Removed LMS",
+  "lti.deployment.add": "Added LMS deployment",
+  "lti.deployment.remove": "Removed LMS deployment",
+};
+
+// Fields worth showing when summarising what an action changed
+const SUMMARY_FIELDS = ["username", "ip", "failures", "lockedUntil", "forcedBy", "points", "feedback", "note", "name", "topic", "count", "studentId", "termId", "maxPerSession", "targetPoints", "taAwardLimit", "created", "enrolled", "unenrolled", "errors", "sent", "skipped", "failed", "url", "active", "eventType"];
+
+// Summarise an event's before/after JSON as "field: old → new" pairs
+function summarizeChanges(event: AuditEventWithActor): string {
+  const before = (event.before ?? {}) as Record<string, unknown>;
+  const after = (event.after ?? {}) as Record<string, unknown>;
+  const display = (value: unknown) => value === null || value === undefined || value === "" ? "—" : String(value);
+
+  const changes = SUMMARY_FIELDS
+    .filter(field => field in before || field in after)
+    .filter(field => !(field in before && field in after) || before[field] !== after[field])
+    .map(field => {
+      if (field in before && field in after) {
+        return `${field}: ${display(before[field])} → ${display(after[field])}`;
+      }
+      return `${field}: ${display(field in after ? after[field] : before[field])}`;
+    });
+
+  return changes.length > 0 ? changes.join(", ") : "-";
+}
+
+export default function ActivityLog({ selectedCourse }: ActivityLogProps) {
+  const { subscribe } = useWebSocket();
+  const [actionFilter, setActionFilter] = useState("all");
+
+  const { data: events, isLoading, refetch } = useAuditEvents({
+    courseId: selectedCourse.id,
+    action: actionFilter === "all" ? undefined : actionFilter,
+  });
+
+  // Any grading event in this course means there is a new entry to show
+  useEffect(() => {
+    const refresh = (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+      refetch();
+    };
+
+    const unsubscribes = [
+      "participationRequest",
+      "participationRequestDeactivated",
+      "participationRecordCreated",
+      "participationRecordUpdated",
+      "participationRecordsDeleted",
+      "participationRecordsRestored",
+      "sessionOpened",
+      "sessionClosed",
+    ].map(type => subscribe(type, refresh));
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [selectedCourse.id, subscribe, refetch]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center text-lg">
+            <HistoryIcon className="mr-2 h-5 w-5" />
+            Activity Log
+          </CardTitle>
+          <div className="flex items-center">
+            <label htmlFor="activity-action" className="text-sm mr-2">Action:</label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger id="activity-action" className="w-[200px] h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {Object.entries(ACTION_LABELS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <AuditEventTable events={events} isLoading={isLoading} />
+      </CardContent>
+    </Card>
+  );
+}
+
+// Button plus dialog for site admins: registrations, logins and other events that belong to no course
+export function SiteActivityLog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [actionFilter, setActionFilter] = useState("all");
+
+  const { data: events, isLoading } = useSiteAuditEvents(
+    { action: actionFilter === "all" ? undefined : actionFilter },
+    { enabled: isOpen }
+  );
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2" onClick={() => setIsOpen(true)}>
+        <ShieldCheck className="h-4 w-4" />
+        Site Activity
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Site Activity</DialogTitle>
+            <DialogDescription>
+              Account events that belong to no course: registrations, failed logins, password changes and LMS setup.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center">
+            <label htmlFor="site-activity-action" className="text-sm mr-2">Action:</label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger id="site-activity-action" className="w-[200px] h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {Object.entries(SITE_ACTION_LABELS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <AuditEventTable events={events} isLoading={isLoading} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+// The events, newest first, with who did what to which target
+function AuditEventTable({ events, isLoading }: { events: AuditEventWithActor[] | undefined; isLoading: boolean }) {
+  return isLoading ? (
+    <div className="py-4 text-center">
+      <RefreshCcw className="animate-spin h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+      <p className="text-muted-foreground">Loading activity...</p>
+    </div>
+  ) : events && events.length > 0 ? (
+    <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Time</TableHead>
+            <TableHead>Who</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead>Target</TableHead>
+            <TableHead>Changes</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {events.map((event) => (
+            <TableRow key={event.id}>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(event.timestamp), "MMM d, h:mm:ss a")}
+              </TableCell>
+              <TableCell>{event.actor?.name ?? "Unknown"}</TableCell>
+              <TableCell>{ACTION_LABELS[event.action] ?? SITE_ACTION_LABELS[event.action] ?? event.action}</TableCell>
+              <TableCell className="text-muted-foreground">
+                {event.targetType.replace(/_/g, " ")}
+                {event.targetId !== null && ` #${event.targetId}`}
+              </TableCell>
+              <TableCell className="text-sm">{summarizeChanges(event)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  ) : (
+    <div className="py-12 text-center">
+      <HistoryIcon className="mx-auto h-12 w-12 text-muted-foreground/50 mb-3" />
+      <p className="text-muted-foreground">No activity recorded yet</p>
+    </div>
+  );
+}
@@ -3,119 +3,218 @@ import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
 import { useWebSocket } from "@/lib/websocket";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Course, ParticipationRequestWithStudent, ParticipationRecordWithStudent } from "@shared/schema";
+import {
+  apiKeys,
+  useParticipationRequests,
+  useRubric,
+  useGrades,
+  usePaginatedParticipationRecords,
+  useStudentStats,
+  exportUrl,
+  deleteTodayParticipationRecords
+} from "@/lib/api";
+import { Course, ExportFormat, ParticipationRecordWithStudent, RubricCategory, StudentGrade, StudentStats, StudentStatsQuery } from "@shared/schema";
 import { format } from "date-fns";
-import { MessageSquare, RefreshCcw, Download as DownloadIcon, User as UserIcon, BarChart as ChartIcon, Clock as ClockIcon, Hand as HandIcon, Trash as TrashIcon } from "lucide-react";
+import { startOfDayInTimeZone } from "@shared/time-zone";
+import { Input } from "@/components/ui/input";
+import { MessageSquare, Pencil as PencilIcon, Check as CheckIcon, X as XIcon, Users as UsersIcon, RefreshCcw, Download as DownloadIcon, User as UserIcon, BarChart as ChartIcon, Clock as ClockIcon, Hand as HandIcon, Trash as TrashIcon, TrendingUp, TrendingDown, Minus as MinusIcon } from "lucide-react";
 import FeedbackModal from "@/components/feedback-modal";
+import ClassSessionControls from "@/components/class-session-controls";
+import { CourseRoster, CourseStaffList } from "@/components/course-management";
+import ActivityLog from "@/components/activity-log";
+import RubricEditor from "@/components/rubric-editor";
+import GradingPolicyDialog from "@/components/grading-policy";
+import RosterImportDialog from "@/components/roster-import";
+import RecordsPagination from "@/components/records-pagination";
+import RecentlyDeleted, { useRestoreParticipationRecords } from "@/components/recently-deleted";
+import CourseWebhooks from "@/components/webhooks";
+import { SendGradesToLms } from "@/components/lti";
+import { ToastAction } from "@/components/ui/toast";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 type AdminDashboardProps = {
   selectedCourse: Course;
 };
 
+const GRADEBOOK_EXPORTS: { format: ExportFormat; label: string }[] = [
+  { format: "canvas", label: "Canvas (CSV)" },
+  { format: "moodle", label: "Moodle (CSV)" },
+  { format: "blackboard", label: "Blackboard (CSV)" },
+];
+
+const RECORD_EXPORTS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "jsonl", label: "JSON Lines" },
+];
+
+// e.g. "B (84.5%)"
+function formatGrade(grade?: StudentGrade) {
+  return grade ? `${grade.letter} (${grade.percent}%)` : "-";
+}
+
+// Arrow showing a student's points against the previous period
+function TrendIndicator({ stats }: { stats: StudentStats }) {
+  if (stats.trend === null) return <span className="text-muted-foreground">-</span>;
+
+  const title = `${stats.previousPoints} point${stats.previousPoints !== 1 ? "s" : ""} in the previous period`;
+  if (stats.trend === "up") return <TrendingUp className="h-4 w-4 text-green-600" aria-label={title} />;
+  if (stats.trend === "down") return <TrendingDown className="h-4 w-4 text-red-600" aria-label={title} />;
+  return <MinusIcon className="h-4 w-4 text-muted-foreground" aria-label={title} />;
+}
+
 export default function AdminDashboard({ selectedCourse }: AdminDashboardProps) {
   const { user } = useAuth();
+  const { can, awardLimit } = usePermissions();
   const { toast } = useToast();
   const { subscribe } = useWebSocket();
-  const [selectedDateRange, setSelectedDateRange] = useState("month");
+  const [selectedDateRange, setSelectedDateRange] = useState<StudentStatsQuery["range"]>("month");
   const [feedbackModalOpen, setFeedbackModalOpen] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<{ id: number, name: string } | null>(null);
   const [selectedRequestId, setSelectedRequestId] = useState<number | null>(null);
+  const [editingRecordId, setEditingRecordId] = useState<number | null>(null);
+  const [editValues, setEditValues] = useState({ points: "", feedback: "", note: "" });
+  const { restoreBatch, restoreRecord } = useRestoreParticipationRecords(selectedCourse.id);
+
+  // Participation grades for the overview; they always cover the whole course, whatever the date range
+  const { data: courseGrades } = useGrades(selectedCourse.id);
+  const gradesByStudent = new Map(courseGrades?.grades.map((grade) => [grade.student.id, grade]));
+
+  // Quick-award buttons and the feedback modal offer the course's rubric categories, up to the role's award limit
+  const { data: rubric = [] } = useRubric(selectedCourse.id);
+  const limit = awardLimit(selectedCourse);
+  const awardableCategories = limit === null ? rubric : rubric.filter((category) => category.points <= limit);
 
   // Get participation requests (raised hands)
   const {
     data: participationRequests,
     isLoading: requestsLoading,
     refetch: refetchRequests
-  } = useQuery<ParticipationRequestWithStudent[]>({
-    queryKey: ["/api/participation-requests"],
+  } = useParticipationRequests(selectedCourse.id, {
     refetchInterval: 10000, // Refresh every 10 seconds as a backup
   });
 
-  // Get today's participation records (excludes hidden records)
-  const {
-    data: todayParticipationRecords,
-    isLoading: todayRecordsLoading,
-    refetch: refetchTodayRecords
-  } = useQuery<ParticipationRecordWithStudent[]>({
-    queryKey: ["/api/participation-records", { showHidden: false }],
+  // Get today's participation records a page at a time (excludes hidden records)
+  const todayRecordsPage = usePaginatedParticipationRecords({
+    courseId: selectedCourse.id,
+    from: startOfDayInTimeZone(new Date(), selectedCourse.timeZone),
   });
+  const {
+    records: todayParticipationRecords,
+    isLoading: todayRecordsLoading
+  } = todayRecordsPage;
 
-  // Get all participation records (for the overview, including hidden records)
+  // Per-student totals for the overview, aggregated on the server
   const {
-    data: allParticipationRecords,
-    isLoading: allRecordsLoading,
-    refetch: refetchAllRecords
-  } = useQuery<ParticipationRecordWithStudent[]>({
-    queryKey: ["/api/participation-records", { showHidden: true }],
-  });
+    data: overviewStats,
+    isLoading: overviewStatsLoading
+  } = useStudentStats(selectedCourse.id, selectedDateRange);
+  const studentStats = overviewStats?.students ?? [];
+
+  // Refresh every filtered view of this course's records, and the stats derived from them
+  const refreshRecords = () => {
+    queryClient.invalidateQueries({ queryKey: apiKeys.participationRecords({ courseId: selectedCourse.id }) });
+    queryClient.invalidateQueries({ queryKey: apiKeys.studentStats(selectedCourse.id) });
+    queryClient.invalidateQueries({ queryKey: apiKeys.grades(selectedCourse.id) });
+  };
 
   // Subscribe to WebSocket events
   useEffect(() => {
     // Subscribe to new participation requests
-    const requestSubscription = subscribe("participationRequest", () => {
+    const requestSubscription = subscribe("participationRequest", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
       console.log("Received new participation request");
       refetchRequests();
     });
 
     // Subscribe to participation request deactivations
-    const deactivationSubscription = subscribe("participationRequestDeactivated", () => {
+    const deactivationSubscription = subscribe("participationRequestDeactivated", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
       console.log("Participation request deactivated");
       refetchRequests();
     });
 
     // Subscribe to new participation records
-    const recordSubscription = subscribe("participationRecordCreated", () => {
+    const recordSubscription = subscribe("participationRecordCreated", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
       console.log("New participation record created");
-      refetchTodayRecords();
-      refetchAllRecords();
+      refreshRecords();
+    });
+
+    // Subscribe to edited or individually deleted participation records
+    const recordUpdatedSubscription = subscribe("participationRecordUpdated", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+      refreshRecords();
     });
 
     // Subscribe to deleted participation records
-    const recordsDeletedSubscription = subscribe("participationRecordsDeleted", () => {
+    const recordsDeletedSubscription = subscribe("participationRecordsDeleted", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
       console.log("Participation records deleted");
-      refetchTodayRecords();
-      refetchAllRecords();
+      refreshRecords();
+    });
+
+    // Subscribe to restored participation records
+    const recordsRestoredSubscription = subscribe("participationRecordsRestored", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+      refreshRecords();
+    });
+
+    // Subscribe to session closures, which clear the queue
+    const sessionClosedSubscription = subscribe("sessionClosed", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+      refetchRequests();
     });
 
     return () => {
       requestSubscription();
       deactivationSubscription();
+      sessionClosedSubscription();
       recordSubscription();
+      recordUpdatedSubscription();
       recordsDeletedSubscription();
+      recordsRestoredSubscription();
     };
-  }, [subscribe, refetchRequests, refetchTodayRecords, refetchAllRecords]);
+  }, [selectedCourse.id, subscribe, refetchRequests]);
 
-  // Handle assigning participation points
-  const handleAssignPoints = async (studentId: number, points: number, requestId: number) => {
+  // Handle assigning participation points for a rubric category
+  const handleAssignPoints = async (studentId: number, category: RubricCategory, requestId: number) => {
     try {
       await apiRequest("POST", "/api/participation-records", {
+        courseId: selectedCourse.id,
         studentId,
-        points,
+        categoryId: category.id,
+        points: category.points,
         requestId,
         feedback: "", // Add empty feedback to satisfy schema
-        note: "Quick participation points" // Add default note
+        note: category.name
       });
 
       toast({
         title: "Points Added",
-        description: `${points} participation point${points !== 1 ? 's' : ''} assigned successfully`,
+        description: `${category.points} participation point${category.points !== 1 ? 's' : ''} assigned for ${category.name}`,
       });
 
       // Refresh data
       refetchRequests();
-      refetchTodayRecords();
-      refetchAllRecords();
+      refreshRecords();
     } catch (error) {
       console.error("Error assigning points:", error);
       toast({
         title: "Error",
-        description: "Failed to assign participation points",
+        description: error instanceof Error ? error.message : "Failed to assign participation points",
         variant: "destructive",
       });
     }
@@ -129,14 +228,17 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
   };
 
   // Handle feedback submission
-  const handleFeedbackSubmit = async (feedback: string, points: number) => {
+  const handleFeedbackSubmit = async (feedback: string, category: RubricCategory) => {
     if (!selectedStudent) return;
 
     try {
       await apiRequest("POST", "/api/participation-records", {
+        courseId: selectedCourse.id,
         studentId: selectedStudent.id,
-        points,
+        categoryId: category.id,
+        points: category.points,
         feedback,
+        note: category.name,
         requestId: selectedRequestId
       });
 
@@ -147,12 +249,11 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
 
       // Refresh data
       refetchRequests();
-      refetchTodayRecords();
-      refetchAllRecords();
+      refreshRecords();
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save feedback",
+        description: error instanceof Error ? error.message : "Failed to save feedback",
         variant: "destructive",
       });
     }
@@ -163,22 +264,23 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
   // Export participation data
   // Handle deletion of today's participation records
   const handleDeleteTodayRecords = async () => {
-    if (!window.confirm("Are you sure you want to delete all of today's participation records? This action cannot be undone.")) {
+    if (!window.confirm("Are you sure you want to delete all of today's participation records? You can undo this or restore them later from Recently Deleted.")) {
       return;
     }
 
     try {
-      const response = await apiRequest("DELETE", "/api/participation-records/today");
-      const data = await response.json();
+      const data = await deleteTodayParticipationRecords(selectedCourse.id);
 
       toast({
         title: "Records Deleted",
         description: `${data.count} participation record(s) from today have been deleted`,
+        action: data.count > 0 && data.batchId ? (
+          <ToastAction altText="Undo delete" onClick={() => restoreBatch(data.batchId!)}>Undo</ToastAction>
+        ) : undefined,
       });
 
       // Refresh data
-      refetchTodayRecords();
-      refetchAllRecords();
+      refreshRecords();
     } catch (error) {
       console.error("Error deleting records:", error);
       toast({
@@ -189,117 +291,83 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
     }
   };
 
-  const handleExportData = () => {
-    if (!allParticipationRecords) return;
-
-    // Format the data for export
-    const headers = ['Student', 'Points', 'Time', 'Date', 'Note', 'Feedback'];
-    const csvRows = [headers];
-
-    allParticipationRecords.forEach((record: ParticipationRecordWithStudent) => {
-      const row = [
-        record.student.name,
-        String(record.points),
-        format(new Date(record.timestamp), 'h:mm a'),
-        format(new Date(record.timestamp), 'MMM d, yyyy'),
-        record.note || '',
-        record.feedback || ''
-      ];
-      csvRows.push(row);
-    });
-
-    // Convert to CSV
-    const csvContent = csvRows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
-
-    // Create a download link
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `participation_${selectedCourse.name}_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    toast({
-      title: "Export Complete",
-      description: "Participation data has been downloaded as a CSV file",
+  // Start editing a record inline
+  const handleStartEdit = (record: ParticipationRecordWithStudent) => {
+    setEditingRecordId(record.id);
+    setEditValues({
+      points: String(record.points),
+      feedback: record.feedback || "",
+      note: record.note || ""
     });
   };
 
-  // Function to calculate student participation statistics
-  const calculateStudentStats = () => {
-    if (!allParticipationRecords) return [];
-
-    // Calculate the filter date based on selectedDateRange
-    const now = new Date();
-    const filterDate = new Date();
-
-    if (selectedDateRange === "week") {
-      filterDate.setDate(now.getDate() - 7);
-    } else if (selectedDateRange === "month") {
-      filterDate.setMonth(now.getMonth() - 1);
-    } else {
-      // "semester" - show all records from beginning of year
-      filterDate.setFullYear(now.getFullYear(), 0, 1); // Jan 1 of current year
+  // Save the inline edits of a record
+  const handleSaveEdit = async (recordId: number) => {
+    const points = parseInt(editValues.points);
+    if (isNaN(points)) {
+      toast({
+        title: "Invalid points",
+        description: "Points must be a whole number",
+        variant: "destructive",
+      });
+      return;
     }
 
-    // Filter records based on date range
-    const filteredRecords = allParticipationRecords.filter(
-      (record: ParticipationRecordWithStudent) => new Date(record.timestamp) >= filterDate
-    );
-
-    const studentMap: Record<number, {
-      id: number,
-      name: string,
-      username: string,
-      totalPoints: number,
-      participationCount: number,
-      lastParticipation: Date | null
-    }> = {};
-
-    filteredRecords.forEach((record: ParticipationRecordWithStudent) => {
-      const { student, points, timestamp } = record;
-
-      if (!studentMap[student.id]) {
-        studentMap[student.id] = {
-          id: student.id,
-          name: student.name,
-          username: student.username,
-          totalPoints: 0,
-          participationCount: 0,
-          lastParticipation: null
-        };
-      }
-
-      studentMap[student.id].totalPoints += points;
-      studentMap[student.id].participationCount += 1;
-
-      const recordDate = new Date(timestamp);
-      if (!studentMap[student.id].lastParticipation ||
-        (studentMap[student.id].lastParticipation && recordDate > studentMap[student.id].lastParticipation)) {
-        studentMap[student.id].lastParticipation = recordDate;
-      }
-    });
+    try {
+      await apiRequest("PATCH", `/api/participation-records/${recordId}`, {
+        points,
+        feedback: editValues.feedback.trim() || null,
+        note: editValues.note.trim() || null
+      });
 
-    return Object.values(studentMap).sort((a, b) => b.totalPoints - a.totalPoints);
+      toast({
+        title: "Record Updated",
+        description: "The participation record has been corrected",
+      });
+
+      setEditingRecordId(null);
+      refreshRecords();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update participation record",
+        variant: "destructive",
+      });
+    }
   };
 
-  // Get student statistics
-  const studentStats = calculateStudentStats();
+  // Delete a single record
+  const handleDeleteRecord = async (record: ParticipationRecordWithStudent) => {
+    if (!window.confirm(`Delete this participation record for ${record.student.name}?`)) {
+      return;
+    }
+
+    try {
+      await apiRequest("DELETE", `/api/participation-records/${record.id}`);
 
-  // Filter today's participation records to only show current day
-  const todayOnlyRecords = todayParticipationRecords?.filter(
-    (record: ParticipationRecordWithStudent) => {
-      const recordDate = new Date(record.timestamp);
-      const today = new Date();
-      return recordDate.toDateString() === today.toDateString();
+      toast({
+        title: "Record Deleted",
+        description: "The participation record has been deleted",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreRecord(record.id)}>Undo</ToastAction>
+        ),
+      });
+
+      refreshRecords();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete participation record",
+        variant: "destructive",
+      });
     }
-  );
+  };
 
   return (
     <div className="space-y-6">
+      {/* Open / close the class session */}
+      <ClassSessionControls selectedCourse={selectedCourse} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Participation queue */}
         <Card>
@@ -337,23 +405,18 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                           {request.note || "Wants to participate"}
                         </p>
                       </div>
-                      <div className="flex">
-                        <Button
-                          size="sm"
-                          className="mr-2"
-                          variant="secondary"
-                          onClick={() => handleAssignPoints(request.student.id, 1, request.id)}
-                        >
-                          +1
-                        </Button>
-                        <Button
-                          size="sm"
-                          className="mr-2"
-                          variant="secondary"
-                          onClick={() => handleAssignPoints(request.student.id, 2, request.id)}
-                        >
-                          +2
-                        </Button>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        {awardableCategories.map((category) => (
+                          <Button
+                            key={category.id}
+                            size="sm"
+                            variant="secondary"
+                            title={category.name}
+                            onClick={() => handleAssignPoints(request.student.id, category, request.id)}
+                          >
+                            +{category.points} {category.name}
+                          </Button>
+                        ))}
                         <Button
                           size="sm"
                           variant="ghost"
@@ -388,24 +451,43 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                 Today's Participation
               </CardTitle>
               <div className="flex space-x-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="flex items-center text-sm"
-                  onClick={handleDeleteTodayRecords}
-                >
-                  <TrashIcon className="h-3 w-3 mr-1" />
-                  Delete All
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="flex items-center text-sm"
-                  onClick={handleExportData}
-                >
-                  <DownloadIcon className="h-3 w-3 mr-1" />
-                  Export
-                </Button>
+                {can("records:delete") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex items-center text-sm"
+                    onClick={handleDeleteTodayRecords}
+                  >
+                    <TrashIcon className="h-3 w-3 mr-1" />
+                    Delete All
+                  </Button>
+                )}
+                {can("grades:publish") && <SendGradesToLms course={selectedCourse} />}
+                {can("records:export") && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="outline" className="flex items-center text-sm">
+                        <DownloadIcon className="h-3 w-3 mr-1" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Gradebook</DropdownMenuLabel>
+                      {GRADEBOOK_EXPORTS.map(({ format, label }) => (
+                        <DropdownMenuItem key={format} asChild>
+                          <a href={exportUrl(selectedCourse.id, format)} download>{label}</a>
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>All records</DropdownMenuLabel>
+                      {RECORD_EXPORTS.map(({ format, label }) => (
+                        <DropdownMenuItem key={format} asChild>
+                          <a href={exportUrl(selectedCourse.id, format)} download>{label}</a>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -415,7 +497,7 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                 <RefreshCcw className="animate-spin h-6 w-6 mx-auto mb-2 text-muted-foreground" />
                 <p className="text-muted-foreground">Loading participation data...</p>
               </div>
-            ) : todayOnlyRecords && todayOnlyRecords.length > 0 ? (
+            ) : todayParticipationRecords.length > 0 ? (
               <div className="overflow-y-auto max-h-[400px]">
                 <Table>
                   <TableHeader>
@@ -424,11 +506,51 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                       <TableHead>Points</TableHead>
                       <TableHead>Time</TableHead>
                       <TableHead>Feedback</TableHead>
+                      <TableHead></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {todayOnlyRecords
-                      .map((record: ParticipationRecordWithStudent) => (
+                    {todayParticipationRecords
+                      .map((record: ParticipationRecordWithStudent) => editingRecordId === record.id ? (
+                        <TableRow key={record.id}>
+                          <TableCell className="font-medium">
+                            {record.student.name}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              className="w-16 h-8"
+                              value={editValues.points}
+                              onChange={(e) => setEditValues({ ...editValues, points: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {record.timestamp ? format(new Date(record.timestamp), "h:mm a") : ""}
+                          </TableCell>
+                          <TableCell className="space-y-1">
+                            <Input
+                              className="h-8"
+                              placeholder="Feedback"
+                              value={editValues.feedback}
+                              onChange={(e) => setEditValues({ ...editValues, feedback: e.target.value })}
+                            />
+                            <Input
+                              className="h-8"
+                              placeholder="Note"
+                              value={editValues.note}
+                              onChange={(e) => setEditValues({ ...editValues, note: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            <Button size="sm" variant="ghost" title="Save" onClick={() => handleSaveEdit(record.id)}>
+                              <CheckIcon className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" title="Cancel" onClick={() => setEditingRecordId(null)}>
+                              <XIcon className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ) : (
                         <TableRow key={record.id}>
                           <TableCell className="font-medium">
                             {record.student.name}
@@ -444,10 +566,29 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                           <TableCell className="text-muted-foreground max-w-xs truncate">
                             {record.feedback || (record.note || "-")}
                           </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {can("records:edit") && (
+                              <Button size="sm" variant="ghost" title="Edit record" onClick={() => handleStartEdit(record)}>
+                                <PencilIcon className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("records:delete") && (
+                              <Button size="sm" variant="ghost" title="Delete record" onClick={() => handleDeleteRecord(record)}>
+                                <TrashIcon className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))}
                   </TableBody>
                 </Table>
+                <RecordsPagination
+                  pageNumber={todayRecordsPage.pageNumber}
+                  hasPreviousPage={todayRecordsPage.hasPreviousPage}
+                  hasNextPage={todayRecordsPage.hasNextPage}
+                  onPrevious={todayRecordsPage.previousPage}
+                  onNext={todayRecordsPage.nextPage}
+                />
               </div>
             ) : (
               <div className="py-12 text-center">
@@ -471,10 +612,15 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
               Class Participation Overview
             </CardTitle>
             <div className="flex items-center">
+              {can("grading:manage") && (
+                <div className="mr-4">
+                  <GradingPolicyDialog selectedCourse={selectedCourse} />
+                </div>
+              )}
               <label htmlFor="date-range" className="text-sm mr-2">Date Range:</label>
               <Select
                 value={selectedDateRange}
-                onValueChange={(value) => setSelectedDateRange(value)}
+                onValueChange={(value) => setSelectedDateRange(value as StudentStatsQuery["range"])}
               >
                 <SelectTrigger className="w-[130px] h-8 text-sm">
                   <SelectValue />
@@ -482,14 +628,14 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                 <SelectContent>
                   <SelectItem value="week">Past Week</SelectItem>
                   <SelectItem value="month">Past Month</SelectItem>
-                  <SelectItem value="semester">Full Semester</SelectItem>
+                  <SelectItem value="semester">Full Term</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
         </CardHeader>
         <CardContent>
-          {allRecordsLoading ? (
+          {overviewStatsLoading ? (
             <div className="py-4 text-center">
               <RefreshCcw className="animate-spin h-6 w-6 mx-auto mb-2 text-muted-foreground" />
               <p className="text-muted-foreground">Loading overview data...</p>
@@ -503,29 +649,36 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
                     <TableHead>Total Points</TableHead>
                     <TableHead>Participation Count</TableHead>
                     <TableHead>Last Participation</TableHead>
+                    <TableHead>Percentile</TableHead>
+                    <TableHead>Grade</TableHead>
+                    <TableHead>Trend</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {studentStats.map((student) => (
-                    <TableRow key={student.id}>
-                      <TableCell className="font-medium">{student.name}</TableCell>
-                      <TableCell>{student.totalPoints}</TableCell>
-                      <TableCell>{student.participationCount}</TableCell>
+                  {studentStats.map((stats) => (
+                    <TableRow key={stats.student.id}>
+                      <TableCell className="font-medium">{stats.student.name}</TableCell>
+                      <TableCell>{stats.totalPoints}</TableCell>
+                      <TableCell>{stats.participationCount}</TableCell>
                       <TableCell>
-                        {student.lastParticipation
-                          ? format(student.lastParticipation, "MMM d, h:mm a")
+                        {stats.lastParticipation
+                          ? format(new Date(stats.lastParticipation), "MMM d, h:mm a")
                           : "-"
                         }
                       </TableCell>
+                      <TableCell>{stats.percentileRank}</TableCell>
+                      <TableCell>
+                        {formatGrade(gradesByStudent.get(stats.student.id))}
+                      </TableCell>
+                      <TableCell>
+                        <TrendIndicator stats={stats} />
+                      </TableCell>
                       <TableCell>
                         <Button
                           size="sm"
                           variant="ghost"
-                          onClick={() => handleOpenFeedbackModal({
-                            id: student.id,
-                            name: student.name
-                          })}
+                          onClick={() => handleOpenFeedbackModal(stats.student)}
                           title="Add feedback"
                         >
                           <MessageSquare className="h-4 w-4" />
@@ -539,15 +692,58 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
           ) : (
             <div className="py-12 text-center">
               <ChartIcon className="mx-auto h-12 w-12 text-muted-foreground/50 mb-3" />
-              <p className="text-muted-foreground">No participation data available</p>
+              <p className="text-muted-foreground">No students enrolled yet</p>
               <p className="text-sm text-muted-foreground mt-1">
-                Students' participation stats will appear here
+                Students' participation stats will appear here once they join the course
               </p>
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Course roster */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center text-lg">
+              <UsersIcon className="mr-2 h-5 w-5" />
+              Course Roster
+            </CardTitle>
+            {can("roster:manage") && <RosterImportDialog course={selectedCourse} />}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <CourseRoster course={selectedCourse} />
+        </CardContent>
+      </Card>
+
+      {/* TAs and what they're allowed to award */}
+      {can("staff:manage") && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center text-lg">
+              <UsersIcon className="mr-2 h-5 w-5" />
+              Course Staff
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CourseStaffList course={selectedCourse} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Soft-deleted records that can still be restored */}
+      {can("records:delete") && <RecentlyDeleted selectedCourse={selectedCourse} />}
+
+      {/* Point categories used by the award buttons */}
+      {can("grading:manage") && <RubricEditor selectedCourse={selectedCourse} />}
+
+      {/* Course events posted to the professor's integrations */}
+      {can("webhooks:manage") && <CourseWebhooks selectedCourse={selectedCourse} />}
+
+      {/* Audit trail of grading actions */}
+      {can("audit:view") && <ActivityLog selectedCourse={selectedCourse} />}
+
       {/* Feedback Modal */}
       {feedbackModalOpen && selectedStudent && (
         <FeedbackModal
@@ -555,6 +751,7 @@ export default function AdminDashboard({ selectedCourse }: AdminDashboardProps)
           onClose={() => setFeedbackModalOpen(false)}
           onSubmit={handleFeedbackSubmit}
           studentName={selectedStudent.name}
+          categories={awardableCategories}
         />
       )}
     </div>
@@ -1,16 +1,20 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
-import { insertUserSchema } from "@shared/schema";
+import { Link } from "wouter";
+import { InvitationRole, LoginLockout, SsoErrorCode, registerUserSchema } from "@shared/schema";
+import { useAuthProviders, useInvitationPreview } from "@/lib/api";
+import { ApiError } from "@/lib/queryClient";
+import { format } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 const loginSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -19,21 +23,55 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
-const registerSchema = insertUserSchema.extend({
-  password: z.string().min(6, "Password must be at least 6 characters"),
+const registerSchema = registerUserSchema.extend({
   confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
-  role: z.enum(["admin", "student"]),
-  professorCode: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords do not match",
   path: ["confirmPassword"],
 });
 
+// Invitation links look like /auth?invite=<token>
+function getInviteToken(): string | null {
+  return new URLSearchParams(window.location.search).get("invite");
+}
+
+const SSO_ERROR_MESSAGES: Record<SsoErrorCode, string> = {
+  denied: "Your SSO provider didn't sign you in.",
+  expired: "This SSO login has expired. Please try again.",
+  no_email: "Your account didn't share an email address, so it can't be signed in.",
+  unverified_email: "Your email address hasn't been verified, so it can't be linked to your account.",
+  privileged_email: "Your email address belongs to an account with more access than your role here, so it can't be linked.",
+  link_required: "Your email address belongs to an existing account. Sign in with its password below to link your login to it, or reset the password if you don't know it.",
+  no_role: "Your account doesn't have a role that can use ClassParticipate.",
+  failed: "Signing in with SSO failed. Please try again.",
+};
+
+// A failed SSO login comes back as /auth?ssoError=<code>; only known codes are worded, so the link can't put text on the page
+function getSsoError(): string | null {
+  const code = new URLSearchParams(window.location.search).get("ssoError");
+  if (code === null) return null;
+  return Object.hasOwn(SSO_ERROR_MESSAGES, code) ? SSO_ERROR_MESSAGES[code as SsoErrorCode] : SSO_ERROR_MESSAGES.failed;
+}
+
+const INVITED_ROLES: Record<InvitationRole, string> = {
+  admin: "a professor",
+  ta: "a TA",
+  student: "a student",
+};
+
 type RegisterFormData = z.infer<typeof registerSchema>;
 
 export default function AuthForms() {
-  const [activeTab, setActiveTab] = useState<string>("login");
+  const [inviteToken] = useState(getInviteToken);
+  const [ssoError] = useState(getSsoError);
+  const [activeTab, setActiveTab] = useState<string>(inviteToken ? "register" : "login");
   const { loginMutation, registerMutation } = useAuth();
+  const { data: invitation, error: invitationError } = useInvitationPreview(inviteToken);
+  const { data: providers } = useAuthProviders();
+  // Set while failed logins make this account or network wait
+  const lockout = loginMutation.error instanceof ApiError && loginMutation.error.status === 429
+    ? (loginMutation.error.body as LoginLockout)
+    : null;
 
   // Login form
   const loginForm = useForm<LoginFormData>({
@@ -53,13 +91,15 @@ export default function AuthForms() {
       name: "",
       password: "",
       confirmPassword: "",
-      role: "student",
-      professorCode: "",
     },
   });
 
-  // Watch role value to conditionally show professor code field
-  const watchRole = registerForm.watch("role");
+  // An invitation for one address fills it in
+  useEffect(() => {
+    if (invitation?.email) {
+      registerForm.setValue("email", invitation.email);
+    }
+  }, [invitation, registerForm]);
 
   // Handle login form submission
   const onLoginSubmit = (data: LoginFormData) => {
@@ -68,9 +108,8 @@ export default function AuthForms() {
 
   // Handle register form submission
   const onRegisterSubmit = (data: RegisterFormData) => {
-    // Remove confirmPassword but keep professorCode for admin role verification
     const { confirmPassword, ...registerData } = data;
-    registerMutation.mutate(registerData);
+    registerMutation.mutate({ ...registerData, inviteToken: inviteToken ?? undefined });
   };
 
   return (
@@ -89,6 +128,17 @@ export default function AuthForms() {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {ssoError && !lockout && (
+              <p className="mb-4 text-sm text-destructive">{ssoError}</p>
+            )}
+            {lockout && (
+              <div className="mb-4 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-sm text-destructive">
+                <p>{lockout.message}</p>
+                <p className="mt-1 text-xs">
+                  Logins are accepted again at {format(new Date(lockout.lockedUntil), "h:mm:ss a")}.
+                </p>
+              </div>
+            )}
             <Form {...loginForm}>
               <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
                 <FormField
@@ -110,7 +160,12 @@ export default function AuthForms() {
                   name="password"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Password</FormLabel>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Password</FormLabel>
+                        <Link href="/reset-password" className="text-sm text-primary hover:underline">
+                          Forgot password?
+                        </Link>
+                      </div>
                       <FormControl>
                         <Input type="password" {...field} />
                       </FormControl>
@@ -128,6 +183,19 @@ export default function AuthForms() {
                 </Button>
               </form>
             </Form>
+            {providers?.sso && (
+              <>
+                <div className="my-4 flex items-center gap-2 text-xs uppercase text-muted-foreground">
+                  <Separator className="flex-1" />
+                  or
+                  <Separator className="flex-1" />
+                </div>
+                {/* A full page load: the server redirects to the SSO provider and back */}
+                <Button variant="outline" className="w-full" asChild>
+                  <a href="/api/auth/oidc/login">Sign in with {providers.sso.name}</a>
+                </Button>
+              </>
+            )}
           </CardContent>
           <CardFooter className="flex justify-center">
             <p className="text-sm text-muted-foreground">
@@ -145,8 +213,13 @@ export default function AuthForms() {
           <CardHeader>
             <CardTitle>Register</CardTitle>
             <CardDescription>
-              Create a new account to start using ClassParticipate
+              {invitation
+                ? `You've been invited to join ${invitation.course ? invitation.course.name : "ClassParticipate"} as ${INVITED_ROLES[invitation.role]}`
+                : "Create a new account to start using ClassParticipate"}
             </CardDescription>
+            {invitationError && (
+              <p className="text-sm text-destructive">{invitationError.message}</p>
+            )}
           </CardHeader>
           <CardContent>
             <Form {...registerForm}>
@@ -193,28 +266,6 @@ export default function AuthForms() {
                   )}
                 />
 
-                <FormField
-                  control={registerForm.control}
-                  name="role"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Role</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select a role" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="student">Student</SelectItem>
-                          <SelectItem value="admin">Professor/TA</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
                 <FormField
                   control={registerForm.control}
                   name="password"
@@ -243,23 +294,6 @@ export default function AuthForms() {
                   )}
                 />
 
-                {/* Only show professor code field if role is admin */}
-                {registerForm.watch("role") === "admin" && (
-                  <FormField
-                    control={registerForm.control}
-                    name="professorCode"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Professor Verification Code</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="Enter verification code" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                )}
-
                 <Button
                   type="submit"
                   className="w-full"
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeys, useCurrentClassSessionQuery } from "@/lib/api";
+import { useWebSocket } from "@/lib/websocket";
+import { useToast } from "@/hooks/use-toast";
+import { ClassSession, Course } from "@shared/schema";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Play as PlayIcon, Square as StopIcon, CalendarClock } from "lucide-react";
+
+type ClassSessionControlsProps = {
+  selectedCourse: Course;
+};
+
+// Shared hook for the open class session of a course, kept fresh over the WebSocket
+export function useCurrentClassSession(courseId: number) {
+  const { subscribe } = useWebSocket();
+  const query = useCurrentClassSessionQuery(courseId);
+
+  useEffect(() => {
+    const refresh = (payload: ClassSession) => {
+      if (payload.courseId !== courseId) return;
+      queryClient.invalidateQueries({ queryKey: apiKeys.currentClassSession(courseId) });
+    };
+
+    const openedUnsubscribe = subscribe("sessionOpened", refresh);
+    const closedUnsubscribe = subscribe("sessionClosed", refresh);
+
+    return () => {
+      openedUnsubscribe();
+      closedUnsubscribe();
+    };
+  }, [courseId, subscribe]);
+
+  return query;
+}
+
+export default function ClassSessionControls({ selectedCourse }: ClassSessionControlsProps) {
+  const { toast } = useToast();
+  const [topic, setTopic] = useState("");
+  const { data: currentSession, isLoading } = useCurrentClassSession(selectedCourse.id);
+  const sessionKey = apiKeys.currentClassSession(selectedCourse.id);
+
+  const openSessionMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/class-sessions", {
+        courseId: selectedCourse.id,
+        topic: topic.trim() || undefined
+      });
+      return await res.json();
+    },
+    onSuccess: (session: ClassSession) => {
+      queryClient.setQueryData(sessionKey, session);
+      setTopic("");
+      toast({
+        title: "Session Started",
+        description: "Students can now raise their hands.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeSessionMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      const res = await apiRequest("POST", `/api/class-sessions/${sessionId}/close`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(sessionKey, null);
+      queryClient.invalidateQueries({ queryKey: apiKeys.participationRequests(selectedCourse.id) });
+      toast({
+        title: "Session Closed",
+        description: "The participation queue has been cleared.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to close session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center text-lg">
+            <CalendarClock className="mr-2 h-5 w-5" />
+            Class Session
+          </CardTitle>
+          {currentSession ? (
+            <Badge className="bg-green-500 text-white">In session</Badge>
+          ) : (
+            <Badge variant="outline">Not in session</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading session...</p>
+        ) : currentSession ? (
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <p className="font-medium">{currentSession.topic || "Untitled session"}</p>
+              <p className="text-sm text-muted-foreground">
+                Started at {format(new Date(currentSession.startedAt), "h:mm a")}
+              </p>
+            </div>
+            <Button
+              variant="destructive"
+              onClick={() => closeSessionMutation.mutate(currentSession.id)}
+              disabled={closeSessionMutation.isPending}
+            >
+              <StopIcon className="mr-2 h-4 w-4" />
+              {closeSessionMutation.isPending ? "Closing..." : "Close Session"}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-3">
+            <Input
+              placeholder="Topic for today (optional)"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              className="md:max-w-md"
+            />
+            <Button
+              onClick={() => openSessionMutation.mutate()}
+              disabled={openSessionMutation.isPending}
+            >
+              <PlayIcon className="mr-2 h-4 w-4" />
+              {openSessionMutation.isPending ? "Starting..." : "Start Session"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState, useCallback } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Course, InsertCourse, insertCourseSchema, insertStudentCourseSchema } from "@shared/schema";
+import { apiKeys, useCourseStaff, useCourseStudents } from "@/lib/api";
+import { Course, ForcedPasswordReset, PublicCourse, insertCourseSchema } from "@shared/schema";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { toast } from "@/hooks/use-toast";
+import { TermSelect } from "@/components/terms-management";
+import { ManageInvitations } from "@/components/invitations";
+import { DEFAULT_TIME_ZONE } from "@shared/time-zone";
 
 import {
   Dialog,
@@ -27,10 +31,39 @@ import {
 } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { PlusCircle, LogIn, School } from "lucide-react";
+import { PlusCircle, LogIn, School, RefreshCcw, UserMinus, Users, KeyRound } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
+// Every zone the browser knows, with UTC first (some browsers leave it out)
+const TIME_ZONES = [
+  DEFAULT_TIME_ZONE,
+  ...Intl.supportedValuesOf("timeZone").filter((timeZone) => timeZone !== DEFAULT_TIME_ZONE),
+];
+
+function TimeZoneSelect({ value, onChange, disabled, className }: {
+  value: string;
+  onChange: (timeZone: string) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select a time zone" />
+      </SelectTrigger>
+      <SelectContent>
+        {TIME_ZONES.map((timeZone) => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {timeZone.replace(/_/g, " ")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 // Create course component
 export function CreateCourse() {
   const [isOpen, setIsOpen] = useState(false);
@@ -49,6 +82,9 @@ export function CreateCourse() {
     defaultValues: {
       name: "",
       description: "",
+      termId: null,
+      // Most courses are taught where they are set up
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     },
   });
 
@@ -152,6 +188,34 @@ export function CreateCourse() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="termId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Term</FormLabel>
+                    <TermSelect value={field.value} onChange={field.onChange} />
+                    <FormDescription>
+                      Date ranges and statistics for the course are limited to its term.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timeZone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Zone</FormLabel>
+                    <TimeZoneSelect value={field.value ?? DEFAULT_TIME_ZONE} onChange={field.onChange} />
+                    <FormDescription>
+                      Where the class meets. Decides when each day starts for "today" and date ranges.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <DialogFooter>
                 <Button type="submit" disabled={createCourseMutation.isPending}>
                   {createCourseMutation.isPending ? "Creating..." : "Create Course"}
@@ -170,19 +234,23 @@ export function JoinCourse() {
   const [isOpen, setIsOpen] = useState(false);
   const queryClient = useQueryClient();
   const { user } = useAuth();
+  // Join codes are for students; TAs join the courses they're invited to
+  const canUseJoinCode = user?.role === "student";
 
   // Fetch all available courses
-  const { data: availableCourses, isLoading } = useQuery<Course[]>({
+  const { data: availableCourses, isLoading } = useQuery<PublicCourse[]>({
     queryKey: ["/api/all-courses"],
+    enabled: canUseJoinCode,
   });
 
   // Fetch student's enrolled courses to filter out already joined ones
-  const { data: enrolledCourses } = useQuery<Course[]>({
+  const { data: enrolledCourses } = useQuery<PublicCourse[]>({
     queryKey: ["/api/courses"],
   });
 
   const enrollCourseSchema = z.object({
     courseId: z.string().min(1, "Please select a course"),
+    joinCode: z.string().trim().min(1, "Please enter the join code"),
   });
 
   type EnrollCourseFormData = z.infer<typeof enrollCourseSchema>;
@@ -191,6 +259,7 @@ export function JoinCourse() {
     resolver: zodResolver(enrollCourseSchema),
     defaultValues: {
       courseId: "",
+      joinCode: "",
     },
   });
 
@@ -199,8 +268,8 @@ export function JoinCourse() {
       try {
         console.log("Sending enrollment data to API:", data);
         const res = await apiRequest("POST", "/api/enrollments", {
-          studentId: user?.id,
           courseId: parseInt(data.courseId),
+          joinCode: data.joinCode,
         });
         
         // Check if the response is OK
@@ -241,6 +310,31 @@ export function JoinCourse() {
     enrollCourseMutation.mutate(data);
   }
 
+  // A one-time code from an invitation enrolls straight into its course
+  const [invitationCode, setInvitationCode] = useState("");
+  const acceptInvitationMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", "/api/invitations/accept", { token });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setIsOpen(false);
+      setInvitationCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      toast({
+        title: "Enrolled successfully",
+        description: "You have joined the course successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to join course",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter out courses the student is already enrolled in
   const filteredCourses = availableCourses?.filter(
     (course) => !enrolledCourses?.some((enrolled) => enrolled.id === course.id)
@@ -258,85 +352,433 @@ export function JoinCourse() {
           <DialogHeader>
             <DialogTitle>Join a Course</DialogTitle>
             <DialogDescription>
-              Select a course to join from the list of available courses.
+              {canUseJoinCode
+                ? "Select a course and enter the join code your professor shared."
+                : "Paste the code from the invitation your professor sent you."}
             </DialogDescription>
           </DialogHeader>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="courseId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Available Courses</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+          {canUseJoinCode && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="courseId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Available Courses</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a course to join" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {isLoading ? (
+                            <SelectItem value="loading" disabled>
+                              Loading courses...
+                            </SelectItem>
+                          ) : filteredCourses && filteredCourses.length > 0 ? (
+                            filteredCourses.map((course) => (
+                              <SelectItem key={course.id} value={String(course.id)}>
+                                {course.name}
+                              </SelectItem>
+                            ))
+                          ) : (
+                            <SelectItem value="none" disabled>
+                              No available courses to join
+                            </SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Choose from the list of courses you can join.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="joinCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Join Code</FormLabel>
                       <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a course to join" />
-                        </SelectTrigger>
+                        <Input placeholder="e.g. 3FA9C21B" className="uppercase" {...field} />
                       </FormControl>
-                      <SelectContent>
-                        {isLoading ? (
-                          <SelectItem value="loading" disabled>
-                            Loading courses...
-                          </SelectItem>
-                        ) : filteredCourses && filteredCourses.length > 0 ? (
-                          filteredCourses.map((course) => (
-                            <SelectItem key={course.id} value={String(course.id)}>
-                              {course.name}
-                            </SelectItem>
-                          ))
-                        ) : (
-                          <SelectItem value="none" disabled>
-                            No available courses to join
-                          </SelectItem>
-                        )}
-                      </SelectContent>
-                    </Select>
-                    <FormDescription>
-                      Choose from the list of courses you can join.
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button
+                    type="submit"
+                    disabled={enrollCourseMutation.isPending || !filteredCourses || filteredCourses.length === 0}
+                  >
+                    {enrollCourseMutation.isPending ? "Joining..." : "Join Course"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          )}
+
+          <div className={canUseJoinCode ? "space-y-2 border-t pt-4" : "space-y-2"}>
+            <Label htmlFor="invitation-code">
+              {canUseJoinCode ? "Have a one-time enrollment code?" : "Invitation code"}
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="invitation-code"
+                placeholder="Paste the code from your invitation"
+                value={invitationCode}
+                onChange={(e) => setInvitationCode(e.target.value)}
               />
-              <DialogFooter>
-                <Button
-                  type="submit"
-                  disabled={enrollCourseMutation.isPending || !filteredCourses || filteredCourses.length === 0}
-                >
-                  {enrollCourseMutation.isPending ? "Joining..." : "Join Course"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </Form>
+              <Button
+                variant="outline"
+                onClick={() => acceptInvitationMutation.mutate(invitationCode.trim())}
+                disabled={acceptInvitationMutation.isPending || !invitationCode.trim()}
+              >
+                {acceptInvitationMutation.isPending ? "Joining..." : "Redeem"}
+              </Button>
+            </div>
+          </div>
         </DialogContent>
       </Dialog>
     </>
   );
 }
 
+// Join code display with a button to issue a new one
+export function CourseJoinCode({ course }: { course: Course }) {
+  const queryClient = useQueryClient();
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/courses/${course.id}/join-code`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      toast({
+        title: "Join code updated",
+        description: "The previous join code no longer works.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update join code",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-2xl font-bold font-mono">{course.joinCode}</span>
+      <Button
+        size="sm"
+        variant="ghost"
+        title="Generate a new join code"
+        onClick={() => regenerateMutation.mutate()}
+        disabled={regenerateMutation.isPending}
+      >
+        <RefreshCcw className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+// The course's time zone; admins can change it
+export function CourseTimeZone({ course, editable }: { course: Pick<Course, "id" | "timeZone">; editable?: boolean }) {
+  const queryClient = useQueryClient();
+
+  const updateTimeZoneMutation = useMutation({
+    mutationFn: async (timeZone: string) => {
+      const res = await apiRequest("PATCH", `/api/courses/${course.id}`, { timeZone });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      // Day boundaries moved, so "today" and the overview ranges cover different records
+      queryClient.invalidateQueries({ queryKey: apiKeys.participationRecords({ courseId: course.id }) });
+      queryClient.invalidateQueries({ queryKey: apiKeys.studentStats(course.id) });
+      toast({
+        title: "Time zone updated",
+        description: "Days now start at midnight in the new time zone.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update time zone",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!editable) {
+    return <p className="text-xs text-muted-foreground">{course.timeZone.replace(/_/g, " ")} time</p>;
+  }
+
+  return (
+    <TimeZoneSelect
+      value={course.timeZone}
+      onChange={(timeZone) => updateTimeZoneMutation.mutate(timeZone)}
+      disabled={updateTimeZoneMutation.isPending}
+      className="h-7 w-[200px] text-xs"
+    />
+  );
+}
+
+// Roster of students enrolled in a course
+export function CourseRoster({ course }: { course: Course }) {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const rosterKey = apiKeys.students(course.id);
+
+  const { data: students, isLoading } = useCourseStudents(course.id);
+
+  const unenrollMutation = useMutation({
+    mutationFn: async (studentId: number) => {
+      await apiRequest("DELETE", `/api/courses/${course.id}/enrollments/${studentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rosterKey });
+      toast({
+        title: "Student removed",
+        description: "The student has been removed from the course.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove student",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (studentId: number) => {
+      const res = await apiRequest("POST", `/api/courses/${course.id}/students/${studentId}/password-reset`);
+      return await res.json();
+    },
+    onSuccess: (reset: ForcedPasswordReset) => {
+      toast({
+        title: "Password reset",
+        description: `A link for choosing a new password was sent to ${reset.email}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset password",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading roster...</p>;
+  }
+
+  if (!students || students.length === 0) {
+    return (
+      <div className="py-8 text-center">
+        <Users className="mx-auto h-12 w-12 text-muted-foreground/50 mb-3" />
+        <p className="text-muted-foreground">No students enrolled yet</p>
+        {can("roster:manage") && (
+          <p className="text-sm text-muted-foreground mt-1">
+            Share the join code <span className="font-mono">{course.joinCode}</span> with your students
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {students.map((student) => (
+        <div key={student.id} className="py-2 flex justify-between items-center">
+          <div>
+            <span className="font-medium">{student.name}</span>
+            <span className="ml-2 text-sm text-muted-foreground">{student.email}</span>
+          </div>
+          {can("roster:manage") && (
+            <div className="flex">
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Reset password"
+                onClick={() => {
+                  if (window.confirm(`Reset ${student.name}'s password? Their current password stops working and they'll be emailed a link to choose a new one.`)) {
+                    resetPasswordMutation.mutate(student.id);
+                  }
+                }}
+                disabled={resetPasswordMutation.isPending}
+              >
+                <KeyRound className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Remove from course"
+                onClick={() => {
+                  if (window.confirm(`Remove ${student.name} from ${course.name}?`)) {
+                    unenrollMutation.mutate(student.id);
+                  }
+                }}
+                disabled={unenrollMutation.isPending}
+              >
+                <UserMinus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // No Courses component for empty state
 export function NoCourses() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   
   return (
     <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)]">
       <School className="h-16 w-16 text-muted-foreground mb-4" />
       <h2 className="text-2xl font-bold mb-2">No Courses Found</h2>
       <p className="text-muted-foreground mb-6 text-center max-w-md">
-        {user?.role === "admin"
+        {can("courses:create")
           ? "You haven't created any courses yet. Create your first course to get started."
-          : "You aren't enrolled in any courses yet. Join a course to get started."}
+          : user?.role === "ta"
+            ? "You haven't been added to any courses yet. Redeem the code from your TA invitation to get started."
+            : "You aren't enrolled in any courses yet. Join a course to get started."}
       </p>
       
       <div className="flex gap-4">
-        {user?.role === "admin" ? (
-          <CreateCourse />
+        {can("courses:create") ? (
+          <>
+            <ManageInvitations />
+            <CreateCourse />
+          </>
         ) : (
           <JoinCourse />
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+// TAs assigned to a course, and how many points each of their awards can be worth
+export function CourseStaffList({ course }: { course: Course }) {
+  const queryClient = useQueryClient();
+  const staffKey = apiKeys.courseStaff(course.id);
+  const [awardLimit, setAwardLimit] = useState(String(course.taAwardLimit));
+
+  const { data: staff, isLoading } = useCourseStaff(course.id);
+
+  const removeStaffMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/courses/${course.id}/staff/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: staffKey });
+      toast({
+        title: "TA removed",
+        description: "They can no longer help run this course.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove TA",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateAwardLimitMutation = useMutation({
+    mutationFn: async (taAwardLimit: number) => {
+      const res = await apiRequest("PATCH", `/api/courses/${course.id}`, { taAwardLimit });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      toast({
+        title: "Award limit updated",
+        description: "TAs can now award categories worth up to that many points.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update award limit",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parsedLimit = parseInt(awardLimit);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="ta-award-limit">Most points a TA can award at once</Label>
+          <Input
+            id="ta-award-limit"
+            type="number"
+            min={0}
+            max={100}
+            className="h-8 w-24"
+            value={awardLimit}
+            onChange={(e) => setAwardLimit(e.target.value)}
+          />
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={() => updateAwardLimitMutation.mutate(parsedLimit)}
+          disabled={updateAwardLimitMutation.isPending || isNaN(parsedLimit) || parsedLimit === course.taAwardLimit}
+        >
+          Save
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading TAs...</p>
+      ) : !staff || staff.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No TAs yet. Invite one from Invitations to let them run the queue and award points.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {staff.map((ta) => (
+            <div key={ta.id} className="py-2 flex justify-between items-center">
+              <div>
+                <span className="font-medium">{ta.name}</span>
+                <span className="ml-2 text-sm text-muted-foreground">{ta.email}</span>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Remove TA"
+                onClick={() => {
+                  if (window.confirm(`Remove ${ta.name} as a TA of ${course.name}?`)) {
+                    removeStaffMutation.mutate(ta.id);
+                  }
+                }}
+                disabled={removeStaffMutation.isPending}
+              >
+                <UserMinus className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
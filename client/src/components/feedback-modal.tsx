@@ -3,27 +3,32 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { RubricCategory } from "@shared/schema";
 
 interface FeedbackModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (feedback: string, points: number) => void;
+  onSubmit: (feedback: string, category: RubricCategory) => void;
   studentName: string;
+  categories: RubricCategory[];
 }
 
-export default function FeedbackModal({ isOpen, onClose, onSubmit, studentName }: FeedbackModalProps) {
+export default function FeedbackModal({ isOpen, onClose, onSubmit, studentName, categories }: FeedbackModalProps) {
   const [feedback, setFeedback] = useState("");
-  const [points, setPoints] = useState(1);
+  const [categoryId, setCategoryId] = useState<number | null>(categories[0]?.id ?? null);
+  const category = categories.find((candidate) => candidate.id === categoryId);
+  const points = category?.points ?? 0;
 
   const handleSubmit = () => {
-    onSubmit(feedback, points);
+    if (!category) return;
+    onSubmit(feedback, category);
     setFeedback(""); // Reset the form
-    setPoints(1); // Reset points
+    setCategoryId(categories[0]?.id ?? null);
   };
 
   const handleClose = () => {
     setFeedback("");
-    setPoints(1);
+    setCategoryId(categories[0]?.id ?? null);
     onClose();
   };
 
@@ -44,21 +49,24 @@ export default function FeedbackModal({ isOpen, onClose, onSubmit, studentName }
           </div>
 
           <div className="space-y-2">
-            <Label>Points:</Label>
-            <div className="flex gap-2">
-              {[0, 1, 2, 3, 4, 5].map((p) => (
-                <Button
-                  key={p}
-                  type="button"
-                  variant={points === p ? "default" : "outline"}
-                  size="sm"
-                  className="w-10 h-10"
-                  onClick={() => setPoints(p)}
-                >
-                  {p}
-                </Button>
-              ))}
-            </div>
+            <Label>Category:</Label>
+            {categories.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {categories.map((c) => (
+                  <Button
+                    key={c.id}
+                    type="button"
+                    variant={categoryId === c.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setCategoryId(c.id)}
+                  >
+                    {c.name} (+{c.points})
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Add a category to the course rubric to award points.</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -79,7 +87,7 @@ export default function FeedbackModal({ isOpen, onClose, onSubmit, studentName }
               Cancel
             </Button>
           </DialogClose>
-          <Button onClick={handleSubmit}>
+          <Button onClick={handleSubmit} disabled={!category}>
             Save (+{points} point{points !== 1 ? "s" : ""})
           </Button>
         </DialogFooter>
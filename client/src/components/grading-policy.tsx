@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeys, useGradingPolicy } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Course, GradingPolicy, GradeScaling, LetterCutoff } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GraduationCap, Plus, Trash2 } from "lucide-react";
+
+type GradingPolicyDialogProps = {
+  selectedCourse: Course;
+};
+
+// Numbers are kept as strings while typing; empty optional fields mean "none"
+type PolicyValues = {
+  targetPoints: string;
+  sessionCap: string;
+  dropLowestSessions: string;
+  scaling: GradeScaling;
+  curveExponent: string;
+  letterCutoffs: { letter: string; minPercent: string }[];
+};
+
+function toValues(policy: GradingPolicy): PolicyValues {
+  return {
+    targetPoints: String(policy.targetPoints),
+    sessionCap: policy.sessionCap === null ? "" : String(policy.sessionCap),
+    dropLowestSessions: String(policy.dropLowestSessions),
+    scaling: policy.scaling,
+    curveExponent: String(policy.curveExponent),
+    letterCutoffs: policy.letterCutoffs.map((cutoff) => ({ letter: cutoff.letter, minPercent: String(cutoff.minPercent) })),
+  };
+}
+
+function toPayload(values: PolicyValues) {
+  return {
+    targetPoints: parseInt(values.targetPoints),
+    sessionCap: values.sessionCap.trim() ? parseInt(values.sessionCap) : null,
+    dropLowestSessions: values.dropLowestSessions.trim() ? parseInt(values.dropLowestSessions) : 0,
+    scaling: values.scaling,
+    curveExponent: parseFloat(values.curveExponent),
+    letterCutoffs: values.letterCutoffs.map((cutoff): LetterCutoff => ({
+      letter: cutoff.letter.trim(),
+      minPercent: parseFloat(cutoff.minPercent),
+    })),
+  };
+}
+
+// Button plus dialog for editing how points turn into the course's participation grade
+export default function GradingPolicyDialog({ selectedCourse }: GradingPolicyDialogProps) {
+  const { toast } = useToast();
+  const { data: policy } = useGradingPolicy(selectedCourse.id);
+  const [values, setValues] = useState<PolicyValues | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = () => {
+    if (policy) setValues(toValues(policy));
+  };
+
+  const updateCutoff = (index: number, changes: Partial<PolicyValues["letterCutoffs"][number]>) => {
+    if (!values) return;
+    setValues({
+      ...values,
+      letterCutoffs: values.letterCutoffs.map((cutoff, i) => (i === index ? { ...cutoff, ...changes } : cutoff)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!values) return;
+
+    setSaving(true);
+    try {
+      await apiRequest("PUT", `/api/courses/${selectedCourse.id}/grading-policy`, toPayload(values));
+      queryClient.invalidateQueries({ queryKey: apiKeys.gradingPolicy(selectedCourse.id) });
+      queryClient.invalidateQueries({ queryKey: apiKeys.grades(selectedCourse.id) });
+
+      toast({
+        title: "Grading Policy Saved",
+        description: "Participation grades have been recalculated",
+      });
+      setValues(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save grading policy",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="h-8" onClick={handleOpen} disabled={!policy}>
+        <GraduationCap className="mr-1 h-4 w-4" />
+        Grading Policy
+      </Button>
+
+      <Dialog open={values !== null} onOpenChange={(open) => !open && setValues(null)}>
+        <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Grading Policy</DialogTitle>
+            <DialogDescription>
+              How participation points turn into a grade. Students see their projected grade.
+            </DialogDescription>
+          </DialogHeader>
+
+          {values && (
+            <div className="grid gap-4 py-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="target-points">Points for full credit</Label>
+                  <Input
+                    id="target-points"
+                    type="number"
+                    min={1}
+                    value={values.targetPoints}
+                    onChange={(e) => setValues({ ...values, targetPoints: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="session-cap">Max points per session</Label>
+                  <Input
+                    id="session-cap"
+                    type="number"
+                    min={1}
+                    placeholder="No cap"
+                    value={values.sessionCap}
+                    onChange={(e) => setValues({ ...values, sessionCap: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="drop-lowest">Drop lowest sessions</Label>
+                  <Input
+                    id="drop-lowest"
+                    type="number"
+                    min={0}
+                    value={values.dropLowestSessions}
+                    onChange={(e) => setValues({ ...values, dropLowestSessions: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="scaling">Scaling</Label>
+                  <Select
+                    value={values.scaling}
+                    onValueChange={(scaling) => setValues({ ...values, scaling: scaling as GradeScaling })}
+                  >
+                    <SelectTrigger id="scaling">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="linear">Linear</SelectItem>
+                      <SelectItem value="curve">Curved</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {values.scaling === "curve" && (
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="curve-exponent">Curve exponent (0–1, lower is more generous)</Label>
+                    <Input
+                      id="curve-exponent"
+                      type="number"
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={values.curveExponent}
+                      onChange={(e) => setValues({ ...values, curveExponent: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Letter grades (minimum %)</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setValues({ ...values, letterCutoffs: [...values.letterCutoffs, { letter: "", minPercent: "" }] })}
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add
+                  </Button>
+                </div>
+                {values.letterCutoffs.map((cutoff, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      className="w-20"
+                      placeholder="A"
+                      value={cutoff.letter}
+                      onChange={(e) => updateCutoff(index, { letter: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-24"
+                      value={cutoff.minPercent}
+                      onChange={(e) => updateCutoff(index, { minPercent: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      title="Remove letter grade"
+                      onClick={() => setValues({ ...values, letterCutoffs: values.letterCutoffs.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setValues(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Policy"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,8 +1,9 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { LogOut, School } from "lucide-react";
+import { LogOut, School, Settings } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
+import { ROLE_LABELS, UserRole } from "@shared/permissions";
 
 export default function Header() {
   const { user, logoutMutation } = useAuth();
@@ -22,10 +23,15 @@ export default function Header() {
         </Link>
         
         <div className="flex items-center">
-          <Badge variant="outline" className={user.role === "admin" ? "bg-primary-light" : "bg-secondary"}>
-            {user.role === "admin" ? "Admin" : "Student"}
+          <Badge variant="outline" className={user.role === "student" ? "bg-secondary" : "bg-primary-light"}>
+            {ROLE_LABELS[user.role as UserRole]}
           </Badge>
           <span className="mx-2">{user.name}</span>
+          <Link href="/settings">
+            <Button variant="ghost" size="sm" className="hover:bg-primary-light" title="Account settings">
+              <Settings className="h-4 w-4" />
+            </Button>
+          </Link>
           <Button 
             variant="ghost" 
             size="sm" 
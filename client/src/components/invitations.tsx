@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { apiKeys, useInvitations } from "@/lib/api";
+import { CreatedInvitation, InvitationRole, InvitationStatus, InvitationSummary, PublicCourse } from "@shared/schema";
+import { ROLE_LABELS } from "@shared/permissions";
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Mail, XCircle } from "lucide-react";
+
+const STATUS_VARIANTS: Record<InvitationStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "default",
+  used: "secondary",
+  expired: "outline",
+  revoked: "destructive",
+};
+
+// Registration link for an invitation; it only exists right after creating one
+export function invitationLink(token: string): string {
+  return `${window.location.origin}/auth?invite=${encodeURIComponent(token)}`;
+}
+
+function describeInvitation(invitation: InvitationSummary): string {
+  const target = invitation.course ? ` for ${invitation.course.name}` : "";
+  const email = invitation.email ? ` · ${invitation.email}` : "";
+  return `${ROLE_LABELS[invitation.role]}${target}${email}`;
+}
+
+// Button plus dialog for inviting professors, or TAs and students into one of the admin's courses
+export function ManageInvitations() {
+  const [isOpen, setIsOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: invitations } = useInvitations({ enabled: isOpen });
+  const { data: courses } = useQuery<PublicCourse[]>({ queryKey: ["/api/courses"] });
+
+  const [role, setRole] = useState<InvitationRole>("student");
+  const [courseId, setCourseId] = useState("");
+  const [email, setEmail] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [created, setCreated] = useState<CreatedInvitation | null>(null);
+
+  const refreshInvitations = () => queryClient.invalidateQueries({ queryKey: apiKeys.invitations() });
+
+  const createInvitationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invitations", {
+        role,
+        courseId: role !== "admin" && courseId ? parseInt(courseId) : null,
+        email: email.trim() || null,
+        expiresInDays: parseInt(expiresInDays),
+      });
+      return await res.json();
+    },
+    onSuccess: (invitation: CreatedInvitation) => {
+      setCreated(invitation);
+      setEmail("");
+      refreshInvitations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create invitation",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      await apiRequest("DELETE", `/api/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      refreshInvitations();
+      toast({
+        title: "Invitation revoked",
+        description: "The link can no longer be used.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke invitation",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(invitationLink(token));
+    toast({
+      title: "Link copied",
+      description: "Send it to the person you're inviting. It works once.",
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2" onClick={() => setIsOpen(true)}>
+        <Mail className="h-4 w-4" />
+        Invitations
+      </Button>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open);
+          if (!open) setCreated(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Invitations</DialogTitle>
+            <DialogDescription>
+              Each invitation link registers one account and expires on its own. Students and TAs can also paste the
+              code into "Join Course" to join with an existing account.
+            </DialogDescription>
+          </DialogHeader>
+
+          {created && (
+            <div className="space-y-2 rounded-md border border-primary/40 bg-primary/5 p-3">
+              <p className="text-sm font-medium">
+                Invitation created. Copy it now, it won't be shown again.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={invitationLink(created.token)} className="font-mono text-xs" />
+                <Button size="icon" variant="outline" title="Copy link" onClick={() => copyLink(created.token)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              {created.course && (
+                <p className="text-xs text-muted-foreground">
+                  One-time code for existing accounts: <span className="font-mono">{created.token}</span>
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <h3 className="font-medium">New Invitation</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invitation-role">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as InvitationRole)}>
+                  <SelectTrigger id="invitation-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="student">{ROLE_LABELS.student}</SelectItem>
+                    <SelectItem value="ta">{ROLE_LABELS.ta}</SelectItem>
+                    <SelectItem value="admin">{ROLE_LABELS.admin}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {role !== "admin" && (
+                <div className="space-y-2">
+                  <Label htmlFor="invitation-course">Course</Label>
+                  <Select value={courseId} onValueChange={setCourseId}>
+                    <SelectTrigger id="invitation-course">
+                      <SelectValue placeholder="Select a course" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {courses?.map((course) => (
+                        <SelectItem key={course.id} value={String(course.id)}>
+                          {course.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="invitation-email">Email (optional)</Label>
+                <Input
+                  id="invitation-email"
+                  type="email"
+                  placeholder="Anyone with the link"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invitation-expiry">Expires after (days)</Label>
+                <Input
+                  id="invitation-expiry"
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => createInvitationMutation.mutate()}
+                disabled={createInvitationMutation.isPending || (role !== "admin" && !courseId)}
+              >
+                {createInvitationMutation.isPending ? "Creating..." : "Create Invitation"}
+              </Button>
+            </DialogFooter>
+          </div>
+
+          {invitations && invitations.length > 0 && (
+            <div className="divide-y rounded-md border">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{describeInvitation(invitation)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {format(new Date(invitation.createdAt), "MMM d")} · expires{" "}
+                      {format(new Date(invitation.expiresAt), "MMM d, h:mm a")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Badge variant={STATUS_VARIANTS[invitation.status]}>{invitation.status}</Badge>
+                    {invitation.status === "pending" && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Revoke invitation"
+                        onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                        disabled={revokeInvitationMutation.isPending}
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { apiKeys, useCourseLtiLink, useLtiConfig, useLtiPlatforms } from "@/lib/api";
+import { Course, InsertLtiPlatform, LtiGradeSyncResult, LtiPlatformWithDeployments, insertLtiPlatformSchema } from "@shared/schema";
+import { toast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, GraduationCap, Plus, Trash, Upload, X as XIcon } from "lucide-react";
+
+const PLATFORM_FIELDS: { name: keyof InsertLtiPlatform; label: string; placeholder: string }[] = [
+  { name: "name", label: "Name", placeholder: "Canvas" },
+  { name: "issuer", label: "Issuer", placeholder: "https://canvas.instructure.com" },
+  { name: "clientId", label: "Client ID", placeholder: "10000000000001" },
+  { name: "authLoginUrl", label: "Authentication request URL", placeholder: "https://lms.example.edu/api/lti/authorize_redirect" },
+  { name: "authTokenUrl", label: "Access token URL", placeholder: "https://lms.example.edu/login/oauth2/token" },
+  { name: "jwksUrl", label: "Keyset URL", placeholder: "https://lms.example.edu/api/lti/security/jwks" },
+];
+
+function copyValue(label: string, value: string) {
+  navigator.clipboard.writeText(value).then(() => {
+    toast({ title: `${label} copied` });
+  });
+}
+
+function PlatformDeployments({ platform }: { platform: LtiPlatformWithDeployments }) {
+  const queryClient = useQueryClient();
+  const [deploymentId, setDeploymentId] = useState("");
+  const refreshPlatforms = () => queryClient.invalidateQueries({ queryKey: apiKeys.ltiPlatforms() });
+
+  const addDeploymentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/lti/platforms/${platform.id}/deployments`, { deploymentId });
+    },
+    onSuccess: () => {
+      setDeploymentId("");
+      refreshPlatforms();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add deployment",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDeploymentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/lti/platforms/${platform.id}/deployments/${id}`);
+    },
+    onSuccess: refreshPlatforms,
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove deployment",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {platform.deployments.length === 0 && (
+          <p className="text-xs text-muted-foreground">No deployments yet, so launches are refused.</p>
+        )}
+        {platform.deployments.map((deployment) => (
+          <Badge key={deployment.id} variant="secondary" className="gap-1 font-mono">
+            {deployment.deploymentId}
+            <button
+              type="button"
+              title="Remove deployment"
+              onClick={() => removeDeploymentMutation.mutate(deployment.id)}
+              disabled={removeDeploymentMutation.isPending}
+            >
+              <XIcon className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Deployment ID"
+          value={deploymentId}
+          onChange={(e) => setDeploymentId(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => addDeploymentMutation.mutate()}
+          disabled={!deploymentId.trim() || addDeploymentMutation.isPending}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RegisterPlatformForm() {
+  const queryClient = useQueryClient();
+  const form = useForm<InsertLtiPlatform>({
+    resolver: zodResolver(insertLtiPlatformSchema),
+    defaultValues: { name: "", issuer: "", clientId: "", authLoginUrl: "", authTokenUrl: "", jwksUrl: "" },
+  });
+
+  const registerPlatformMutation = useMutation({
+    mutationFn: async (values: InsertLtiPlatform) => {
+      const res = await apiRequest("POST", "/api/lti/platforms", values);
+      return await res.json();
+    },
+    onSuccess: (platform: LtiPlatformWithDeployments) => {
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: apiKeys.ltiPlatforms() });
+      toast({
+        title: "Platform registered",
+        description: `Add the deployment ID ${platform.name} shows for ClassParticipate to allow launches.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to register platform",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => registerPlatformMutation.mutate(values))} className="space-y-4">
+        <h3 className="font-medium">Register a Platform</h3>
+        <div className="grid grid-cols-2 gap-4">
+          {PLATFORM_FIELDS.map(({ name, label, placeholder }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <DialogFooter>
+          <Button type="submit" disabled={registerPlatformMutation.isPending}>
+            {registerPlatformMutation.isPending ? "Registering..." : "Register Platform"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+// Button plus dialog for registering the LMSs that launch ClassParticipate with LTI 1.3
+export function ManageLtiPlatforms() {
+  const [isOpen, setIsOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: platforms } = useLtiPlatforms({ enabled: isOpen });
+  const { data: toolConfig } = useLtiConfig({ enabled: isOpen });
+
+  const deletePlatformMutation = useMutation({
+    mutationFn: async (platformId: number) => {
+      await apiRequest("DELETE", `/api/lti/platforms/${platformId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiKeys.ltiPlatforms() });
+      toast({
+        title: "Platform removed",
+        description: "Its courses stay, but launches from it no longer work.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove platform",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (platform: LtiPlatformWithDeployments) => {
+    if (window.confirm(`Remove ${platform.name}? Its courses stay, but are no longer linked to the LMS.`)) {
+      deletePlatformMutation.mutate(platform.id);
+    }
+  };
+
+  const toolValues = toolConfig
+    ? [
+        { label: "Login URL", value: toolConfig.loginUrl },
+        { label: "Launch URL", value: toolConfig.launchUrl },
+        { label: "Keyset URL", value: toolConfig.jwksUrl },
+      ]
+    : [];
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2" onClick={() => setIsOpen(true)}>
+        <GraduationCap className="h-4 w-4" />
+        LMS
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>LMS Integration</DialogTitle>
+            <DialogDescription>
+              Add ClassParticipate to an LMS as an LTI 1.3 tool with these URLs, then register the LMS below with the
+              values it gives you. An instructor's first launch from an LMS course creates the linked course.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {toolValues.map(({ label, value }) => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="w-24 shrink-0 text-sm text-muted-foreground">{label}</span>
+                <Input readOnly value={value} className="font-mono text-xs" />
+                <Button size="icon" variant="outline" title={`Copy ${label.toLowerCase()}`} onClick={() => copyValue(label, value)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {platforms && platforms.length > 0 && (
+            <div className="divide-y rounded-md border">
+              {platforms.map((platform) => (
+                <div key={platform.id} className="space-y-2 px-3 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{platform.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {platform.issuer} · client {platform.clientId}
+                      </p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Remove platform"
+                      onClick={() => handleDelete(platform)}
+                      disabled={deletePlatformMutation.isPending}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <PlatformDeployments platform={platform} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <RegisterPlatformForm />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+// Sends everybody's current grade to the linked LMS course; hidden when the LMS doesn't accept grades
+export function SendGradesToLms({ course }: { course: Course }) {
+  const { data: link } = useCourseLtiLink(course.id);
+
+  const sendGradesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/courses/${course.id}/lti/grades`);
+      return await res.json();
+    },
+    onSuccess: (result: LtiGradeSyncResult) => {
+      const notes = [
+        result.skipped > 0 ? `${result.skipped} skipped because they never opened ClassParticipate from the LMS` : null,
+        result.failed > 0 ? `${result.failed} failed` : null,
+      ].filter(Boolean);
+      toast({
+        title: `Sent ${result.sent} grade${result.sent === 1 ? "" : "s"} to ${link?.platformName ?? "the LMS"}`,
+        description: notes.length > 0 ? notes.join(", ") : undefined,
+        variant: result.failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send grades",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!link?.canSendGrades) return null;
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="flex items-center text-sm"
+      title={link.contextTitle ? `Send grades to ${link.contextTitle}` : undefined}
+      onClick={() => sendGradesMutation.mutate()}
+      disabled={sendGradesMutation.isPending}
+    >
+      <Upload className="h-3 w-3 mr-1" />
+      {sendGradesMutation.isPending ? "Sending..." : "Send to LMS"}
+    </Button>
+  );
+}
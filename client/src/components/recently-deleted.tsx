@@ -0,0 +1,130 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeys, usePaginatedParticipationRecords, restoreParticipationRecords } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Course } from "@shared/schema";
+import { format } from "date-fns";
+import RecordsPagination from "@/components/records-pagination";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2 as TrashIcon, Undo2 as UndoIcon } from "lucide-react";
+
+type RecentlyDeletedProps = {
+  selectedCourse: Course;
+};
+
+// Shared restore actions for soft-deleted records, used by the Undo toast and the Recently deleted panel
+export function useRestoreParticipationRecords(courseId: number) {
+  const { toast } = useToast();
+
+  // Matches every filtered variant of the course's record queries
+  const refreshRecords = () => {
+    queryClient.invalidateQueries({ queryKey: apiKeys.participationRecords({ courseId }) });
+  };
+
+  const restoreBatch = async (batchId: string) => {
+    try {
+      const data = await restoreParticipationRecords(courseId, { batchId });
+
+      toast({
+        title: "Records Restored",
+        description: `${data.count} participation record(s) have been restored`,
+      });
+      refreshRecords();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore participation records",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const restoreRecord = async (recordId: number) => {
+    try {
+      await apiRequest("POST", `/api/participation-records/${recordId}/restore`);
+
+      toast({
+        title: "Record Restored",
+        description: "The participation record has been restored",
+      });
+      refreshRecords();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore participation record",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { restoreBatch, restoreRecord };
+}
+
+// How many deleted records the panel lists per page
+const RECENTLY_DELETED_PAGE_SIZE = 10;
+
+export default function RecentlyDeleted({ selectedCourse }: RecentlyDeletedProps) {
+  const { restoreRecord } = useRestoreParticipationRecords(selectedCourse.id);
+
+  const deletedRecordsPage = usePaginatedParticipationRecords({
+    courseId: selectedCourse.id,
+    onlyHidden: true,
+  }, RECENTLY_DELETED_PAGE_SIZE);
+  const deletedRecords = deletedRecordsPage.records;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <TrashIcon className="mr-2 h-5 w-5" />
+          Recently Deleted
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {deletedRecords.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Points</TableHead>
+                  <TableHead>Awarded</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deletedRecords.map((record) => (
+                  <TableRow key={record.id}>
+                    <TableCell className="font-medium">{record.student.name}</TableCell>
+                    <TableCell>{record.points}</TableCell>
+                    <TableCell>{format(new Date(record.timestamp), "MMM d, h:mm a")}</TableCell>
+                    <TableCell>
+                      {record.deletedAt ? format(new Date(record.deletedAt), "MMM d, h:mm a") : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" title="Restore record" onClick={() => restoreRecord(record.id)}>
+                        <UndoIcon className="mr-1 h-4 w-4" />
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <RecordsPagination
+              pageNumber={deletedRecordsPage.pageNumber}
+              hasPreviousPage={deletedRecordsPage.hasPreviousPage}
+              hasNextPage={deletedRecordsPage.hasNextPage}
+              onPrevious={deletedRecordsPage.previousPage}
+              onNext={deletedRecordsPage.nextPage}
+            />
+          </div>
+        ) : (
+          <p className="py-4 text-center text-muted-foreground">No deleted records</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+
+type RecordsPaginationProps = {
+  pageNumber: number;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+};
+
+// Previous/Next controls for cursor-paginated tables (there is no total page count)
+export default function RecordsPagination({
+  pageNumber,
+  hasPreviousPage,
+  hasNextPage,
+  onPrevious,
+  onNext,
+}: RecordsPaginationProps) {
+  if (!hasPreviousPage && !hasNextPage) return null;
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            aria-disabled={!hasPreviousPage}
+            className={cn(!hasPreviousPage && "pointer-events-none opacity-50")}
+            onClick={(e) => {
+              e.preventDefault();
+              if (hasPreviousPage) onPrevious();
+            }}
+          />
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationLink isActive>{pageNumber}</PaginationLink>
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            aria-disabled={!hasNextPage}
+            className={cn(!hasNextPage && "pointer-events-none opacity-50")}
+            onClick={(e) => {
+              e.preventDefault();
+              if (hasNextPage) onNext();
+            }}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
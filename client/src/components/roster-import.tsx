@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { apiKeys, importRoster, previewRosterImport } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Course, RosterImportResult, RosterImportRow, RosterImportStatus } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download as DownloadIcon, Upload as UploadIcon } from "lucide-react";
+
+type RosterImportDialogProps = {
+  course: Course;
+};
+
+// Labels for the preview, and for what the import actually did
+const STATUS_LABELS: Record<RosterImportStatus, [preview: string, applied: string]> = {
+  create: ["New account", "Account created"],
+  enroll: ["Will enroll", "Enrolled"],
+  enrolled: ["Already enrolled", "Already enrolled"],
+  error: ["Error", "Error"],
+};
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadCsv(filename: string, header: string[], rows: (string | number | null)[][]) {
+  const csvContent = [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+  const url = URL.createObjectURL(new Blob([csvContent], { type: "text/csv;charset=utf-8;" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Button plus dialog for loading a class list from a CSV or TSV file
+export default function RosterImportDialog({ course }: RosterImportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [unenrollMissing, setUnenrollMissing] = useState(false);
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setText(null);
+    setFileName("");
+    setUnenrollMissing(false);
+    setResult(null);
+  };
+
+  const showError = (description: string, error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : description,
+      variant: "destructive",
+    });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const fileText = await file.text();
+      setText(fileText);
+      setFileName(file.name);
+      setResult(await previewRosterImport(course.id, { text: fileText }));
+    } catch (error) {
+      setText(null);
+      setResult(null);
+      showError("Failed to read roster", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (text === null) return;
+
+    setLoading(true);
+    try {
+      const imported = await importRoster(course.id, { text, unenrollMissing });
+      setResult(imported);
+      queryClient.invalidateQueries({ queryKey: apiKeys.students(course.id) });
+
+      const enrolled = imported.rows.filter((row) => row.status === "create" || row.status === "enroll").length;
+      toast({
+        title: "Roster Imported",
+        description: `${enrolled} student${enrolled === 1 ? "" : "s"} enrolled` +
+          (imported.unenrolled > 0 ? `, ${imported.unenrolled} unenrolled` : ""),
+      });
+    } catch (error) {
+      showError("Failed to import roster", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rowsWith = (status: RosterImportStatus) => result?.rows.filter((row) => row.status === status) ?? [];
+  const errors = rowsWith("error");
+  const created = rowsWith("create");
+  const changes = created.length + rowsWith("enroll").length + (unenrollMissing ? result?.missing.length ?? 0 : 0);
+
+  const downloadErrors = () => {
+    downloadCsv(
+      `roster-errors_${fileName.replace(/\.[^.]*$/, "") || "import"}.csv`,
+      ["Line", "Name", "Username", "Email", "Error"],
+      errors.map((row) => [row.line, row.name, row.username, row.email, row.message])
+    );
+  };
+
+  const statusBadge = (row: RosterImportRow) => (
+    <Badge variant={row.status === "error" ? "destructive" : row.status === "enrolled" ? "outline" : "secondary"}>
+      {STATUS_LABELS[row.status][result?.applied ? 1 : 0]}
+    </Badge>
+  );
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="h-8" onClick={() => setOpen(true)}>
+        <UploadIcon className="mr-1 h-4 w-4" />
+        Import Roster
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (!isOpen) reset();
+        }}
+      >
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Roster</DialogTitle>
+            <DialogDescription>
+              Upload a CSV or TSV class list with name (or first and last name), email and optionally username
+              columns. Students who already have an account are enrolled; new ones get an account and an email with a link
+              to choose their password. Importing the same list again is safe.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!result?.applied && (
+            <div className="space-y-2">
+              <Label htmlFor="roster-file">Roster file</Label>
+              <Input
+                id="roster-file"
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                disabled={loading}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {created.length} new, {rowsWith("enroll").length} to enroll, {rowsWith("enrolled").length} already
+                enrolled, {errors.length} with errors
+              </p>
+
+              <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Username</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.name}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.username}</TableCell>
+                        <TableCell>{row.email}</TableCell>
+                        <TableCell>
+                          {statusBadge(row)}
+                          {row.message && <p className="mt-1 text-xs text-destructive">{row.message}</p>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {result.missing.length > 0 && !result.applied && (
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="unenroll-missing"
+                    checked={unenrollMissing}
+                    onCheckedChange={(checked) => setUnenrollMissing(checked === true)}
+                  />
+                  <Label htmlFor="unenroll-missing" className="font-normal leading-snug">
+                    Unenroll the {result.missing.length} enrolled student{result.missing.length === 1 ? "" : "s"} not
+                    in this file ({result.missing.map((student) => student.name).join(", ")})
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            {errors.length > 0 && (
+              <Button variant="outline" onClick={downloadErrors}>
+                <DownloadIcon className="mr-1 h-4 w-4" />
+                Download Errors
+              </Button>
+            )}
+            {result?.applied ? (
+              <Button onClick={() => { setOpen(false); reset(); }}>Done</Button>
+            ) : (
+              <Button onClick={handleImport} disabled={loading || !result || changes === 0}>
+                {loading ? "Working..." : "Import"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
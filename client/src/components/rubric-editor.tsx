@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeys, useRubric } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Course, RubricCategory } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListChecks, Pencil as PencilIcon, Check as CheckIcon, X as XIcon, Trash as TrashIcon, Plus } from "lucide-react";
+
+type RubricEditorProps = {
+  selectedCourse: Course;
+};
+
+// Form values are kept as strings while typing; an empty limit means no limit
+type CategoryValues = { name: string; points: string; maxPerSession: string };
+
+const EMPTY_VALUES: CategoryValues = { name: "", points: "1", maxPerSession: "" };
+
+function toValues(category: RubricCategory): CategoryValues {
+  return {
+    name: category.name,
+    points: String(category.points),
+    maxPerSession: category.maxPerSession === null ? "" : String(category.maxPerSession),
+  };
+}
+
+function toPayload(values: CategoryValues) {
+  return {
+    name: values.name.trim(),
+    points: parseInt(values.points),
+    maxPerSession: values.maxPerSession.trim() ? parseInt(values.maxPerSession) : null,
+  };
+}
+
+function CategoryInputs({ values, onChange }: { values: CategoryValues; onChange: (values: CategoryValues) => void }) {
+  return (
+    <>
+      <TableCell>
+        <Input
+          className="h-8"
+          placeholder="e.g. Builds on peer"
+          value={values.name}
+          onChange={(e) => onChange({ ...values, name: e.target.value })}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          className="h-8 w-20"
+          value={values.points}
+          onChange={(e) => onChange({ ...values, points: e.target.value })}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          className="h-8 w-24"
+          placeholder="No limit"
+          value={values.maxPerSession}
+          onChange={(e) => onChange({ ...values, maxPerSession: e.target.value })}
+        />
+      </TableCell>
+    </>
+  );
+}
+
+export default function RubricEditor({ selectedCourse }: RubricEditorProps) {
+  const { toast } = useToast();
+  const { data: categories = [] } = useRubric(selectedCourse.id);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editValues, setEditValues] = useState<CategoryValues>(EMPTY_VALUES);
+  const [newValues, setNewValues] = useState<CategoryValues>(EMPTY_VALUES);
+
+  const rubricUrl = `/api/courses/${selectedCourse.id}/rubric`;
+  const refreshRubric = () => queryClient.invalidateQueries({ queryKey: apiKeys.rubric(selectedCourse.id) });
+
+  const showError = (description: string, error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : description,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async () => {
+    try {
+      await apiRequest("POST", rubricUrl, toPayload(newValues));
+      setNewValues(EMPTY_VALUES);
+      refreshRubric();
+    } catch (error) {
+      showError("Failed to add rubric category", error);
+    }
+  };
+
+  const handleSave = async (categoryId: number) => {
+    try {
+      await apiRequest("PATCH", `${rubricUrl}/${categoryId}`, toPayload(editValues));
+      setEditingId(null);
+      refreshRubric();
+    } catch (error) {
+      showError("Failed to update rubric category", error);
+    }
+  };
+
+  const handleDelete = async (category: RubricCategory) => {
+    if (!window.confirm(`Remove "${category.name}" from the rubric? Points already awarded for it are kept.`)) {
+      return;
+    }
+
+    try {
+      await apiRequest("DELETE", `${rubricUrl}/${category.id}`);
+      refreshRubric();
+    } catch (error) {
+      showError("Failed to remove rubric category", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <ListChecks className="mr-2 h-5 w-5" />
+          Points Rubric
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Points</TableHead>
+                <TableHead>Max per Session</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map((category) =>
+                editingId === category.id ? (
+                  <TableRow key={category.id}>
+                    <CategoryInputs values={editValues} onChange={setEditValues} />
+                    <TableCell>
+                      <div className="flex">
+                        <Button size="sm" variant="ghost" title="Save" onClick={() => handleSave(category.id)}>
+                          <CheckIcon className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" title="Cancel" onClick={() => setEditingId(null)}>
+                          <XIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={category.id}>
+                    <TableCell className="font-medium">{category.name}</TableCell>
+                    <TableCell>+{category.points}</TableCell>
+                    <TableCell>{category.maxPerSession ?? "No limit"}</TableCell>
+                    <TableCell>
+                      <div className="flex">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Edit category"
+                          onClick={() => {
+                            setEditingId(category.id);
+                            setEditValues(toValues(category));
+                          }}
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" title="Remove category" onClick={() => handleDelete(category)}>
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              )}
+              <TableRow>
+                <CategoryInputs values={newValues} onChange={setNewValues} />
+                <TableCell>
+                  <Button size="sm" variant="outline" onClick={handleAdd} disabled={!newValues.name.trim()}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
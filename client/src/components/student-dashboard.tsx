@@ -5,12 +5,16 @@ import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/use-auth";
 import { useWebSocket } from "@/lib/websocket";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeys, usePaginatedParticipationRecords, useParticipationPoints, useParticipationRequests, useGrades } from "@/lib/api";
 import { Course, ParticipationRecord } from "@shared/schema";
 import { format } from "date-fns";
+import { formatInTimeZone } from "@shared/time-zone";
 import { Hand as HandIcon, Check as CheckIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useCurrentClassSession } from "@/components/class-session-controls";
+import RecordsPagination from "@/components/records-pagination";
 
 type StudentDashboardProps = {
   selectedCourse: Course;
@@ -24,26 +28,33 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
   const [raisedTime, setRaisedTime] = useState<Date | null>(null);
   const [requestId, setRequestId] = useState<number | null>(null);
   const { subscribe } = useWebSocket();
+
+  // Query keys scoped to the selected course
+  const recordsKey = apiKeys.participationRecords({ courseId: selectedCourse.id });
+  const pointsKey = apiKeys.participationPoints(user?.id ?? 0, selectedCourse.id);
+  const gradesKey = apiKeys.grades(selectedCourse.id);
+  const requestsKey = apiKeys.participationRequests(selectedCourse.id);
   
-  // Get student participation records
-  const { 
-    data: participationRecords, 
+  // Get student participation records, a page at a time
+  const recordsPage = usePaginatedParticipationRecords<ParticipationRecord>({ courseId: selectedCourse.id }, 10);
+  const {
+    records: participationRecords,
     isLoading: recordsLoading,
-    refetch: refetchRecords 
-  } = useQuery<ParticipationRecord[]>({
-    queryKey: ["/api/participation-records"],
-  });
+    refetch: refetchRecords
+  } = recordsPage;
   
   // Total points
-  const { data: pointsData } = useQuery<{ points: number }>({
-    queryKey: ["/api/students", user?.id, "participation-points"],
-    enabled: !!user?.id,
-  });
+  const { data: pointsData } = useParticipationPoints(user?.id, selectedCourse.id);
+
+  // Projected grade under the course's grading policy (the list only holds this student)
+  const { data: courseGrades } = useGrades(selectedCourse.id);
+  const projectedGrade = courseGrades?.grades[0];
+  
+  // The open class session, if any - hands can only be raised during class
+  const { data: currentSession } = useCurrentClassSession(selectedCourse.id);
   
   // Get active participation requests to check if student already has one
-  const { data: participationRequests } = useQuery<any[]>({
-    queryKey: ["/api/participation-requests"],
-  });
+  const { data: participationRequests } = useParticipationRequests(selectedCourse.id);
   
   // Check if student already has an active request when loading the page
   useEffect(() => {
@@ -62,6 +73,7 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
   const raiseHandMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", "/api/participation-requests", {
+        courseId: selectedCourse.id,
         note: note.trim() || undefined
       });
       return await res.json();
@@ -77,7 +89,7 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
       });
       
       // Invalidate participation requests cache
-      queryClient.invalidateQueries({ queryKey: ["/api/participation-requests"] });
+      queryClient.invalidateQueries({ queryKey: requestsKey });
     },
     onError: (error: Error) => {
       toast({
@@ -107,7 +119,7 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
       });
       
       // Invalidate participation requests cache
-      queryClient.invalidateQueries({ queryKey: ["/api/participation-requests"] });
+      queryClient.invalidateQueries({ queryKey: requestsKey });
     },
     onError: (error: Error) => {
       toast({
@@ -134,16 +146,38 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
         });
         
         // Refresh participation records
-        queryClient.invalidateQueries({ queryKey: ["/api/participation-records"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/students", user?.id, "participation-points"] });
+        queryClient.invalidateQueries({ queryKey: recordsKey });
+        queryClient.invalidateQueries({ queryKey: pointsKey });
+      queryClient.invalidateQueries({ queryKey: gradesKey });
       }
     });
     
+    // Subscribe to new records - the server only sends this student's own records
+    const recordCreatedUnsubscribe = subscribe("participationRecordCreated", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+
+      refetchRecords();
+      queryClient.invalidateQueries({ queryKey: pointsKey });
+      queryClient.invalidateQueries({ queryKey: gradesKey });
+    });
+    
+    // Subscribe to corrections of this student's records
+    const recordUpdatedUnsubscribe = subscribe("participationRecordUpdated", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+
+      refetchRecords();
+      queryClient.invalidateQueries({ queryKey: pointsKey });
+      queryClient.invalidateQueries({ queryKey: gradesKey });
+    });
+    
     // Subscribe to deleted participation records
-    const recordsDeletedUnsubscribe = subscribe("participationRecordsDeleted", () => {
+    const recordsDeletedUnsubscribe = subscribe("participationRecordsDeleted", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+
       // Refresh participation records when deletions happen
       refetchRecords();
-      queryClient.invalidateQueries({ queryKey: ["/api/students", user?.id, "participation-points"] });
+      queryClient.invalidateQueries({ queryKey: pointsKey });
+      queryClient.invalidateQueries({ queryKey: gradesKey });
       
       toast({
         title: "Records Updated",
@@ -151,11 +185,35 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
       });
     });
     
+    // Subscribe to restored participation records (the professor undid a deletion)
+    const recordsRestoredUnsubscribe = subscribe("participationRecordsRestored", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+
+      refetchRecords();
+      queryClient.invalidateQueries({ queryKey: pointsKey });
+      queryClient.invalidateQueries({ queryKey: gradesKey });
+    });
+
+    // Closing the session clears the queue, including this student's hand
+    const sessionClosedUnsubscribe = subscribe("sessionClosed", (payload: { courseId: number }) => {
+      if (payload.courseId !== selectedCourse.id) return;
+
+      setHandRaised(false);
+      setRequestId(null);
+      setRaisedTime(null);
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: requestsKey });
+    });
+    
     return () => {
       requestUnsubscribe();
+      recordCreatedUnsubscribe();
+      recordUpdatedUnsubscribe();
       recordsDeletedUnsubscribe();
+      recordsRestoredUnsubscribe();
+      sessionClosedUnsubscribe();
     };
-  }, [requestId, user?.id, subscribe, toast, refetchRecords]);
+  }, [requestId, user?.id, selectedCourse.id, subscribe, toast, refetchRecords]);
   
   // Handle raise hand button click
   const handleRaiseHand = () => {
@@ -176,7 +234,9 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
         </CardHeader>
         <CardContent>
           <p className="text-muted-foreground mb-4">
-            Click below to raise your hand and participate in the current discussion
+            {currentSession
+              ? "Click below to raise your hand and participate in the current discussion"
+              : "Class is not in session. You can raise your hand once your professor starts the session."}
           </p>
           
           {!handRaised ? (
@@ -191,7 +251,7 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
                 size="lg" 
                 className="rounded-full px-6"
                 onClick={handleRaiseHand}
-                disabled={raiseHandMutation.isPending}
+                disabled={raiseHandMutation.isPending || !currentSession}
               >
                 <HandIcon className="mr-2 h-5 w-5" />
                 {raiseHandMutation.isPending ? "Raising Hand..." : "Raise Hand"}
@@ -234,42 +294,58 @@ export default function StudentDashboard({ selectedCourse }: StudentDashboardPro
               Total: {pointsData?.points || 0} points
             </Badge>
           </div>
+          {projectedGrade && courseGrades && (
+            <p className="text-sm text-muted-foreground">
+              Projected grade: <span className="font-medium text-foreground">{projectedGrade.letter}</span>
+              {" "}({projectedGrade.percent}%) · {projectedGrade.countedPoints} of {courseGrades.policy.targetPoints} points
+              counted toward full credit
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           {recordsLoading ? (
             <div className="text-center py-6">
               <p className="text-muted-foreground">Loading participation history...</p>
             </div>
-          ) : participationRecords && participationRecords.length > 0 ? (
-            <div className="divide-y">
-              {participationRecords.map((record) => (
-                <div key={record.id} className="py-4">
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <div className="flex items-center">
-                        <span className="font-medium">
-                          {record.timestamp ? format(new Date(record.timestamp), "MMM d, yyyy") : ""}
-                        </span>
-                        <Badge className="ml-2 bg-green-500 text-white">
-                          +{record.points} point{record.points !== 1 && "s"}
-                        </Badge>
+          ) : participationRecords.length > 0 ? (
+            <div>
+              <div className="divide-y">
+                {participationRecords.map((record) => (
+                  <div key={record.id} className="py-4">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <div className="flex items-center">
+                          <span className="font-medium">
+                            {record.timestamp ? formatInTimeZone(new Date(record.timestamp), selectedCourse.timeZone, { dateStyle: "medium" }) : ""}
+                          </span>
+                          <Badge className="ml-2 bg-green-500 text-white">
+                            +{record.points} point{record.points !== 1 && "s"}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {record.note || "Participation"}
+                        </p>
                       </div>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {record.note || "Participation"}
-                      </p>
+                      <span className="text-sm text-muted-foreground">
+                        {record.timestamp ? formatInTimeZone(new Date(record.timestamp), selectedCourse.timeZone, { hour: "numeric", minute: "2-digit" }) : ""}
+                      </span>
                     </div>
-                    <span className="text-sm text-muted-foreground">
-                      {record.timestamp ? format(new Date(record.timestamp), "h:mm a") : ""}
-                    </span>
+                    {record.feedback && (
+                      <div className="mt-2 bg-muted p-3 rounded text-sm italic">
+                        <span className="font-medium">Feedback: </span>
+                        {record.feedback}
+                      </div>
+                    )}
                   </div>
-                  {record.feedback && (
-                    <div className="mt-2 bg-muted p-3 rounded text-sm italic">
-                      <span className="font-medium">Feedback: </span>
-                      {record.feedback}
-                    </div>
-                  )}
-                </div>
-              ))}
+                ))}
+              </div>
+              <RecordsPagination
+                pageNumber={recordsPage.pageNumber}
+                hasPreviousPage={recordsPage.hasPreviousPage}
+                hasNextPage={recordsPage.hasNextPage}
+                onPrevious={recordsPage.previousPage}
+                onNext={recordsPage.nextPage}
+              />
             </div>
           ) : (
             <div className="text-center py-8">
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { apiKeys, useTerms } from "@/lib/api";
+import { Course, InsertTerm, Term, insertTermSchema } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Plus, Trash2 } from "lucide-react";
+
+// Select value standing in for "no term", since Radix selects can't use an empty string
+const NO_TERM = "none";
+
+// e.g. "Aug 25, 2025 – Dec 12, 2025"
+export function formatTermDates(term: Term): string {
+  return `${format(parseISO(term.startDate), "MMM d, yyyy")} – ${format(parseISO(term.endDate), "MMM d, yyyy")}`;
+}
+
+type TermSelectProps = {
+  value: number | null | undefined;
+  onChange: (termId: number | null) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+// Picks one of the configured terms, or none
+export function TermSelect({ value, onChange, disabled, className }: TermSelectProps) {
+  const { data: terms } = useTerms();
+
+  return (
+    <Select
+      value={value ? String(value) : NO_TERM}
+      onValueChange={(selected) => onChange(selected === NO_TERM ? null : parseInt(selected))}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select a term" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TERM}>No term</SelectItem>
+        {terms?.map((term) => (
+          <SelectItem key={term.id} value={String(term.id)}>
+            {term.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// The course's term with its dates; admins can move the course to another term
+export function CourseTerm({ course, editable }: { course: Pick<Course, "id" | "termId">; editable?: boolean }) {
+  const queryClient = useQueryClient();
+  const { data: terms } = useTerms();
+  const term = terms?.find((candidate) => candidate.id === course.termId);
+
+  const assignTermMutation = useMutation({
+    mutationFn: async (termId: number | null) => {
+      const res = await apiRequest("PATCH", `/api/courses/${course.id}`, { termId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      // Term boundaries change what the overview ranges cover
+      queryClient.invalidateQueries({ queryKey: apiKeys.studentStats(course.id) });
+      toast({
+        title: "Term updated",
+        description: "The course has been moved to the selected term.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update term",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-1">
+      {editable && (
+        <TermSelect
+          value={course.termId}
+          onChange={(termId) => assignTermMutation.mutate(termId)}
+          disabled={assignTermMutation.isPending}
+          className="h-7 w-[200px] text-xs"
+        />
+      )}
+      <p className="text-xs text-muted-foreground">
+        {term ? `${editable ? "" : `${term.name}, `}${formatTermDates(term)}` : "No term set"}
+      </p>
+    </div>
+  );
+}
+
+// Term list plus a form for setting up the next term
+export function ManageTerms() {
+  const [isOpen, setIsOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: terms } = useTerms();
+
+  const form = useForm<InsertTerm>({
+    resolver: zodResolver(insertTermSchema),
+    defaultValues: {
+      name: "",
+      startDate: "",
+      endDate: "",
+      holidays: [],
+    },
+  });
+  const holidays = useFieldArray({ control: form.control, name: "holidays" });
+
+  const createTermMutation = useMutation({
+    mutationFn: async (data: InsertTerm) => {
+      const res = await apiRequest("POST", "/api/terms", data);
+      return await res.json();
+    },
+    onSuccess: (term: Term) => {
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: apiKeys.terms() });
+      toast({
+        title: "Term created",
+        description: `${term.name} is now available for your courses.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create term",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2" onClick={() => setIsOpen(true)}>
+        <CalendarDays className="h-4 w-4" />
+        Terms
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Academic Terms</DialogTitle>
+            <DialogDescription>
+              Date ranges and statistics for a course are limited to its term.
+            </DialogDescription>
+          </DialogHeader>
+
+          {terms && terms.length > 0 ? (
+            <div className="divide-y rounded-md border">
+              {terms.map((term) => (
+                <div key={term.id} className="px-3 py-2">
+                  <p className="font-medium">{term.name}</p>
+                  <p className="text-sm text-muted-foreground">{formatTermDates(term)}</p>
+                  {term.holidays.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Holidays: {term.holidays
+                        .map((holiday) => `${holiday.name} (${format(parseISO(holiday.date), "MMM d")})`)
+                        .join(", ")}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No terms have been set up yet.</p>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createTermMutation.mutate(data))} className="space-y-4">
+              <h3 className="font-medium pt-2">New Term</h3>
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Fall 2025" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>First Day</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Day</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Holidays</FormLabel>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => holidays.append({ date: "", name: "" })}
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Holiday
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Sessions held on a holiday don't count against students who miss them, and weekly and monthly stats reach back past holidays.
+                </p>
+                {holidays.fields.map((holiday, index) => (
+                  <div key={holiday.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`holidays.${index}.date`}
+                      render={({ field }) => (
+                        <FormItem className="w-[160px]">
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`holidays.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="e.g. Thanksgiving" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      title="Remove holiday"
+                      onClick={() => holidays.remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <DialogFooter>
+                <Button type="submit" disabled={createTermMutation.isPending}>
+                  {createTermMutation.isPending ? "Creating..." : "Create Term"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
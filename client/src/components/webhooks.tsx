@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { apiKeys, useWebhookDeliveries, useWebhooks } from "@/lib/api";
+import {
+  Course,
+  CreatedWebhook,
+  DOMAIN_EVENT_TYPES,
+  DomainEventType,
+  WebhookDelivery,
+  WebhookSummary,
+} from "@shared/schema";
+import { toast } from "@/hooks/use-toast";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Copy, History as HistoryIcon, RotateCw, Trash, Webhook as WebhookIcon } from "lucide-react";
+
+type CourseWebhooksProps = {
+  selectedCourse: Course;
+};
+
+const EVENT_LABELS: Record<DomainEventType, string> = {
+  sessionOpened: "Session started",
+  sessionClosed: "Session closed",
+  participationRequest: "Hand raised",
+  participationRequestDeactivated: "Hand lowered",
+  participationRecordCreated: "Points awarded",
+  participationRecordUpdated: "Record edited or deleted",
+  participationRecordsDeleted: "Day's records deleted",
+  participationRecordsRestored: "Records restored",
+};
+
+// How often an open delivery log refreshes, to show retries as they happen
+const DELIVERY_LOG_REFRESH_MS = 5000;
+
+function DeliveryStatus({ delivery }: { delivery: WebhookDelivery }) {
+  if (delivery.status === "succeeded") return <Badge variant="secondary">Delivered</Badge>;
+  if (delivery.status === "failed") return <Badge variant="destructive">Failed</Badge>;
+  return <Badge variant="outline">{delivery.attempts > 0 ? "Retrying" : "Pending"}</Badge>;
+}
+
+function DeliveryLog({ course, webhook, onClose }: { course: Course; webhook: WebhookSummary; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const { data: deliveries } = useWebhookDeliveries(course.id, webhook.id, { refetchInterval: DELIVERY_LOG_REFRESH_MS });
+
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      await apiRequest("POST", `/api/courses/${course.id}/webhooks/${webhook.id}/deliveries/${deliveryId}/replay`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiKeys.webhookDeliveries(course.id, webhook.id) });
+      toast({ title: "Delivery queued", description: "It's sent again as a new delivery." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to replay delivery",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            The latest events posted to {webhook.url}. Failed attempts are retried with increasing delays, up to six
+            times in all.
+          </DialogDescription>
+        </DialogHeader>
+
+        {deliveries && deliveries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>
+                    {EVENT_LABELS[delivery.eventType as DomainEventType] ?? delivery.eventType}
+                    {delivery.replayOf !== null && (
+                      <span className="block text-xs text-muted-foreground">replay of #{delivery.replayOf}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(delivery.createdAt), "MMM d, h:mm:ss a")}</TableCell>
+                  <TableCell>
+                    <DeliveryStatus delivery={delivery} />
+                    {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                      <span className="block text-xs text-muted-foreground">
+                        next {format(new Date(delivery.nextAttemptAt), "h:mm:ss a")}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[220px]">
+                    {delivery.responseStatus ?? "—"}
+                    {delivery.error && (
+                      <span className="block truncate text-xs text-muted-foreground" title={delivery.error}>
+                        {delivery.error}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Send this event again"
+                      onClick={() => replayMutation.mutate(delivery.id)}
+                      disabled={replayMutation.isPending || !webhook.active}
+                    >
+                      <RotateCw className="mr-1 h-4 w-4" />
+                      Replay
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="py-4 text-center text-muted-foreground">Nothing has been sent yet</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Course events posted to the professor's own integrations, with the delivery log of each
+export default function CourseWebhooks({ selectedCourse }: CourseWebhooksProps) {
+  const queryClient = useQueryClient();
+  const { data: webhooks } = useWebhooks(selectedCourse.id);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<DomainEventType[]>(["participationRecordCreated"]);
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  const [logWebhook, setLogWebhook] = useState<WebhookSummary | null>(null);
+
+  const refreshWebhooks = () => queryClient.invalidateQueries({ queryKey: apiKeys.webhooks(selectedCourse.id) });
+
+  const createWebhookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/courses/${selectedCourse.id}/webhooks`, { url: url.trim(), events });
+      return await res.json();
+    },
+    onSuccess: (webhook: CreatedWebhook) => {
+      setCreated(webhook);
+      setUrl("");
+      refreshWebhooks();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add webhook",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleWebhookMutation = useMutation({
+    mutationFn: async ({ webhookId, active }: { webhookId: number; active: boolean }) => {
+      await apiRequest("PATCH", `/api/courses/${selectedCourse.id}/webhooks/${webhookId}`, { active });
+    },
+    onSuccess: refreshWebhooks,
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update webhook",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWebhookMutation = useMutation({
+    mutationFn: async (webhookId: number) => {
+      await apiRequest("DELETE", `/api/courses/${selectedCourse.id}/webhooks/${webhookId}`);
+    },
+    onSuccess: (_data, webhookId) => {
+      if (created?.id === webhookId) setCreated(null);
+      refreshWebhooks();
+      toast({ title: "Webhook removed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove webhook",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: DomainEventType, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const handleDelete = (webhook: WebhookSummary) => {
+    if (window.confirm(`Remove the webhook for ${webhook.url}? Its delivery log is removed with it.`)) {
+      deleteWebhookMutation.mutate(webhook.id);
+    }
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <WebhookIcon className="mr-2 h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Course events are posted as JSON to these URLs. Each request carries an{" "}
+          <span className="font-mono">X-ClassParticipate-Signature</span> header, "t=&lt;time&gt;,v1=&lt;signature&gt;",
+          where the signature is the HMAC-SHA256 of "&lt;time&gt;.&lt;body&gt;" keyed with the webhook's secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {created && (
+          <div className="space-y-2 rounded-md border border-primary/40 bg-primary/5 p-3">
+            <p className="text-sm font-medium">Webhook added. Copy its secret now, it won't be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={created.secret} className="font-mono text-xs" />
+              <Button size="icon" variant="outline" title="Copy secret" onClick={() => copySecret(created.secret)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {webhooks && webhooks.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{webhook.url}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {webhook.events.map(event => EVENT_LABELS[event as DomainEventType] ?? event).join(", ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Switch
+                    checked={webhook.active}
+                    title={webhook.active ? "Pause webhook" : "Resume webhook"}
+                    onCheckedChange={(active) => toggleWebhookMutation.mutate({ webhookId: webhook.id, active })}
+                    disabled={toggleWebhookMutation.isPending}
+                  />
+                  <Button size="icon" variant="ghost" title="Deliveries" onClick={() => setLogWebhook(webhook)}>
+                    <HistoryIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Remove webhook"
+                    onClick={() => handleDelete(webhook)}
+                    disabled={deleteWebhookMutation.isPending}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input
+              id="webhook-url"
+              placeholder="https://example.edu/hooks/classparticipate"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {DOMAIN_EVENT_TYPES.map((event) => (
+                <div key={event} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`webhook-event-${event}`}
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                    {EVENT_LABELS[event]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <Button
+            onClick={() => createWebhookMutation.mutate()}
+            disabled={createWebhookMutation.isPending || !url.trim() || events.length === 0}
+          >
+            {createWebhookMutation.isPending ? "Adding..." : "Add Webhook"}
+          </Button>
+        </div>
+      </CardContent>
+
+      {logWebhook && (
+        <DeliveryLog course={selectedCourse} webhook={logWebhook} onClose={() => setLogWebhook(null)} />
+      )}
+    </Card>
+  );
+}
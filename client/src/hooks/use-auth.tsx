@@ -4,7 +4,8 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User as SelectUser, InsertUser } from "@shared/schema";
+import { User as SelectUser, InsertUser, RegisterUser, Course } from "@shared/schema";
+import { getAwardLimit, hasGlobalPermission, hasPermission, isGlobalPermission, Permission } from "@shared/permissions";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -14,7 +15,7 @@ type AuthContextType = {
   error: Error | null;
   loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SelectUser, Error, RegisterUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
@@ -54,7 +55,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
@@ -117,3 +118,16 @@ export function useAuth() {
   }
   return context;
 }
+
+/**
+ * What the signed-in user may do, for hiding controls they can't use. Users
+ * only ever see courses they belong to, with the same role as their account,
+ * so the account role stands in for the course role. The server still checks.
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+  return {
+    can: (permission: Permission) => isGlobalPermission(permission) ? hasGlobalPermission(user, permission) : hasPermission(user?.role, permission),
+    awardLimit: (course: Pick<Course, "taAwardLimit">) => getAwardLimit(course, user?.role),
+  };
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, buildUrl } from "@/lib/queryClient";
+import type {
+  SafeUser,
+  ClassSession,
+  ParticipationRecord,
+  ParticipationRecordWithStudent,
+  ParticipationRequestWithStudent,
+  ParticipationRecordQuery,
+  PageQuery,
+  Page,
+  ParticipationRecordsBatchResult,
+  ParticipationPoints,
+  AuditEventWithActor,
+  AuditEventQuery,
+  StudentStatsQuery,
+  StudentStatsResponse,
+  Term,
+  RubricCategory,
+  GradingPolicy,
+  CourseGrades,
+  ExportFormat,
+  RosterImportRequest,
+  RosterImportResult,
+  InvitationSummary,
+  InvitationPreview,
+  AuthProviders,
+  LtiPlatformWithDeployments,
+  LtiToolConfig,
+  CourseLtiLink,
+  ApiTokenSummary,
+  WebhookSummary,
+  WebhookDelivery,
+} from "@shared/schema";
+
+export type ParticipationRecordParams = ParticipationRecordQuery & PageQuery & { courseId: number };
+export type AuditEventParams = AuditEventQuery & { courseId: number };
+
+/**
+ * Query keys for the course-scoped API.
+ *
+ * Each key is the endpoint path followed by the params that getQueryFn
+ * serializes into the query string. TanStack Query matches keys by prefix and
+ * partial objects, so invalidating apiKeys.participationRecords({ courseId })
+ * refreshes every filtered variant of that course's records.
+ */
+export const apiKeys = {
+  authProviders: () => ["/api/auth/providers"] as const,
+  terms: () => ["/api/terms"] as const,
+  invitations: () => ["/api/invitations"] as const,
+  invitationPreview: (token: string) => ["/api/invitations/preview", { token }] as const,
+  apiTokens: () => ["/api/tokens"] as const,
+  ltiPlatforms: () => ["/api/lti/platforms"] as const,
+  ltiConfig: () => ["/api/lti/config"] as const,
+  courseLtiLink: (courseId: number) => [`/api/courses/${courseId}/lti`] as const,
+  webhooks: (courseId: number) => [`/api/courses/${courseId}/webhooks`] as const,
+  webhookDeliveries: (courseId: number, webhookId: number) =>
+    [`/api/courses/${courseId}/webhooks/${webhookId}/deliveries`] as const,
+  rubric: (courseId: number) => [`/api/courses/${courseId}/rubric`] as const,
+  gradingPolicy: (courseId: number) => [`/api/courses/${courseId}/grading-policy`] as const,
+  grades: (courseId: number) => ["/api/grades", { courseId }] as const,
+  students: (courseId: number) => ["/api/students", { courseId }] as const,
+  courseStaff: (courseId: number) => [`/api/courses/${courseId}/staff`] as const,
+  currentClassSession: (courseId: number) => ["/api/class-sessions/current", { courseId }] as const,
+  participationRequests: (courseId: number) => ["/api/participation-requests", { courseId }] as const,
+  participationRecords: (params: ParticipationRecordParams) => ["/api/participation-records", params] as const,
+  participationPoints: (studentId: number, courseId: number) =>
+    [`/api/students/${studentId}/participation-points`, { courseId }] as const,
+  audit: (params: AuditEventParams) => ["/api/audit", params] as const,
+  siteAudit: (params: AuditEventQuery) => ["/api/audit/site", params] as const,
+  // Without a range the key matches every range, for invalidation
+  studentStats: (courseId: number, range?: StudentStatsQuery["range"]) =>
+    ["/api/stats/students", range ? { courseId, range } : { courseId }] as const,
+};
+
+type QueryOptions = {
+  enabled?: boolean;
+  refetchInterval?: number | false;
+};
+
+// Login methods the server offers besides username and password
+export function useAuthProviders(options?: QueryOptions) {
+  return useQuery<AuthProviders>({ queryKey: apiKeys.authProviders(), ...options });
+}
+
+export function useTerms(options?: QueryOptions) {
+  return useQuery<Term[]>({ queryKey: apiKeys.terms(), ...options });
+}
+
+// Invitations the current admin created, newest first
+export function useInvitations(options?: QueryOptions) {
+  return useQuery<InvitationSummary[]>({ queryKey: apiKeys.invitations(), ...options });
+}
+
+// The current user's personal API tokens, newest first
+export function useApiTokens(options?: QueryOptions) {
+  return useQuery<ApiTokenSummary[]>({ queryKey: apiKeys.apiTokens(), ...options });
+}
+
+// LMS platforms registered for LTI launches, with their deployments
+export function useLtiPlatforms(options?: QueryOptions) {
+  return useQuery<LtiPlatformWithDeployments[]>({ queryKey: apiKeys.ltiPlatforms(), ...options });
+}
+
+// The URLs to register ClassParticipate with in an LMS
+export function useLtiConfig(options?: QueryOptions) {
+  return useQuery<LtiToolConfig>({ queryKey: apiKeys.ltiConfig(), ...options });
+}
+
+// The LMS course a course is linked to; null when it isn't
+export function useCourseLtiLink(courseId: number, options?: QueryOptions) {
+  return useQuery<CourseLtiLink>({ queryKey: apiKeys.courseLtiLink(courseId), ...options });
+}
+
+// The course's webhooks; the secrets are only shown when they're created
+export function useWebhooks(courseId: number, options?: QueryOptions) {
+  return useQuery<WebhookSummary[]>({ queryKey: apiKeys.webhooks(courseId), ...options });
+}
+
+// A webhook's latest deliveries, newest first
+export function useWebhookDeliveries(courseId: number, webhookId: number, options?: QueryOptions) {
+  return useQuery<WebhookDelivery[]>({ queryKey: apiKeys.webhookDeliveries(courseId, webhookId), ...options });
+}
+
+// Fails with the server's message when the token is unknown, used, revoked or expired
+export function useInvitationPreview(token: string | null, options?: QueryOptions) {
+  return useQuery<InvitationPreview>({
+    queryKey: apiKeys.invitationPreview(token ?? ""),
+    ...options,
+    enabled: token !== null && (options?.enabled ?? true),
+  });
+}
+
+// Rubric categories, cheapest first
+export function useRubric(courseId: number, options?: QueryOptions) {
+  return useQuery<RubricCategory[]>({ queryKey: apiKeys.rubric(courseId), ...options });
+}
+
+export function useGradingPolicy(courseId: number, options?: QueryOptions) {
+  return useQuery<GradingPolicy>({ queryKey: apiKeys.gradingPolicy(courseId), ...options });
+}
+
+// Staff get every student's grade; students only get their own
+export function useGrades(courseId: number, options?: QueryOptions) {
+  return useQuery<CourseGrades>({ queryKey: apiKeys.grades(courseId), ...options });
+}
+
+export function useCourseStudents(courseId: number, options?: QueryOptions) {
+  return useQuery<SafeUser[]>({ queryKey: apiKeys.students(courseId), ...options });
+}
+
+// TAs assigned to the course
+export function useCourseStaff(courseId: number, options?: QueryOptions) {
+  return useQuery<SafeUser[]>({ queryKey: apiKeys.courseStaff(courseId), ...options });
+}
+
+export function useCurrentClassSessionQuery(courseId: number, options?: QueryOptions) {
+  return useQuery<ClassSession | null>({ queryKey: apiKeys.currentClassSession(courseId), ...options });
+}
+
+export function useParticipationRequests(courseId: number, options?: QueryOptions) {
+  return useQuery<ParticipationRequestWithStudent[]>({ queryKey: apiKeys.participationRequests(courseId), ...options });
+}
+
+// One page of records. Staff get every student's records; students only get their own
+export function useParticipationRecords<T extends ParticipationRecord = ParticipationRecordWithStudent>(
+  params: ParticipationRecordParams,
+  options?: QueryOptions
+) {
+  return useQuery<Page<T>>({ queryKey: apiKeys.participationRecords(params), ...options });
+}
+
+// Page through records with Previous/Next, starting over whenever the filters change
+export function usePaginatedParticipationRecords<T extends ParticipationRecord = ParticipationRecordWithStudent>(
+  params: Omit<ParticipationRecordParams, "cursor" | "limit">,
+  pageSize = 20
+) {
+  // Cursors of the pages visited so far (the first page has none), remembered per set of filters
+  const filtersKey = JSON.stringify(params);
+  const [paging, setPaging] = useState<{ filtersKey: string; cursors: (string | undefined)[] }>({
+    filtersKey,
+    cursors: [undefined],
+  });
+  const cursors = paging.filtersKey === filtersKey ? paging.cursors : [undefined];
+
+  const query = useParticipationRecords<T>({ ...params, cursor: cursors[cursors.length - 1], limit: pageSize });
+  const nextCursor = query.data?.nextCursor;
+
+  return {
+    ...query,
+    records: query.data?.items ?? [],
+    pageNumber: cursors.length,
+    hasPreviousPage: cursors.length > 1,
+    hasNextPage: !!nextCursor,
+    nextPage: () => {
+      if (nextCursor) setPaging({ filtersKey, cursors: [...cursors, nextCursor] });
+    },
+    previousPage: () => setPaging({ filtersKey, cursors: cursors.slice(0, -1) }),
+  };
+}
+
+export function useParticipationPoints(studentId: number | undefined, courseId: number, options?: QueryOptions) {
+  return useQuery<ParticipationPoints>({
+    queryKey: apiKeys.participationPoints(studentId ?? 0, courseId),
+    ...options,
+    enabled: studentId !== undefined && (options?.enabled ?? true),
+  });
+}
+
+export function useAuditEvents(params: AuditEventParams, options?: QueryOptions) {
+  return useQuery<AuditEventWithActor[]>({ queryKey: apiKeys.audit(params), ...options });
+}
+
+export function useSiteAuditEvents(params: AuditEventQuery, options?: QueryOptions) {
+  return useQuery<AuditEventWithActor[]>({ queryKey: apiKeys.siteAudit(params), ...options });
+}
+
+export function useStudentStats(courseId: number, range: StudentStatsQuery["range"], options?: QueryOptions) {
+  return useQuery<StudentStatsResponse>({ queryKey: apiKeys.studentStats(courseId, range), ...options });
+}
+
+// Download link for a server-side export; the browser streams it straight to a file
+export function exportUrl(courseId: number, format: ExportFormat): string {
+  return buildUrl("/api/exports", { courseId, format });
+}
+
+export async function deleteTodayParticipationRecords(courseId: number): Promise<ParticipationRecordsBatchResult> {
+  const res = await apiRequest("DELETE", buildUrl("/api/participation-records/today", { courseId }));
+  return await res.json();
+}
+
+export async function restoreParticipationRecords(
+  courseId: number,
+  target: { batchId: string } | { date: Date }
+): Promise<ParticipationRecordsBatchResult> {
+  const res = await apiRequest("POST", "/api/participation-records/restore", { courseId, ...target });
+  return await res.json();
+}
+
+// The preview runs every check of the import but changes nothing
+export async function previewRosterImport(courseId: number, request: RosterImportRequest): Promise<RosterImportResult> {
+  const res = await apiRequest("POST", `/api/courses/${courseId}/roster/preview`, request);
+  return await res.json();
+}
+
+export async function importRoster(courseId: number, request: RosterImportRequest): Promise<RosterImportResult> {
+  const res = await apiRequest("POST", `/api/courses/${courseId}/roster/import`, request);
+  return await res.json();
+}
@@ -1,16 +1,24 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// A failed API call; body is the server's parsed JSON answer, when it sent one
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: unknown) {
+    super(message);
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = await res.text();
     let message = text;
+    let body: unknown = null;
     try {
-      const json = JSON.parse(text);
-      message = json.message || text;
+      body = JSON.parse(text);
+      message = (body as { message?: string }).message || text;
     } catch (e) {
       // Not JSON, use raw text
     }
-    throw new Error(message || res.statusText);
+    throw new ApiError(message || res.statusText, res.status, body);
   }
 }
 
@@ -30,13 +38,34 @@ export async function apiRequest(
   return res;
 }
 
+// Append query-key params to an endpoint path as a query string.
+// Query keys look like ["/api/participation-records", { courseId: 1, showHidden: true }];
+// undefined and null values are skipped and dates are sent as ISO strings.
+export function buildUrl(path: string, ...paramObjects: unknown[]): string {
+  const search = new URLSearchParams();
+
+  for (const params of paramObjects) {
+    if (!params || typeof params !== "object") continue;
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === null) continue;
+      search.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+  }
+
+  const query = search.toString();
+  if (!query) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}${query}`;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
     async ({ queryKey }) => {
-      const res = await fetch(queryKey[0] as string, {
+      const [path, ...params] = queryKey;
+      const res = await fetch(buildUrl(path as string, ...params), {
         credentials: "include",
       });
 
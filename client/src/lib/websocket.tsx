@@ -100,14 +100,7 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         setConnecting(false);
         reconnectAttemptsRef.current = 0; // Reset reconnect attempts
         
-        // Send initial message with user ID
-        if (user) {
-          const joinMessage = {
-            type: "join",
-            payload: { userId: user.id }
-          };
-          socket.send(JSON.stringify(joinMessage));
-        }
+        // No join message is needed: the server identifies the user from the session cookie
         
         // Set up ping interval to keep connection alive
         clearInterval(pingIntervalRef.current);
@@ -261,6 +254,13 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Drop the connection on logout, since it is bound to the previous session
+  useEffect(() => {
+    if (!user) {
+      disconnect();
+    }
+  }, [user, disconnect]);
+
   // Connect when user changes
   useEffect(() => {
     // Only attempt to connect if we have a user and aren't already connected/connecting
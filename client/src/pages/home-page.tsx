@@ -1,12 +1,21 @@
 import { useState, useEffect } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
-import { DEFAULT_COURSE } from "@shared/schema";
+import { Course } from "@shared/schema";
+import { ROLE_LABELS, UserRole } from "@shared/permissions";
 import { Loader2, Users, Award, BookOpen } from "lucide-react";
 import { WebSocketProvider, useWebSocket } from "@/lib/websocket";
 import StudentDashboard from "@/components/student-dashboard";
 import AdminDashboard from "@/components/admin-dashboard";
+import { CreateCourse, JoinCourse, CourseJoinCode, CourseTimeZone, NoCourses } from "@/components/course-management";
+import { CourseTerm, ManageTerms } from "@/components/terms-management";
+import { ManageInvitations } from "@/components/invitations";
+import { ManageLtiPlatforms } from "@/components/lti";
+import { SiteActivityLog } from "@/components/activity-log";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const SELECTED_COURSE_STORAGE_KEY = "selectedCourseId";
 
 // Component that manages WebSocket connection but doesn't force reconnection
 // The useWebSocket hook now handles connecting automatically when a user is present
@@ -24,15 +33,49 @@ function CourseWithWebSocket({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
-function CourseHeader() {
+type CourseHeaderProps = {
+  courses: Course[];
+  selectedCourse: Course;
+  onSelectCourse: (courseId: number) => void;
+};
+
+function CourseHeader({ courses, selectedCourse, onSelectCourse }: CourseHeaderProps) {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const isStaff = can("queue:view");
   
   return (
     <div className="mb-6">
-      <h1 className="text-3xl font-bold tracking-tight">
-        {DEFAULT_COURSE.name}
-      </h1>
-      <p className="text-muted-foreground mt-1 mb-4">{DEFAULT_COURSE.description}</p>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight">
+          {selectedCourse.name}
+        </h1>
+        <div className="flex items-center gap-2">
+          {courses.length > 1 && (
+            <Select
+              value={String(selectedCourse.id)}
+              onValueChange={(value) => onSelectCourse(parseInt(value))}
+            >
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder="Select a course" />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map((course) => (
+                  <SelectItem key={course.id} value={String(course.id)}>
+                    {course.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {can("invitations:manage") && <ManageInvitations />}
+          {can("terms:manage") && <ManageTerms />}
+          {can("lti:manage") && <ManageLtiPlatforms />}
+          {can("audit:site") && <SiteActivityLog />}
+          {can("courses:create") ? <CreateCourse /> : <JoinCourse />}
+        </div>
+      </div>
+      <p className="text-muted-foreground mt-1 mb-4">{selectedCourse.description}</p>
       
       <div className="grid gap-4 grid-cols-1 md:grid-cols-3">
         <Card>
@@ -41,23 +84,30 @@ function CourseHeader() {
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold capitalize">{user?.role}</div>
+            <div className="text-2xl font-bold">{user && ROLE_LABELS[user.role as UserRole]}</div>
             <p className="text-xs text-muted-foreground">
-              {user?.role === "admin" ? "Manage student participation" : "Participate in class discussions"}
+              {isStaff ? "Manage student participation" : "Participate in class discussions"}
             </p>
           </CardContent>
         </Card>
         
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Course ID</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {can("roster:manage") ? "Join Code" : "Course ID"}
+            </CardTitle>
             <BookOpen className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{DEFAULT_COURSE.id}</div>
-            <p className="text-xs text-muted-foreground">
-              Spring 2025 Semester
-            </p>
+            {can("roster:manage") ? (
+              <CourseJoinCode course={selectedCourse} />
+            ) : (
+              <div className="text-2xl font-bold">{selectedCourse.id}</div>
+            )}
+            <div className="space-y-1">
+              <CourseTerm course={selectedCourse} editable={can("course:manage")} />
+              <CourseTimeZone course={selectedCourse} editable={can("course:manage")} />
+            </div>
           </CardContent>
         </Card>
         
@@ -69,7 +119,7 @@ function CourseHeader() {
           <CardContent>
             <div className="text-2xl font-bold">Active</div>
             <p className="text-xs text-muted-foreground">
-              {user?.role === "admin" ? "Track student engagement" : "Earn points by participating"}
+              {isStaff ? "Track student engagement" : "Earn points by participating"}
             </p>
           </CardContent>
         </Card>
@@ -80,8 +130,34 @@ function CourseHeader() {
 
 function HomePageContent() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const [selectedCourseId, setSelectedCourseId] = useState<number | null>(() => {
+    // An LMS launch lands on /?courseId=N with the course it launched into
+    const launched = new URLSearchParams(window.location.search).get("courseId");
+    if (launched) {
+      localStorage.setItem(SELECTED_COURSE_STORAGE_KEY, launched);
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+    const stored = launched ?? localStorage.getItem(SELECTED_COURSE_STORAGE_KEY);
+    return stored ? parseInt(stored) : null;
+  });
   
-  if (!user) {
+  // Courses the user can see (owned courses for admins, assigned ones for TAs)
+  const { data: courses, isLoading: coursesLoading } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    enabled: !!user,
+  });
+  
+  // Fall back to the first course if the remembered one is gone
+  const selectedCourse = courses?.find(course => course.id === selectedCourseId) ?? courses?.[0];
+  
+  // Remember the selected course between visits
+  const handleSelectCourse = (courseId: number) => {
+    setSelectedCourseId(courseId);
+    localStorage.setItem(SELECTED_COURSE_STORAGE_KEY, String(courseId));
+  };
+  
+  if (!user || coursesLoading) {
     return (
       <div className="flex items-center justify-center min-h-[calc(100vh-136px)]">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -89,14 +165,23 @@ function HomePageContent() {
     );
   }
   
+  if (!courses || !selectedCourse) {
+    return <NoCourses />;
+  }
+  
   return (
     <>
-      <CourseHeader />
+      <CourseHeader
+        courses={courses}
+        selectedCourse={selectedCourse}
+        onSelectCourse={handleSelectCourse}
+      />
       
-      {user.role === "admin" ? (
-        <AdminDashboard selectedCourse={DEFAULT_COURSE} />
+      {/* Admins and TAs share the dashboard; it hides whatever the role can't use */}
+      {can("queue:view") ? (
+        <AdminDashboard key={selectedCourse.id} selectedCourse={selectedCourse} />
       ) : (
-        <StudentDashboard selectedCourse={DEFAULT_COURSE} />
+        <StudentDashboard key={selectedCourse.id} selectedCourse={selectedCourse} />
       )}
     </>
   );
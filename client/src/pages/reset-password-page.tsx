@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { PasswordResetRequest, passwordResetRequestSchema, passwordResetSchema } from "@shared/schema";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+// Reset links look like /reset-password?token=<token>
+function getResetToken(): string | null {
+  return new URLSearchParams(window.location.search).get("token");
+}
+
+const newPasswordSchema = passwordResetSchema.omit({ token: true }).extend({
+  confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type NewPasswordFormData = z.infer<typeof newPasswordSchema>;
+
+// Asks for a reset link to be emailed
+function RequestResetForm() {
+  const [message, setMessage] = useState<string | null>(null);
+  const form = useForm<PasswordResetRequest>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: {
+      identifier: "",
+    },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (data: PasswordResetRequest) => {
+      const res = await apiRequest("POST", "/api/password-reset", data);
+      return await res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      setMessage(result.message);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to request a reset link",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (message) {
+    return <p className="text-sm text-muted-foreground">{message}</p>;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => requestResetMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="identifier"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username or Email</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+          {requestResetMutation.isPending ? "Sending..." : "Email Me a Reset Link"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+// Chooses a new password with the token from a reset link
+function NewPasswordForm({ token }: { token: string }) {
+  const [, navigate] = useLocation();
+  const form = useForm<NewPasswordFormData>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: NewPasswordFormData) => {
+      await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "You can log in with your new password now.",
+      });
+      navigate("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset password",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+          {resetPasswordMutation.isPending ? "Saving..." : "Set New Password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  const [token] = useState(getResetToken);
+
+  return (
+    <div className="min-h-[calc(100vh-136px)] flex items-center justify-center py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{token ? "Choose a New Password" : "Forgot Your Password?"}</CardTitle>
+          <CardDescription>
+            {token
+              ? "Reset links work once and expire after a while"
+              : "We'll email you a link for choosing a new password"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link href="/auth" className="text-sm text-primary hover:underline">
+            Back to login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeys, useApiTokens } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import {
+  API_TOKEN_SCOPES,
+  ApiTokenScope,
+  CreatedApiToken,
+  SafeUser,
+  UpdateProfile,
+  changePasswordSchema,
+  updateProfileSchema
+} from "@shared/schema";
+import { format } from "date-fns";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, XCircle } from "lucide-react";
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Read (GET requests)",
+  write: "Write (create, change and delete)",
+};
+
+const TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+const profileSchema = updateProfileSchema.required({ name: true, email: true });
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+
+const passwordSchema = changePasswordSchema.extend({
+  confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type PasswordFormData = z.infer<typeof passwordSchema>;
+
+function ProfileSettings({ user }: { user: SafeUser }) {
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: user.name,
+      email: user.email,
+      currentPassword: "",
+    },
+  });
+  const emailChanged = form.watch("email").trim().toLowerCase() !== user.email.toLowerCase();
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: UpdateProfile) => {
+      const res = await apiRequest("PATCH", "/api/user", data);
+      return await res.json();
+    },
+    onSuccess: (updatedUser: SafeUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      form.reset({ name: updatedUser.name, email: updatedUser.email, currentPassword: "" });
+      toast({
+        title: "Profile updated",
+        description: "Your name and email have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update profile",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = ({ currentPassword, ...data }: ProfileFormData) => {
+    updateProfileMutation.mutate(emailChanged ? { ...data, currentPassword } : data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>Your username is {user.username} and can't be changed</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Password reset links go to this address, so moving it takes the password */}
+            {emailChanged && (
+              <FormField
+                control={form.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Current Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <Button type="submit" disabled={updateProfileMutation.isPending}>
+              {updateProfileMutation.isPending ? "Saving..." : "Save Profile"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PasswordSettings() {
+  const form = useForm<PasswordFormData>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ confirmPassword, ...data }: PasswordFormData) => {
+      await apiRequest("POST", "/api/user/password", data);
+    },
+    onSuccess: () => {
+      form.reset();
+      toast({
+        title: "Password changed",
+        description: "Use your new password the next time you log in.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>Enter your current password to choose a new one</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={changePasswordMutation.isPending}>
+              {changePasswordMutation.isPending ? "Changing..." : "Change Password"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ApiTokenSettings() {
+  const { data: tokens } = useApiTokens();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const refreshTokens = () => queryClient.invalidateQueries({ queryKey: apiKeys.apiTokens() });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tokens", {
+        name: name.trim(),
+        scopes,
+        expiresInDays: parseInt(expiresInDays),
+      });
+      return await res.json();
+    },
+    onSuccess: (token: CreatedApiToken) => {
+      setCreated(token);
+      setName("");
+      refreshTokens();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create token",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (tokenId: number) => {
+      await apiRequest("DELETE", `/api/tokens/${tokenId}`);
+    },
+    onSuccess: (_data, tokenId) => {
+      if (created?.id === tokenId) setCreated(null);
+      refreshTokens();
+      toast({
+        title: "Token revoked",
+        description: "Scripts using it will stop working.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke token",
+        description: error.message || "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast({
+      title: "Token copied",
+      description: "Keep it somewhere safe; anyone with it can act as you.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+        <CardDescription>
+          Scripts send a token as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span> to the{" "}
+          <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">
+            REST API
+          </a>
+          . A token can do what you can, limited to its scopes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {created && (
+          <div className="space-y-2 rounded-md border border-primary/40 bg-primary/5 p-3">
+            <p className="text-sm font-medium">Token created. Copy it now, it won't be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={created.token} className="font-mono text-xs" />
+              <Button size="icon" variant="outline" title="Copy token" onClick={() => copyToken(created.token)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              placeholder="e.g. Gradebook sync"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {API_TOKEN_SCOPES.map((scope) => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox
+                  id={`token-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`token-scope-${scope}`} className="font-normal">
+                  {SCOPE_LABELS[scope]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="token-expiry">Expires after</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger id="token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TOKEN_EXPIRY_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => createTokenMutation.mutate()}
+            disabled={createTokenMutation.isPending || !name.trim() || scopes.length === 0}
+          >
+            {createTokenMutation.isPending ? "Creating..." : "Create Token"}
+          </Button>
+        </div>
+
+        {tokens && tokens.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {tokens.map((token) => {
+              const expired = new Date(token.expiresAt) <= new Date();
+              return (
+                <div key={token.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {token.name} <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {expired ? "Expired" : "Expires"} {format(new Date(token.expiresAt), "MMM d, yyyy")} ·{" "}
+                      {token.lastUsedAt ? `last used ${format(new Date(token.lastUsedAt), "MMM d, h:mm a")}` : "never used"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant={expired ? "outline" : "secondary"}>{scope}</Badge>
+                    ))}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Revoke token"
+                      onClick={() => revokeTokenMutation.mutate(token.id)}
+                      disabled={revokeTokenMutation.isPending}
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  // ProtectedRoute only renders this page with a user
+  const { user } = useAuth();
+
+  return (
+    <div className="mx-auto max-w-xl space-y-6">
+      <h2 className="text-2xl font-bold">Account Settings</h2>
+      <ProfileSettings user={user!} />
+      <PasswordSettings />
+      <ApiTokenSettings />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { ApiToken, ApiTokenScope, ApiTokenSettings, ApiTokenSummary, CreatedApiToken, User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with an API token instead of the session
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tokens start with this, so they're easy to recognize, e.g. by secret scanners
+const TOKEN_PREFIX = "cp_";
+// How many characters of a token are kept to tell tokens apart in the list
+const DISPLAYED_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// lastUsedAt is only written this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Tokens are only kept as a hash, so a leaked database can't be used to call the API
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function summarizeApiToken(apiToken: ApiToken): ApiTokenSummary {
+  const { tokenHash, ...summary } = apiToken;
+  return summary;
+}
+
+// A new token for the user; the token itself is only part of this response
+export async function issueApiToken(
+  userId: number,
+  settings: ApiTokenSettings
+): Promise<CreatedApiToken> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiToken: ApiToken = await storage.createApiToken({
+    userId,
+    name: settings.name,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, DISPLAYED_PREFIX_LENGTH),
+    scopes: Array.from(new Set(settings.scopes)),
+    expiresAt: new Date(Date.now() + settings.expiresInDays * DAY_MS),
+  });
+  return { ...summarizeApiToken(apiToken), token };
+}
+
+// The scope a request needs: reading for safe methods, writing for everything else
+function getRequiredScope(req: Request): ApiTokenScope {
+  return READ_METHODS.includes(req.method) ? "read" : "write";
+}
+
+/**
+ * Sign in requests that carry "Authorization: Bearer <token>" as the token's
+ * user, for this request only. Requests without the header are left to the
+ * session. A bad, expired or underscoped token is refused rather than falling
+ * back to the session, so scripts find out right away.
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const match = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return next();
+
+  try {
+    const apiToken: ApiToken | undefined = await storage.getApiTokenByHash(hashApiToken(match[1]));
+    if (!apiToken || apiToken.expiresAt <= new Date()) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const user: User | undefined = await storage.getUser(apiToken.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const scope = getRequiredScope(req);
+    if (!apiToken.scopes.includes(scope)) {
+      return res.status(403).json({ message: `This API token doesn't have the "${scope}" scope` });
+    }
+
+    if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await storage.touchApiToken(apiToken.id);
+    }
+
+    req.user = user;
+    req.apiToken = apiToken;
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+}
+
+// For account changes, token management and anything that hands out access (invitations, new accounts,
+// password resets), which a leaked token mustn't be able to do or outlive
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ message: "API tokens can't be used for this; sign in instead" });
+  }
+  return next();
+}
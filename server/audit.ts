@@ -0,0 +1,16 @@
+import { storage } from "./storage";
+import type { InsertAuditEvent } from "@shared/schema";
+
+/**
+ * Append an entry to the audit trail.
+ *
+ * Audit writes never fail the request that triggered them: the action has
+ * already happened by the time it is recorded, so errors are only logged.
+ */
+export async function recordAuditEvent(event: InsertAuditEvent): Promise<void> {
+  try {
+    await storage.createAuditEvent(event);
+  } catch (error) {
+    console.error("Error recording audit event:", event.action, error);
+  }
+}
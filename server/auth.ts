@@ -1,11 +1,34 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler, Request, Response } from "express";
+import { IncomingMessage } from "http";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, sanitizeUser } from "@shared/schema";
+import { recordAuditEvent } from "./audit";
+import { findPendingInvitation, joinInvitationCourse } from "./invitations";
+import { findUsableResetToken, getAppUrl, sendPasswordResetLink } from "./password-reset";
+import { clearLoginFailures, passLoginAttempt, takeLoginAttempt, takePasswordResetAttempt, type TakenLoginAttempt } from "./login-throttle";
+import { OidcStrategy, findOrCreateSsoUser, getOidcConfig } from "./oidc";
+import { setupMockOidcProvider } from "./mock-oidc";
+import { authenticateApiToken, requireSession } from "./api-tokens";
+import { confirmPendingLink } from "./external-accounts";
+import {
+  User as SelectUser,
+  Invitation,
+  LoginLockout,
+  AuthProviders,
+  SsoErrorCode,
+  registerUserSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  sanitizeUser
+} from "@shared/schema";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 declare global {
   namespace Express {
@@ -13,27 +36,85 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// The database refused a username or email that another account took between our check and the write
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === "23505";
+}
+
+// A stored value that isn't a hash from hashPassword never matches, rather than throwing
 async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
   const hashedBuf = Buffer.from(hashed, "hex");
+  if (hashedBuf.length !== 64) return false;
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
-  const PROFESSOR_CODE = process.env.PROFESSOR_VERIFICATION_CODE || "iamaprofessor";
-  console.log(`[Auth] Active Professor Verification Code: "${PROFESSOR_CODE}"`);
+type LoginRevokedListener = (userId: number, keepSessionId?: string) => void;
+
+// Told when a user's logins are revoked, so connections opened with them (WebSockets) can be closed too
+const loginRevokedListeners: LoginRevokedListener[] = [];
+
+export function onLoginsRevoked(listener: LoginRevokedListener) {
+  loginRevokedListeners.push(listener);
+}
+
+// After a password change, whoever knew the old one is shut out: other logins end and API tokens stop working
+export async function revokeLogins(userId: number, keepSessionId?: string): Promise<void> {
+  await storage.deleteUserSessions(userId, keepSessionId);
+  await storage.deleteApiTokens(userId);
+  loginRevokedListeners.forEach(listener => listener(userId, keepSessionId));
+}
+
+// Session middleware, kept so it can also be run outside of Express (WebSocket upgrades)
+let sessionMiddleware: RequestHandler | null = null;
+
+/**
+ * Resolve the logged-in user of a raw HTTP request from its session cookie.
+ * Used to authenticate WebSocket upgrades, which bypass the Express middleware stack.
+ */
+export async function getSessionUser(req: IncomingMessage): Promise<SelectUser | undefined> {
+  if (!sessionMiddleware) {
+    throw new Error("setupAuth must be called before authenticating requests");
+  }
+
+  const parseSession = sessionMiddleware;
+  await new Promise<void>((resolve, reject) => {
+    parseSession(req as Request, {} as Response, (err?: any) => (err ? reject(err) : resolve()));
+  });
 
+  // passport stores the serialized user id under session.passport.user
+  const userId = (req as Request).session?.passport?.user;
+  if (typeof userId !== "number") {
+    return undefined;
+  }
+
+  return storage.getUser(userId);
+}
+
+// Signs the session cookie, and any other cookie the server has to be able to trust
+export function getCookieSecret(): string {
+  return process.env.SESSION_SECRET || "participation-tracking-app-secret";
+}
+
+export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "participation-tracking-app-secret",
+    secret: getCookieSecret(),
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
@@ -42,10 +123,14 @@ export function setupAuth(app: Express) {
     }
   };
 
+  sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  // Scripts send a personal API token instead of the session cookie
+  app.use("/api", authenticateApiToken);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -61,6 +146,15 @@ export function setupAuth(app: Express) {
     }),
   );
 
+  // Single sign-on, when an OpenID Connect provider is configured
+  if (process.env.OIDC_MOCK === "true" && app.get("env") !== "production") {
+    setupMockOidcProvider(app);
+  }
+  const oidcConfig = getOidcConfig();
+  if (oidcConfig) {
+    passport.use(new OidcStrategy(oidcConfig, (claims) => findOrCreateSsoUser(oidcConfig, claims)));
+  }
+
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     try {
@@ -71,43 +165,132 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Self-registration creates a student account; an invitation decides the role and course instead
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const { inviteToken, ...userData } = registerUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(userData.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
-
-      // Check if professor verification code is provided to assign admin role
-      let { role, professorCode, ...userData } = req.body;
-
-      // Verify professor code before allowing admin role
-      const PROFESSOR_CODE = process.env.PROFESSOR_VERIFICATION_CODE || "iamaprofessor";
-      if (role === "admin" && professorCode !== PROFESSOR_CODE) {
-        return res.status(400).json({ message: "Invalid professor verification code" });
+      // Emails identify accounts for password resets and SSO linking, so each belongs to one account
+      if (await storage.getUserByEmail(userData.email)) {
+        return res.status(400).json({ message: "This email is already used by another account" });
       }
 
-      if (professorCode === PROFESSOR_CODE) {
-        console.log("Creating admin account with verification code");
+      let invitation: Invitation | undefined;
+      if (inviteToken) {
+        invitation = await findPendingInvitation(inviteToken);
+        if (!invitation) {
+          return res.status(400).json({ message: "This invitation is invalid or has expired" });
+        }
+        if (invitation.email && invitation.email !== userData.email.toLowerCase()) {
+          return res.status(400).json({ message: "This invitation is for a different email address" });
+        }
+        // Claimed before the account exists, so the same invitation can't register two accounts
+        if (!(await storage.claimInvitation(invitation.id))) {
+          return res.status(400).json({ message: "This invitation is invalid or has expired" });
+        }
       }
 
       const user = await storage.createUser({
         ...userData,
-        role,
-        password: await hashPassword(req.body.password),
+        role: invitation?.role ?? "student",
+        // The first admin, invited at startup, also runs the site
+        siteAdmin: invitation?.role === "admin" && invitation.createdBy === null,
+        password: await hashPassword(userData.password),
+      });
+
+      await recordAuditEvent({
+        actorId: user.id,
+        action: "user.register",
+        targetType: "user",
+        targetId: user.id,
+        after: sanitizeUser(user)
       });
 
+      if (invitation) {
+        await storage.setInvitationUser(invitation.id, user.id);
+        await joinInvitationCourse(invitation, user.id);
+
+        await recordAuditEvent({
+          actorId: user.id,
+          courseId: invitation.courseId,
+          action: "invitation.accept",
+          targetType: "invitation",
+          targetId: invitation.id
+        });
+      }
+
       req.login(user, (err) => {
         if (err) return next(err);
         return res.status(201).json(sanitizeUser(user));
       });
     } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (isUniqueViolation(err)) {
+        return res.status(400).json({ message: "This username or email was just taken by another account" });
+      }
       next(err);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    return res.status(200).json(sanitizeUser(req.user!));
+  // Failed logins are throttled per account and per address, with waits that double up to a lockout
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+
+    const sendLockout = (lockout: LoginLockout) => {
+      res.set("Retry-After", String(Math.ceil((lockout.lockedUntil.getTime() - Date.now()) / 1000)));
+      return res.status(429).json(lockout);
+    };
+
+    // The attempt counts as a failure until the password is known to be right
+    let attempt: TakenLoginAttempt;
+    try {
+      attempt = await takeLoginAttempt(username, req.ip);
+      if (attempt.lockout) return sendLockout(attempt.lockout);
+    } catch (err) {
+      return next(err);
+    }
+
+    passport.authenticate("local", async (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+
+      try {
+        if (!user) {
+          const { failures, failureLockout: lockout } = attempt;
+          const account = await storage.getUserByUsername(username);
+
+          await recordAuditEvent({
+            actorId: null,
+            action: "user.login.failed",
+            targetType: "user",
+            targetId: account?.id ?? null,
+            after: { username, ip: req.ip, failures, lockedUntil: lockout?.lockedUntil ?? null }
+          });
+
+          if (lockout) return sendLockout(lockout);
+          return res.status(401).json({ message: "Invalid username or password" });
+        }
+
+        await passLoginAttempt(username, req.ip);
+        // Signing in with the password confirms an SSO or LMS login waiting to be linked to the account
+        const pendingLink = req.session.pendingExternalLink;
+        delete req.session.pendingExternalLink;
+        await confirmPendingLink(pendingLink, user);
+      } catch (error) {
+        return next(error);
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        return res.status(200).json(sanitizeUser(user));
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -117,8 +300,178 @@ export function setupAuth(app: Express) {
     });
   });
 
+  app.get("/api/auth/providers", (_req, res) => {
+    const providers: AuthProviders = { sso: oidcConfig ? { name: oidcConfig.providerName } : null };
+    res.json(providers);
+  });
+
+  if (oidcConfig) {
+    app.get("/api/auth/oidc/login", passport.authenticate("oidc"));
+
+    // The provider sends the browser back here; failures go back to the login page with a code for the reason
+    app.get("/api/auth/oidc/callback", (req, res, next) => {
+      passport.authenticate("oidc", (err: any, user: SelectUser | false, info?: { code?: SsoErrorCode }) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.redirect(`/auth?ssoError=${info?.code ?? "failed"}`);
+        }
+        req.login(user, (err) => {
+          if (err) return next(err);
+          return res.redirect("/");
+        });
+      })(req, res, next);
+    });
+  }
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(sanitizeUser(req.user!));
   });
+
+  // Name and email; a new email takes the current password, since reset links are sent there
+  app.patch("/api/user", requireSession, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { currentPassword, ...updates } = updateProfileSchema.parse(req.body);
+      const user = req.user!;
+      const emailChanged = updates.email !== undefined && updates.email.toLowerCase() !== user.email.toLowerCase();
+
+      if (emailChanged) {
+        if (!currentPassword || !(await comparePasswords(currentPassword, user.password))) {
+          return res.status(400).json({ message: "Your current password is incorrect" });
+        }
+        const owner = await storage.getUserByEmail(updates.email!);
+        if (owner && owner.id !== user.id) {
+          return res.status(400).json({ message: "This email is already used by another account" });
+        }
+      }
+
+      // A new email is unproven until a reset link sent to it is used; links sent to the old one stop working
+      const updatedUser = await storage.updateUser(user.id, emailChanged ? { ...updates, emailVerified: false } : updates);
+      if (emailChanged) {
+        await storage.deletePasswordResetTokens(user.id);
+      }
+
+      await recordAuditEvent({
+        actorId: user.id,
+        action: "user.update",
+        targetType: "user",
+        targetId: user.id,
+        before: { name: user.name, email: user.email },
+        after: { name: updatedUser!.name, email: updatedUser!.email }
+      });
+
+      return res.json(sanitizeUser(updatedUser!));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        return res.status(400).json({ message: validationError.message });
+      }
+      if (isUniqueViolation(err)) {
+        return res.status(400).json({ message: "This email was just taken by another account" });
+      }
+      next(err);
+    }
+  });
+
+  app.post("/api/user/password", requireSession, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = req.user!;
+
+      if (!(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Your current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      // Reset links sent before the change would otherwise still work
+      await storage.deletePasswordResetTokens(user.id);
+      // The browser that made the change stays logged in
+      await revokeLogins(user.id, req.sessionID);
+
+      await recordAuditEvent({
+        actorId: user.id,
+        action: "user.password.change",
+        targetType: "user",
+        targetId: user.id
+      });
+
+      return res.sendStatus(204);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        return res.status(400).json({ message: validationError.message });
+      }
+      next(err);
+    }
+  });
+
+  // Forgotten passwords: email a reset link to the account with that username or email
+  app.post("/api/password-reset", async (req, res, next) => {
+    try {
+      const { identifier } = passwordResetRequestSchema.parse(req.body);
+      const user = identifier.includes("@")
+        ? await storage.getUserByEmail(identifier)
+        : await storage.getUserByUsername(identifier);
+
+      // Counted per account whichever name it was asked by, and per address, like logins
+      const lockout = await takePasswordResetAttempt(user?.username ?? identifier, req.ip);
+      if (lockout) {
+        res.set("Retry-After", String(Math.ceil((lockout.lockedUntil.getTime() - Date.now()) / 1000)));
+        return res.status(429).json(lockout);
+      }
+
+      // Sent in the background and answered the same either way, so the form can't tell who has an account
+      if (user) {
+        sendPasswordResetLink(user, getAppUrl(req), null).catch((error) => {
+          console.error("Error sending password reset link:", error);
+        });
+      }
+
+      return res.status(202).json({ message: "If that account exists, a link to reset its password is on its way" });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        return res.status(400).json({ message: validationError.message });
+      }
+      next(err);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body);
+      const resetToken = await findUsableResetToken(token);
+      if (!resetToken || !(await storage.claimPasswordResetToken(resetToken.id))) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      // The link was sent to the account's email, so using it also proves the email is the user's
+      const user = await storage.updateUser(resetToken.userId, { password: await hashPassword(password), emailVerified: true });
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      await storage.deletePasswordResetTokens(user.id);
+      await revokeLogins(user.id);
+      // Proving ownership by email lifts a lockout, as the lockout notice promises
+      await clearLoginFailures(user.username);
+
+      await recordAuditEvent({
+        actorId: user.id,
+        action: "user.password.reset",
+        targetType: "user",
+        targetId: user.id,
+        after: { forcedBy: resetToken.createdBy }
+      });
+
+      return res.sendStatus(204);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const validationError = fromZodError(err);
+        return res.status(400).json({ message: validationError.message });
+      }
+      next(err);
+    }
+  });
 }
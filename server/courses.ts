@@ -0,0 +1,19 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { DEFAULT_RUBRIC, type Course, type InsertCourse } from "@shared/schema";
+
+// Generate a short code students type in to join a course
+export const generateJoinCode = () => randomBytes(4).toString("hex").toUpperCase();
+
+// A new course owned by an admin, starting out with the default rubric
+export async function createCourse(courseData: InsertCourse, adminId: number): Promise<Course> {
+  const course: Course = await storage.createCourse({
+    ...courseData,
+    adminId,
+    joinCode: generateJoinCode(),
+  });
+  for (const category of DEFAULT_RUBRIC) {
+    await storage.createRubricCategory(course.id, category);
+  }
+  return course;
+}
@@ -1,14 +1,39 @@
 import {
   type User, type InsertUser,
+  type Term, type InsertTerm,
+  type Course, type InsertCourse,
+  type RubricCategory, type InsertRubricCategory,
+  type GradingPolicy, type GradingPolicySettings,
+  type Invitation, type InsertInvitation,
+  type PasswordResetToken, type InsertPasswordResetToken,
+  type ApiToken, type InsertApiToken,
+  type Webhook, type InsertWebhook, type UpdateWebhook,
+  type WebhookDelivery, type InsertWebhookDelivery, type WebhookDeliveryAttempt,
+  type LoginAttempt,
+  type ExternalIdentity, type InsertExternalIdentity,
+  type LtiPlatform, type InsertLtiPlatform, type LtiDeployment, type LtiContext, type InsertLtiContext, type LtiLaunchState,
+  type SessionPoints,
+  type StudentCourse,
+  type CourseStaff,
+  type ClassSession, type InsertClassSession,
   type ParticipationRequest, type InsertParticipationRequest,
   type ParticipationRequestWithStudent,
   type ParticipationRecord, type InsertParticipationRecord,
   type ParticipationRecordWithStudent,
-  DEFAULT_COURSE
+  type UpdateParticipationRecord,
+  type AuditEvent, type InsertAuditEvent,
+  type AuditEventFilter, type AuditEventWithActor,
+  type ParticipationRecordFilter,
+  type PageRequest, type Page,
+  type StudentParticipationTotals,
+  encodeRecordCursor,
+  DEFAULT_TA_AWARD_LIMIT
 } from "@shared/schema";
+import { DEFAULT_TIME_ZONE, type DayRange } from "@shared/time-zone";
 import session from "express-session";
 import { IStorage } from "./storage";
 import connectPg from "connect-pg-simple";
+import type { PoolClient } from "pg";
 import pool from "./db";
 
 const PostgresSessionStore = connectPg(session);
@@ -23,66 +48,1120 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // Run statements on one connection inside a transaction, rolled back if any of them fails
+  private async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   // User methods
+  private mapUser(row: any): User {
+    return {
+      id: row.id,
+      username: row.username,
+      password: row.password,
+      email: row.email,
+      role: row.role,
+      name: row.name,
+      siteAdmin: row.site_admin,
+      emailVerified: row.email_verified
+    };
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const result = await pool.query('SELECT * FROM users WHERE id = $1', [id]);
-    return result.rows[0];
+    const row = result.rows[0];
+    return row ? this.mapUser(row) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
+    const row = result.rows[0];
+    return row ? this.mapUser(row) : undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await pool.query('SELECT * FROM users WHERE lower(email) = lower($1) ORDER BY id LIMIT 1', [email]);
+    const row = result.rows[0];
+    return row ? this.mapUser(row) : undefined;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    // Ensure role is set to 'student' by default if not provided
+    const role = user.role || 'student';
+
+    const result = await pool.query(
+      'INSERT INTO users (username, password, email, role, name, site_admin, email_verified) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+      [user.username, user.password, user.email, role, user.name, user.siteAdmin ?? false, user.emailVerified ?? false]
+    );
+
+    return this.mapUser(result.rows[0]);
+  }
+
+  async updateUser(id: number, updates: Partial<Pick<User, "name" | "email" | "password" | "emailVerified">>): Promise<User | undefined> {
+    // Only overwrite the columns that were actually supplied
+    const result = await pool.query(
+      `UPDATE users
+       SET name = COALESCE($2, name),
+           email = COALESCE($3, email),
+           password = COALESCE($4, password),
+           email_verified = COALESCE($5, email_verified)
+       WHERE id = $1 RETURNING *`,
+      [id, updates.name ?? null, updates.email ?? null, updates.password ?? null, updates.emailVerified ?? null]
+    );
+    const row = result.rows[0];
+    return row ? this.mapUser(row) : undefined;
+  }
+
+  async countUsersByRole(role: string): Promise<number> {
+    const result = await pool.query('SELECT COUNT(*) AS count FROM users WHERE role = $1', [role]);
+    return Number(result.rows[0].count);
+  }
+
+  // Get all students enrolled in a course
+  async getAllStudents(courseId: number): Promise<User[]> {
+    const result = await pool.query(
+      `SELECT u.* FROM users u
+       JOIN student_courses sc ON sc.student_id = u.id
+       WHERE u.role = $1 AND sc.course_id = $2
+       ORDER BY u.name`,
+      ['student', courseId]
+    );
+    return result.rows.map(row => this.mapUser(row));
+  }
+
+  // Term methods
+  // DATE columns are read back as text so "YYYY-MM-DD" isn't shifted by the server timezone
+  private static readonly TERM_COLUMNS = 'id, name, start_date::text AS start_date, end_date::text AS end_date, holidays';
+
+  private mapTerm(row: any): Term {
+    return {
+      id: row.id,
+      name: row.name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      holidays: row.holidays ?? []
+    };
+  }
+
+  async getTerm(id: number): Promise<Term | undefined> {
+    const result = await pool.query(`SELECT ${DatabaseStorage.TERM_COLUMNS} FROM terms WHERE id = $1`, [id]);
+    const row = result.rows[0];
+    return row ? this.mapTerm(row) : undefined;
+  }
+
+  async getAllTerms(): Promise<Term[]> {
+    const result = await pool.query(`SELECT ${DatabaseStorage.TERM_COLUMNS} FROM terms ORDER BY start_date DESC`);
+    return result.rows.map(row => this.mapTerm(row));
+  }
+
+  async createTerm(term: InsertTerm): Promise<Term> {
+    const result = await pool.query(
+      `INSERT INTO terms (name, start_date, end_date, holidays)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${DatabaseStorage.TERM_COLUMNS}`,
+      [term.name, term.startDate, term.endDate, JSON.stringify(term.holidays)]
+    );
+
+    return this.mapTerm(result.rows[0]);
+  }
+
+  async updateTerm(id: number, term: InsertTerm): Promise<Term | undefined> {
+    const result = await pool.query(
+      `UPDATE terms
+       SET name = $2, start_date = $3, end_date = $4, holidays = $5
+       WHERE id = $1
+       RETURNING ${DatabaseStorage.TERM_COLUMNS}`,
+      [id, term.name, term.startDate, term.endDate, JSON.stringify(term.holidays)]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapTerm(row) : undefined;
+  }
+
+  // Course methods
+  private mapCourse(row: any): Course {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      adminId: row.admin_id,
+      joinCode: row.join_code,
+      termId: row.term_id ?? null,
+      timeZone: row.time_zone,
+      taAwardLimit: row.ta_award_limit
+    };
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    const result = await pool.query('SELECT * FROM courses WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapCourse(row) : undefined;
+  }
+
+  async getAllCourses(): Promise<Course[]> {
+    const result = await pool.query('SELECT * FROM courses ORDER BY name');
+    return result.rows.map(row => this.mapCourse(row));
+  }
+
+  async getCoursesByAdmin(adminId: number): Promise<Course[]> {
+    const result = await pool.query(
+      'SELECT * FROM courses WHERE admin_id = $1 ORDER BY name',
+      [adminId]
+    );
+    return result.rows.map(row => this.mapCourse(row));
+  }
+
+  async getCoursesByStudent(studentId: number): Promise<Course[]> {
+    const result = await pool.query(
+      `SELECT c.* FROM courses c
+       JOIN student_courses sc ON sc.course_id = c.id
+       WHERE sc.student_id = $1
+       ORDER BY c.name`,
+      [studentId]
+    );
+    return result.rows.map(row => this.mapCourse(row));
+  }
+
+  async getCoursesByStaff(userId: number): Promise<Course[]> {
+    const result = await pool.query(
+      `SELECT c.* FROM courses c
+       JOIN course_staff cs ON cs.course_id = c.id
+       WHERE cs.user_id = $1
+       ORDER BY c.name`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapCourse(row));
+  }
+
+  async createCourse(course: InsertCourse & { adminId: number, joinCode: string }): Promise<Course> {
+    const result = await pool.query(
+      `INSERT INTO courses (name, description, admin_id, join_code, term_id, time_zone, ta_award_limit)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [
+        course.name,
+        course.description || null,
+        course.adminId,
+        course.joinCode,
+        course.termId ?? null,
+        course.timeZone ?? DEFAULT_TIME_ZONE,
+        course.taAwardLimit ?? DEFAULT_TA_AWARD_LIMIT
+      ]
+    );
+
+    return this.mapCourse(result.rows[0]);
+  }
+
+  async updateCourse(id: number, course: Partial<InsertCourse & { joinCode: string }>): Promise<Course | undefined> {
+    // Only overwrite the columns that were actually supplied
+    const result = await pool.query(
+      `UPDATE courses
+       SET name = COALESCE($2, name),
+           description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+           join_code = COALESCE($5, join_code),
+           term_id = CASE WHEN $6::boolean THEN $7 ELSE term_id END,
+           time_zone = COALESCE($8, time_zone),
+           ta_award_limit = COALESCE($9, ta_award_limit)
+       WHERE id = $1 RETURNING *`,
+      [
+        id,
+        course.name ?? null,
+        course.description !== undefined,
+        course.description ?? null,
+        course.joinCode ?? null,
+        course.termId !== undefined,
+        course.termId ?? null,
+        course.timeZone ?? null,
+        course.taAwardLimit ?? null
+      ]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapCourse(row) : undefined;
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    // Remove the course's participation data along with it, all or nothing
+    return this.transaction(async (client) => {
+      await client.query('DELETE FROM participation_requests WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM participation_records WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM class_sessions WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM student_courses WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM course_staff WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM rubric_categories WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM grading_policies WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM lti_contexts WHERE course_id = $1', [id]);
+      await client.query('DELETE FROM invitations WHERE course_id = $1', [id]);
+      await client.query(
+        'DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE course_id = $1)',
+        [id]
+      );
+      await client.query('DELETE FROM webhooks WHERE course_id = $1', [id]);
+      const result = await client.query('DELETE FROM courses WHERE id = $1', [id]);
+      return result.rowCount !== null && result.rowCount > 0;
+    });
+  }
+
+  // RubricCategory methods
+  private mapRubricCategory(row: any): RubricCategory {
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      name: row.name,
+      points: row.points,
+      maxPerSession: row.max_per_session ?? null
+    };
+  }
+
+  async getRubricCategories(courseId: number): Promise<RubricCategory[]> {
+    const result = await pool.query(
+      'SELECT * FROM rubric_categories WHERE course_id = $1 ORDER BY points, id',
+      [courseId]
+    );
+    return result.rows.map(row => this.mapRubricCategory(row));
+  }
+
+  async getRubricCategory(id: number): Promise<RubricCategory | undefined> {
+    const result = await pool.query('SELECT * FROM rubric_categories WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapRubricCategory(row) : undefined;
+  }
+
+  async createRubricCategory(courseId: number, category: InsertRubricCategory): Promise<RubricCategory> {
+    const result = await pool.query(
+      `INSERT INTO rubric_categories (course_id, name, points, max_per_session)
+       VALUES ($1, $2, $3, $4) RETURNING *`,
+      [courseId, category.name, category.points, category.maxPerSession]
+    );
+
+    return this.mapRubricCategory(result.rows[0]);
+  }
+
+  async updateRubricCategory(id: number, updates: Partial<InsertRubricCategory>): Promise<RubricCategory | undefined> {
+    // Only overwrite the columns that were actually supplied
+    const result = await pool.query(
+      `UPDATE rubric_categories
+       SET name = COALESCE($2, name),
+           points = COALESCE($3, points),
+           max_per_session = CASE WHEN $4::boolean THEN $5 ELSE max_per_session END
+       WHERE id = $1 RETURNING *`,
+      [
+        id,
+        updates.name ?? null,
+        updates.points ?? null,
+        updates.maxPerSession !== undefined,
+        updates.maxPerSession ?? null
+      ]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapRubricCategory(row) : undefined;
+  }
+
+  async deleteRubricCategory(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM rubric_categories WHERE id = $1', [id]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // GradingPolicy methods
+  private mapGradingPolicy(row: any): GradingPolicy {
+    return {
+      courseId: row.course_id,
+      targetPoints: row.target_points,
+      sessionCap: row.session_cap ?? null,
+      dropLowestSessions: row.drop_lowest_sessions,
+      scaling: row.scaling,
+      curveExponent: row.curve_exponent,
+      letterCutoffs: row.letter_cutoffs
+    };
+  }
+
+  async getGradingPolicy(courseId: number): Promise<GradingPolicy | undefined> {
+    const result = await pool.query('SELECT * FROM grading_policies WHERE course_id = $1', [courseId]);
+    const row = result.rows[0];
+    return row ? this.mapGradingPolicy(row) : undefined;
+  }
+
+  async saveGradingPolicy(courseId: number, policy: GradingPolicySettings): Promise<GradingPolicy> {
+    const result = await pool.query(
+      `INSERT INTO grading_policies
+       (course_id, target_points, session_cap, drop_lowest_sessions, scaling, curve_exponent, letter_cutoffs)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (course_id) DO UPDATE SET
+         target_points = EXCLUDED.target_points,
+         session_cap = EXCLUDED.session_cap,
+         drop_lowest_sessions = EXCLUDED.drop_lowest_sessions,
+         scaling = EXCLUDED.scaling,
+         curve_exponent = EXCLUDED.curve_exponent,
+         letter_cutoffs = EXCLUDED.letter_cutoffs
+       RETURNING *`,
+      [
+        courseId,
+        policy.targetPoints,
+        policy.sessionCap,
+        policy.dropLowestSessions,
+        policy.scaling,
+        policy.curveExponent,
+        JSON.stringify(policy.letterCutoffs)
+      ]
+    );
+
+    return this.mapGradingPolicy(result.rows[0]);
+  }
+
+  // Invitation methods
+  private mapInvitation(row: any): Invitation {
+    return {
+      id: row.id,
+      tokenHash: row.token_hash,
+      role: row.role,
+      courseId: row.course_id ?? null,
+      email: row.email ?? null,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at ?? null,
+      usedBy: row.used_by ?? null,
+      revokedAt: row.revoked_at ?? null
+    };
+  }
+
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    const result = await pool.query(
+      `INSERT INTO invitations (token_hash, role, course_id, email, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [invitation.tokenHash, invitation.role, invitation.courseId, invitation.email, invitation.createdBy, invitation.expiresAt]
+    );
+    return this.mapInvitation(result.rows[0]);
+  }
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    const result = await pool.query('SELECT * FROM invitations WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapInvitation(row) : undefined;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const result = await pool.query('SELECT * FROM invitations WHERE token_hash = $1', [tokenHash]);
+    const row = result.rows[0];
+    return row ? this.mapInvitation(row) : undefined;
+  }
+
+  async getInvitationsByCreator(userId: number): Promise<Invitation[]> {
+    const result = await pool.query(
+      'SELECT * FROM invitations WHERE created_by = $1 ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+    return result.rows.map(row => this.mapInvitation(row));
+  }
+
+  // A single conditional update, so two registrations can't both use the same invitation
+  async claimInvitation(id: number): Promise<Invitation | undefined> {
+    const result = await pool.query(
+      `UPDATE invitations SET used_at = NOW()
+       WHERE id = $1 AND used_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [id]
+    );
+    const row = result.rows[0];
+    return row ? this.mapInvitation(row) : undefined;
+  }
+
+  async setInvitationUser(id: number, userId: number): Promise<void> {
+    await pool.query('UPDATE invitations SET used_by = $2 WHERE id = $1', [id, userId]);
+  }
+
+  async revokeInvitation(id: number): Promise<Invitation | undefined> {
+    const result = await pool.query(
+      `UPDATE invitations SET revoked_at = NOW()
+       WHERE id = $1 AND used_at IS NULL AND revoked_at IS NULL
+       RETURNING *`,
+      [id]
+    );
+    const row = result.rows[0];
+    return row ? this.mapInvitation(row) : undefined;
+  }
+
+  // PasswordResetToken methods
+  private mapPasswordResetToken(row: any): PasswordResetToken {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      tokenHash: row.token_hash,
+      createdBy: row.created_by ?? null,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at ?? null
+    };
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const result = await pool.query(
+      `INSERT INTO password_reset_tokens (user_id, token_hash, created_by, expires_at)
+       VALUES ($1, $2, $3, $4) RETURNING *`,
+      [token.userId, token.tokenHash, token.createdBy, token.expiresAt]
+    );
+    return this.mapPasswordResetToken(result.rows[0]);
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const result = await pool.query('SELECT * FROM password_reset_tokens WHERE token_hash = $1', [tokenHash]);
+    const row = result.rows[0];
+    return row ? this.mapPasswordResetToken(row) : undefined;
+  }
+
+  // A single conditional update, so the same link can't set a password twice
+  async claimPasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    const result = await pool.query(
+      `UPDATE password_reset_tokens SET used_at = NOW()
+       WHERE id = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [id]
+    );
+    const row = result.rows[0];
+    return row ? this.mapPasswordResetToken(row) : undefined;
+  }
+
+  async deletePasswordResetTokens(userId: number): Promise<void> {
+    await pool.query('DELETE FROM password_reset_tokens WHERE user_id = $1', [userId]);
+  }
+
+  // ApiToken methods
+  private mapApiToken(row: any): ApiToken {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      tokenHash: row.token_hash,
+      prefix: row.prefix,
+      scopes: row.scopes,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      lastUsedAt: row.last_used_at ?? null
+    };
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const result = await pool.query(
+      `INSERT INTO api_tokens (user_id, name, token_hash, prefix, scopes, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [token.userId, token.name, token.tokenHash, token.prefix, token.scopes, token.expiresAt]
+    );
+    return this.mapApiToken(result.rows[0]);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const result = await pool.query('SELECT * FROM api_tokens WHERE token_hash = $1', [tokenHash]);
+    const row = result.rows[0];
+    return row ? this.mapApiToken(row) : undefined;
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    const result = await pool.query(
+      'SELECT * FROM api_tokens WHERE user_id = $1 ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+    return result.rows.map(row => this.mapApiToken(row));
+  }
+
+  async deleteApiToken(userId: number, id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM api_tokens WHERE id = $1 AND user_id = $2', [id, userId]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async deleteApiTokens(userId: number): Promise<void> {
+    await pool.query('DELETE FROM api_tokens WHERE user_id = $1', [userId]);
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await pool.query('UPDATE api_tokens SET last_used_at = NOW() WHERE id = $1', [id]);
+  }
+
+  // ExternalIdentity methods
+  private mapExternalIdentity(row: any): ExternalIdentity {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      issuer: row.issuer,
+      subject: row.subject,
+      createdAt: row.created_at
+    };
+  }
+
+  async getExternalIdentity(issuer: string, subject: string): Promise<ExternalIdentity | undefined> {
+    const result = await pool.query(
+      'SELECT * FROM external_identities WHERE issuer = $1 AND subject = $2',
+      [issuer, subject]
+    );
+    const row = result.rows[0];
+    return row ? this.mapExternalIdentity(row) : undefined;
+  }
+
+  async createExternalIdentity(identity: InsertExternalIdentity): Promise<ExternalIdentity> {
+    // Linking the same account twice returns the existing row
+    const result = await pool.query(
+      `INSERT INTO external_identities (user_id, issuer, subject)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (issuer, subject) DO UPDATE SET issuer = EXCLUDED.issuer
+       RETURNING *`,
+      [identity.userId, identity.issuer, identity.subject]
+    );
+    return this.mapExternalIdentity(result.rows[0]);
+  }
+
+  async getUserExternalIdentity(userId: number, issuer: string): Promise<ExternalIdentity | undefined> {
+    const result = await pool.query(
+      'SELECT * FROM external_identities WHERE user_id = $1 AND issuer = $2 ORDER BY id LIMIT 1',
+      [userId, issuer]
+    );
+    const row = result.rows[0];
+    return row ? this.mapExternalIdentity(row) : undefined;
+  }
+
+  // LtiPlatform methods
+  private mapLtiPlatform(row: any): LtiPlatform {
+    return {
+      id: row.id,
+      name: row.name,
+      issuer: row.issuer,
+      clientId: row.client_id,
+      authLoginUrl: row.auth_login_url,
+      authTokenUrl: row.auth_token_url,
+      jwksUrl: row.jwks_url,
+      createdBy: row.created_by ?? null,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapLtiDeployment(row: any): LtiDeployment {
+    return {
+      id: row.id,
+      platformId: row.platform_id,
+      deploymentId: row.deployment_id
+    };
+  }
+
+  async getLtiPlatforms(): Promise<LtiPlatform[]> {
+    const result = await pool.query('SELECT * FROM lti_platforms ORDER BY name');
+    return result.rows.map(row => this.mapLtiPlatform(row));
+  }
+
+  async getLtiPlatform(id: number): Promise<LtiPlatform | undefined> {
+    const result = await pool.query('SELECT * FROM lti_platforms WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapLtiPlatform(row) : undefined;
+  }
+
+  async findLtiPlatform(issuer: string, clientId?: string): Promise<LtiPlatform | undefined> {
+    const result = clientId === undefined
+      ? await pool.query('SELECT * FROM lti_platforms WHERE issuer = $1 ORDER BY id LIMIT 1', [issuer])
+      : await pool.query('SELECT * FROM lti_platforms WHERE issuer = $1 AND client_id = $2 ORDER BY id LIMIT 1', [issuer, clientId]);
+    const row = result.rows[0];
+    return row ? this.mapLtiPlatform(row) : undefined;
+  }
+
+  async createLtiPlatform(platform: InsertLtiPlatform & { createdBy: number | null }): Promise<LtiPlatform> {
+    const result = await pool.query(
+      `INSERT INTO lti_platforms (name, issuer, client_id, auth_login_url, auth_token_url, jwks_url, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [platform.name, platform.issuer, platform.clientId, platform.authLoginUrl, platform.authTokenUrl, platform.jwksUrl, platform.createdBy]
+    );
+    return this.mapLtiPlatform(result.rows[0]);
+  }
+
+  async deleteLtiPlatform(id: number): Promise<boolean> {
+    await pool.query('DELETE FROM lti_deployments WHERE platform_id = $1', [id]);
+    await pool.query('DELETE FROM lti_contexts WHERE platform_id = $1', [id]);
+    const result = await pool.query('DELETE FROM lti_platforms WHERE id = $1', [id]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getLtiDeployments(platformId: number): Promise<LtiDeployment[]> {
+    const result = await pool.query('SELECT * FROM lti_deployments WHERE platform_id = $1 ORDER BY id', [platformId]);
+    return result.rows.map(row => this.mapLtiDeployment(row));
+  }
+
+  async addLtiDeployment(platformId: number, deploymentId: string): Promise<LtiDeployment> {
+    // Adding a deployment twice is a no-op that returns the existing row
+    const result = await pool.query(
+      `INSERT INTO lti_deployments (platform_id, deployment_id)
+       VALUES ($1, $2)
+       ON CONFLICT (platform_id, deployment_id) DO UPDATE SET deployment_id = EXCLUDED.deployment_id
+       RETURNING *`,
+      [platformId, deploymentId]
+    );
+    return this.mapLtiDeployment(result.rows[0]);
+  }
+
+  async removeLtiDeployment(platformId: number, id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM lti_deployments WHERE id = $1 AND platform_id = $2', [id, platformId]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async hasLtiDeployment(platformId: number, deploymentId: string): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT 1 FROM lti_deployments WHERE platform_id = $1 AND deployment_id = $2',
+      [platformId, deploymentId]
+    );
+    return result.rows.length > 0;
+  }
+
+  // LtiContext methods
+  private mapLtiContext(row: any): LtiContext {
+    return {
+      id: row.id,
+      platformId: row.platform_id,
+      contextId: row.context_id,
+      courseId: row.course_id,
+      title: row.title ?? null,
+      lineItemsUrl: row.line_items_url ?? null,
+      lineItemUrl: row.line_item_url ?? null,
+      agsScopes: row.ags_scopes ?? []
+    };
+  }
+
+  async getLtiContext(platformId: number, contextId: string): Promise<LtiContext | undefined> {
+    const result = await pool.query(
+      'SELECT * FROM lti_contexts WHERE platform_id = $1 AND context_id = $2',
+      [platformId, contextId]
+    );
+    const row = result.rows[0];
+    return row ? this.mapLtiContext(row) : undefined;
+  }
+
+  async getLtiContextByCourse(courseId: number): Promise<LtiContext | undefined> {
+    const result = await pool.query('SELECT * FROM lti_contexts WHERE course_id = $1 ORDER BY id LIMIT 1', [courseId]);
+    const row = result.rows[0];
+    return row ? this.mapLtiContext(row) : undefined;
+  }
+
+  async createLtiContext(context: InsertLtiContext): Promise<LtiContext> {
+    const result = await pool.query(
+      `INSERT INTO lti_contexts (platform_id, context_id, course_id, title, line_items_url, line_item_url, ags_scopes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [context.platformId, context.contextId, context.courseId, context.title, context.lineItemsUrl, context.lineItemUrl, context.agsScopes]
+    );
+    return this.mapLtiContext(result.rows[0]);
+  }
+
+  async updateLtiContext(
+    id: number,
+    updates: Partial<Pick<LtiContext, "title" | "lineItemsUrl" | "lineItemUrl" | "agsScopes">>
+  ): Promise<LtiContext | undefined> {
+    const result = await pool.query(
+      `UPDATE lti_contexts SET
+         title = CASE WHEN $2 THEN $3 ELSE title END,
+         line_items_url = CASE WHEN $4 THEN $5 ELSE line_items_url END,
+         line_item_url = CASE WHEN $6 THEN $7 ELSE line_item_url END,
+         ags_scopes = COALESCE($8, ags_scopes)
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        "title" in updates, updates.title ?? null,
+        "lineItemsUrl" in updates, updates.lineItemsUrl ?? null,
+        "lineItemUrl" in updates, updates.lineItemUrl ?? null,
+        updates.agsScopes ?? null
+      ]
+    );
+    const row = result.rows[0];
+    return row ? this.mapLtiContext(row) : undefined;
+  }
+
+  // LtiLaunchState methods
+  async createLtiLaunchState(state: LtiLaunchState): Promise<void> {
+    // Launches that were never completed are cleaned up along the way
+    await pool.query('DELETE FROM lti_launch_states WHERE expires_at < NOW()');
+    await pool.query(
+      'INSERT INTO lti_launch_states (state, nonce, platform_id, expires_at) VALUES ($1, $2, $3, $4)',
+      [state.state, state.nonce, state.platformId, state.expiresAt]
+    );
+  }
+
+  // A single delete, so the same launch can't be completed twice
+  async claimLtiLaunchState(state: string): Promise<LtiLaunchState | undefined> {
+    const result = await pool.query(
+      'DELETE FROM lti_launch_states WHERE state = $1 AND expires_at > NOW() RETURNING *',
+      [state]
+    );
+    const row = result.rows[0];
+    return row ? {
+      state: row.state,
+      nonce: row.nonce,
+      platformId: row.platform_id,
+      expiresAt: row.expires_at
+    } : undefined;
+  }
+
+  // Webhook methods
+  private mapWebhook(row: any): Webhook {
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      url: row.url,
+      secret: row.secret,
+      events: row.events,
+      active: row.active,
+      createdBy: row.created_by ?? null,
+      createdAt: row.created_at
+    };
+  }
+
+  async getWebhooks(courseId: number): Promise<Webhook[]> {
+    const result = await pool.query('SELECT * FROM webhooks WHERE course_id = $1 ORDER BY id', [courseId]);
+    return result.rows.map(row => this.mapWebhook(row));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const result = await pool.query('SELECT * FROM webhooks WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapWebhook(row) : undefined;
+  }
+
+  async createWebhook(
+    webhook: InsertWebhook & { courseId: number; secret: string; createdBy: number | null }
+  ): Promise<Webhook> {
+    const result = await pool.query(
+      `INSERT INTO webhooks (course_id, url, secret, events, active, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [webhook.courseId, webhook.url, webhook.secret, webhook.events, webhook.active, webhook.createdBy]
+    );
+    return this.mapWebhook(result.rows[0]);
+  }
+
+  async updateWebhook(id: number, updates: UpdateWebhook): Promise<Webhook | undefined> {
+    const result = await pool.query(
+      `UPDATE webhooks SET
+         url = COALESCE($2, url),
+         events = COALESCE($3, events),
+         active = COALESCE($4, active)
+       WHERE id = $1
+       RETURNING *`,
+      [id, updates.url ?? null, updates.events ?? null, updates.active ?? null]
+    );
+    const row = result.rows[0];
+    return row ? this.mapWebhook(row) : undefined;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    await pool.query('DELETE FROM webhook_deliveries WHERE webhook_id = $1', [id]);
+    const result = await pool.query('DELETE FROM webhooks WHERE id = $1', [id]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // WebhookDelivery methods
+  private mapWebhookDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.response_status ?? null,
+      error: row.error ?? null,
+      nextAttemptAt: row.next_attempt_at ?? null,
+      replayOf: row.replay_of ?? null,
+      createdAt: row.created_at,
+      lastAttemptAt: row.last_attempt_at ?? null
+    };
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const result = await pool.query(
+      `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload, next_attempt_at, replay_of)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [
+        delivery.webhookId,
+        delivery.eventId,
+        delivery.eventType,
+        JSON.stringify(delivery.payload),
+        delivery.nextAttemptAt,
+        delivery.replayOf
+      ]
+    );
+    return this.mapWebhookDelivery(result.rows[0]);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const result = await pool.query('SELECT * FROM webhook_deliveries WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapWebhookDelivery(row) : undefined;
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    const result = await pool.query(
+      'SELECT * FROM webhook_deliveries WHERE webhook_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2',
+      [webhookId, limit]
+    );
+    return result.rows.map(row => this.mapWebhookDelivery(row));
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const result = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
-    return result.rows[0];
+  async getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]> {
+    const result = await pool.query(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= $1
+       ORDER BY next_attempt_at, id
+       LIMIT $2`,
+      [dueBy, limit]
+    );
+    return result.rows.map(row => this.mapWebhookDelivery(row));
   }
 
-  async createUser(user: InsertUser): Promise<User> {
-    // Ensure role is set to 'student' by default if not provided
-    const role = user.role || 'student';
+  async updateWebhookDelivery(id: number, attempt: WebhookDeliveryAttempt): Promise<WebhookDelivery | undefined> {
+    const result = await pool.query(
+      `UPDATE webhook_deliveries SET
+         status = $2, attempts = $3, response_status = $4, error = $5, next_attempt_at = $6, last_attempt_at = $7
+       WHERE id = $1
+       RETURNING *`,
+      [id, attempt.status, attempt.attempts, attempt.responseStatus, attempt.error, attempt.nextAttemptAt, attempt.lastAttemptAt]
+    );
+    const row = result.rows[0];
+    return row ? this.mapWebhookDelivery(row) : undefined;
+  }
+
+  // LoginAttempt methods
+  private mapLoginAttempt(row: any): LoginAttempt {
+    return {
+      key: row.key,
+      failures: row.failures,
+      lastFailureAt: row.last_failure_at
+    };
+  }
+
+  // One statement: the row lock makes concurrent guesses wait for each other, so each sees the count before it
+  async takeLoginAttempt(key: string, resetAfterMs: number): Promise<LoginAttempt | undefined> {
+    const result = await pool.query(
+      `WITH previous AS (
+         SELECT * FROM login_attempts WHERE key = $1 FOR UPDATE
+       ), counted AS (
+         INSERT INTO login_attempts (key, failures, last_failure_at)
+         VALUES ($1, 1, NOW())
+         ON CONFLICT (key) DO UPDATE SET
+           failures = CASE
+             WHEN login_attempts.last_failure_at < NOW() - $2 * INTERVAL '1 millisecond' THEN 1
+             ELSE login_attempts.failures + 1
+           END,
+           last_failure_at = NOW()
+       )
+       SELECT * FROM previous`,
+      [key, resetAfterMs]
+    );
+    const row = result.rows[0];
+    return row ? this.mapLoginAttempt(row) : undefined;
+  }
+
+  async refundLoginAttempt(key: string): Promise<void> {
+    await pool.query('UPDATE login_attempts SET failures = failures - 1 WHERE key = $1 AND failures > 0', [key]);
+  }
+
+  async clearLoginAttempts(key: string): Promise<void> {
+    await pool.query('DELETE FROM login_attempts WHERE key = $1', [key]);
+  }
+
+  async countSessionRecordsInCategory(studentId: number, sessionId: number, categoryId: number): Promise<number> {
+    const result = await pool.query(
+      `SELECT COUNT(*) AS count FROM participation_records
+       WHERE student_id = $1 AND session_id = $2 AND category_id = $3 AND hidden = false`,
+      [studentId, sessionId, categoryId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  // Enrollment methods
+  async enrollStudent(studentId: number, courseId: number): Promise<StudentCourse> {
+    // Enrolling twice is a no-op that returns the existing enrollment
+    const result = await pool.query(
+      `INSERT INTO student_courses (student_id, course_id)
+       VALUES ($1, $2)
+       ON CONFLICT (student_id, course_id) DO UPDATE SET student_id = EXCLUDED.student_id
+       RETURNING *`,
+      [studentId, courseId]
+    );
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      studentId: row.student_id,
+      courseId: row.course_id
+    };
+  }
+
+  async unenrollStudent(studentId: number, courseId: number): Promise<boolean> {
+    // Take the student out of the queue as well
+    await pool.query(
+      `UPDATE participation_requests SET active = false
+       WHERE student_id = $1 AND course_id = $2 AND active = true`,
+      [studentId, courseId]
+    );
+
+    const result = await pool.query(
+      'DELETE FROM student_courses WHERE student_id = $1 AND course_id = $2',
+      [studentId, courseId]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async isStudentEnrolled(studentId: number, courseId: number): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT 1 FROM student_courses WHERE student_id = $1 AND course_id = $2 LIMIT 1',
+      [studentId, courseId]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // CourseStaff methods
+  async addCourseStaff(courseId: number, userId: number): Promise<CourseStaff> {
+    // Adding someone twice is a no-op that returns the existing row
+    const result = await pool.query(
+      `INSERT INTO course_staff (course_id, user_id)
+       VALUES ($1, $2)
+       ON CONFLICT (course_id, user_id) DO UPDATE SET user_id = EXCLUDED.user_id
+       RETURNING *`,
+      [courseId, userId]
+    );
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      userId: row.user_id
+    };
+  }
+
+  async removeCourseStaff(courseId: number, userId: number): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM course_staff WHERE course_id = $1 AND user_id = $2',
+      [courseId, userId]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getCourseStaff(courseId: number): Promise<User[]> {
+    const result = await pool.query(
+      `SELECT u.* FROM users u
+       JOIN course_staff cs ON cs.user_id = u.id
+       WHERE cs.course_id = $1
+       ORDER BY u.name`,
+      [courseId]
+    );
+    return result.rows.map(row => this.mapUser(row));
+  }
+
+  async isCourseStaff(userId: number, courseId: number): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT 1 FROM course_staff WHERE user_id = $1 AND course_id = $2 LIMIT 1',
+      [userId, courseId]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // ClassSession methods
+  private mapClassSession(row: any): ClassSession {
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      topic: row.topic,
+      status: row.status,
+      startedAt: row.started_at,
+      endedAt: row.ended_at
+    };
+  }
+
+  async createClassSession(session: InsertClassSession): Promise<ClassSession> {
+    const result = await pool.query(
+      `INSERT INTO class_sessions (course_id, topic, status, started_at)
+       VALUES ($1, $2, 'open', $3) RETURNING *`,
+      [session.courseId, session.topic || null, new Date()]
+    );
+
+    return this.mapClassSession(result.rows[0]);
+  }
 
+  async getClassSession(id: number): Promise<ClassSession | undefined> {
+    const result = await pool.query('SELECT * FROM class_sessions WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapClassSession(row) : undefined;
+  }
+
+  async getOpenClassSession(courseId: number): Promise<ClassSession | undefined> {
     const result = await pool.query(
-      'INSERT INTO users (username, password, email, role, name) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-      [user.username, user.password, user.email, role, user.name]
+      `SELECT * FROM class_sessions WHERE course_id = $1 AND status = 'open' LIMIT 1`,
+      [courseId]
     );
+    const row = result.rows[0];
+    return row ? this.mapClassSession(row) : undefined;
+  }
 
-    return result.rows[0];
+  async getClassSessionsByCourse(courseId: number): Promise<ClassSession[]> {
+    const result = await pool.query(
+      'SELECT * FROM class_sessions WHERE course_id = $1 ORDER BY started_at DESC',
+      [courseId]
+    );
+    return result.rows.map(row => this.mapClassSession(row));
   }
 
-  // Get all students
-  async getAllStudents(): Promise<User[]> {
-    const result = await pool.query('SELECT * FROM users WHERE role = $1', ['student']);
-    return result.rows;
+  async closeClassSession(id: number): Promise<ClassSession | undefined> {
+    const result = await pool.query(
+      `UPDATE class_sessions SET status = 'closed', ended_at = $2
+       WHERE id = $1 AND status = 'open' RETURNING *`,
+      [id, new Date()]
+    );
+    const row = result.rows[0];
+    return row ? this.mapClassSession(row) : undefined;
   }
 
   // ParticipationRequest methods
+  private mapParticipationRequest(row: any): ParticipationRequest {
+    return {
+      id: row.id,
+      studentId: row.student_id,
+      courseId: row.course_id,
+      sessionId: row.session_id,
+      note: row.note,
+      timestamp: row.timestamp,
+      active: row.active
+    };
+  }
+
   async createParticipationRequest(request: InsertParticipationRequest): Promise<ParticipationRequest> {
     const timestamp = new Date();
 
     const result = await pool.query(
       `INSERT INTO participation_requests 
-       (student_id, course_id, note, timestamp, active) 
-       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
-      [request.studentId, DEFAULT_COURSE.id, request.note || null, timestamp, true]
+       (student_id, course_id, session_id, note, timestamp, active) 
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [request.studentId, request.courseId, request.sessionId ?? null, request.note || null, timestamp, true]
     );
 
-    return result.rows[0];
+    return this.mapParticipationRequest(result.rows[0]);
   }
 
-  async getActiveParticipationRequests(): Promise<ParticipationRequestWithStudent[]> {
+  async getActiveParticipationRequests(courseId: number): Promise<ParticipationRequestWithStudent[]> {
     const result = await pool.query(
       `SELECT pr.*, u.name as student_name, u.username as student_username
        FROM participation_requests pr
        JOIN users u ON pr.student_id = u.id
-       WHERE pr.active = true
-       ORDER BY pr.timestamp`
+       JOIN student_courses sc ON sc.student_id = pr.student_id AND sc.course_id = pr.course_id
+       WHERE pr.active = true AND pr.course_id = $1
+       ORDER BY pr.timestamp`,
+      [courseId]
     );
 
     // Transform to the expected format
     return result.rows.map(row => ({
-      id: row.id,
-      studentId: row.student_id,
-      courseId: row.course_id,
-      note: row.note,
-      timestamp: row.timestamp,
-      active: row.active,
+      ...this.mapParticipationRequest(row),
       student: {
         id: row.student_id,
         name: row.student_name,
@@ -91,10 +1170,10 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async hasActiveParticipationRequest(studentId: number): Promise<boolean> {
+  async hasActiveParticipationRequest(studentId: number, courseId: number): Promise<boolean> {
     const result = await pool.query(
-      'SELECT 1 FROM participation_requests WHERE student_id = $1 AND active = true LIMIT 1',
-      [studentId]
+      'SELECT 1 FROM participation_requests WHERE student_id = $1 AND course_id = $2 AND active = true LIMIT 1',
+      [studentId, courseId]
     );
     return result.rowCount !== null && result.rowCount > 0;
   }
@@ -106,44 +1185,54 @@ export class DatabaseStorage implements IStorage {
     );
 
     const row = result.rows[0];
-    if (!row) return undefined;
+    return row ? this.mapParticipationRequest(row) : undefined;
+  }
 
-    return {
-      id: row.id,
-      studentId: row.student_id,
-      courseId: row.course_id,
-      note: row.note,
-      timestamp: row.timestamp,
-      active: row.active
-    };
+  async deactivateParticipationRequestsByCourse(courseId: number): Promise<number> {
+    const result = await pool.query(
+      'UPDATE participation_requests SET active = false WHERE course_id = $1 AND active = true',
+      [courseId]
+    );
+
+    return result.rowCount || 0;
   }
 
   async getParticipationRequestById(id: number): Promise<ParticipationRequest | undefined> {
     const result = await pool.query('SELECT * FROM participation_requests WHERE id = $1', [id]);
     const row = result.rows[0];
-    if (!row) return undefined;
+    return row ? this.mapParticipationRequest(row) : undefined;
+  }
 
+  // ParticipationRecord methods
+  private mapParticipationRecord(row: any): ParticipationRecord {
     return {
       id: row.id,
       studentId: row.student_id,
       courseId: row.course_id,
+      sessionId: row.session_id,
+      categoryId: row.category_id ?? null,
+      points: row.points,
+      feedback: row.feedback,
       note: row.note,
       timestamp: row.timestamp,
-      active: row.active
+      hidden: row.hidden || false,
+      deletedAt: row.deleted_at ?? null,
+      deleteBatchId: row.delete_batch_id ?? null
     };
   }
 
-  // ParticipationRecord methods
   async createParticipationRecord(record: InsertParticipationRecord): Promise<ParticipationRecord> {
     const timestamp = new Date();
 
     const result = await pool.query(
       `INSERT INTO participation_records 
-       (student_id, course_id, points, feedback, note, timestamp) 
-       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+       (student_id, course_id, session_id, category_id, points, feedback, note, timestamp) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
       [
         record.studentId,
-        DEFAULT_COURSE.id,
+        record.courseId,
+        record.sessionId ?? null,
+        record.categoryId ?? null,
         record.points,
         record.feedback || null,
         record.note || null,
@@ -151,83 +1240,328 @@ export class DatabaseStorage implements IStorage {
       ]
     );
 
-    return result.rows[0];
+    return this.mapParticipationRecord(result.rows[0]);
+  }
+
+  async getParticipationRecordById(id: number): Promise<ParticipationRecord | undefined> {
+    const result = await pool.query('SELECT * FROM participation_records WHERE id = $1', [id]);
+    const row = result.rows[0];
+    return row ? this.mapParticipationRecord(row) : undefined;
+  }
+
+  async updateParticipationRecord(id: number, updates: UpdateParticipationRecord): Promise<ParticipationRecord | undefined> {
+    // Only overwrite the columns that were actually supplied
+    const result = await pool.query(
+      `UPDATE participation_records
+       SET points = COALESCE($2, points),
+           feedback = CASE WHEN $3::boolean THEN $4 ELSE feedback END,
+           note = CASE WHEN $5::boolean THEN $6 ELSE note END
+       WHERE id = $1 RETURNING *`,
+      [
+        id,
+        updates.points ?? null,
+        updates.feedback !== undefined,
+        updates.feedback || null,
+        updates.note !== undefined,
+        updates.note || null
+      ]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapParticipationRecord(row) : undefined;
+  }
+
+  async hideParticipationRecord(id: number, batchId: string): Promise<ParticipationRecord | undefined> {
+    const result = await pool.query(
+      `UPDATE participation_records
+       SET hidden = true, deleted_at = NOW(), delete_batch_id = $2
+       WHERE id = $1 RETURNING *`,
+      [id, batchId]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapParticipationRecord(row) : undefined;
+  }
+
+  async restoreParticipationRecord(id: number): Promise<ParticipationRecord | undefined> {
+    const result = await pool.query(
+      `UPDATE participation_records
+       SET hidden = false, deleted_at = NULL, delete_batch_id = NULL
+       WHERE id = $1 RETURNING *`,
+      [id]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapParticipationRecord(row) : undefined;
+  }
+
+  // Append the SQL conditions for a record filter, numbering placeholders after the existing params
+  private addRecordFilterConditions(filter: ParticipationRecordFilter | undefined, conditions: string[], params: any[]) {
+    if (!filter) return;
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filter.onlyHidden) conditions.push('pr.hidden = true');
+    else if (!filter.showHidden) conditions.push('pr.hidden = false');
+    if (filter.from !== undefined) addCondition('pr.timestamp >= ?', filter.from);
+    if (filter.to !== undefined) addCondition('pr.timestamp <= ?', filter.to);
+    if (filter.studentId !== undefined) addCondition('pr.student_id = ?', filter.studentId);
+    if (filter.sessionId !== undefined) addCondition('pr.session_id = ?', filter.sessionId);
+    if (filter.minPoints !== undefined) addCondition('pr.points >= ?', filter.minPoints);
   }
 
-  async getAllParticipationRecords(): Promise<ParticipationRecordWithStudent[]> {
+  async getAllParticipationRecords(courseId: number, filter?: ParticipationRecordFilter): Promise<ParticipationRecordWithStudent[]> {
+    const conditions = ['pr.course_id = $1'];
+    const params: any[] = [courseId];
+    this.addRecordFilterConditions(filter, conditions, params);
+
     const result = await pool.query(
       `SELECT pr.*, u.name as student_name, u.username as student_username
        FROM participation_records pr
        JOIN users u ON pr.student_id = u.id
-       ORDER BY pr.timestamp DESC`
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY pr.timestamp DESC`,
+      params
     );
 
     // Transform to the expected format
     return result.rows.map(row => ({
-      id: row.id,
-      studentId: row.student_id,
-      courseId: row.course_id,
-      points: row.points,
-      feedback: row.feedback,
-      note: row.note,
-      timestamp: row.timestamp,
-      hidden: row.hidden || false, // Include the hidden field
+      ...this.mapParticipationRecord(row),
+      student: {
+        id: row.student_id,
+        name: row.student_name,
+        username: row.student_username
+      }
+    }));
+  }
+
+  async getParticipationRecordsPage(courseId: number, filter: ParticipationRecordFilter, page: PageRequest): Promise<Page<ParticipationRecordWithStudent>> {
+    const conditions = ['pr.course_id = $1'];
+    const params: any[] = [courseId];
+    this.addRecordFilterConditions(filter, conditions, params);
+
+    // Keyset pagination: continue strictly after the (timestamp, id) of the previous page's last row
+    const direction = page.order === "asc" ? "ASC" : "DESC";
+    if (page.cursor) {
+      params.push(page.cursor.timestamp, page.cursor.id);
+      const comparison = page.order === "asc" ? ">" : "<";
+      conditions.push(`(pr.timestamp, pr.id) ${comparison} ($${params.length - 1}, $${params.length})`);
+    }
+
+    // Fetch one extra row to know whether there is a next page
+    params.push(page.limit + 1);
+
+    const result = await pool.query(
+      `SELECT pr.*, u.name as student_name, u.username as student_username
+       FROM participation_records pr
+       JOIN users u ON pr.student_id = u.id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY pr.timestamp ${direction}, pr.id ${direction}
+       LIMIT $${params.length}`,
+      params
+    );
+
+    const items = result.rows.slice(0, page.limit).map(row => ({
+      ...this.mapParticipationRecord(row),
       student: {
         id: row.student_id,
         name: row.student_name,
         username: row.student_username
       }
     }));
+    const nextCursor = result.rows.length > page.limit ? encodeRecordCursor(items[items.length - 1]) : null;
+
+    return { items, nextCursor };
   }
 
-  async getParticipationRecordsByStudent(studentId: number): Promise<ParticipationRecord[]> {
+  async getParticipationRecordsByStudent(studentId: number, courseId: number, filter?: ParticipationRecordFilter): Promise<ParticipationRecord[]> {
+    const conditions = ['pr.student_id = $1', 'pr.course_id = $2'];
+    const params: any[] = [studentId, courseId];
+    this.addRecordFilterConditions(filter, conditions, params);
+
     const result = await pool.query(
       `SELECT pr.* FROM participation_records pr
-       WHERE pr.student_id = $1
+       WHERE ${conditions.join(' AND ')}
        ORDER BY pr.timestamp DESC`,
-      [studentId]
+      params
     );
 
-    return result.rows.map(row => ({
-      id: row.id,
-      studentId: row.student_id,
-      courseId: row.course_id,
-      points: row.points,
-      feedback: row.feedback,
-      note: row.note,
-      timestamp: row.timestamp,
-      hidden: row.hidden || false // Include the hidden field
-    }));
+    return result.rows.map(row => this.mapParticipationRecord(row));
   }
 
-  async getTotalParticipationPointsByStudent(studentId: number): Promise<number> {
+  async getTotalParticipationPointsByStudent(studentId: number, courseId: number): Promise<number> {
     const result = await pool.query(
       `SELECT SUM(points) as total FROM participation_records 
-       WHERE student_id = $1 AND hidden = false`,
-      [studentId]
+       WHERE student_id = $1 AND course_id = $2 AND hidden = false`,
+      [studentId, courseId]
     );
 
     const total = result.rows[0]?.total;
     return total ? parseInt(total) : 0;
   }
 
-  async deleteParticipationRecordsFromDate(date: Date): Promise<number> {
-    // Use UTC for consistent date range across server instances/timezones
-    const startOfDay = new Date(date);
-    startOfDay.setUTCHours(0, 0, 0, 0);
+  async getStudentParticipationTotals(courseId: number, from: Date | null, to: Date): Promise<StudentParticipationTotals[]> {
+    // Start from the roster so students without any records still get a row
+    const result = await pool.query(
+      `SELECT u.id, u.name, u.username,
+              COALESCE(SUM(pr.points), 0) as total_points,
+              COUNT(pr.id) as participation_count,
+              MAX(pr.timestamp) as last_participation
+       FROM student_courses sc
+       JOIN users u ON u.id = sc.student_id
+       LEFT JOIN participation_records pr
+         ON pr.student_id = sc.student_id
+        AND pr.course_id = sc.course_id
+        AND pr.hidden = false
+        AND ($2::timestamp IS NULL OR pr.timestamp >= $2)
+        AND pr.timestamp < $3
+       WHERE sc.course_id = $1 AND u.role = 'student'
+       GROUP BY u.id, u.name, u.username
+       ORDER BY total_points DESC, u.name`,
+      [courseId, from, to]
+    );
 
-    const endOfDay = new Date(date);
-    endOfDay.setUTCHours(23, 59, 59, 999);
+    return result.rows.map(row => ({
+      student: { id: row.id, name: row.name, username: row.username },
+      totalPoints: parseInt(row.total_points),
+      participationCount: parseInt(row.participation_count),
+      lastParticipation: row.last_participation
+    }));
+  }
 
-    // Mark records as hidden instead of deleting them
+  async deleteParticipationRecordsFromDate(courseId: number, day: DayRange, batchId: string): Promise<number> {
+    // Mark records as hidden instead of deleting them, tagged with the batch so they can be restored together
     const result = await pool.query(
       `UPDATE participation_records 
-       SET hidden = true
-       WHERE timestamp >= $1 AND timestamp <= $2
+       SET hidden = true, deleted_at = NOW(), delete_batch_id = $4
+       WHERE course_id = $1 AND hidden = false AND timestamp >= $2 AND timestamp < $3
        RETURNING id`,
-      [startOfDay, endOfDay]
+      [courseId, day.start, day.end, batchId]
     );
 
     return result.rowCount || 0; // Ensure we always return a number
   }
-}
\ No newline at end of file
+
+  async restoreParticipationRecordsFromDate(courseId: number, day: DayRange): Promise<number> {
+    const result = await pool.query(
+      `UPDATE participation_records
+       SET hidden = false, deleted_at = NULL, delete_batch_id = NULL
+       WHERE course_id = $1 AND hidden = true AND timestamp >= $2 AND timestamp < $3
+       RETURNING id`,
+      [courseId, day.start, day.end]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  async restoreParticipationRecordsByBatch(courseId: number, batchId: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE participation_records
+       SET hidden = false, deleted_at = NULL, delete_batch_id = NULL
+       WHERE course_id = $1 AND hidden = true AND delete_batch_id = $2
+       RETURNING id`,
+      [courseId, batchId]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  async getSessionPointsByStudent(courseId: number): Promise<SessionPoints[]> {
+    const result = await pool.query(
+      `SELECT student_id, session_id, SUM(points) AS points
+       FROM participation_records
+       WHERE course_id = $1 AND hidden = false
+       GROUP BY student_id, session_id`,
+      [courseId]
+    );
+
+    return result.rows.map(row => ({
+      studentId: row.student_id,
+      sessionId: row.session_id,
+      points: parseInt(row.points)
+    }));
+  }
+
+  // AuditEvent methods
+  private mapAuditEvent(row: any): AuditEvent {
+    return {
+      id: row.id,
+      actorId: row.actor_id,
+      courseId: row.course_id,
+      action: row.action,
+      targetType: row.target_type,
+      targetId: row.target_id,
+      before: row.before,
+      after: row.after,
+      timestamp: row.timestamp
+    };
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    // JSON columns are passed as strings so arrays aren't turned into Postgres arrays
+    const result = await pool.query(
+      `INSERT INTO audit_events
+       (actor_id, course_id, action, target_type, target_id, before, after, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+      [
+        event.actorId ?? null,
+        event.courseId ?? null,
+        event.action,
+        event.targetType,
+        event.targetId ?? null,
+        event.before != null ? JSON.stringify(event.before) : null,
+        event.after != null ? JSON.stringify(event.after) : null,
+        new Date()
+      ]
+    );
+
+    return this.mapAuditEvent(result.rows[0]);
+  }
+
+  async getAuditEvents(courseId: number | null, filter: AuditEventFilter): Promise<AuditEventWithActor[]> {
+    const conditions = courseId === null ? ['ae.course_id IS NULL'] : ['ae.course_id = $1'];
+    const params: any[] = courseId === null ? [] : [courseId];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filter.actorId !== undefined) addCondition('ae.actor_id = ?', filter.actorId);
+    if (filter.action !== undefined) addCondition('ae.action = ?', filter.action);
+    if (filter.targetType !== undefined) addCondition('ae.target_type = ?', filter.targetType);
+    if (filter.targetId !== undefined) addCondition('ae.target_id = ?', filter.targetId);
+    if (filter.from !== undefined) addCondition('ae.timestamp >= ?', filter.from);
+    if (filter.to !== undefined) addCondition('ae.timestamp <= ?', filter.to);
+
+    params.push(filter.limit);
+
+    const result = await pool.query(
+      `SELECT ae.*, u.name as actor_name, u.username as actor_username
+       FROM audit_events ae
+       LEFT JOIN users u ON ae.actor_id = u.id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ae.id DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      ...this.mapAuditEvent(row),
+      actor: row.actor_id !== null
+        ? { id: row.actor_id, name: row.actor_name, username: row.actor_username }
+        : null
+    }));
+  }
+
+  // connect-pg-simple keeps passport's serialized user id in the session's JSON
+  async deleteUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    await pool.query(
+      `DELETE FROM session WHERE sess->'passport'->>'user' = $1 AND sid <> $2`,
+      [String(userId), exceptSessionId ?? '']
+    );
+  }
+}
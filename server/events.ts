@@ -0,0 +1,55 @@
+import { randomUUID } from "crypto";
+import type { Course, DomainEventType } from "@shared/schema";
+
+/**
+ * Something that happened in a course, published by the routes once the
+ * change is saved. Every outlet reads from here: the WebSocket server pushes
+ * events to browsers and webhooks post them to course integrations, so they
+ * can't disagree about what happened.
+ *
+ * The audience says who may see the event, the same way the REST endpoints
+ * decide who may read the underlying data: "course" is everyone in the course,
+ * "staff" the course staff plus the students the event is about.
+ */
+export type DomainEvent = {
+  id: string;
+  type: DomainEventType;
+  course: Course;
+  payload: any;
+  audience: "course" | "staff";
+  studentIds?: number[];
+  occurredAt: Date;
+};
+
+export type DomainEventHandler = (event: DomainEvent) => Promise<void> | void;
+
+export interface EventBus {
+  // Hand the event to every subscriber and wait until they've taken it
+  publish(event: Omit<DomainEvent, "id" | "occurredAt">): Promise<DomainEvent>;
+  subscribe(handler: DomainEventHandler): void;
+}
+
+export function createEventBus(): EventBus {
+  const handlers: DomainEventHandler[] = [];
+
+  return {
+    async publish(event) {
+      const published: DomainEvent = { ...event, id: randomUUID(), occurredAt: new Date() };
+
+      // Like audit writes, subscribers never fail the request: the change is already saved
+      await Promise.all(handlers.map(async (handler) => {
+        try {
+          await handler(published);
+        } catch (error) {
+          console.error("Error handling domain event:", published.type, error);
+        }
+      }));
+
+      return published;
+    },
+
+    subscribe(handler) {
+      handlers.push(handler);
+    },
+  };
+}
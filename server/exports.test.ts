@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { csvRow } from "./exports";
+
+describe("csvRow", () => {
+  it("leaves plain cells alone and ends the row with CRLF", () => {
+    expect(csvRow(["Jane Doe", 3, "jdoe"])).toBe("Jane Doe,3,jdoe\r\n");
+  });
+
+  it("writes null and undefined as empty cells", () => {
+    expect(csvRow([null, "x", undefined])).toBe(",x,\r\n");
+  });
+
+  it.each([
+    ["embedded quotes", 'She said "hi"', '"She said ""hi"""'],
+    ["commas", "Doe, Jane", '"Doe, Jane"'],
+    ["line feeds", "first\nsecond", '"first\nsecond"'],
+    ["carriage returns", "first\r\nsecond", '"first\r\nsecond"'],
+  ])("quotes cells with %s", (_, cell, expected) => {
+    expect(csvRow([cell, "next"])).toBe(`${expected},next\r\n`);
+  });
+
+  it.each(["=SUM(A1:A2)", "+1", "-1", "@cmd", "\tx"])("escapes text that would run as a formula: %j", cell => {
+    expect(csvRow([cell])).toBe(`'${cell}\r\n`);
+  });
+
+  it("quotes an escaped formula that also needs quoting", () => {
+    expect(csvRow(['=HYPERLINK("http://evil.example")'])).toBe(`"'=HYPERLINK(""http://evil.example"")"\r\n`);
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(csvRow([-2, 0, 1.5])).toBe("-2,0,1.5\r\n");
+  });
+});
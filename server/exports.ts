@@ -0,0 +1,185 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import { getCourseGrades } from "./grades";
+import { createXlsxWriter, escapeFormula, writeChunk, type XlsxCell } from "./xlsx";
+import { getDateKey } from "@shared/time-zone";
+import {
+  pageRequestSchema,
+  type Course,
+  type ExportFormat,
+  type GradingPolicy,
+  type Page,
+  type ParticipationRecordFilter,
+  type ParticipationRecordWithStudent,
+  type StudentGrade,
+  type User
+} from "@shared/schema";
+
+type Cell = string | number | null | undefined;
+
+// Records are read this many at a time, so memory use doesn't grow with the course
+const EXPORT_PAGE_SIZE = 200;
+
+// RFC 4180: quote cells containing separators, quotes or line breaks, doubling embedded quotes.
+// Text that a spreadsheet would run as a formula is escaped first; numbers are left alone.
+export function csvRow(cells: Cell[]): string {
+  return cells.map(cell => {
+    const value = cell === null || cell === undefined ? "" : typeof cell === "number" ? String(cell) : escapeFormula(cell);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }).join(",") + "\r\n";
+}
+
+// "ENT615: Strategy & Leadership" -> "ENT615-Strategy-Leadership", safe on every OS
+function fileSlug(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "course";
+}
+
+function splitName(name: string): { first: string; last: string } {
+  const parts = name.trim().split(/\s+/);
+  const last = parts.length > 1 ? parts.pop()! : "";
+  return { first: parts.join(" "), last };
+}
+
+/**
+ * Gradebook columns expected by each LMS import. Every format carries one
+ * "Participation" score out of the policy's target points, so the LMS shows
+ * the same percentage as the participation grade.
+ */
+type Gradebook = {
+  header: (policy: GradingPolicy) => Cell[][];
+  row: (student: User, grade: StudentGrade, score: number) => Cell[];
+};
+
+const GRADEBOOKS: Record<"canvas" | "moodle" | "blackboard", Gradebook> = {
+  // Canvas matches students on SIS Login ID and reads points possible from the second row
+  canvas: {
+    header: policy => [
+      ["Student", "ID", "SIS User ID", "SIS Login ID", "Section", "Participation"],
+      ["    Points Possible", "", "", "", "", policy.targetPoints],
+    ],
+    row: (student, _grade, score) => {
+      const { first, last } = splitName(student.name);
+      return [last ? `${last}, ${first}` : first, "", "", student.username, "", score];
+    },
+  },
+  // Moodle's CSV grade import maps a user field (email here) and a column to a grade item
+  moodle: {
+    header: () => [["First name", "Last name", "Email address", "Participation"]],
+    row: (student, _grade, score) => {
+      const { first, last } = splitName(student.name);
+      return [first, last, student.email, score];
+    },
+  },
+  // Blackboard creates a new Grade Center column from a header with the points possible and no column id
+  blackboard: {
+    header: policy => [["Last Name", "First Name", "Username", "Student ID", `Participation [Total Pts: ${policy.targetPoints} Score]`]],
+    row: (student, _grade, score) => {
+      const { first, last } = splitName(student.name);
+      return [last, first, student.username, student.id, score];
+    },
+  },
+};
+
+const RECORD_COLUMNS = ["Record ID", "Student ID", "Student", "Username", "Date", "Timestamp", "Session ID", "Category", "Points", "Note", "Feedback", "Deleted"];
+
+function recordCells(record: ParticipationRecordWithStudent, course: Course, categories: Map<number, string>): Cell[] {
+  const timestamp = new Date(record.timestamp);
+  return [
+    record.id,
+    record.student.id,
+    record.student.name,
+    record.student.username,
+    getDateKey(timestamp, course.timeZone),
+    timestamp.toISOString(),
+    record.sessionId,
+    record.categoryId ? categories.get(record.categoryId) ?? "" : "",
+    record.points,
+    record.note,
+    record.feedback,
+    record.hidden ? "yes" : "",
+  ];
+}
+
+// Matching records oldest first, one page at a time
+async function* recordPages(courseId: number, filter: ParticipationRecordFilter) {
+  let cursor: string | undefined;
+  do {
+    const page: Page<ParticipationRecordWithStudent> = await storage.getParticipationRecordsPage(
+      courseId,
+      filter,
+      pageRequestSchema.parse({ cursor, limit: EXPORT_PAGE_SIZE, order: "asc" })
+    );
+    yield page.items;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  canvas: "text/csv; charset=utf-8",
+  moodle: "text/csv; charset=utf-8",
+  blackboard: "text/csv; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Write a course export straight to the response, as the rows are produced
+export async function streamExport(
+  res: Response,
+  course: Course,
+  format: ExportFormat,
+  filter: ParticipationRecordFilter
+): Promise<void> {
+  const isGradebook = format === "canvas" || format === "moodle" || format === "blackboard";
+  const extension = isGradebook ? "csv" : format;
+  const filename = `${fileSlug(course.name)}_${isGradebook ? `${format}-gradebook` : "records"}_${getDateKey(new Date(), course.timeZone)}.${extension}`;
+
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+  if (isGradebook) {
+    const gradebook = GRADEBOOKS[format];
+    const { policy, grades } = await getCourseGrades(course);
+    const students = new Map((await storage.getAllStudents(course.id)).map(student => [student.id, student]));
+
+    for (const cells of gradebook.header(policy)) {
+      await writeChunk(res, csvRow(cells));
+    }
+    for (const grade of grades) {
+      const student = students.get(grade.student.id);
+      if (!student) continue;
+      const score = Math.round(grade.percent * policy.targetPoints) / 100;
+      await writeChunk(res, csvRow(gradebook.row(student, grade, score)));
+    }
+    res.end();
+    return;
+  }
+
+  const categories = new Map(
+    (await storage.getRubricCategories(course.id)).map(category => [category.id, category.name])
+  );
+
+  if (format === "xlsx") {
+    const xlsx = await createXlsxWriter(res, "Participation");
+    await xlsx.addRow(RECORD_COLUMNS);
+    for await (const records of recordPages(course.id, filter)) {
+      for (const record of records) {
+        await xlsx.addRow(recordCells(record, course, categories) as XlsxCell[]);
+      }
+    }
+    await xlsx.end();
+    return;
+  }
+
+  if (format === "csv") {
+    await writeChunk(res, csvRow(RECORD_COLUMNS));
+  }
+  for await (const records of recordPages(course.id, filter)) {
+    const lines = records.map(record => format === "csv"
+      ? csvRow(recordCells(record, course, categories))
+      : JSON.stringify({ ...record, category: record.categoryId ? categories.get(record.categoryId) ?? null : null }) + "\n"
+    );
+    await writeChunk(res, lines.join(""));
+  }
+  res.end();
+}
@@ -0,0 +1,170 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { recordAuditEvent } from "./audit";
+import type { UserRole } from "@shared/permissions";
+import type { ExternalIdentity, LtiPlatform, SsoErrorCode, User } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // An external login waiting for its user to sign in with their password, which confirms the link
+    pendingExternalLink?: PendingExternalLink;
+  }
+}
+
+// How long a user has to sign in with their password to confirm a link
+const PENDING_LINK_MS = 15 * 60 * 1000;
+
+// A sign-in from another system that the user has to be told about, as opposed to a server error
+export class ExternalLoginError extends Error {
+  constructor(public code: SsoErrorCode, message: string) {
+    super(message);
+  }
+}
+
+// Identities are namespaced by who vouches for them, so an LMS can't sign in as an SSO account or as another LMS's
+export function ssoIdentityIssuer(issuer: string): string {
+  return `oidc:${issuer}`;
+}
+
+export function ltiIdentityIssuer(platform: Pick<LtiPlatform, "id">): string {
+  return `lti:${platform.id}`;
+}
+
+// Who another system (an SSO provider or an LMS) says is signing in
+export type ExternalAccount = {
+  issuer: string; // from ssoIdentityIssuer or ltiIdentityIssuer
+  subject: string; // the system's stable id for the account
+  email: string | undefined;
+  emailVerified: boolean; // whether the system vouches for the email; only then is it linked to an existing account
+  name: string | undefined;
+  username: string | undefined;
+  role: UserRole | null; // for a new account; null when the account can't have one
+  linkableRoles: readonly UserRole[]; // roles of the existing accounts a matching email may link to
+};
+
+// The user an external account signs in as, and whether the account is linked to them yet
+export type ExternalUserMatch = { user: User; linked: boolean };
+
+export type PendingExternalLink = { userId: number; issuer: string; subject: string; expiresAt: number };
+
+/**
+ * The external account's email matches a user who never proved that email is
+ * theirs. Anybody can register an account with somebody else's email, so
+ * signing in as that user could hand the account's password holder the real
+ * owner's logins: the user has to sign in with the password to confirm.
+ */
+export class ExternalLinkRequiredError extends ExternalLoginError {
+  constructor(public user: User, public account: ExternalAccount) {
+    super("link_required", "Your email address belongs to an existing ClassParticipate account. Sign in with its password to link your login to it, or reset the password if you don't know it.");
+  }
+
+  // Kept in the session until the password login that confirms it
+  pendingLink(): PendingExternalLink {
+    return {
+      userId: this.user.id,
+      issuer: this.account.issuer,
+      subject: this.account.subject,
+      expiresAt: Date.now() + PENDING_LINK_MS,
+    };
+  }
+}
+
+// A free username based on the system's, or on the email's first part
+async function chooseUsername(base: string): Promise<string> {
+  const cleaned = base.toLowerCase().replace(/[^a-z0-9._-]+/g, "").slice(0, 40);
+  const username = cleaned.length >= 3 ? cleaned : `${cleaned}user`;
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? username : `${username}${suffix}`;
+    if (!(await storage.getUserByUsername(candidate))) return candidate;
+  }
+}
+
+/**
+ * The user an external account signs in as. Accounts seen before are found by
+ * their link; otherwise an existing user with the same email is matched, and
+ * anybody else gets a new account with the role the system gave them. Only
+ * the first kind is linked already: the caller links the others with
+ * linkExternalUser once it has let them in.
+ */
+export async function resolveExternalUser(account: ExternalAccount): Promise<ExternalUserMatch> {
+  const identity: ExternalIdentity | undefined = await storage.getExternalIdentity(account.issuer, account.subject);
+  if (identity) {
+    const user: User | undefined = await storage.getUser(identity.userId);
+    if (user) return { user, linked: true };
+  }
+
+  if (!account.email) {
+    throw new ExternalLoginError("no_email", "Your account didn't share an email address, so it can't be signed in.");
+  }
+
+  const existingUser: User | undefined = await storage.getUserByEmail(account.email);
+  if (existingUser) {
+    // Otherwise anybody who can set an email elsewhere could take over the matching account
+    if (!account.emailVerified) {
+      throw new ExternalLoginError("unverified_email", "Your email address hasn't been verified, so it can't be linked to your account.");
+    }
+    if (!account.linkableRoles.includes(existingUser.role as UserRole)) {
+      throw new ExternalLoginError("privileged_email", "Your email address belongs to an account with more access than your role here, so it can't be linked.");
+    }
+    if (!existingUser.emailVerified) {
+      throw new ExternalLinkRequiredError(existingUser, account);
+    }
+    return { user: existingUser, linked: false };
+  }
+
+  if (!account.role) {
+    throw new ExternalLoginError("no_role", "Your account doesn't have a role that can use ClassParticipate.");
+  }
+
+  // The random password is never shown; users who want one can reset it by email
+  const user: User = await storage.createUser({
+    username: await chooseUsername(account.username ?? account.email.split("@")[0]),
+    password: await hashPassword(randomBytes(24).toString("base64url")),
+    email: account.email,
+    emailVerified: account.emailVerified,
+    name: account.name ?? account.email,
+    role: account.role,
+  });
+  await recordAuditEvent({
+    actorId: user.id,
+    action: "user.sso.provision",
+    targetType: "user",
+    targetId: user.id,
+    after: { issuer: account.issuer, subject: account.subject, username: user.username, role: user.role }
+  });
+  return { user, linked: false };
+}
+
+// Remember which user the external account is, so later sign-ins find it by its link
+export async function linkExternalUser(user: User, account: Pick<ExternalAccount, "issuer" | "subject">): Promise<void> {
+  const link = { issuer: account.issuer, subject: account.subject };
+  await storage.createExternalIdentity({ userId: user.id, ...link });
+  await recordAuditEvent({
+    actorId: user.id,
+    action: "user.sso.link",
+    targetType: "user",
+    targetId: user.id,
+    after: link
+  });
+}
+
+// The user an external account signs in as, linked straight away
+export async function findOrCreateExternalUser(account: ExternalAccount): Promise<User> {
+  const { user, linked } = await resolveExternalUser(account);
+  if (!linked) await linkExternalUser(user, account);
+  return user;
+}
+
+/**
+ * After a password login, link the external login that was waiting for this
+ * user, if any. The external system vouched for the email and the password
+ * proved the account, so the email counts as verified from then on.
+ */
+export async function confirmPendingLink(pending: PendingExternalLink | undefined, user: User): Promise<void> {
+  if (!pending || pending.userId !== user.id || pending.expiresAt < Date.now()) return;
+  if (await storage.getExternalIdentity(pending.issuer, pending.subject)) return;
+
+  await linkExternalUser(user, pending);
+  await storage.updateUser(user.id, { emailVerified: true });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { calculateGrade } from "./grades";
+import { DEFAULT_GRADING_POLICY, type GradingPolicy } from "@shared/schema";
+
+const SESSIONS = [1, 2, 3];
+
+function policy(overrides: Partial<GradingPolicy> = {}): GradingPolicy {
+  return { ...DEFAULT_GRADING_POLICY, courseId: 1, ...overrides };
+}
+
+// Points per session id; null holds the points earned outside any session
+function points(entries: [number | null, number][]): Map<number | null, number> {
+  return new Map(entries);
+}
+
+describe("calculateGrade", () => {
+  it("adds up session points and points outside sessions against the target", () => {
+    expect(calculateGrade(policy(), SESSIONS, points([[1, 4], [2, 6], [null, 2]])))
+      .toEqual({ countedPoints: 12, percent: 60, letter: "D" });
+  });
+
+  it("ignores points from sessions it isn't given", () => {
+    expect(calculateGrade(policy(), [1], points([[1, 4], [2, 6]])).countedPoints).toBe(4);
+  });
+
+  it.each([
+    ["caps each session", { sessionCap: 3 }, [[1, 4], [2, 6], [3, 1]], 7],
+    ["doesn't cap points outside sessions", { sessionCap: 3 }, [[1, 4], [null, 5]], 8],
+    ["drops the lowest sessions, absences first", { dropLowestSessions: 1 }, [[1, 4], [2, 6]], 10],
+    ["drops sessions by their capped points", { sessionCap: 3, dropLowestSessions: 1 }, [[1, 10], [2, 2], [3, 3]], 6],
+    ["always keeps one session", { dropLowestSessions: 5 }, [[1, 4], [2, 6]], 6],
+    ["never drops points outside sessions", { dropLowestSessions: 3 }, [[null, 5]], 5],
+  ] as const)("%s", (_, overrides, entries, expected) => {
+    expect(calculateGrade(policy(overrides), SESSIONS, points([...entries])).countedPoints).toBe(expected);
+  });
+
+  it.each([
+    ["linear", 5, 25],
+    ["linear", 40, 100],
+    ["curve", 5, 50],
+    ["curve", 0, 0],
+    ["curve", 40, 100],
+  ] as const)("scales %s: %j of 20 points is %j%%", (scaling, earned, expected) => {
+    expect(calculateGrade(policy({ scaling, curveExponent: 0.5 }), [1], points([[1, earned]])).percent).toBe(expected);
+  });
+
+  it("rounds the percentage to one decimal", () => {
+    expect(calculateGrade(policy({ targetPoints: 3 }), [1], points([[1, 1]])).percent).toBe(33.3);
+  });
+
+  it.each([
+    [18, "A"], // 90%: a cutoff includes its own percentage
+    [17.9, "B"],
+    [16, "B"],
+    [12, "D"],
+    [11.9, "F"],
+    [0, "F"],
+  ])("gives %j of 20 points the letter %s", (earned, letter) => {
+    // Points are whole numbers in practice; fractions make the boundaries easy to hit
+    expect(calculateGrade(policy({ targetPoints: 20 }), [1], points([[1, earned]])).letter).toBe(letter);
+  });
+
+  it("finds the letter whatever order the cutoffs are in", () => {
+    const cutoffs = [
+      { letter: "Fail", minPercent: 0 },
+      { letter: "Pass", minPercent: 50 },
+      { letter: "Merit", minPercent: 75 },
+    ];
+    const letters = [4, 10, 16].map(earned => calculateGrade(policy({ letterCutoffs: cutoffs }), [1], points([[1, earned]])).letter);
+    expect(letters).toEqual(["Fail", "Pass", "Merit"]);
+  });
+});
@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { getDateKey } from "@shared/time-zone";
+import {
+  DEFAULT_GRADING_POLICY,
+  type ClassSession,
+  type Course,
+  type CourseGrades,
+  type GradingPolicy,
+  type StudentGrade
+} from "@shared/schema";
+
+type GradeResult = Pick<StudentGrade, "countedPoints" | "percent" | "letter">;
+
+// The course's saved policy, or the default one
+export async function getGradingPolicy(courseId: number): Promise<GradingPolicy> {
+  return (await storage.getGradingPolicy(courseId)) ?? { ...DEFAULT_GRADING_POLICY, courseId };
+}
+
+/**
+ * Grade one student from their points per session.
+ *
+ * Every session of the course counts, with 0 for sessions the student earned
+ * nothing in, so dropping the lowest sessions forgives absences too. Points
+ * earned outside any session are neither capped nor dropped.
+ */
+export function calculateGrade(
+  policy: GradingPolicy,
+  sessionIds: number[],
+  pointsBySession: Map<number | null, number>
+): GradeResult {
+  const cap = (points: number) => policy.sessionCap === null ? points : Math.min(points, policy.sessionCap);
+
+  // Drop the lowest sessions, but always keep at least one
+  const sessionPoints = sessionIds
+    .map(sessionId => cap(pointsBySession.get(sessionId) ?? 0))
+    .sort((a, b) => a - b);
+  const keptPoints = sessionPoints.slice(Math.min(policy.dropLowestSessions, Math.max(sessionPoints.length - 1, 0)));
+
+  const countedPoints = keptPoints.reduce((sum, points) => sum + points, 0) + (pointsBySession.get(null) ?? 0);
+
+  const ratio = Math.min(1, countedPoints / policy.targetPoints);
+  const scaled = policy.scaling === "curve" ? Math.pow(ratio, policy.curveExponent) : ratio;
+  const percent = Math.round(scaled * 1000) / 10;
+
+  // Highest cutoff the percentage reaches; the schema guarantees one starts at 0
+  const letter = [...policy.letterCutoffs]
+    .sort((a, b) => b.minPercent - a.minPercent)
+    .find(cutoff => percent >= cutoff.minPercent)?.letter ?? "";
+
+  return { countedPoints, percent, letter };
+}
+
+/**
+ * Grades of every enrolled student, or only of the given student.
+ *
+ * Sessions held on one of the term's holidays are optional: they count for the
+ * students who earned points in them, and aren't a 0 for everyone else.
+ */
+export async function getCourseGrades(course: Course, studentId?: number): Promise<CourseGrades> {
+  const policy = await getGradingPolicy(course.id);
+  const term = course.termId ? await storage.getTerm(course.termId) : undefined;
+  const holidays = new Set(term?.holidays.map(holiday => holiday.date));
+  const sessions = await storage.getClassSessionsByCourse(course.id);
+  const isHoliday = (session: ClassSession) => holidays.has(getDateKey(session.startedAt, course.timeZone));
+  const requiredSessionIds = sessions.filter(session => !isHoliday(session)).map(session => session.id);
+  const holidaySessionIds = sessions.filter(isHoliday).map(session => session.id);
+
+  const students = (await storage.getAllStudents(course.id))
+    .filter(student => studentId === undefined || student.id === studentId);
+  const sessionPoints = await storage.getSessionPointsByStudent(course.id);
+
+  const grades = students.map(student => {
+    const pointsBySession = new Map(
+      sessionPoints
+        .filter(entry => entry.studentId === student.id)
+        .map(entry => [entry.sessionId, entry.points] as const)
+    );
+    const rawPoints = Array.from(pointsBySession.values()).reduce((sum, points) => sum + points, 0);
+    const sessionIds = requiredSessionIds.concat(holidaySessionIds.filter(sessionId => pointsBySession.has(sessionId)));
+
+    return {
+      student: { id: student.id, name: student.name, username: student.username },
+      rawPoints,
+      ...calculateGrade(policy, sessionIds, pointsBySession)
+    };
+  });
+
+  return { policy, grades };
+}
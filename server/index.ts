@@ -3,17 +3,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import runMigration from "./migrate";
-
-// When we start the server, ensure we're using the DatabaseStorage
-import { DatabaseStorage } from "./database-storage";
-import { storage as memStorage } from "./storage";
-
-// This is a temporary hack to ensure the DatabaseStorage is used
-// We're overriding the storage object with a new instance of DatabaseStorage
-(global as any).storage = new DatabaseStorage();
+import { ensureAdminInvitation } from "./invitations";
 
 const app = express();
-app.use(express.json());
+// Roster imports send the whole CSV file in the request body
+app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -56,6 +50,12 @@ app.use((req, res, next) => {
     // Continue with server setup even if migration fails
   }
 
+  try {
+    await ensureAdminInvitation();
+  } catch (error) {
+    console.error('Failed to check for an admin account:', error);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,99 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type {
+  Course,
+  CourseStaff,
+  CreatedInvitation,
+  Invitation,
+  InvitationPreview,
+  InvitationSettings,
+  InvitationStatus,
+  InvitationSummary,
+  StudentCourse
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tokens are only kept as a hash, so a leaked database can't be used to register
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function getInvitationStatus(invitation: Invitation, now = new Date()): InvitationStatus {
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.usedAt) return "used";
+  if (invitation.expiresAt <= now) return "expired";
+  return "pending";
+}
+
+async function getInvitationCourse(invitation: Invitation): Promise<{ id: number; name: string } | null> {
+  if (invitation.courseId === null) return null;
+  const course: Course | undefined = await storage.getCourse(invitation.courseId);
+  return course ? { id: course.id, name: course.name } : null;
+}
+
+export async function summarizeInvitation(invitation: Invitation): Promise<InvitationSummary> {
+  const { tokenHash, ...fields } = invitation;
+  return {
+    ...fields,
+    status: getInvitationStatus(invitation),
+    course: await getInvitationCourse(invitation),
+  };
+}
+
+// Create an invitation; the returned token is the only copy of it
+export async function issueInvitation(
+  createdBy: number | null,
+  settings: InvitationSettings
+): Promise<CreatedInvitation> {
+  const token = randomBytes(24).toString("base64url");
+  const invitation: Invitation = await storage.createInvitation({
+    tokenHash: hashInvitationToken(token),
+    role: settings.role,
+    courseId: settings.courseId,
+    email: settings.email,
+    createdBy,
+    expiresAt: new Date(Date.now() + settings.expiresInDays * DAY_MS),
+  });
+
+  return { ...(await summarizeInvitation(invitation)), token };
+}
+
+// The invitation a token belongs to, as long as it can still be accepted
+export async function findPendingInvitation(token: string): Promise<Invitation | undefined> {
+  const invitation: Invitation | undefined = await storage.getInvitationByTokenHash(hashInvitationToken(token));
+  return invitation && getInvitationStatus(invitation) === "pending" ? invitation : undefined;
+}
+
+export async function previewInvitation(invitation: Invitation): Promise<InvitationPreview> {
+  return {
+    role: invitation.role,
+    email: invitation.email,
+    expiresAt: invitation.expiresAt,
+    course: await getInvitationCourse(invitation),
+  };
+}
+
+// Put whoever accepted an invitation into its course: TAs on the staff, students on the roster
+export async function joinInvitationCourse(
+  invitation: Invitation,
+  userId: number
+): Promise<StudentCourse | CourseStaff | undefined> {
+  if (invitation.courseId === null) return undefined;
+  return invitation.role === "ta"
+    ? storage.addCourseStaff(invitation.courseId, userId)
+    : storage.enrollStudent(userId, invitation.courseId);
+}
+
+/**
+ * Without any admin account nobody could invite the first one, so a fresh
+ * installation logs a single-use admin invitation at startup instead.
+ */
+export async function ensureAdminInvitation(): Promise<void> {
+  if ((await storage.countUsersByRole("admin")) > 0) {
+    return;
+  }
+
+  const invitation = await issueInvitation(null, { role: "admin", courseId: null, email: null, expiresInDays: 1 });
+  console.log(`[Auth] No admin account yet. Register the first one at /auth?invite=${invitation.token} (valid for 24 hours)`);
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateKeyPairSync, type KeyObject } from "crypto";
+import { signJwt, verifyIdToken, verifyJwt } from "./jwt";
+
+const ISSUER = "https://idp.example.edu";
+const CLIENT_ID = "classparticipate";
+const NONCE = "nonce-1";
+
+function generateKey(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return { kid, privateKey, jwk: { ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" } };
+}
+
+const providerKey = generateKey("key-1");
+const attackerKey = generateKey("key-1"); // same kid, different key
+const rotatedKey = generateKey("key-2");
+
+// Key sets are cached per URL, so every test gets its own
+let jwksUri: string;
+let publishedKeys: object[];
+let testCount = 0;
+
+function claims(overrides: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return { iss: ISSUER, aud: CLIENT_ID, sub: "user-1", iat: now, exp: now + 300, nonce: NONCE, ...overrides };
+}
+
+function token(overrides: Record<string, unknown> = {}, key: { privateKey: KeyObject; kid: string } = providerKey): string {
+  return signJwt(claims(overrides), key.privateKey, key.kid);
+}
+
+function verify(idToken: string) {
+  return verifyIdToken(idToken, { jwksUri, issuer: ISSUER, clientId: CLIENT_ID, nonce: NONCE });
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+beforeEach(() => {
+  jwksUri = `${ISSUER}/jwks/${++testCount}`;
+  publishedKeys = [providerKey.jwk];
+  vi.stubGlobal("fetch", vi.fn(async (url: string) => {
+    expect(url).toBe(jwksUri);
+    return new Response(JSON.stringify({ keys: publishedKeys }), { headers: { "Content-Type": "application/json" } });
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("verifyIdToken", () => {
+  it("accepts a valid token", async () => {
+    expect(await verify(token())).toMatchObject({ sub: "user-1", iss: ISSUER });
+  });
+
+  it("accepts several audiences when the token was issued to us", async () => {
+    await expect(verify(token({ aud: ["other", CLIENT_ID], azp: CLIENT_ID }))).resolves.toMatchObject({ sub: "user-1" });
+  });
+
+  it("fetches the key set again for a key it hasn't seen", async () => {
+    await verify(token());
+    publishedKeys = [providerKey.jwk, rotatedKey.jwk];
+    await expect(verify(token({}, rotatedKey))).resolves.toMatchObject({ sub: "user-1" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  describe("signature", () => {
+    it("rejects a token signed with another key under the provider's kid", async () => {
+      await expect(verify(token({}, attackerKey))).rejects.toThrow("The token's signature is invalid");
+    });
+
+    it("rejects a token whose claims were changed after signing", async () => {
+      const [header, , signature] = token().split(".");
+      const forged = `${header}.${encode(claims({ sub: "admin" }))}.${signature}`;
+      await expect(verify(forged)).rejects.toThrow("The token's signature is invalid");
+    });
+
+    it("rejects a token signed with a key the provider doesn't publish", async () => {
+      await expect(verify(token({}, rotatedKey))).rejects.toThrow("No signing key key-2");
+    });
+
+    it("rejects unsigned tokens", async () => {
+      const unsigned = `${encode({ alg: "none", kid: "key-1" })}.${encode(claims())}.`;
+      await expect(verify(unsigned)).rejects.toThrow("The token isn't a signed JWT");
+    });
+
+    it("rejects HMAC tokens keyed with the public key", async () => {
+      const [, payload, signature] = token().split(".");
+      const confused = `${encode({ alg: "HS256", kid: "key-1" })}.${payload}.${signature}`;
+      await expect(verify(confused)).rejects.toThrow("Unsupported token algorithm HS256");
+    });
+
+    it("rejects a key published for encryption", async () => {
+      publishedKeys = [{ ...providerKey.jwk, use: "enc" }];
+      await expect(verify(token())).rejects.toThrow("No signing key key-1");
+    });
+  });
+
+  describe("claims", () => {
+    it.each([
+      ["another issuer", { iss: "https://evil.example" }, "The ID token was issued by https://evil.example"],
+      ["another audience", { aud: "other-client" }, "The ID token is for another client"],
+      ["several audiences without us as azp", { aud: [CLIENT_ID, "other-client"] }, "The ID token is for another client"],
+      ["several audiences for another azp", { aud: [CLIENT_ID, "other-client"], azp: "other-client" }, "The ID token is for another client"],
+      ["an expiry past the allowed clock skew", { exp: Math.floor(Date.now() / 1000) - 61 }, "The ID token has expired"],
+      ["no expiry", { exp: undefined }, "The ID token has expired"],
+      ["another nonce", { nonce: "nonce-2" }, "The ID token is for another login"],
+      ["no nonce", { nonce: undefined }, "The ID token is for another login"],
+      ["no subject", { sub: "" }, "The ID token has no subject"],
+    ])("rejects %s", async (_, overrides, message) => {
+      await expect(verify(token(overrides))).rejects.toThrow(message);
+    });
+
+    it("allows a minute of clock skew", async () => {
+      await expect(verify(token({ exp: Math.floor(Date.now() / 1000) - 30 }))).resolves.toMatchObject({ sub: "user-1" });
+    });
+  });
+});
+
+describe("verifyJwt", () => {
+  it("returns the claims of a token signed by a published key", async () => {
+    expect(await verifyJwt(token(), jwksUri)).toMatchObject({ iss: ISSUER, aud: CLIENT_ID });
+  });
+
+  it("rejects a key set it can't fetch", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("Not found", { status: 404 })));
+    await expect(verifyJwt(token(), jwksUri)).rejects.toThrow(`GET ${jwksUri} failed with 404`);
+  });
+});
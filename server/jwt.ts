@@ -0,0 +1,95 @@
+import { constants, createPublicKey, randomBytes, sign, verify, type JsonWebKey, type KeyObject } from "crypto";
+
+/**
+ * Signed JSON Web Tokens, as far as single sign-on and LTI need them: checking
+ * tokens signed with a provider's published keys, and signing our own with RS256.
+ */
+
+const CLOCK_SKEW_SECONDS = 60;
+
+const SIGNING_ALGORITHMS: Record<string, { hash: string; padding?: number; saltLength?: number; dsaEncoding?: "ieee-p1363" }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: { hash: "sha256", padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+  PS384: { hash: "sha384", padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+  PS512: { hash: "sha512", padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+  ES512: { hash: "sha512", dsaEncoding: "ieee-p1363" },
+};
+
+// Published key sets by URL; a set is fetched again when a token names a key it doesn't have (key rotation)
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<JsonWebKey> {
+  const findKey = (keys: JsonWebKey[]) =>
+    keys.find(key => (kid ? key.kid === kid : true) && (key.use === undefined || key.use === "sig"));
+
+  const key = findKey(jwksCache.get(jwksUri) ?? []);
+  if (key) return key;
+
+  const res = await fetch(jwksUri);
+  if (!res.ok) throw new Error(`GET ${jwksUri} failed with ${res.status}`);
+  const { keys } = (await res.json()) as { keys: JsonWebKey[] };
+  jwksCache.set(jwksUri, keys);
+
+  const fetchedKey = findKey(keys);
+  if (!fetchedKey) throw new Error(`No signing key ${kid ?? ""} at ${jwksUri}`);
+  return fetchedKey;
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+// The claims of a token signed with one of the keys at jwksUri; throws when the signature doesn't check out
+export async function verifyJwt(token: string, jwksUri: string): Promise<Record<string, any>> {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split(".");
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error("The token isn't a signed JWT");
+  }
+
+  const header = decodeSegment(encodedHeader);
+  const algorithm = SIGNING_ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`Unsupported token algorithm ${header.alg}`);
+
+  const { hash, ...options } = algorithm;
+  const key = createPublicKey({ key: await getSigningKey(jwksUri, header.kid), format: "jwk" });
+  const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  if (!verify(hash, signed, { key, ...options }, Buffer.from(encodedSignature, "base64url"))) {
+    throw new Error("The token's signature is invalid");
+  }
+
+  return decodeSegment(encodedPayload);
+}
+
+/**
+ * The claims of an OpenID Connect ID token, once it's been checked that it was
+ * signed by the issuer, issued to us, is still valid and belongs to this login.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  expected: { jwksUri: string; issuer: string; clientId: string; nonce: string }
+): Promise<Record<string, any> & { sub: string }> {
+  const claims = await verifyJwt(idToken, expected.jwksUri);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== expected.issuer) throw new Error(`The ID token was issued by ${claims.iss}`);
+  if (!audiences.includes(expected.clientId)) throw new Error("The ID token is for another client");
+  if (audiences.length > 1 && claims.azp !== expected.clientId) throw new Error("The ID token is for another client");
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error("The ID token has expired");
+  if (claims.nonce !== expected.nonce) throw new Error("The ID token is for another login");
+  if (typeof claims.sub !== "string" || !claims.sub) throw new Error("The ID token has no subject");
+
+  return claims as Record<string, any> & { sub: string };
+}
+
+// An RS256 token, with a fresh jti so the receiver can tell tokens apart
+export function signJwt(claims: Record<string, unknown>, privateKey: KeyObject, kid: string): string {
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify({ jti: randomBytes(16).toString("base64url"), ...claims })).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
@@ -0,0 +1,144 @@
+import { storage } from "./storage";
+import type { LoginAttempt, LoginLockout } from "@shared/schema";
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+// Failures older than this are forgotten
+const FAILURE_WINDOW_MS = 60 * MINUTE_MS;
+
+type ThrottlePolicy = {
+  freeAttempts: number; // failures allowed before any waiting
+  baseDelayMs: number; // wait after the first failure past the free ones, doubled with every further failure
+  lockoutFailures: number; // failures that lock logins out for lockoutMs
+  lockoutMs: number;
+};
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  freeAttempts: 3,
+  baseDelayMs: SECOND_MS,
+  lockoutFailures: 10,
+  lockoutMs: 15 * MINUTE_MS,
+};
+
+// A whole classroom can share one address, so it gets a lot more room than a single account
+const IP_POLICY: ThrottlePolicy = {
+  freeAttempts: 20,
+  baseDelayMs: SECOND_MS,
+  lockoutFailures: 100,
+  lockoutMs: 15 * MINUTE_MS,
+};
+
+// Password reset requests are counted apart from logins, with the same limits
+type ThrottleKind = "login" | "reset";
+
+type Throttle = { key: string; policy: ThrottlePolicy; scope: "account" | "ip"; kind: ThrottleKind };
+
+// Usernames are counted case-insensitively, so changing the case doesn't buy extra guesses
+function getThrottles(username: string, ip: string | undefined, kind: ThrottleKind = "login"): Throttle[] {
+  const prefix = kind === "login" ? "" : `${kind}:`;
+  return [
+    { key: `${prefix}account:${username.trim().toLowerCase()}`, policy: ACCOUNT_POLICY, scope: "account", kind },
+    { key: `${prefix}ip:${ip ?? "unknown"}`, policy: IP_POLICY, scope: "ip", kind },
+  ];
+}
+
+function getRetryDelayMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  if (failures >= policy.lockoutFailures) return policy.lockoutMs;
+  return Math.min(policy.baseDelayMs * 2 ** (failures - policy.freeAttempts), policy.lockoutMs);
+}
+
+function describeWait(ms: number): string {
+  if (ms < MINUTE_MS) {
+    const seconds = Math.ceil(ms / SECOND_MS);
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(ms / MINUTE_MS);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+function getLockout(attempt: LoginAttempt | undefined, throttle: Throttle, now: number): LoginLockout | null {
+  if (!attempt || now - attempt.lastFailureAt.getTime() > FAILURE_WINDOW_MS) return null;
+
+  const lockedUntil = attempt.lastFailureAt.getTime() + getRetryDelayMs(attempt.failures, throttle.policy);
+  if (lockedUntil <= now) return null;
+
+  const lockedOut = attempt.failures >= throttle.policy.lockoutFailures;
+  const wait = describeWait(lockedUntil - now);
+  const message = throttle.kind === "reset"
+    ? `Too many password reset requests. Try again in ${wait}.`
+    : !lockedOut
+    ? `Too many failed logins. Try again in ${wait}.`
+    : throttle.scope === "account"
+      ? `This account is locked after too many failed logins. Try again in ${wait} or reset your password.`
+      : `Too many failed logins from your network. Try again in ${wait}.`;
+  return { message, lockedUntil: new Date(lockedUntil), lockedOut };
+}
+
+// Of several lockouts, the one that lasts longest
+function longestLockout(lockouts: (LoginLockout | null)[]): LoginLockout | null {
+  return lockouts.reduce<LoginLockout | null>(
+    (longest, lockout) => (lockout && (!longest || lockout.lockedUntil > longest.lockedUntil) ? lockout : longest),
+    null
+  );
+}
+
+export type TakenLoginAttempt = {
+  lockout: LoginLockout | null; // the wait that refuses this attempt
+  failures: number; // the account's failures, counting this attempt
+  failureLockout: LoginLockout | null; // the wait that starts if this attempt fails
+};
+
+/**
+ * Count a login for this username from this address as a failure before its
+ * password is checked. Taking the attempt is one atomic step per counter, so
+ * guesses sent in parallel each see the ones before them, and throttled
+ * guesses never get an answer. passLoginAttempt gives a success back.
+ */
+export async function takeLoginAttempt(username: string, ip: string | undefined): Promise<TakenLoginAttempt> {
+  const now = Date.now();
+  const throttles = getThrottles(username, ip);
+  const previous: (LoginAttempt | undefined)[] = await Promise.all(
+    throttles.map(throttle => storage.takeLoginAttempt(throttle.key, FAILURE_WINDOW_MS))
+  );
+  const counted: LoginAttempt[] = throttles.map((throttle, i) => {
+    const attempt = previous[i];
+    const failures = attempt && now - attempt.lastFailureAt.getTime() <= FAILURE_WINDOW_MS ? attempt.failures + 1 : 1;
+    return { key: throttle.key, failures, lastFailureAt: new Date(now) };
+  });
+
+  return {
+    lockout: longestLockout(throttles.map((throttle, i) => getLockout(previous[i], throttle, now))),
+    failures: counted[0].failures,
+    failureLockout: longestLockout(throttles.map((throttle, i) => getLockout(counted[i], throttle, now))),
+  };
+}
+
+// A successful login clears the account's count; the address only gets its attempt back, so one known password can't reset it
+export async function passLoginAttempt(username: string, ip: string | undefined): Promise<void> {
+  const [accountThrottle, ipThrottle] = getThrottles(username, ip);
+  await storage.clearLoginAttempts(accountThrottle.key);
+  await storage.refundLoginAttempt(ipThrottle.key);
+}
+
+/**
+ * Count a request for a password reset link against the account and the
+ * address, so nobody can flood an inbox with reset mail. Every request counts,
+ * and the answer doesn't depend on whether the account exists. Returns the
+ * wait that refuses the request, if any.
+ */
+export async function takePasswordResetAttempt(identifier: string, ip: string | undefined): Promise<LoginLockout | null> {
+  const now = Date.now();
+  const throttles = getThrottles(identifier, ip, "reset");
+  const previous: (LoginAttempt | undefined)[] = await Promise.all(
+    throttles.map(throttle => storage.takeLoginAttempt(throttle.key, FAILURE_WINDOW_MS))
+  );
+  return longestLockout(throttles.map((throttle, i) => getLockout(previous[i], throttle, now)));
+}
+
+// A password reset ends any lockout of the account
+export async function clearLoginFailures(username: string): Promise<void> {
+  const [accountThrottle] = getThrottles(username, undefined);
+  await storage.clearLoginAttempts(accountThrottle.key);
+}
@@ -0,0 +1,543 @@
+import type { Request, Response as ExpressResponse } from "express";
+import {
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  timingSafeEqual,
+  type JsonWebKey,
+  type KeyObject
+} from "crypto";
+import { storage } from "./storage";
+import { getCookieSecret } from "./auth";
+import { recordAuditEvent } from "./audit";
+import { createCourse } from "./courses";
+import { getCourseGrades } from "./grades";
+import { getAppUrl } from "./password-reset";
+import { signJwt, verifyIdToken } from "./jwt";
+import {
+  ExternalLinkRequiredError,
+  ExternalLoginError,
+  linkExternalUser,
+  ltiIdentityIssuer,
+  resolveExternalUser,
+  type ExternalAccount,
+  type ExternalUserMatch
+} from "./external-accounts";
+import { USER_ROLES, type UserRole } from "@shared/permissions";
+import type {
+  Course,
+  CourseLtiLink,
+  ExternalIdentity,
+  LtiContext,
+  LtiGradeSyncResult,
+  LtiPlatform,
+  LtiToolConfig,
+  User
+} from "@shared/schema";
+
+/**
+ * LTI 1.3 tool launches and Assignment and Grade Services.
+ *
+ * A launch starts with the LMS calling the login URL, which sends the browser
+ * back to the LMS to authorize; the LMS then posts a signed ID token to the
+ * launch URL. The token says who the user is, which LMS course (context) they
+ * came from and their role there, and the launch signs them into the linked
+ * course. Grades go back to the LMS as scores on one gradebook column.
+ */
+
+const LTI_CLAIM = "https://purl.imsglobal.org/spec/lti/claim/";
+const AGS_ENDPOINT_CLAIM = "https://purl.imsglobal.org/spec/lti-ags/claim/endpoint";
+export const AGS_SCOPES = {
+  lineItem: "https://purl.imsglobal.org/spec/lti-ags/scope/lineitem",
+  score: "https://purl.imsglobal.org/spec/lti-ags/scope/score",
+};
+
+const LAUNCH_STATE_LIFETIME_MS = 10 * 60 * 1000;
+// Ties a launch state to the browser that started the login; one cookie per launch so parallel launches don't clash
+const LAUNCH_STATE_COOKIE_PREFIX = "lti_state_";
+const LAUNCH_STATE_COOKIE_PATH = "/api/lti/launch";
+const CLIENT_ASSERTION_LIFETIME_SECONDS = 5 * 60;
+// Identifies our gradebook column among the LMS course's others
+const LINE_ITEM_RESOURCE_ID = "classparticipate-participation";
+
+// A launch or grade sync problem to show the user, as opposed to a server error
+export class LtiError extends Error {}
+
+type ToolKey = { privateKey: KeyObject; publicJwk: JsonWebKey; kid: string };
+let toolKey: ToolKey | null = null;
+
+/**
+ * The key the tool signs grade service requests with, from LTI_PRIVATE_KEY (a
+ * PEM private key). Without one a key is generated per process, which works
+ * as long as the LMS fetches our keyset again after a restart.
+ */
+function getToolKey(): ToolKey {
+  if (!toolKey) {
+    let privateKey: KeyObject;
+    if (process.env.LTI_PRIVATE_KEY) {
+      privateKey = createPrivateKey(process.env.LTI_PRIVATE_KEY.replace(/\\n/g, "\n"));
+    } else {
+      console.warn("LTI_PRIVATE_KEY isn't set; using a key that changes whenever the server restarts");
+      privateKey = generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+    }
+    const publicJwk = createPublicKey(privateKey).export({ format: "jwk" });
+    const kid = createHash("sha256").update(publicJwk.n ?? "").digest("base64url").slice(0, 16);
+    toolKey = { privateKey, publicJwk, kid };
+  }
+  return toolKey;
+}
+
+export function getToolJwks(): { keys: JsonWebKey[] } {
+  const { publicJwk, kid } = getToolKey();
+  return { keys: [{ ...publicJwk, kid, use: "sig", alg: "RS256" }] };
+}
+
+export function getToolConfig(req: Request): LtiToolConfig {
+  const appUrl = getAppUrl(req);
+  return {
+    loginUrl: `${appUrl}/api/lti/login`,
+    launchUrl: `${appUrl}/api/lti/launch`,
+    jwksUrl: `${appUrl}/api/lti/jwks`,
+  };
+}
+
+function param(source: Record<string, unknown>, name: string): string | undefined {
+  const value = source[name];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function signLaunchState(state: string): string {
+  return createHmac("sha256", getCookieSecret()).update(`lti-launch:${state}`).digest("base64url");
+}
+
+// The LMS posts the launch from its own site, so the cookie has to be SameSite=None, which browsers only keep when Secure
+function launchStateCookieOptions(req: Request) {
+  return {
+    httpOnly: true,
+    secure: req.secure,
+    sameSite: req.secure ? "none" as const : "lax" as const,
+    path: LAUNCH_STATE_COOKIE_PATH,
+  };
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie ?? "").split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+// Whether the browser posting a launch is the one its login was started in; clears the cookie either way
+function claimLaunchStateCookie(req: Request, res: ExpressResponse, state: string): boolean {
+  const name = LAUNCH_STATE_COOKIE_PREFIX + state;
+  const value = readCookie(req, name);
+  res.clearCookie(name, launchStateCookieOptions(req));
+  if (!value) {
+    return false;
+  }
+
+  const expected = Buffer.from(signLaunchState(state));
+  const actual = Buffer.from(value);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Third-party login initiation: remember the launch, bind it to this browser
+ * with a signed cookie, then send the browser to the LMS to authorize it.
+ * Returns the URL to redirect to.
+ */
+export async function initiateLaunch(req: Request, res: ExpressResponse, params: Record<string, unknown>): Promise<string> {
+  const issuer = param(params, "iss");
+  const loginHint = param(params, "login_hint");
+  if (!issuer || !loginHint) {
+    throw new LtiError("The LMS didn't say who is launching ClassParticipate.");
+  }
+
+  const platform: LtiPlatform | undefined = await storage.findLtiPlatform(issuer, param(params, "client_id"));
+  if (!platform) {
+    throw new LtiError("This LMS isn't registered with ClassParticipate. Ask an administrator to register it.");
+  }
+
+  const state = randomBytes(16).toString("base64url");
+  const nonce = randomBytes(16).toString("base64url");
+  await storage.createLtiLaunchState({
+    state,
+    nonce,
+    platformId: platform.id,
+    expiresAt: new Date(Date.now() + LAUNCH_STATE_LIFETIME_MS),
+  });
+  res.cookie(LAUNCH_STATE_COOKIE_PREFIX + state, signLaunchState(state), {
+    ...launchStateCookieOptions(req),
+    maxAge: LAUNCH_STATE_LIFETIME_MS,
+  });
+
+  const url = new URL(platform.authLoginUrl);
+  const messageHint = param(params, "lti_message_hint");
+  url.search = new URLSearchParams({
+    scope: "openid",
+    response_type: "id_token",
+    response_mode: "form_post",
+    prompt: "none",
+    client_id: platform.clientId,
+    redirect_uri: getToolConfig(req).launchUrl,
+    login_hint: loginHint,
+    ...(messageHint ? { lti_message_hint: messageHint } : {}),
+    state,
+    nonce,
+  }).toString();
+  return url.toString();
+}
+
+// The ClassParticipate role for a user's roles in the LMS course; only course (membership) roles count
+function mapLtiRoles(roles: unknown): UserRole | null {
+  const names = (Array.isArray(roles) ? roles : [])
+    .filter((role): role is string => typeof role === "string")
+    .filter(role => role.includes("/membership") || !role.includes("/"))
+    .map(role => role.split("#").pop()!);
+
+  // TAs are Instructors with a TeachingAssistant sub-role, so they're checked first
+  if (names.includes("TeachingAssistant")) return "ta";
+  if (names.includes("Instructor") || names.includes("Administrator")) return "admin";
+  if (names.includes("Learner")) return "student";
+  return null;
+}
+
+/**
+ * The course an LMS course launches into. An instructor's first launch
+ * creates and links it; everybody else joins the linked course in their role.
+ */
+async function joinLaunchContext(
+  platform: LtiPlatform,
+  lmsCourse: { id: string; title: string | null },
+  user: User,
+  lmsRole: UserRole | null
+): Promise<Course> {
+  let context: LtiContext | undefined = await storage.getLtiContext(platform.id, lmsCourse.id);
+
+  if (!context) {
+    if (user.role !== "admin" || lmsRole !== "admin") {
+      throw new LtiError("Your instructor hasn't opened ClassParticipate from this course yet.");
+    }
+    const course = await createCourse({ name: lmsCourse.title ?? "LMS course" }, user.id);
+    context = await storage.createLtiContext({
+      platformId: platform.id,
+      contextId: lmsCourse.id,
+      courseId: course.id,
+      title: lmsCourse.title,
+      lineItemsUrl: null,
+      lineItemUrl: null,
+      agsScopes: [],
+    });
+    await recordAuditEvent({
+      actorId: user.id,
+      courseId: course.id,
+      action: "course.create",
+      targetType: "course",
+      targetId: course.id,
+      after: { ...course, lti: { platform: platform.name, contextId: lmsCourse.id } }
+    });
+  }
+
+  const course: Course | undefined = await storage.getCourse(context!.courseId);
+  if (!course) {
+    throw new LtiError("The course linked to this LMS course no longer exists.");
+  }
+
+  switch (user.role) {
+    case "admin":
+      if (lmsRole !== "admin") {
+        throw new LtiError("You aren't an instructor of this LMS course.");
+      }
+      if (course.adminId !== user.id) {
+        throw new LtiError("This LMS course is linked to a course another instructor runs in ClassParticipate.");
+      }
+      break;
+    case "ta":
+      if (lmsRole !== "ta" && lmsRole !== "admin") {
+        throw new LtiError("You aren't on the teaching staff of this LMS course.");
+      }
+      if (!(await storage.isCourseStaff(user.id, course.id))) {
+        await storage.addCourseStaff(course.id, user.id);
+        await recordAuditEvent({
+          actorId: user.id,
+          courseId: course.id,
+          action: "staff.add",
+          targetType: "user",
+          targetId: user.id
+        });
+      }
+      break;
+    default:
+      if (lmsRole !== "student") {
+        throw new LtiError("Your ClassParticipate account is a student account, so it can only join as a student.");
+      }
+      if (!(await storage.isStudentEnrolled(user.id, course.id))) {
+        await storage.enrollStudent(user.id, course.id);
+        await recordAuditEvent({
+          actorId: user.id,
+          courseId: course.id,
+          action: "enrollment.create",
+          targetType: "user",
+          targetId: user.id
+        });
+      }
+  }
+
+  return course;
+}
+
+/**
+ * Check the ID token an LMS posts to the launch URL, and sign the user into
+ * the linked course. Each launch state can be used once, and only by the
+ * browser that started the login, so a launch can't be forwarded to someone
+ * else to sign them in as the sender.
+ */
+export async function completeLaunch(req: Request, res: ExpressResponse): Promise<{ user: User; course: Course }> {
+  const body: Record<string, unknown> = req.body;
+  const error = param(body, "error");
+  if (error) {
+    throw new LtiError(`Your LMS didn't launch ClassParticipate: ${param(body, "error_description") ?? error}`);
+  }
+
+  const state = param(body, "state");
+  const idToken = param(body, "id_token");
+  const launchState = state ? await storage.claimLtiLaunchState(state) : undefined;
+  if (!launchState || !idToken) {
+    throw new LtiError("This launch has expired. Open ClassParticipate from your LMS again.");
+  }
+  if (!claimLaunchStateCookie(req, res, launchState.state)) {
+    throw new LtiError("This launch was started in a different browser, or your browser blocked its cookie. Open ClassParticipate from your LMS again, in a new window if it keeps happening.");
+  }
+
+  const platform: LtiPlatform | undefined = await storage.getLtiPlatform(launchState.platformId);
+  if (!platform) {
+    throw new LtiError("This LMS isn't registered with ClassParticipate anymore.");
+  }
+
+  let claims: Record<string, any> & { sub: string };
+  try {
+    claims = await verifyIdToken(idToken, {
+      jwksUri: platform.jwksUrl,
+      issuer: platform.issuer,
+      clientId: platform.clientId,
+      nonce: launchState.nonce,
+    });
+  } catch (error) {
+    console.error(`Rejected LTI launch from ${platform.issuer}:`, error);
+    throw new LtiError("The launch couldn't be verified. Open ClassParticipate from your LMS again.");
+  }
+
+  if (claims[`${LTI_CLAIM}version`] !== "1.3.0" || claims[`${LTI_CLAIM}message_type`] !== "LtiResourceLinkRequest") {
+    throw new LtiError("ClassParticipate only supports LTI 1.3 resource link launches.");
+  }
+  const deploymentId = claims[`${LTI_CLAIM}deployment_id`];
+  if (typeof deploymentId !== "string" || !(await storage.hasLtiDeployment(platform.id, deploymentId))) {
+    throw new LtiError("This deployment of ClassParticipate isn't registered. Ask an administrator to add it.");
+  }
+  const context = claims[`${LTI_CLAIM}context`];
+  if (!context || typeof context.id !== "string") {
+    throw new LtiError("ClassParticipate can only be launched from inside an LMS course.");
+  }
+
+  const lmsRole = mapLtiRoles(claims[`${LTI_CLAIM}roles`]);
+  // Checked before any account is created for the user, as well as when joining
+  if (lmsRole !== "admin" && !(await storage.getLtiContext(platform.id, context.id))) {
+    throw new LtiError("Your instructor hasn't opened ClassParticipate from this course yet.");
+  }
+  const name = typeof claims.name === "string" && claims.name
+    ? claims.name
+    : [claims.given_name, claims.family_name].filter(part => typeof part === "string" && part).join(" ") || undefined;
+
+  const account: ExternalAccount = {
+    issuer: ltiIdentityIssuer(platform),
+    subject: claims.sub,
+    email: typeof claims.email === "string" && claims.email ? claims.email : undefined,
+    // Emails come from the institution's LMS, which is trusted to have checked them
+    emailVerified: true,
+    name,
+    username: typeof claims.preferred_username === "string" ? claims.preferred_username : undefined,
+    role: lmsRole,
+    // The LMS role only holds in one LMS course, so it can't vouch for an account with more access
+    linkableRoles: lmsRole ? USER_ROLES.slice(USER_ROLES.indexOf(lmsRole)) : [],
+  };
+  let match: ExternalUserMatch;
+  try {
+    match = await resolveExternalUser(account);
+  } catch (error) {
+    // Left for the route, which remembers the link for the password login that confirms it
+    if (error instanceof ExternalLinkRequiredError) throw error;
+    if (error instanceof ExternalLoginError) throw new LtiError(error.message);
+    throw error;
+  }
+  const { user } = match;
+
+  const course = await joinLaunchContext(
+    platform,
+    { id: context.id, title: typeof context.title === "string" && context.title ? context.title : context.label ?? null },
+    user,
+    lmsRole
+  );
+  // Linked only once the launch has let the user in, so a refused launch leaves no link behind
+  if (!match.linked) {
+    await linkExternalUser(user, account);
+  }
+
+  // Grade services can change between launches, e.g. once the LMS admin allows them
+  const ags = claims[AGS_ENDPOINT_CLAIM];
+  if (ags && typeof ags.lineitems === "string") {
+    const linked: LtiContext | undefined = await storage.getLtiContext(platform.id, context.id);
+    if (linked) {
+      await storage.updateLtiContext(linked.id, {
+        title: typeof context.title === "string" ? context.title : linked.title,
+        lineItemsUrl: ags.lineitems,
+        agsScopes: Array.isArray(ags.scope) ? ags.scope.filter((scope: unknown) => typeof scope === "string") : [],
+      });
+    }
+  }
+
+  return { user, course };
+}
+
+function canSendGrades(context: LtiContext): boolean {
+  return !!context.lineItemsUrl && context.agsScopes.includes(AGS_SCOPES.lineItem) && context.agsScopes.includes(AGS_SCOPES.score);
+}
+
+export async function getCourseLtiLink(courseId: number): Promise<CourseLtiLink> {
+  const context: LtiContext | undefined = await storage.getLtiContextByCourse(courseId);
+  if (!context) return null;
+  const platform: LtiPlatform | undefined = await storage.getLtiPlatform(context.platformId);
+  if (!platform) return null;
+  return { platformName: platform.name, contextTitle: context.title, canSendGrades: canSendGrades(context) };
+}
+
+async function fetchOk(url: string, init: RequestInit): Promise<Response> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    throw new Error(`${init.method ?? "GET"} ${url} failed with ${res.status}: ${await res.text()}`);
+  }
+  return res;
+}
+
+// An access token for the grade services, from the client credentials grant with a signed assertion
+async function getAccessToken(platform: LtiPlatform, scopes: string[]): Promise<string> {
+  const { privateKey, kid } = getToolKey();
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = signJwt({
+    iss: platform.clientId,
+    sub: platform.clientId,
+    aud: platform.authTokenUrl,
+    iat: now,
+    exp: now + CLIENT_ASSERTION_LIFETIME_SECONDS,
+  }, privateKey, kid);
+
+  const res = await fetchOk(platform.authTokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "client_credentials",
+      client_assertion_type: "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      client_assertion: assertion,
+      scope: scopes.join(" "),
+    }),
+  });
+  const { access_token } = (await res.json()) as { access_token?: string };
+  if (!access_token) throw new Error(`${platform.authTokenUrl} returned no access token`);
+  return access_token;
+}
+
+// Our gradebook column in the LMS course, found by its resource id or created the first time
+async function ensureLineItem(context: LtiContext, accessToken: string): Promise<string> {
+  if (context.lineItemUrl) return context.lineItemUrl;
+
+  const listUrl = new URL(context.lineItemsUrl!);
+  listUrl.searchParams.set("resource_id", LINE_ITEM_RESOURCE_ID);
+  const listed = await fetchOk(listUrl.toString(), {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/vnd.ims.lis.v2.lineitemcontainer+json" },
+  });
+  const existing = ((await listed.json()) as { id: string; resourceId?: string }[])
+    .find(lineItem => lineItem.resourceId === LINE_ITEM_RESOURCE_ID);
+
+  let lineItemUrl = existing?.id;
+  if (!lineItemUrl) {
+    const created = await fetchOk(context.lineItemsUrl!, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/vnd.ims.lis.v2.lineitem+json",
+        Accept: "application/vnd.ims.lis.v2.lineitem+json",
+      },
+      body: JSON.stringify({ label: "Participation", scoreMaximum: 100, resourceId: LINE_ITEM_RESOURCE_ID }),
+    });
+    lineItemUrl = ((await created.json()) as { id: string }).id;
+  }
+
+  await storage.updateLtiContext(context.id, { lineItemUrl });
+  return lineItemUrl;
+}
+
+// Scores are posted to the line item's URL with /scores added to the path
+function getScoresUrl(lineItemUrl: string): string {
+  const url = new URL(lineItemUrl);
+  url.pathname = `${url.pathname.replace(/\/+$/, "")}/scores`;
+  return url.toString();
+}
+
+/**
+ * Send every student's current participation grade, as a percentage, to the
+ * linked LMS course. Students who never launched from the LMS are skipped,
+ * since the LMS only knows them by the id it sent with a launch.
+ */
+export async function sendGradesToLms(course: Course): Promise<LtiGradeSyncResult> {
+  const context: LtiContext | undefined = await storage.getLtiContextByCourse(course.id);
+  if (!context) {
+    throw new LtiError("This course isn't linked to an LMS course.");
+  }
+  if (!canSendGrades(context)) {
+    throw new LtiError("The LMS doesn't let ClassParticipate add grades to this course. Ask your LMS administrator to allow grade services.");
+  }
+  const platform: LtiPlatform | undefined = await storage.getLtiPlatform(context.platformId);
+  if (!platform) {
+    throw new LtiError("The LMS this course is linked to isn't registered anymore.");
+  }
+
+  const accessToken = await getAccessToken(platform, [AGS_SCOPES.lineItem, AGS_SCOPES.score]);
+  const scoresUrl = getScoresUrl(await ensureLineItem(context, accessToken));
+  const { grades } = await getCourseGrades(course);
+  const result: LtiGradeSyncResult = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const grade of grades) {
+    const identity: ExternalIdentity | undefined = await storage.getUserExternalIdentity(grade.student.id, ltiIdentityIssuer(platform));
+    if (!identity) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      await fetchOk(scoresUrl, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/vnd.ims.lis.v1.score+json" },
+        body: JSON.stringify({
+          userId: identity.subject,
+          scoreGiven: grade.percent,
+          scoreMaximum: 100,
+          comment: `Participation grade ${grade.letter}`,
+          activityProgress: "Completed",
+          gradingProgress: "FullyGraded",
+          timestamp: new Date().toISOString(),
+        }),
+      });
+      result.sent++;
+    } catch (error) {
+      console.error(`Error sending the grade of student ${grade.student.id} to ${platform.issuer}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
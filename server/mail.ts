@@ -0,0 +1,64 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+/**
+ * How outgoing email leaves the server.
+ *
+ * Deployments plug in a transport for their mail provider with
+ * setMailTransport. Without one, MAIL_TRANSPORT picks a development transport:
+ * "console" (the default) logs each message, "file" writes it to MAIL_DIR as
+ * an .eml file that any mail client can open.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "ClassParticipate <no-reply@classparticipate.local>";
+
+function formatMessage(message: MailMessage): string {
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+  ].join("\r\n");
+}
+
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`[Mail] To ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const recipient = message.to.replace(/[^A-Za-z0-9@._-]+/g, "_");
+      const file = path.join(directory, `${Date.now()}-${recipient}.eml`);
+      await writeFile(file, formatMessage(message));
+      console.log(`[Mail] To ${message.to}: ${message.subject} (saved to ${file})`);
+    },
+  };
+}
+
+let transport: MailTransport = process.env.MAIL_TRANSPORT === "file"
+  ? fileTransport(process.env.MAIL_DIR || "mail")
+  : consoleTransport;
+
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
@@ -24,6 +24,14 @@ async function runMigration() {
         name TEXT NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS terms (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        holidays JSONB NOT NULL DEFAULT '[]'
+      );
+
       CREATE TABLE IF NOT EXISTS courses (
         id SERIAL PRIMARY KEY,
         name TEXT NOT NULL,
@@ -37,6 +45,15 @@ async function runMigration() {
         course_id INTEGER NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS class_sessions (
+        id SERIAL PRIMARY KEY,
+        course_id INTEGER NOT NULL,
+        topic TEXT,
+        status TEXT NOT NULL DEFAULT 'open',
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        ended_at TIMESTAMP
+      );
+
       CREATE TABLE IF NOT EXISTS participation_requests (
         id SERIAL PRIMARY KEY,
         student_id INTEGER NOT NULL,
@@ -57,6 +74,33 @@ async function runMigration() {
         hidden BOOLEAN NOT NULL DEFAULT FALSE
       );
       
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id SERIAL PRIMARY KEY,
+        actor_id INTEGER,
+        course_id INTEGER,
+        action TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target_id INTEGER,
+        before JSONB,
+        after JSONB,
+        timestamp TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS audit_events_course_idx
+        ON audit_events (course_id, timestamp DESC);
+
+      -- The audit trail is append-only: reject any UPDATE or DELETE
+      CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+      CREATE TRIGGER audit_events_append_only
+        BEFORE UPDATE OR DELETE ON audit_events
+        FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
+
       CREATE TABLE IF NOT EXISTS session (
         sid varchar NOT NULL COLLATE "default",
         sess json NOT NULL,
@@ -74,7 +118,357 @@ async function runMigration() {
           ALTER TABLE participation_records ADD COLUMN hidden BOOLEAN NOT NULL DEFAULT FALSE;
         END IF;
       END $$;
+
+      -- Participation data recorded before multi-course support was written with
+      -- course_id = 1, so give it a real course owned by the first admin
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM courses)
+          AND EXISTS (SELECT 1 FROM users WHERE role = 'admin') THEN
+          INSERT INTO courses (id, name, description, admin_id)
+          SELECT 1,
+            'ENT615: Strategy and Leadership for Entrepreneurs',
+            'This course explores the strategic frameworks and leadership principles essential for entrepreneurial success.',
+            (SELECT id FROM users WHERE role = 'admin' ORDER BY id LIMIT 1);
+          PERFORM setval(pg_get_serial_sequence('courses', 'id'), 1);
+        END IF;
+      END $$;
+
+      -- Add join_code column to courses if it doesn't exist
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'courses' AND column_name = 'join_code'
+        ) THEN
+          ALTER TABLE courses ADD COLUMN join_code TEXT UNIQUE;
+          UPDATE courses SET join_code = UPPER(SUBSTRING(MD5(RANDOM()::text || id::text) FROM 1 FOR 8));
+          ALTER TABLE courses ALTER COLUMN join_code SET NOT NULL;
+        END IF;
+      END $$;
+
+      -- Link participation requests and records to the class session they happened in
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'participation_requests' AND column_name = 'session_id'
+        ) THEN
+          ALTER TABLE participation_requests ADD COLUMN session_id INTEGER;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'participation_records' AND column_name = 'session_id'
+        ) THEN
+          ALTER TABLE participation_records ADD COLUMN session_id INTEGER;
+        END IF;
+      END $$;
+
+      -- Rubric categories; courses that predate rubrics get the default one, once, when the table is created
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.tables
+          WHERE table_name = 'rubric_categories'
+        ) THEN
+          CREATE TABLE rubric_categories (
+            id SERIAL PRIMARY KEY,
+            course_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            points INTEGER NOT NULL,
+            max_per_session INTEGER
+          );
+
+          INSERT INTO rubric_categories (course_id, name, points)
+          SELECT id, 'Participation', 1 FROM courses
+          UNION ALL
+          SELECT id, 'Insightful answer', 2 FROM courses;
+        END IF;
+      END $$;
+
+      CREATE INDEX IF NOT EXISTS rubric_categories_course_idx ON rubric_categories (course_id);
+
+      -- Records remember the rubric category they were awarded for
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'participation_records' AND column_name = 'category_id'
+        ) THEN
+          ALTER TABLE participation_records ADD COLUMN category_id INTEGER;
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS grading_policies (
+        course_id INTEGER PRIMARY KEY,
+        target_points INTEGER NOT NULL,
+        session_cap INTEGER,
+        drop_lowest_sessions INTEGER NOT NULL DEFAULT 0,
+        scaling TEXT NOT NULL DEFAULT 'linear',
+        curve_exponent REAL NOT NULL DEFAULT 0.5,
+        letter_cutoffs JSONB NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS invitations (
+        id SERIAL PRIMARY KEY,
+        token_hash TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        course_id INTEGER,
+        email TEXT,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        used_by INTEGER,
+        revoked_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP
+      );
+
+      -- Personal REST API tokens, stored as SHA-256 hashes
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        scopes TEXT[] NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL,
+        last_used_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id SERIAL PRIMARY KEY,
+        course_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT[] NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        next_attempt_at TIMESTAMP,
+        replay_of INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        last_attempt_at TIMESTAMP
+      );
+
+      -- Single sign-on accounts linked to users
+      CREATE TABLE IF NOT EXISTS external_identities (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        issuer TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (issuer, subject)
+      );
+
+      -- LMSs registered for LTI 1.3 launches, their deployments and the LMS courses linked to courses
+      CREATE TABLE IF NOT EXISTS lti_platforms (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        issuer TEXT NOT NULL,
+        client_id TEXT NOT NULL,
+        auth_login_url TEXT NOT NULL,
+        auth_token_url TEXT NOT NULL,
+        jwks_url TEXT NOT NULL,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (issuer, client_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS lti_deployments (
+        id SERIAL PRIMARY KEY,
+        platform_id INTEGER NOT NULL,
+        deployment_id TEXT NOT NULL,
+        UNIQUE (platform_id, deployment_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS lti_contexts (
+        id SERIAL PRIMARY KEY,
+        platform_id INTEGER NOT NULL,
+        context_id TEXT NOT NULL,
+        course_id INTEGER NOT NULL,
+        title TEXT,
+        line_items_url TEXT,
+        line_item_url TEXT,
+        ags_scopes TEXT[] NOT NULL DEFAULT '{}',
+        UNIQUE (platform_id, context_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS lti_launch_states (
+        state TEXT PRIMARY KEY,
+        nonce TEXT NOT NULL,
+        platform_id INTEGER NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+
+      -- Failed logins per account and per IP address
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL,
+        last_failure_at TIMESTAMP NOT NULL
+      );
+
+      -- TAs assigned to a course
+      CREATE TABLE IF NOT EXISTS course_staff (
+        id SERIAL PRIMARY KEY,
+        course_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        UNIQUE (course_id, user_id)
+      );
+
+      -- Courses belong to an academic term
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'courses' AND column_name = 'term_id'
+        ) THEN
+          ALTER TABLE courses ADD COLUMN term_id INTEGER;
+        END IF;
+      END $$;
+
+      -- Each course buckets records into days in its own time zone
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'courses' AND column_name = 'time_zone'
+        ) THEN
+          ALTER TABLE courses ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC';
+        END IF;
+      END $$;
+
+      -- TAs can only award points up to a per-course limit
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'courses' AND column_name = 'ta_award_limit'
+        ) THEN
+          ALTER TABLE courses ADD COLUMN ta_award_limit INTEGER NOT NULL DEFAULT 2;
+        END IF;
+      END $$;
+
+      -- Track when and in which delete call a record was hidden, so it can be restored
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'participation_records' AND column_name = 'deleted_at'
+        ) THEN
+          ALTER TABLE participation_records ADD COLUMN deleted_at TIMESTAMP;
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns 
+          WHERE table_name = 'participation_records' AND column_name = 'delete_batch_id'
+        ) THEN
+          ALTER TABLE participation_records ADD COLUMN delete_batch_id TEXT;
+        END IF;
+      END $$;
+
+      -- At most one open session per course
+      CREATE UNIQUE INDEX IF NOT EXISTS class_sessions_open_course_idx
+        ON class_sessions (course_id) WHERE status = 'open';
+
+      -- Keyset pagination of a course's records by (timestamp, id)
+      CREATE INDEX IF NOT EXISTS participation_records_course_timestamp_idx
+        ON participation_records (course_id, timestamp DESC, id DESC);
+
+      CREATE UNIQUE INDEX IF NOT EXISTS student_courses_student_course_idx
+        ON student_courses (student_id, course_id);
+
+      -- The delivery log of a webhook, and the retry queue
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_idx
+        ON webhook_deliveries (webhook_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+        ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+
+      -- Site admins run the installation; on upgrade the first admin becomes one
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'site_admin'
+        ) THEN
+          ALTER TABLE users ADD COLUMN site_admin BOOLEAN NOT NULL DEFAULT FALSE;
+          UPDATE users SET site_admin = TRUE
+          WHERE id = (SELECT id FROM users WHERE role = 'admin' ORDER BY id LIMIT 1);
+        END IF;
+      END $$;
+
+      -- Whether a user proved their email is theirs; nobody has yet on upgrade
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'email_verified'
+        ) THEN
+          ALTER TABLE users ADD COLUMN email_verified BOOLEAN NOT NULL DEFAULT FALSE;
+        END IF;
+      END $$;
+
+      -- External identities are namespaced by who vouches for them: "oidc:<issuer>"
+      -- for SSO and "lti:<platform id>" for an LMS, which used to share the bare issuer
+      UPDATE external_identities ei SET issuer = 'lti:' || (
+        SELECT MIN(p.id) FROM lti_platforms p WHERE p.issuer = ei.issuer
+      )
+      WHERE ei.issuer NOT LIKE 'oidc:%' AND ei.issuer NOT LIKE 'lti:%'
+        AND EXISTS (SELECT 1 FROM lti_platforms p WHERE p.issuer = ei.issuer);
+      UPDATE external_identities SET issuer = 'oidc:' || issuer
+      WHERE issuer NOT LIKE 'oidc:%' AND issuer NOT LIKE 'lti:%';
+
+      -- Students who took part before enrollments existed are enrolled in those courses
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM student_courses) THEN
+          INSERT INTO student_courses (student_id, course_id)
+          SELECT student_id, course_id FROM participation_requests
+          UNION
+          SELECT student_id, course_id FROM participation_records;
+        END IF;
+      END $$;
+    `);
+
+    // An email belongs to one account, compared without case. Accounts from before this rule may
+    // share one; the index waits until an admin has changed all but one of them
+    const duplicateEmails = await pool.query(`
+      SELECT lower(email) AS email, array_agg(id ORDER BY id) AS user_ids
+      FROM users
+      GROUP BY lower(email)
+      HAVING COUNT(*) > 1
     `);
+    if (duplicateEmails.rows.length === 0) {
+      await pool.query('CREATE UNIQUE INDEX IF NOT EXISTS users_email_idx ON users (lower(email))');
+    } else {
+      console.warn('These emails are used by more than one account, so emails aren\'t unique yet:');
+      for (const { email, user_ids } of duplicateEmails.rows) {
+        console.warn(`  ${email}: users ${user_ids.join(', ')}`);
+      }
+    }
 
     // Close the pool
     await pool.end();
@@ -0,0 +1,259 @@
+import express, { type Express } from "express";
+import { generateKeyPairSync, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { signJwt, verifyJwt } from "./jwt";
+import { AGS_SCOPES } from "./lti";
+import type { LtiPlatform } from "@shared/schema";
+
+/**
+ * A stand-in LMS for trying LTI launches and grade passback locally, mounted
+ * at /mock-lti when LTI_MOCK_PLATFORM=true outside of production. Its launch
+ * page launches as whoever you type in, so it must never run anywhere real.
+ *
+ * It registers itself as a platform with one deployment on startup, using
+ * APP_URL or http://localhost:<PORT> as the address both it and the app are
+ * reached at. Grades sent to it show up at /mock-lti/gradebook.
+ */
+
+const MOUNT_PATH = "/mock-lti";
+const CLIENT_ID = "classparticipate";
+const DEPLOYMENT_ID = "mock-deployment";
+const TOKEN_LIFETIME_SECONDS = 5 * 60;
+const LTI_CLAIM = "https://purl.imsglobal.org/spec/lti/claim/";
+
+const ROLE_CLAIMS: Record<string, string[]> = {
+  Instructor: ["http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor"],
+  TeachingAssistant: [
+    "http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor",
+    "http://purl.imsglobal.org/vocab/lis/v2/membership/Instructor#TeachingAssistant",
+  ],
+  Learner: ["http://purl.imsglobal.org/vocab/lis/v2/membership#Learner"],
+};
+
+type LaunchUser = { sub: string; name: string; email: string; role: string; contextId: string; contextTitle: string };
+type LineItem = { id: string; label: string; scoreMaximum: number; resourceId?: string; contextId: string };
+type Score = { userId: string; scoreGiven: number; scoreMaximum: number; comment?: string; timestamp: string };
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function param(source: Record<string, unknown>, name: string): string | undefined {
+  const value = source[name];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export async function setupMockLtiPlatform(app: Express) {
+  const baseUrl = (process.env.APP_URL || `http://localhost:${process.env.PORT || "3000"}`).replace(/\/+$/, "");
+  const issuer = `${baseUrl}${MOUNT_PATH}`;
+  const tool = { loginUrl: `${baseUrl}/api/lti/login`, launchUrl: `${baseUrl}/api/lti/launch`, jwksUrl: `${baseUrl}/api/lti/jwks` };
+
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = randomBytes(8).toString("hex");
+  const launches = new Map<string, LaunchUser>(); // by lti_message_hint
+  const accessTokens = new Set<string>();
+  const lineItems = new Map<string, LineItem>(); // by URL
+  const scores = new Map<string, Map<string, Score>>(); // line item URL -> user -> latest score
+
+  // Grade service requests use the AGS media types, which the app-wide JSON parser skips
+  const parseAgsJson = express.json({ type: ["application/json", "application/*+json"] });
+  const requireAccessToken: express.RequestHandler = (req, res, next) => {
+    const token = req.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+    if (!token || !accessTokens.has(token)) return res.status(401).json({ error: "invalid_token" });
+    next();
+  };
+
+  app.get(`${MOUNT_PATH}/jwks`, (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+  });
+
+  // The page an LMS course would show a link to ClassParticipate on
+  app.get(MOUNT_PATH, (_req, res) => {
+    const roles = Object.keys(ROLE_CLAIMS).map(role => `<option>${role}</option>`).join("");
+    res.type("html").send(`<!doctype html>
+<title>Mock LMS</title>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 3rem auto">
+  <h1>Mock LMS</h1>
+  <p>Development only: launch ClassParticipate as anybody. <a href="${MOUNT_PATH}/gradebook">Gradebook</a></p>
+  <form method="post" action="${MOUNT_PATH}/launch">
+    <p><label>User ID<br><input name="sub" value="lms-user-1" required></label></p>
+    <p><label>Name<br><input name="name" value="Jane Doe" required></label></p>
+    <p><label>Email<br><input name="email" type="email" value="jdoe@example.edu" required></label></p>
+    <p><label>Role<br><select name="role">${roles}</select></label></p>
+    <p><label>Course ID<br><input name="contextId" value="lms-course-1" required></label></p>
+    <p><label>Course title<br><input name="contextTitle" value="Intro to LTI" required></label></p>
+    <p><button type="submit">Launch ClassParticipate</button></p>
+  </form>
+</body>`);
+  });
+
+  // Third-party login initiation, as the LMS does when a tool link is clicked
+  app.post(`${MOUNT_PATH}/launch`, (req, res) => {
+    const launch: LaunchUser = {
+      sub: param(req.body, "sub") ?? "lms-user-1",
+      name: param(req.body, "name") ?? "Jane Doe",
+      email: param(req.body, "email") ?? "jdoe@example.edu",
+      role: ROLE_CLAIMS[param(req.body, "role") ?? ""] ? req.body.role : "Learner",
+      contextId: param(req.body, "contextId") ?? "lms-course-1",
+      contextTitle: param(req.body, "contextTitle") ?? "Intro to LTI",
+    };
+    const messageHint = randomBytes(16).toString("base64url");
+    launches.set(messageHint, launch);
+
+    const url = new URL(tool.loginUrl);
+    url.search = new URLSearchParams({
+      iss: issuer,
+      login_hint: launch.sub,
+      lti_message_hint: messageHint,
+      target_link_uri: tool.launchUrl,
+      client_id: CLIENT_ID,
+      lti_deployment_id: DEPLOYMENT_ID,
+    }).toString();
+    res.redirect(url.toString());
+  });
+
+  // The authentication response: a signed ID token, posted to the tool by the browser
+  app.get(`${MOUNT_PATH}/auth`, (req, res) => {
+    const messageHint = param(req.query, "lti_message_hint");
+    const launch = messageHint ? launches.get(messageHint) : undefined;
+    if (messageHint) launches.delete(messageHint);
+
+    if (
+      !launch ||
+      param(req.query, "client_id") !== CLIENT_ID ||
+      param(req.query, "redirect_uri") !== tool.launchUrl ||
+      param(req.query, "response_mode") !== "form_post" ||
+      param(req.query, "login_hint") !== launch.sub
+    ) {
+      return res.status(400).send("Invalid authentication request");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = signJwt({
+      iss: issuer,
+      aud: CLIENT_ID,
+      sub: launch.sub,
+      iat: now,
+      exp: now + TOKEN_LIFETIME_SECONDS,
+      nonce: param(req.query, "nonce"),
+      name: launch.name,
+      email: launch.email,
+      [`${LTI_CLAIM}message_type`]: "LtiResourceLinkRequest",
+      [`${LTI_CLAIM}version`]: "1.3.0",
+      [`${LTI_CLAIM}deployment_id`]: DEPLOYMENT_ID,
+      [`${LTI_CLAIM}target_link_uri`]: tool.launchUrl,
+      [`${LTI_CLAIM}resource_link`]: { id: `${launch.contextId}-classparticipate` },
+      [`${LTI_CLAIM}roles`]: ROLE_CLAIMS[launch.role],
+      [`${LTI_CLAIM}context`]: { id: launch.contextId, title: launch.contextTitle, type: ["http://purl.imsglobal.org/vocab/lis/v2/course#CourseOffering"] },
+      "https://purl.imsglobal.org/spec/lti-ags/claim/endpoint": {
+        scope: [AGS_SCOPES.lineItem, AGS_SCOPES.score],
+        lineitems: `${issuer}/contexts/${encodeURIComponent(launch.contextId)}/lineitems`,
+      },
+    }, privateKey, kid);
+
+    const fields = { id_token: idToken, state: param(req.query, "state") ?? "" };
+    const hidden = Object.entries(fields)
+      .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+      .join("");
+    res.type("html").send(`<!doctype html>
+<title>Launching…</title>
+<body onload="document.forms[0].submit()">
+  <form method="post" action="${escapeHtml(tool.launchUrl)}">${hidden}<noscript><button type="submit">Continue</button></noscript></form>
+</body>`);
+  });
+
+  // Client credentials, authenticated with an assertion signed by the tool's key
+  app.post(`${MOUNT_PATH}/token`, async (req, res) => {
+    const assertion = param(req.body, "client_assertion");
+    try {
+      if (req.body.grant_type !== "client_credentials" || !assertion) throw new Error("Missing client assertion");
+      const claims = await verifyJwt(assertion, tool.jwksUrl);
+      if (claims.iss !== CLIENT_ID || claims.sub !== CLIENT_ID) throw new Error("The assertion is for another client");
+      if (claims.aud !== `${issuer}/token`) throw new Error("The assertion is for another token endpoint");
+      if (typeof claims.exp !== "number" || claims.exp < Date.now() / 1000) throw new Error("The assertion has expired");
+    } catch (error) {
+      console.warn("Mock LMS rejected a token request:", error);
+      return res.status(400).json({ error: "invalid_client" });
+    }
+
+    const accessToken = randomBytes(16).toString("base64url");
+    accessTokens.add(accessToken);
+    return res.json({ access_token: accessToken, token_type: "Bearer", expires_in: 3600, scope: req.body.scope });
+  });
+
+  app.get(`${MOUNT_PATH}/contexts/:contextId/lineitems`, requireAccessToken, (req, res) => {
+    const resourceId = param(req.query, "resource_id");
+    const items = Array.from(lineItems.values())
+      .filter(item => item.contextId === req.params.contextId && (!resourceId || item.resourceId === resourceId));
+    res.type("application/vnd.ims.lis.v2.lineitemcontainer+json").send(JSON.stringify(items));
+  });
+
+  app.post(`${MOUNT_PATH}/contexts/:contextId/lineitems`, requireAccessToken, parseAgsJson, (req, res) => {
+    if (typeof req.body.label !== "string" || typeof req.body.scoreMaximum !== "number") {
+      return res.status(400).json({ error: "label and scoreMaximum are required" });
+    }
+    const id = `${issuer}/contexts/${encodeURIComponent(req.params.contextId)}/lineitems/${lineItems.size + 1}`;
+    const item: LineItem = {
+      id,
+      label: req.body.label,
+      scoreMaximum: req.body.scoreMaximum,
+      resourceId: req.body.resourceId,
+      contextId: req.params.contextId,
+    };
+    lineItems.set(id, item);
+    res.status(201).type("application/vnd.ims.lis.v2.lineitem+json").send(JSON.stringify(item));
+  });
+
+  app.post(`${MOUNT_PATH}/contexts/:contextId/lineitems/:lineItemId/scores`, requireAccessToken, parseAgsJson, (req, res) => {
+    const id = `${issuer}/contexts/${encodeURIComponent(req.params.contextId)}/lineitems/${req.params.lineItemId}`;
+    if (!lineItems.has(id)) return res.status(404).json({ error: "Line item not found" });
+    if (typeof req.body.userId !== "string" || typeof req.body.scoreGiven !== "number") {
+      return res.status(400).json({ error: "userId and scoreGiven are required" });
+    }
+
+    const itemScores = scores.get(id) ?? new Map<string, Score>();
+    itemScores.set(req.body.userId, {
+      userId: req.body.userId,
+      scoreGiven: req.body.scoreGiven,
+      scoreMaximum: req.body.scoreMaximum,
+      comment: req.body.comment,
+      timestamp: req.body.timestamp,
+    });
+    scores.set(id, itemScores);
+    res.status(204).send();
+  });
+
+  app.get(`${MOUNT_PATH}/gradebook`, (_req, res) => {
+    const sections = Array.from(lineItems.values()).map(item => {
+      const rows = Array.from(scores.get(item.id)?.values() ?? [])
+        .map(score => `<tr><td>${escapeHtml(score.userId)}</td><td>${score.scoreGiven} / ${score.scoreMaximum}</td><td>${escapeHtml(score.comment ?? "")}</td><td>${escapeHtml(score.timestamp ?? "")}</td></tr>`)
+        .join("");
+      return `<h2>${escapeHtml(item.label)} <small>(${escapeHtml(item.contextId)})</small></h2>
+  <table border="1" cellpadding="4"><tr><th>User ID</th><th>Score</th><th>Comment</th><th>Sent</th></tr>${rows}</table>`;
+    });
+    res.type("html").send(`<!doctype html>
+<title>Mock LMS gradebook</title>
+<body style="font-family: sans-serif; max-width: 48rem; margin: 3rem auto">
+  <h1>Mock LMS gradebook</h1>
+  <p><a href="${MOUNT_PATH}">Launch page</a></p>
+  ${sections.join("\n  ") || "<p>No grades have been sent yet.</p>"}
+</body>`);
+  });
+
+  // Register this LMS with the app, as an administrator would
+  let platform: LtiPlatform | undefined = await storage.findLtiPlatform(issuer, CLIENT_ID);
+  if (!platform) {
+    platform = await storage.createLtiPlatform({
+      name: "Mock LMS",
+      issuer,
+      clientId: CLIENT_ID,
+      authLoginUrl: `${issuer}/auth`,
+      authTokenUrl: `${issuer}/token`,
+      jwksUrl: `${issuer}/jwks`,
+      createdBy: null,
+    });
+  }
+  await storage.addLtiDeployment(platform!.id, DEPLOYMENT_ID);
+
+  console.warn(`Mock LTI platform enabled at ${MOUNT_PATH}; never enable LTI_MOCK_PLATFORM in production`);
+}
@@ -0,0 +1,168 @@
+import type { Express, Request } from "express";
+import { createHash, generateKeyPairSync, randomBytes } from "crypto";
+import { signJwt } from "./jwt";
+import { USER_ROLES } from "@shared/permissions";
+
+/**
+ * A stand-in OpenID Connect provider for trying SSO locally, mounted at
+ * /mock-oidc when OIDC_MOCK=true outside of production. Its login page signs
+ * in as whoever you type in, so it must never run anywhere real.
+ *
+ * Point the app at it with OIDC_ISSUER=http://localhost:<port>/mock-oidc and
+ * any OIDC_CLIENT_ID; ID tokens carry the chosen role in a "roles" claim.
+ */
+
+const MOUNT_PATH = "/mock-oidc";
+const CODE_LIFETIME_MS = 60 * 1000;
+const TOKEN_LIFETIME_SECONDS = 5 * 60;
+
+type PendingCode = {
+  clientId: string;
+  redirectUri: string;
+  nonce: string | undefined;
+  codeChallenge: string | undefined;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function getIssuer(req: Request): string {
+  return `${req.protocol}://${req.get("host")}${MOUNT_PATH}`;
+}
+
+function param(source: Record<string, unknown>, name: string): string | undefined {
+  const value = source[name];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function setupMockOidcProvider(app: Express) {
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = randomBytes(8).toString("hex");
+  const codes = new Map<string, PendingCode>();
+
+  app.get(`${MOUNT_PATH}/.well-known/openid-configuration`, (req, res) => {
+    const issuer = getIssuer(req);
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  });
+
+  app.get(`${MOUNT_PATH}/jwks`, (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+  });
+
+  // A form for the account to sign in as; the provider's parameters ride along as hidden fields
+  app.get(`${MOUNT_PATH}/authorize`, (req, res) => {
+    const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+      .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(param(req.query, name) ?? "")}">`)
+      .join("");
+    const roles = USER_ROLES.map(role => `<option value="${role}"${role === "student" ? " selected" : ""}>${role}</option>`).join("");
+
+    res.type("html").send(`<!doctype html>
+<title>Mock SSO</title>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 3rem auto">
+  <h1>Mock SSO</h1>
+  <p>Development only: sign in as any account.</p>
+  <form method="post">
+    ${hidden}
+    <p><label>Username<br><input name="username" value="jdoe" required></label></p>
+    <p><label>Name<br><input name="name" value="Jane Doe" required></label></p>
+    <p><label>Email<br><input name="email" type="email" value="jdoe@example.edu" required></label></p>
+    <p><label>Role<br><select name="role">${roles}</select></label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+  </form>
+</body>`);
+  });
+
+  app.post(`${MOUNT_PATH}/authorize`, (req, res) => {
+    const redirectUri = param(req.body, "redirect_uri");
+    const clientId = param(req.body, "client_id");
+    if (!redirectUri || !clientId) {
+      return res.status(400).send("client_id and redirect_uri are required");
+    }
+
+    const redirect = new URL(redirectUri);
+    const state = param(req.body, "state");
+    if (state) redirect.searchParams.set("state", state);
+
+    if (req.body.deny) {
+      redirect.searchParams.set("error", "access_denied");
+      redirect.searchParams.set("error_description", "The sign-in was denied");
+      return res.redirect(redirect.toString());
+    }
+
+    const username = param(req.body, "username") ?? "jdoe";
+    const code = randomBytes(16).toString("base64url");
+    codes.set(code, {
+      clientId,
+      redirectUri,
+      nonce: param(req.body, "nonce"),
+      codeChallenge: param(req.body, "code_challenge"),
+      claims: {
+        sub: `mock-${username}`,
+        preferred_username: username,
+        name: param(req.body, "name") ?? username,
+        email: param(req.body, "email"),
+        email_verified: true,
+        roles: [param(req.body, "role") ?? "student"],
+      },
+      expiresAt: Date.now() + CODE_LIFETIME_MS,
+    });
+
+    redirect.searchParams.set("code", code);
+    return res.redirect(redirect.toString());
+  });
+
+  app.post(`${MOUNT_PATH}/token`, (req, res) => {
+    const code = param(req.body, "code");
+    const pending = code ? codes.get(code) : undefined;
+    if (code) codes.delete(code);
+
+    // Client secrets aren't checked, only which client the code was issued to
+    const basic = req.get("authorization")?.match(/^Basic (.+)$/);
+    const clientId = basic
+      ? decodeURIComponent(Buffer.from(basic[1], "base64").toString("utf8").split(":")[0])
+      : param(req.body, "client_id");
+    const verifier = param(req.body, "code_verifier");
+
+    if (
+      req.body.grant_type !== "authorization_code" ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.clientId !== clientId ||
+      pending.redirectUri !== param(req.body, "redirect_uri") ||
+      (pending.codeChallenge && (!verifier || createHash("sha256").update(verifier).digest("base64url") !== pending.codeChallenge))
+    ) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = signJwt({
+      ...pending.claims,
+      iss: getIssuer(req),
+      aud: pending.clientId,
+      iat: now,
+      exp: now + TOKEN_LIFETIME_SECONDS,
+      nonce: pending.nonce,
+    }, privateKey, kid);
+
+    return res.json({
+      access_token: randomBytes(16).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: TOKEN_LIFETIME_SECONDS,
+      id_token: idToken,
+    });
+  });
+
+  console.warn(`Mock OIDC provider enabled at ${MOUNT_PATH}; never enable OIDC_MOCK in production`);
+}
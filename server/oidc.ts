@@ -0,0 +1,254 @@
+import passport from "passport";
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import { getAppUrl } from "./password-reset";
+import { verifyIdToken } from "./jwt";
+import { ExternalLinkRequiredError, ExternalLoginError, findOrCreateExternalUser, ssoIdentityIssuer } from "./external-accounts";
+import { USER_ROLES, type UserRole } from "@shared/permissions";
+import type { User } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // The login started with the provider, until it redirects back
+    oidc?: { state: string; nonce: string; codeVerifier: string };
+  }
+}
+
+/**
+ * Single sign-on with an OpenID Connect provider, configured from the
+ * environment. Claims are read by name, and a dotted name such as
+ * "realm_access.roles" reads a nested claim.
+ */
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null; // null for a public client, which only has PKCE
+  redirectUri: string | null; // null to use /api/auth/oidc/callback on APP_URL or the request's origin
+  scopes: string;
+  providerName: string; // shown on the login button
+  claims: { username: string; email: string; name: string; role: string | null };
+  roleMap: Record<string, UserRole>; // role claim value -> role
+  defaultRole: UserRole | null; // for users no role claim value maps; null turns them away
+  trustUnverifiedEmail: boolean; // link emails the provider doesn't say it verified, for providers without email_verified
+};
+
+export type OidcClaims = Record<string, unknown> & { sub: string };
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+};
+
+// "faculty=admin,staff=ta" -> { faculty: "admin", staff: "ta" }
+function parseRoleMap(value: string): Record<string, UserRole> {
+  const roleMap: Record<string, UserRole> = {};
+  for (const entry of value.split(",")) {
+    const [claimValue, role] = entry.split("=").map(part => part.trim());
+    if (!claimValue || !role) continue;
+    if (!USER_ROLES.includes(role as UserRole)) {
+      console.warn(`OIDC_ROLE_MAP: ignoring "${entry}", ${role} isn't a role`);
+      continue;
+    }
+    roleMap[claimValue] = role as UserRole;
+  }
+  return roleMap;
+}
+
+// null when SSO isn't set up
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE || "student";
+  return {
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI || null,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    providerName: process.env.OIDC_PROVIDER_NAME || "SSO",
+    claims: {
+      username: process.env.OIDC_USERNAME_CLAIM || "preferred_username",
+      email: process.env.OIDC_EMAIL_CLAIM || "email",
+      name: process.env.OIDC_NAME_CLAIM || "name",
+      role: process.env.OIDC_ROLE_CLAIM || null,
+    },
+    roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP || ""),
+    defaultRole: USER_ROLES.includes(defaultRole as UserRole) ? (defaultRole as UserRole) : null,
+    trustUnverifiedEmail: process.env.OIDC_TRUST_UNVERIFIED_EMAIL === "true",
+  };
+}
+
+function getClaim(claims: Record<string, unknown>, name: string): unknown {
+  return name.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    claims
+  );
+}
+
+function getStringClaim(claims: Record<string, unknown>, name: string): string | undefined {
+  const value = getClaim(claims, name);
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${url} failed with ${res.status}: ${await res.text()}`);
+  }
+  return (await res.json()) as T;
+}
+
+// Discovery documents, per issuer
+const metadataCache = new Map<string, Promise<ProviderMetadata>>();
+
+function discover(issuer: string): Promise<ProviderMetadata> {
+  let metadata = metadataCache.get(issuer);
+  if (!metadata) {
+    metadata = fetchJson<ProviderMetadata>(`${issuer}/.well-known/openid-configuration`).then(document => {
+      if (document.issuer.replace(/\/+$/, "") !== issuer) {
+        throw new Error(`OIDC discovery for ${issuer} returned issuer ${document.issuer}`);
+      }
+      return document;
+    });
+    // A failed discovery is tried again on the next login
+    metadata.catch(() => metadataCache.delete(issuer));
+    metadataCache.set(issuer, metadata);
+  }
+  return metadata;
+}
+
+/**
+ * passport strategy for the OpenID Connect authorization code flow with PKCE.
+ *
+ * The first request redirects to the provider; the provider redirects back
+ * with a code, which is exchanged for an ID token whose claims go to verify.
+ */
+export class OidcStrategy extends passport.Strategy {
+  name = "oidc";
+
+  constructor(
+    private config: OidcConfig,
+    private verifyClaims: (claims: OidcClaims) => Promise<User>
+  ) {
+    super();
+  }
+
+  authenticate(req: Request) {
+    const step = req.query.code || req.query.error ? this.handleCallback(req) : this.redirectToProvider(req);
+    step.catch((error) => {
+      if (error instanceof ExternalLinkRequiredError) req.session.pendingExternalLink = error.pendingLink();
+      if (error instanceof ExternalLoginError) return this.fail({ code: error.code });
+      console.error("OIDC login failed:", error);
+      this.fail({ code: "failed" });
+    });
+  }
+
+  private getRedirectUri(req: Request): string {
+    return this.config.redirectUri ?? `${getAppUrl(req)}/api/auth/oidc/callback`;
+  }
+
+  private async redirectToProvider(req: Request) {
+    const metadata = await discover(this.config.issuer);
+    const login = {
+      state: randomBytes(16).toString("base64url"),
+      nonce: randomBytes(16).toString("base64url"),
+      codeVerifier: randomBytes(32).toString("base64url"),
+    };
+    req.session.oidc = login;
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: this.getRedirectUri(req),
+      scope: this.config.scopes,
+      state: login.state,
+      nonce: login.nonce,
+      code_challenge: createHash("sha256").update(login.codeVerifier).digest("base64url"),
+      code_challenge_method: "S256",
+    }).toString();
+    this.redirect(url.toString());
+  }
+
+  private async handleCallback(req: Request) {
+    const login = req.session.oidc;
+    delete req.session.oidc;
+
+    if (typeof req.query.error === "string") {
+      // The provider's own wording stays in the log: it comes from the URL, which anybody can write
+      const description = typeof req.query.error_description === "string" ? req.query.error_description : req.query.error;
+      console.warn("SSO provider refused the login:", description);
+      throw new ExternalLoginError("denied", "Your SSO provider didn't sign you in.");
+    }
+    if (!login || req.query.state !== login.state) {
+      throw new ExternalLoginError("expired", "This SSO login has expired. Please try again.");
+    }
+
+    const metadata = await discover(this.config.issuer);
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+    const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(metadata.token_endpoint, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: String(req.query.code),
+        redirect_uri: this.getRedirectUri(req),
+        client_id: this.config.clientId,
+        code_verifier: login.codeVerifier,
+      }),
+    });
+    if (!tokens.id_token) throw new Error("The token response has no ID token");
+
+    let claims: OidcClaims = await verifyIdToken(tokens.id_token, {
+      jwksUri: metadata.jwks_uri,
+      issuer: metadata.issuer,
+      clientId: this.config.clientId,
+      nonce: login.nonce,
+    });
+
+    // Some providers only put the profile in the userinfo response
+    if (metadata.userinfo_endpoint && tokens.access_token && !getStringClaim(claims, this.config.claims.email)) {
+      const userinfo = await fetchJson<Record<string, unknown>>(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (userinfo.sub === claims.sub) claims = { ...userinfo, ...claims };
+    }
+
+    this.success(await this.verifyClaims(claims));
+  }
+}
+
+// The most privileged role any value of the role claim maps to
+function mapRole(config: OidcConfig, claims: OidcClaims): UserRole | null {
+  if (!config.claims.role) return config.defaultRole;
+
+  const value = getClaim(claims, config.claims.role);
+  const values = (Array.isArray(value) ? value : [value]).map(String);
+  const roles = values.map(claimValue => config.roleMap[claimValue]).filter(Boolean);
+  return USER_ROLES.find(role => roles.includes(role)) ?? config.defaultRole;
+}
+
+// The user an SSO login signs in as, linked or created from the claims
+export function findOrCreateSsoUser(config: OidcConfig, claims: OidcClaims): Promise<User> {
+  return findOrCreateExternalUser({
+    issuer: ssoIdentityIssuer(config.issuer),
+    subject: claims.sub,
+    email: getStringClaim(claims, config.claims.email),
+    // An explicit email_verified: false is never trusted
+    emailVerified: claims.email_verified === true || (config.trustUnverifiedEmail && claims.email_verified === undefined),
+    name: getStringClaim(claims, config.claims.name),
+    username: getStringClaim(claims, config.claims.username),
+    role: mapRole(config, claims),
+    // The provider speaks for the whole account, so it may link any role
+    linkableRoles: USER_ROLES,
+  });
+}
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express, { type Request } from "express";
+import type { Server } from "http";
+import { z } from "zod";
+import { MemStorage, setStorage } from "./storage";
+import { buildOpenApiDocument, toJsonSchema } from "./openapi";
+import { awardParticipationSchema, insertRubricCategorySchema, insertTermSchema } from "@shared/schema";
+
+const req = { protocol: "https", get: () => "classparticipate.example.edu" } as unknown as Request;
+
+describe("toJsonSchema", () => {
+  it.each([
+    ["strings with length limits", z.string().min(1).max(5), { type: "string", minLength: 1, maxLength: 5 }],
+    ["emails", z.string().email(), { type: "string", format: "email" }],
+    ["patterns", z.string().regex(/^\d+$/), { type: "string", pattern: "^\\d+$" }],
+    ["integers", z.number().int().min(0).max(10), { type: "integer", minimum: 0, maximum: 10 }],
+    ["exclusive bounds", z.number().gt(0).lt(1), { type: "number", minimum: 0, exclusiveMinimum: true, maximum: 1, exclusiveMaximum: true }],
+    ["coerced numbers", z.coerce.number().int().positive(), { type: "integer", minimum: 0, exclusiveMinimum: true }],
+    ["enums", z.enum(["a", "b"]), { type: "string", enum: ["a", "b"] }],
+    ["literals", z.literal(3), { type: "number", enum: [3] }],
+    ["arrays", z.array(z.boolean()).min(1), { type: "array", items: { type: "boolean" }, minItems: 1 }],
+    ["nullable values", z.string().nullable(), { type: "string", nullable: true }],
+    ["defaults", z.number().default(2), { type: "number", default: 2 }],
+    ["unions", z.union([z.string(), z.number()]), { anyOf: [{ type: "string" }, { type: "number" }] }],
+    ["refinements, by their input", z.string().refine(value => value !== "x"), { type: "string" }],
+    ["descriptions", z.boolean().describe("Whether"), { type: "boolean", description: "Whether" }],
+    ["anything", z.any(), {}],
+  ])("converts %s", (_, schema, expected) => {
+    expect(toJsonSchema(schema)).toEqual(expected);
+  });
+
+  it("converts the rubric category body, leaving defaulted fields optional", () => {
+    expect(toJsonSchema(insertRubricCategorySchema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, maxLength: 50 },
+        points: { type: "integer", minimum: 0, maximum: 100 },
+        maxPerSession: { type: "integer", minimum: 1, nullable: true, default: null },
+      },
+      required: ["name", "points"],
+    });
+  });
+
+  it("converts the award body", () => {
+    const id = { type: "integer", minimum: 0, exclusiveMinimum: true };
+    expect(toJsonSchema(awardParticipationSchema)).toEqual({
+      type: "object",
+      properties: {
+        courseId: id,
+        studentId: id,
+        categoryId: id,
+        points: { type: "integer" },
+        requestId: { ...id, nullable: true },
+        feedback: { type: "string" },
+        note: { type: "string" },
+      },
+      required: ["courseId", "studentId", "categoryId"],
+    });
+  });
+
+  it("converts the term body through its cross-field checks", () => {
+    const date = { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" };
+    expect(toJsonSchema(insertTermSchema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, maxLength: 100 },
+        startDate: date,
+        endDate: date,
+        holidays: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { date, name: { type: "string", minLength: 1, maxLength: 100 } },
+            required: ["date", "name"],
+          },
+          default: [],
+        },
+      },
+      required: ["name", "startDate", "endDate"],
+    });
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  const document = buildOpenApiDocument(req) as any;
+
+  // Every documented path and method, as Express would register it under /api
+  const documented: string[] = Object.entries(document.paths as Record<string, Record<string, unknown>>)
+    .flatMap(([path, methods]) => Object.keys(methods).map(method =>
+      `${method.toUpperCase()} /api${path.replace(/\{\w+\}/g, ":param")}`
+    ));
+
+  let server: Server;
+  let registered: Set<string>;
+
+  beforeAll(async () => {
+    setStorage(new MemStorage());
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    server = await registerRoutes(app);
+
+    registered = new Set(
+      (app._router.stack as any[])
+        .filter(layer => layer.route)
+        .flatMap(layer => Object.keys(layer.route.methods).map(method =>
+          `${method.toUpperCase()} ${String(layer.route.path).replace(/:\w+/g, ":param")}`
+        ))
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("points at the versioned API", () => {
+    expect(document.servers).toEqual([{ url: "https://classparticipate.example.edu/api/v1" }]);
+  });
+
+  it("documents operations", () => {
+    expect(documented.length).toBeGreaterThan(40);
+  });
+
+  it("only documents routes the server registers", () => {
+    expect(documented.filter(operation => !registered.has(operation))).toEqual([]);
+  });
+
+  it("documents query parameters from the route's schema", () => {
+    const parameters = document.paths["/audit"].get.parameters;
+    expect(parameters).toContainEqual({
+      name: "courseId",
+      in: "query",
+      required: true,
+      schema: { type: "integer", minimum: 0, exclusiveMinimum: true, description: "The course" },
+    });
+  });
+
+  it("documents path parameters", () => {
+    expect(document.paths["/courses/{courseId}/rubric/{categoryId}"].patch.parameters.map((parameter: any) => parameter.name))
+      .toEqual(["courseId", "categoryId"]);
+  });
+});
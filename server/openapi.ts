@@ -0,0 +1,351 @@
+import type { Request } from "express";
+import { z, ZodFirstPartyTypeKind, type ZodTypeAny } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import { getAppUrl } from "./password-reset";
+import { isGlobalPermission, type Permission } from "@shared/permissions";
+import {
+  users,
+  terms,
+  courses,
+  rubricCategories,
+  classSessions,
+  participationRequests,
+  participationRecords,
+  auditEvents,
+  gradingPolicies,
+  webhooks,
+  webhookDeliveries,
+  insertTermSchema,
+  termFieldsSchema,
+  insertCourseSchema,
+  enrollmentRequestSchema,
+  rosterImportSchema,
+  insertRubricCategorySchema,
+  gradingPolicySchema,
+  insertClassSessionSchema,
+  insertParticipationRequestSchema,
+  awardParticipationSchema,
+  updateParticipationRecordSchema,
+  restoreParticipationRecordsSchema,
+  participationRecordFilterSchema,
+  pageRequestSchema,
+  studentStatsQuerySchema,
+  auditEventFilterSchema,
+  exportQuerySchema,
+  insertWebhookSchema,
+  updateWebhookSchema,
+  API_TOKEN_SCOPES,
+} from "@shared/schema";
+
+/**
+ * The OpenAPI 3.0 document for /api/v1, built from the same zod schemas the
+ * routes validate with, so the documented bodies and filters can't drift
+ * from what the server accepts. Only the routes listed in OPERATIONS are
+ * documented; the rest of /api is the web app's own.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+// JSON Schema for what a zod schema accepts; refinements and transforms are documented by their input
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  const description = schema.description ? { description: schema.description } : {};
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: "string", ...description };
+      for (const check of def.checks) {
+        if (check.kind === "min") result.minLength = check.value;
+        if (check.kind === "max") result.maxLength = check.value;
+        if (check.kind === "length") result.minLength = result.maxLength = check.value;
+        if (check.kind === "email") result.format = "email";
+        if (check.kind === "url") result.format = "uri";
+        if (check.kind === "datetime") result.format = "date-time";
+        if (check.kind === "regex") result.pattern = check.regex.source;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: "number", ...description };
+      for (const check of def.checks) {
+        if (check.kind === "int") result.type = "integer";
+        if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      // OpenAPI 3.0 spells exclusive bounds as flags on minimum and maximum
+      if (result.exclusiveMinimum !== undefined) {
+        result.minimum = result.exclusiveMinimum;
+        result.exclusiveMinimum = true;
+      }
+      if (result.exclusiveMaximum !== undefined) {
+        result.maximum = result.exclusiveMaximum;
+        result.exclusiveMaximum = true;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: "integer", ...description };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean", ...description };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time", ...description };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value, enum: [def.value], ...description };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values, ...description };
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values), ...description };
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: "array", items: toJsonSchema(def.type), ...description };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+      return {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        ...(required.length > 0 ? { required } : {}),
+        ...description,
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType), ...description };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: Array.from(def.options as ZodTypeAny[]).map(toJsonSchema), ...description };
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [toJsonSchema(def.left), toJsonSchema(def.right)], ...description };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return { ...toJsonSchema(def.innerType), ...description };
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { ...toJsonSchema(def.innerType), nullable: true, ...description };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue(), ...description };
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return { ...toJsonSchema(def.schema), ...description };
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return { ...toJsonSchema(def.in), ...description };
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return { ...toJsonSchema(def.getter()), ...description };
+    case ZodFirstPartyTypeKind.ZodBranded:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return { ...toJsonSchema(def.innerType ?? def.type), ...description };
+    default:
+      // any, unknown and the like accept everything
+      return { ...description };
+  }
+}
+
+// The fields of an object schema, looking through refinements; query strings are flat objects
+function getObjectShape(schema: ZodTypeAny): Record<string, ZodTypeAny> {
+  const def = schema._def;
+  if (def.typeName === ZodFirstPartyTypeKind.ZodObject) return def.shape();
+  if (def.typeName === ZodFirstPartyTypeKind.ZodEffects) return getObjectShape(def.schema);
+  throw new Error(`Query schemas must be objects, not ${def.typeName}`);
+}
+
+// Every course-scoped route names its course: in the path, in the query string of a GET, or in the body
+const courseIdSchema = z.object({
+  courseId: z.coerce.number().int().positive().describe("The course"),
+});
+
+// Responses, named in components.schemas
+const RESPONSE_SCHEMAS = {
+  User: createSelectSchema(users).omit({ password: true }),
+  Term: createSelectSchema(terms),
+  Course: createSelectSchema(courses).extend({
+    joinCode: z.string().optional().describe("Only shown to staff who manage the roster"),
+  }),
+  RubricCategory: createSelectSchema(rubricCategories),
+  GradingPolicy: createSelectSchema(gradingPolicies),
+  ClassSession: createSelectSchema(classSessions),
+  ParticipationRequest: createSelectSchema(participationRequests),
+  ParticipationRecord: createSelectSchema(participationRecords),
+  AuditEvent: createSelectSchema(auditEvents),
+  Webhook: createSelectSchema(webhooks).omit({ secret: true }),
+  CreatedWebhook: createSelectSchema(webhooks).describe("The secret is only returned here"),
+  WebhookDelivery: createSelectSchema(webhookDeliveries),
+} satisfies Record<string, ZodTypeAny>;
+type ResponseName = keyof typeof RESPONSE_SCHEMAS;
+
+type Operation = {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  path: string; // under /api/v1, with {param} placeholders
+  tag: string;
+  summary: string;
+  permission?: Permission;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  response?: ResponseName | { list: ResponseName } | JsonSchema;
+  status?: number; // of a successful response; 200 unless given
+};
+
+const OPERATIONS: Operation[] = [
+  { method: "get", path: "/user", tag: "Account", summary: "The signed-in user", response: "User" },
+
+  { method: "get", path: "/terms", tag: "Terms", summary: "List terms", response: { list: "Term" } },
+  { method: "post", path: "/terms", tag: "Terms", summary: "Create a term", permission: "terms:manage", body: insertTermSchema, response: "Term", status: 201 },
+  { method: "patch", path: "/terms/{termId}", tag: "Terms", summary: "Update a term", permission: "terms:manage", body: termFieldsSchema.partial(), response: "Term" },
+
+  { method: "get", path: "/courses", tag: "Courses", summary: "Courses the user owns, runs or is enrolled in", response: { list: "Course" } },
+  { method: "post", path: "/courses", tag: "Courses", summary: "Create a course", permission: "courses:create", body: insertCourseSchema, response: "Course", status: 201 },
+  { method: "get", path: "/courses/{courseId}", tag: "Courses", summary: "Get a course", permission: "course:view", response: "Course" },
+  { method: "patch", path: "/courses/{courseId}", tag: "Courses", summary: "Update a course", permission: "course:manage", body: insertCourseSchema.partial(), response: "Course" },
+  { method: "delete", path: "/courses/{courseId}", tag: "Courses", summary: "Delete a course and everything in it", permission: "course:manage", status: 204 },
+
+  { method: "get", path: "/students", tag: "Roster", summary: "Students enrolled in a course", permission: "roster:view", query: courseIdSchema, response: { list: "User" } },
+  { method: "get", path: "/courses/{courseId}/staff", tag: "Roster", summary: "TAs of a course", permission: "roster:view", response: { list: "User" } },
+  { method: "post", path: "/enrollments", tag: "Roster", summary: "Join a course with its join code, or enroll a student as staff", body: enrollmentRequestSchema, status: 201 },
+  { method: "delete", path: "/courses/{courseId}/enrollments/{studentId}", tag: "Roster", summary: "Unenroll a student, or leave a course", permission: "course:view", status: 204 },
+  { method: "post", path: "/courses/{courseId}/roster/preview", tag: "Roster", summary: "Check a roster file without importing it", permission: "roster:manage", body: rosterImportSchema },
+
+  { method: "get", path: "/courses/{courseId}/rubric", tag: "Grading", summary: "The course's rubric", permission: "course:view", response: { list: "RubricCategory" } },
+  { method: "post", path: "/courses/{courseId}/rubric", tag: "Grading", summary: "Add a rubric category", permission: "grading:manage", body: insertRubricCategorySchema, response: "RubricCategory", status: 201 },
+  { method: "patch", path: "/courses/{courseId}/rubric/{categoryId}", tag: "Grading", summary: "Edit a rubric category", permission: "grading:manage", body: insertRubricCategorySchema.partial(), response: "RubricCategory" },
+  { method: "delete", path: "/courses/{courseId}/rubric/{categoryId}", tag: "Grading", summary: "Remove a rubric category", permission: "grading:manage", status: 204 },
+  { method: "get", path: "/courses/{courseId}/grading-policy", tag: "Grading", summary: "The course's grading policy", permission: "course:view", response: "GradingPolicy" },
+  { method: "put", path: "/courses/{courseId}/grading-policy", tag: "Grading", summary: "Save the course's grading policy", permission: "grading:manage", body: gradingPolicySchema, response: "GradingPolicy" },
+  { method: "get", path: "/grades", tag: "Grading", summary: "Participation grades; students only get their own", permission: "course:view", query: courseIdSchema },
+
+  { method: "get", path: "/class-sessions", tag: "Sessions", summary: "A course's class sessions", permission: "course:view", query: courseIdSchema, response: { list: "ClassSession" } },
+  { method: "get", path: "/class-sessions/current", tag: "Sessions", summary: "The open class session, or null", permission: "course:view", query: courseIdSchema, response: "ClassSession" },
+  { method: "post", path: "/class-sessions", tag: "Sessions", summary: "Start a class session", permission: "session:manage", body: insertClassSessionSchema, response: "ClassSession", status: 201 },
+  { method: "post", path: "/class-sessions/{id}/close", tag: "Sessions", summary: "Close a class session", permission: "session:manage", response: "ClassSession" },
+
+  { method: "get", path: "/participation-requests", tag: "Queue", summary: "Raised hands in the open session (students get only their own)", permission: "course:view", query: courseIdSchema, response: { list: "ParticipationRequest" } },
+  { method: "post", path: "/participation-requests", tag: "Queue", summary: "Raise a hand", permission: "queue:join", body: insertParticipationRequestSchema.pick({ courseId: true, note: true }), response: "ParticipationRequest", status: 201 },
+  { method: "delete", path: "/participation-requests/{id}", tag: "Queue", summary: "Lower a hand", response: "ParticipationRequest" },
+
+  {
+    method: "get", path: "/participation-records", tag: "Records", summary: "Participation records, one page at a time; students only get their own",
+    permission: "course:view", query: courseIdSchema.merge(participationRecordFilterSchema).merge(pageRequestSchema),
+    response: {
+      type: "object",
+      properties: {
+        items: { type: "array", items: { $ref: "#/components/schemas/ParticipationRecord" } },
+        nextCursor: { type: "string", nullable: true, description: "Pass as cursor for the next page; null on the last page" },
+      },
+    },
+  },
+  {
+    method: "post", path: "/participation-records", tag: "Records", summary: "Award points for a rubric category", permission: "records:award",
+    body: awardParticipationSchema,
+    response: "ParticipationRecord", status: 201,
+  },
+  { method: "patch", path: "/participation-records/{id}", tag: "Records", summary: "Correct a record", permission: "records:edit", body: updateParticipationRecordSchema, response: "ParticipationRecord" },
+  { method: "delete", path: "/participation-records/{id}", tag: "Records", summary: "Delete a record (it can be restored)", permission: "records:delete", response: "ParticipationRecord" },
+  { method: "post", path: "/participation-records/{id}/restore", tag: "Records", summary: "Restore a deleted record", permission: "records:delete", response: "ParticipationRecord" },
+  { method: "post", path: "/participation-records/restore", tag: "Records", summary: "Restore a batch or a day of deleted records", permission: "records:delete", body: courseIdSchema.and(restoreParticipationRecordsSchema) },
+  { method: "get", path: "/students/{id}/participation-records", tag: "Records", summary: "One student's records", permission: "records:view", query: courseIdSchema.merge(participationRecordFilterSchema), response: { list: "ParticipationRecord" } },
+
+  {
+    method: "get", path: "/exports", tag: "Exports", summary: "Download a gradebook or the matching records",
+    permission: "records:export", query: courseIdSchema.merge(exportQuerySchema),
+    response: { type: "string", format: "binary", description: "CSV, JSON Lines or XLSX, depending on the format" },
+  },
+  { method: "get", path: "/stats/students", tag: "Exports", summary: "Per-student totals and trends", permission: "stats:view", query: courseIdSchema.merge(studentStatsQuerySchema) },
+  { method: "get", path: "/audit", tag: "Exports", summary: "The course's audit trail, newest first", permission: "audit:view", query: courseIdSchema.merge(auditEventFilterSchema), response: { list: "AuditEvent" } },
+  { method: "get", path: "/audit/site", tag: "Exports", summary: "The audit trail of events outside any course, such as logins, newest first", permission: "audit:site", query: auditEventFilterSchema, response: { list: "AuditEvent" } },
+
+  { method: "get", path: "/courses/{courseId}/webhooks", tag: "Webhooks", summary: "The course's webhooks", permission: "webhooks:manage", response: { list: "Webhook" } },
+  { method: "post", path: "/courses/{courseId}/webhooks", tag: "Webhooks", summary: "Add a webhook", permission: "webhooks:manage", body: insertWebhookSchema, response: "CreatedWebhook", status: 201 },
+  { method: "patch", path: "/courses/{courseId}/webhooks/{webhookId}", tag: "Webhooks", summary: "Change a webhook's URL or events, or pause it", permission: "webhooks:manage", body: updateWebhookSchema, response: "Webhook" },
+  { method: "delete", path: "/courses/{courseId}/webhooks/{webhookId}", tag: "Webhooks", summary: "Remove a webhook and its delivery log", permission: "webhooks:manage", status: 204 },
+  { method: "get", path: "/courses/{courseId}/webhooks/{webhookId}/deliveries", tag: "Webhooks", summary: "The webhook's latest 50 deliveries, newest first", permission: "webhooks:manage", response: { list: "WebhookDelivery" } },
+  { method: "post", path: "/courses/{courseId}/webhooks/{webhookId}/deliveries/{deliveryId}/replay", tag: "Webhooks", summary: "Send a delivery again", permission: "webhooks:manage", response: "WebhookDelivery", status: 201 },
+];
+
+function describePermission(permission: Permission | undefined): string {
+  if (!permission) return "Any signed-in user.";
+  return isGlobalPermission(permission)
+    ? `Requires the \`${permission}\` permission.`
+    : `Requires the \`${permission}\` permission in the course.`;
+}
+
+function responseSchema(response: Operation["response"]): JsonSchema {
+  if (!response) return {};
+  if (typeof response === "string") return { $ref: `#/components/schemas/${response}` };
+  if ("list" in response) {
+    return { type: "array", items: { $ref: `#/components/schemas/${response.list}` } };
+  }
+  return response;
+}
+
+function buildOperation(operation: Operation): JsonSchema {
+  const pathParameters = Array.from(operation.path.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "integer" },
+  }));
+  const queryParameters = operation.query
+    ? Object.entries(getObjectShape(operation.query)).map(([name, schema]) => ({
+        name,
+        in: "query",
+        required: !schema.isOptional(),
+        schema: toJsonSchema(schema),
+      }))
+    : [];
+  const status = operation.status ?? 200;
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: describePermission(operation.permission),
+    parameters: [...pathParameters, ...queryParameters],
+    ...(operation.body
+      ? { requestBody: { required: true, content: { "application/json": { schema: toJsonSchema(operation.body) } } } }
+      : {}),
+    responses: {
+      [status]: status === 204
+        ? { description: "Done" }
+        : { description: "OK", content: { "application/json": { schema: responseSchema(operation.response) } } },
+      400: { $ref: "#/components/responses/BadRequest" },
+      401: { $ref: "#/components/responses/Unauthorized" },
+      403: { $ref: "#/components/responses/Forbidden" },
+    },
+  };
+}
+
+export function buildOpenApiDocument(req: Request): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+  }
+
+  const error = { description: "", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } };
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "ClassParticipate API",
+      version: "1",
+      description:
+        "Authenticate with a personal API token from the settings page, sent as `Authorization: Bearer <token>`. " +
+        `Tokens have the scopes ${API_TOKEN_SCOPES.map(scope => `\`${scope}\``).join(" and ")}: ` +
+        "`read` allows GET requests and `write` every other method. A token can never do more than its user, " +
+        "and can't change the account or manage tokens.",
+    },
+    servers: [{ url: `${getAppUrl(req)}/api/v1` }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "A personal API token" },
+      },
+      schemas: {
+        Error: { type: "object", properties: { message: { type: "string" } }, required: ["message"] },
+        ...Object.fromEntries(Object.entries(RESPONSE_SCHEMAS).map(([name, schema]) => [name, toJsonSchema(schema)])),
+      },
+      responses: {
+        BadRequest: { ...error, description: "The request is invalid; message says why" },
+        Unauthorized: { ...error, description: "No valid session or API token" },
+        Forbidden: { ...error, description: "The user, or the token's scopes, don't allow this" },
+      },
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import { storage } from "./storage";
+import { sendMail } from "./mail";
+import type { PasswordResetToken, User } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Links users ask for themselves are used right away; forced resets and new accounts wait for the student to read their mail
+const RESET_LINK_HOURS = 1;
+const FORCED_RESET_LINK_HOURS = 72;
+const ACCOUNT_SETUP_LINK_HOURS = 7 * 24;
+
+// Tokens are only kept as a hash, so a leaked database can't be used to take over accounts
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Where links in emails point. APP_URL should be set in production, so a
+ * forged Host header can't point a reset link at somebody else's server.
+ */
+export function getAppUrl(req: Request): string {
+  return (process.env.APP_URL || `${req.protocol}://${req.get("host")}`).replace(/\/+$/, "");
+}
+
+// Store a single-use reset token for a user, and the link that claims it
+async function createResetLink(
+  user: User,
+  appUrl: string,
+  createdBy: number | null,
+  hours: number
+): Promise<{ resetToken: PasswordResetToken; link: string }> {
+  const token = randomBytes(24).toString("base64url");
+  const resetToken: PasswordResetToken = await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashResetToken(token),
+    createdBy,
+    expiresAt: new Date(Date.now() + hours * HOUR_MS),
+  });
+  return { resetToken, link: `${appUrl}/reset-password?token=${encodeURIComponent(token)}` };
+}
+
+/**
+ * Email a user a single-use link for choosing a new password. createdBy is the
+ * admin forcing the reset, or null when the user asked for it.
+ */
+export async function sendPasswordResetLink(
+  user: User,
+  appUrl: string,
+  createdBy: number | null
+): Promise<PasswordResetToken> {
+  const hours = createdBy === null ? RESET_LINK_HOURS : FORCED_RESET_LINK_HOURS;
+  const { resetToken, link } = await createResetLink(user, appUrl, createdBy, hours);
+
+  const reason = createdBy === null
+    ? "Somebody, hopefully you, asked to reset the password of your ClassParticipate account."
+    : "Your instructor has reset the password of your ClassParticipate account.";
+  await sendMail({
+    to: user.email,
+    subject: "Reset your ClassParticipate password",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      reason,
+      `Choose a new one here within ${hours} hours (username: ${user.username}):`,
+      "",
+      link,
+      "",
+      createdBy === null ? "If you didn't ask for this, you can ignore this email." : "",
+    ].join("\n").trimEnd(),
+  });
+
+  return resetToken;
+}
+
+/**
+ * Email a student whose account an admin created (from a roster import) a
+ * link for choosing their first password, so no password is ever handed over.
+ */
+export async function sendAccountSetupLink(
+  user: User,
+  courseName: string,
+  appUrl: string,
+  createdBy: number
+): Promise<PasswordResetToken> {
+  const { resetToken, link } = await createResetLink(user, appUrl, createdBy, ACCOUNT_SETUP_LINK_HOURS);
+
+  await sendMail({
+    to: user.email,
+    subject: `You've been added to ${courseName} on ClassParticipate`,
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `Your instructor has created a ClassParticipate account for you and enrolled you in ${courseName}.`,
+      `Choose your password here within ${ACCOUNT_SETUP_LINK_HOURS / 24} days (username: ${user.username}):`,
+      "",
+      link,
+      "",
+      `Once the link expires, use "Forgot password" on the sign-in page to get a new one.`,
+    ].join("\n"),
+  });
+
+  return resetToken;
+}
+
+// The reset token a link carries, as long as it can still be used
+export async function findUsableResetToken(token: string): Promise<PasswordResetToken | undefined> {
+  const resetToken: PasswordResetToken | undefined = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+  return resetToken && !resetToken.usedAt && resetToken.expiresAt > new Date() ? resetToken : undefined;
+}
@@ -0,0 +1,92 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { hasGlobalPermission, hasPermission, isGlobalPermission, type Permission, type UserRole } from "@shared/permissions";
+import type { Course, User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      courseRole?: UserRole;
+    }
+  }
+}
+
+// The role a user has in a course, or null when they don't belong to it
+export async function getCourseRole(user: Pick<User, "id" | "role">, course: Course): Promise<UserRole | null> {
+  switch (user.role) {
+    case "admin":
+      return course.adminId === user.id ? "admin" : null;
+    case "ta":
+      return (await storage.isCourseStaff(user.id, course.id)) ? "ta" : null;
+    case "student":
+      return (await storage.isStudentEnrolled(user.id, course.id)) ? "student" : null;
+    default:
+      return null;
+  }
+}
+
+// Whether a user may do something in a course
+export async function authorize(user: Pick<User, "id" | "role">, course: Course, permission: Permission): Promise<boolean> {
+  return hasPermission(await getCourseRole(user, course), permission);
+}
+
+// Staff who may see events that need a permission (the owning admin and assigned TAs)
+export async function getCourseStaffIds(course: Course, permission: Permission): Promise<number[]> {
+  const tas: User[] = await storage.getCourseStaff(course.id);
+  return [
+    ...(hasPermission("admin", permission) ? [course.adminId] : []),
+    ...(hasPermission("ta", permission) ? tas.map(ta => ta.id) : []),
+  ];
+}
+
+/**
+ * Middleware that lets a request through only if the user holds a permission.
+ *
+ * Course permissions are checked against the user's role in the course the
+ * request is scoped to, read from the route params, the query string or the
+ * JSON body; the course and role are left on req.course and req.courseRole.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    if (isGlobalPermission(permission)) {
+      if (!hasGlobalPermission(req.user, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do this" });
+      }
+      return next();
+    }
+
+    const rawCourseId = req.params.courseId ?? req.query.courseId ?? req.body?.courseId;
+    const courseId = parseInt(String(rawCourseId));
+
+    if (isNaN(courseId)) {
+      return res.status(400).json({ message: "A valid courseId is required" });
+    }
+
+    try {
+      const course: Course | undefined = await storage.getCourse(courseId);
+
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const role = await getCourseRole(req.user, course);
+      if (!role) {
+        return res.status(403).json({ message: "Not authorized to access this course" });
+      }
+      if (!hasPermission(role, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do this in this course" });
+      }
+
+      req.course = course;
+      req.courseRole = role;
+      return next();
+    } catch (error) {
+      console.error("Error resolving course:", error);
+      return res.status(500).json({ message: "Failed to load course" });
+    }
+  };
+}
@@ -0,0 +1,260 @@
+import type { Server, IncomingMessage } from "http";
+import type { Request } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { getSessionUser, onLoginsRevoked } from "./auth";
+import { getCourseStaffIds } from "./permissions";
+import type { EventBus } from "./events";
+import { storage } from "./storage";
+import type { User, Course } from "@shared/schema";
+
+export type WebSocketMessage = {
+  type: string;
+  payload: any;
+};
+
+/**
+ * Routes real-time events to the users allowed to see them.
+ *
+ * A course room is the course's staff plus its enrolled students. Events that
+ * carry private data (the queue, awarded points and feedback) go to the staff
+ * and, where relevant, to the single student they are about. Staff are picked
+ * with the same permission checks the REST endpoints apply to the underlying
+ * data, so a role that can't read the queue over REST doesn't get it pushed.
+ * Domain events are pushed as messages of the same type, to their audience.
+ */
+export interface Realtime {
+  // Send to every open connection of the given users
+  sendToUsers(userIds: number[], message: WebSocketMessage): void;
+  // Send to the course staff, plus any extra users (e.g. the student an event is about)
+  sendToCourseStaff(course: Course, message: WebSocketMessage, extraUserIds?: number[]): Promise<void>;
+  // Send to everyone in the course room
+  sendToCourse(course: Course, message: WebSocketMessage): Promise<void>;
+}
+
+// Everyone in a course room: staff and enrolled students
+async function getCourseMemberIds(course: Course): Promise<number[]> {
+  const staffIds = await getCourseStaffIds(course, "course:view");
+  const students: User[] = await storage.getAllStudents(course.id);
+  return [...staffIds, ...students.map(student => student.id)];
+}
+
+/**
+ * Whether a WebSocket handshake comes from one of our own pages. Browsers send
+ * the session cookie along with handshakes that other sites start, but always
+ * name the page's origin, so anything besides APP_URL or the requested host is
+ * refused. Clients that aren't browsers send no Origin and no ambient cookie.
+ */
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+
+  try {
+    const url = new URL(origin);
+    const appUrl = process.env.APP_URL;
+    return url.host === req.headers.host || (!!appUrl && new URL(appUrl).origin === url.origin);
+  } catch {
+    return false;
+  }
+}
+
+export function setupRealtime(httpServer: Server, events: EventBus): Realtime {
+  console.log("Setting up WebSocket server on path /ws");
+  const wss = new WebSocketServer({
+    // Upgrades are handled below so they can be authenticated first
+    noServer: true,
+    perMessageDeflate: false,
+    // Add a longer ping timeout to help with reconnection issues
+    clientTracking: true
+  });
+
+  // Authenticate WebSocket upgrades from the session cookie before accepting them
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    if (pathname !== "/ws") {
+      return;
+    }
+
+    if (!isAllowedOrigin(req)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    try {
+      const user = await getSessionUser(req);
+
+      if (!user) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit("connection", ws, req, user);
+      });
+    } catch (error) {
+      console.error("WebSocket upgrade error:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+      socket.destroy();
+    }
+  });
+
+  // Keep track of connected clients by user ID
+  const connectedClients = new Map<number, Set<WebSocket>>();
+  // The session each connection was authenticated with
+  const clientSessions = new WeakMap<WebSocket, string>();
+
+  // Revoked logins lose their connections; the close handler below unregisters them
+  onLoginsRevoked((userId, keepSessionId) => {
+    connectedClients.get(userId)?.forEach((client) => {
+      if (keepSessionId === undefined || clientSessions.get(client) !== keepSessionId) {
+        client.close(4001, "Logged out");
+      }
+    });
+  });
+
+  // Set up a interval to check connection status and clean up dead connections
+  const connectionCheckInterval = setInterval(() => {
+    // Check each connection
+    wss.clients.forEach(client => {
+      if (client.readyState !== WebSocket.OPEN) {
+        try {
+          client.terminate();
+        } catch (err) {
+          // Ignore errors on termination
+        }
+      }
+    });
+
+    // Log current connected users
+    if (wss.clients.size > 0) {
+      console.log(`Active WebSocket connections: ${wss.clients.size}`);
+    }
+  }, 60000); // Check every minute
+
+  // Clean up interval on server shutdown
+  httpServer.on('close', () => {
+    clearInterval(connectionCheckInterval);
+  });
+
+  // WebSocket connection handler - the socket is bound to the user from the session
+  wss.on("connection", (ws: WebSocket, req: IncomingMessage, user: User) => {
+    const clientIp = req.socket.remoteAddress || 'unknown';
+    const userId = user.id;
+    console.log(`WebSocket client connected from ${clientIp} (user ${userId})`);
+
+    // Register in connected clients; getSessionUser loaded the session onto the upgrade request
+    clientSessions.set(ws, (req as Request).sessionID);
+    if (!connectedClients.has(userId)) {
+      connectedClients.set(userId, new Set());
+    }
+    connectedClients.get(userId)!.add(ws);
+
+    // Send a welcome message to verify the connection works
+    try {
+      ws.send(JSON.stringify({ type: "welcome", payload: { userId, message: "Connected to ClassTrack WebSocket server" } }));
+    } catch (error) {
+      console.error("Error sending welcome message:", error);
+    }
+
+    // Handler for client messages
+    ws.on("message", async (message) => {
+      try {
+        const messageStr = message.toString();
+        const parsedMessage = JSON.parse(messageStr) as WebSocketMessage;
+
+        // Handle different message types
+        switch (parsedMessage.type) {
+          case "ping":
+            // Respond to ping with pong but don't log to reduce noise
+            ws.send(JSON.stringify({ type: "pong" }));
+            break;
+
+          default:
+            // Log other message types
+            if (parsedMessage.type !== "ping" && parsedMessage.type !== "pong") {
+              console.log(`Received message type: ${parsedMessage.type}`);
+            }
+        }
+      } catch (error) {
+        console.error("WebSocket message error:", error);
+      }
+    });
+
+    // Handle connection errors
+    ws.on("error", (error) => {
+      console.error("WebSocket connection error:", error);
+    });
+
+    // Handle connection close
+    ws.on("close", (code, reason) => {
+      // Remove from connected clients map
+      const userConnections = connectedClients.get(userId);
+      if (userConnections) {
+        userConnections.delete(ws);
+        if (userConnections.size === 0) {
+          connectedClients.delete(userId);
+        }
+      }
+
+      // Don't log normal closures to reduce console noise
+      if (code !== 1000 && code !== 1001 && code !== 1005) {
+        console.log(`WebSocket client (user ${userId}) disconnected with code ${code}`);
+      }
+    });
+  });
+
+  // Log any server-level errors
+  wss.on("error", (error) => {
+    console.error("WebSocket server error:", error);
+  });
+
+  const sendToUsers = (userIds: number[], message: WebSocketMessage) => {
+    const data = JSON.stringify(message);
+
+    // A user may appear more than once (e.g. staff who is also the subject)
+    new Set(userIds).forEach((userId) => {
+      connectedClients.get(userId)?.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          try {
+            client.send(data);
+          } catch (error) {
+            console.error("WebSocket send error:", error);
+          }
+        }
+      });
+    });
+  };
+
+  const realtime: Realtime = {
+    sendToUsers,
+
+    async sendToCourseStaff(course, message, extraUserIds = []) {
+      try {
+        const staffIds = await getCourseStaffIds(course, "queue:view");
+        sendToUsers([...staffIds, ...extraUserIds], message);
+      } catch (error) {
+        console.error("WebSocket staff broadcast error:", error);
+      }
+    },
+
+    async sendToCourse(course, message) {
+      try {
+        sendToUsers(await getCourseMemberIds(course), message);
+      } catch (error) {
+        console.error("WebSocket course broadcast error:", error);
+      }
+    },
+  };
+
+  events.subscribe((event) => {
+    const message: WebSocketMessage = { type: event.type, payload: event.payload };
+    return event.audience === "course"
+      ? realtime.sendToCourse(event.course, message)
+      : realtime.sendToCourseStaff(event.course, message, event.studentIds);
+  });
+
+  return realtime;
+}
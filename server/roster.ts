@@ -0,0 +1,242 @@
+import { randomBytes } from "crypto";
+import { ZodError, ZodIssueCode } from "zod";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { sendAccountSetupLink } from "./password-reset";
+import {
+  rosterRowSchema,
+  sanitizeUsers,
+  type Course,
+  type RosterImportRequest,
+  type RosterImportResult,
+  type RosterImportRow
+} from "@shared/schema";
+
+// Header names accepted for each field, compared without case, spaces or punctuation
+const HEADER_ALIASES = {
+  name: ["name", "fullname", "studentname"],
+  firstName: ["firstname", "givenname", "first"],
+  lastName: ["lastname", "surname", "familyname", "last"],
+  email: ["email", "emailaddress", "mail"],
+  username: ["username", "login", "loginid", "sisloginid", "netid", "user"],
+};
+
+type RosterColumn = keyof typeof HEADER_ALIASES;
+
+// A single invalid-input issue, so routes answer it with a 400 like any other validation error
+function rosterError(message: string): ZodError {
+  return new ZodError([{ code: ZodIssueCode.custom, path: ["text"], message }]);
+}
+
+/**
+ * Split CSV or TSV text into rows of cells (RFC 4180 quoting, any line ending).
+ * The file is tab-separated when its first line contains a tab.
+ */
+export function parseDelimited(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r|\n|$/));
+  const separator = firstLine.includes("\t") ? "\t" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function findColumns(header: string[]): Partial<Record<RosterColumn, number>> {
+  const normalized = header.map(name => name.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  const columns: Partial<Record<RosterColumn, number>> = {};
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES) as [RosterColumn, string[]][]) {
+    const index = normalized.findIndex(name => aliases.includes(name));
+    if (index !== -1) columns[column] = index;
+  }
+  return columns;
+}
+
+// Nobody is told this one; students choose their own from the emailed setup link
+function unknownPassword(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Applying an import creates accounts, whose setup links come from the importing admin
+type RosterImportOptions = { apply: false } | { apply: true; appUrl: string; importedBy: number };
+
+/**
+ * Work out what importing a roster into a course means, and do it unless this
+ * is only a preview.
+ *
+ * Students are matched to existing accounts by username or email, so importing
+ * the same file again only enrolls the students who aren't enrolled yet, and
+ * students who already registered are enrolled under their own username. A
+ * username taken by somebody else, or a staff account, is reported instead of
+ * guessed at.
+ */
+export async function importRoster(
+  course: Course,
+  input: RosterImportRequest,
+  options: RosterImportOptions
+): Promise<RosterImportResult> {
+  const table = parseDelimited(input.text).filter(cells => cells.some(cell => cell.trim() !== ""));
+  if (table.length === 0) {
+    throw rosterError("The roster file is empty");
+  }
+
+  const columns = findColumns(table[0]);
+  if (columns.email === undefined) {
+    throw rosterError("The roster needs an email column");
+  }
+  if (columns.name === undefined && columns.firstName === undefined && columns.lastName === undefined) {
+    throw rosterError("The roster needs a name column, or first and last name columns");
+  }
+
+  const cellAt = (cells: string[], column: RosterColumn) => {
+    const index = columns[column];
+    return index === undefined ? "" : (cells[index] ?? "").trim();
+  };
+
+  const enrolled = await storage.getAllStudents(course.id);
+  const enrolledIds = new Set(enrolled.map(student => student.id));
+  // Students the file mentions in any row, even one with an error, so they're never counted as missing
+  const mentionedIds = new Set<number>();
+  const seenUsernames = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+
+  const rows: RosterImportRow[] = [];
+  for (let index = 1; index < table.length; index++) {
+    const cells = table[index];
+    const email = cellAt(cells, "email");
+    const name = cellAt(cells, "name") || [cellAt(cells, "firstName"), cellAt(cells, "lastName")].filter(Boolean).join(" ");
+    // Without a username column students sign in with the first part of their email
+    const username = cellAt(cells, "username") || email.toLowerCase().split("@")[0];
+
+    const row: RosterImportRow = {
+      line: index + 1,
+      name,
+      email,
+      username,
+      status: "error",
+      message: null,
+      userId: null,
+    };
+    rows.push(row);
+
+    const parsed = rosterRowSchema.safeParse({ name, email, username });
+    if (!parsed.success) {
+      row.message = parsed.error.issues.map(issue => issue.message).join("; ");
+      continue;
+    }
+    Object.assign(row, parsed.data);
+
+    const [byUsername, byEmail] = await Promise.all([
+      storage.getUserByUsername(row.username),
+      storage.getUserByEmail(row.email),
+    ]);
+    if (byUsername) mentionedIds.add(byUsername.id);
+    if (byEmail) mentionedIds.add(byEmail.id);
+
+    const duplicateOf = seenUsernames.get(row.username.toLowerCase()) ?? seenEmails.get(row.email);
+    seenUsernames.set(row.username.toLowerCase(), row.line);
+    seenEmails.set(row.email, row.line);
+    if (duplicateOf !== undefined) {
+      row.message = `Duplicate of line ${duplicateOf}`;
+      continue;
+    }
+
+    // Students who registered on their own may have picked another username than the file's
+    const account = byUsername ?? byEmail;
+    if (byUsername && byUsername.role !== "student") {
+      row.message = `Username "${row.username}" belongs to a staff account`;
+    } else if (byUsername && byUsername.email.toLowerCase() !== row.email) {
+      row.message = `Username "${row.username}" is registered with a different email`;
+    } else if (account && account.role !== "student") {
+      row.message = "Email belongs to a staff account";
+    } else if (account) {
+      row.username = account.username;
+      row.userId = account.id;
+      row.status = enrolledIds.has(account.id) ? "enrolled" : "enroll";
+    } else {
+      row.status = "create";
+    }
+  }
+
+  const missing = enrolled.filter(student => !mentionedIds.has(student.id));
+  const result: RosterImportResult = {
+    applied: options.apply,
+    rows,
+    missing: sanitizeUsers(missing),
+    unenrolled: 0,
+  };
+  if (!options.apply) {
+    return result;
+  }
+
+  for (const row of rows) {
+    try {
+      if (row.status === "create") {
+        const user = await storage.createUser({
+          username: row.username,
+          email: row.email,
+          name: row.name,
+          role: "student",
+          password: await hashPassword(unknownPassword()),
+        });
+        row.userId = user.id;
+        await storage.enrollStudent(user.id, course.id);
+        await sendAccountSetupLink(user, course.name, options.appUrl, options.importedBy).catch(error => {
+          console.error(`Error sending the account setup link for roster line ${row.line}:`, error);
+          row.message = "Enrolled, but the setup email couldn't be sent; force a password reset from the roster";
+        });
+      } else if (row.status === "enroll") {
+        await storage.enrollStudent(row.userId!, course.id);
+      }
+    } catch (error) {
+      // e.g. the username was registered between the preview and the import
+      console.error(`Error importing roster line ${row.line}:`, error);
+      row.status = "error";
+      row.message = row.userId === null ? "Failed to create the account" : "Failed to enroll the student";
+    }
+  }
+
+  if (input.unenrollMissing) {
+    for (const student of missing) {
+      if (await storage.unenrollStudent(student.id, course.id)) {
+        result.unenrolled++;
+      }
+    }
+  }
+
+  return result;
+}
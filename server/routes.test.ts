@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { MemStorage, setStorage } from "./storage";
+import type { RubricCategory } from "@shared/schema";
+
+// The seeded course 1, its admin 1 and its enrolled student 2, plus a TA who may award 2 points at a time
+const COURSE_ID = 1;
+const STUDENT_ID = 2;
+const PASSWORD = "correct horse battery";
+
+describe("POST /api/participation-records award limit", () => {
+  let server: Server;
+  let baseUrl: string;
+  let small: RubricCategory;
+  let large: RubricCategory;
+
+  async function login(username: string): Promise<string> {
+    const res = await fetch(`${baseUrl}/api/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password: PASSWORD }),
+    });
+    expect(res.status).toBe(200);
+    return res.headers.get("set-cookie")!.split(";")[0];
+  }
+
+  async function award(cookie: string, category: RubricCategory): Promise<Response> {
+    return fetch(`${baseUrl}/api/participation-records`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: JSON.stringify({ courseId: COURSE_ID, studentId: STUDENT_ID, categoryId: category.id }),
+    });
+  }
+
+  beforeAll(async () => {
+    const storage = new MemStorage();
+    setStorage(storage);
+    const { hashPassword } = await import("./auth");
+    const { registerRoutes } = await import("./routes");
+
+    const password = await hashPassword(PASSWORD);
+    await storage.updateUser(1, { password });
+    const ta = await storage.createUser({ username: "ta", email: "ta@example.edu", name: "Teaching Assistant", role: "ta", password });
+    await storage.addCourseStaff(COURSE_ID, ta.id);
+    await storage.updateCourse(COURSE_ID, { taAwardLimit: 2 });
+    small = await storage.createRubricCategory(COURSE_ID, { name: "Answer", points: 2, maxPerSession: null });
+    large = await storage.createRubricCategory(COURSE_ID, { name: "Presentation", points: 3, maxPerSession: null });
+
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("lets a TA award a category worth up to the limit", async () => {
+    const res = await award(await login("ta"), small);
+    expect(res.status).toBe(201);
+  });
+
+  it("rejects a TA's award of a category worth more than the limit", async () => {
+    const res = await award(await login("ta"), large);
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ message: "TAs can award at most 2 point(s) at a time" });
+  });
+
+  it("doesn't limit the professor", async () => {
+    const res = await award(await login("admin"), large);
+    expect(res.status).toBe(201);
+  });
+});
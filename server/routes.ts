@@ -1,19 +1,70 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
-import { setupAuth } from "./auth";
-import { storage as defaultStorage } from "./storage";
-// Get the storage from global if it exists (our override in index.ts)
-// Otherwise fall back to the default from storage.ts
-const storage = (global as any).storage || defaultStorage;
-import { DEFAULT_COURSE } from "@shared/schema";
+import { randomBytes, randomUUID } from "crypto";
+import { hashPassword, revokeLogins, setupAuth } from "./auth";
+import { setupRealtime } from "./realtime";
+import { createEventBus } from "./events";
+import { checkWebhookUrl, generateWebhookSecret, replayWebhookDelivery, setupWebhooks, summarizeWebhook } from "./webhooks";
+import { createCourse, generateJoinCode } from "./courses";
+import { authorize, requirePermission } from "./permissions";
+import { recordAuditEvent } from "./audit";
+import { getStudentStats } from "./stats";
+import { getCourseGrades, getGradingPolicy } from "./grades";
+import { streamExport } from "./exports";
+import { importRoster } from "./roster";
+import { findPendingInvitation, issueInvitation, joinInvitationCourse, previewInvitation, summarizeInvitation } from "./invitations";
+import { getAppUrl, sendPasswordResetLink } from "./password-reset";
+import { ExternalLinkRequiredError } from "./external-accounts";
+import { LtiError, completeLaunch, getCourseLtiLink, getToolConfig, getToolJwks, initiateLaunch, sendGradesToLms } from "./lti";
+import { setupMockLtiPlatform } from "./mock-lti-platform";
+import { getOidcConfig } from "./oidc";
+import { issueApiToken, requireSession, summarizeApiToken } from "./api-tokens";
+import { buildOpenApiDocument } from "./openapi";
+import { getDateKey, getDayRange } from "@shared/time-zone";
+import { getAwardLimit, hasPermission } from "@shared/permissions";
+import { storage } from "./storage";
 import {
+  insertCourseSchema,
+  enrollmentRequestSchema,
+  rosterImportSchema,
+  createInvitationSchema,
+  invitationTokenSchema,
+  insertClassSessionSchema,
   insertParticipationRequestSchema,
   insertParticipationRecordSchema,
+  awardParticipationSchema,
+  updateParticipationRecordSchema,
+  restoreParticipationRecordsSchema,
+  participationRecordFilterSchema,
+  pageRequestSchema,
+  studentStatsQuerySchema,
+  auditEventFilterSchema,
+  insertTermSchema,
+  termFieldsSchema,
+  insertRubricCategorySchema,
+  gradingPolicySchema,
+  exportQuerySchema,
+  insertLtiPlatformSchema,
+  insertLtiDeploymentSchema,
+  createApiTokenSchema,
+  insertWebhookSchema,
+  updateWebhookSchema,
   type User,
-  type ParticipationRecord,
-  type ParticipationRecordWithStudent,
-  sanitizeUsers
+  type Course,
+  type Invitation,
+  type ForcedPasswordReset,
+  type LtiPlatform,
+  type LtiDeployment,
+  type LtiPlatformWithDeployments,
+  type ApiToken,
+  type Webhook,
+  type WebhookDelivery,
+  type CreatedWebhook,
+  type RubricCategory,
+  type ParticipationPoints,
+  type ParticipationRecordsBatchResult,
+  sanitizeUsers,
+  sanitizeCourse
 } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -23,6 +74,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: User;
+      course?: Course;
     }
   }
 }
@@ -36,235 +88,1293 @@ const ensureAuthenticated = (req: Request, res: Response, next: Function) => {
   res.status(401).json({ message: "Unauthorized" });
 };
 
-// Middleware to ensure user is an admin
-const ensureAdmin = (req: Request, res: Response, next: Function) => {
-  console.log("Checking admin access, user:", req.user);
+export async function registerRoutes(app: Express): Promise<Server> {
+  // /api/v1 is the versioned public API; for now it serves the same routes as /api
+  app.use((req, _res, next) => {
+    if (req.url === "/api/v1" || req.url.startsWith("/api/v1/") || req.url.startsWith("/api/v1?")) {
+      req.url = `/api${req.url.slice("/api/v1".length)}`;
+    }
+    next();
+  });
+
+  // Set up authentication routes
+  setupAuth(app);
+
+  const httpServer = createServer(app);
+
+  // Course events are published here; browsers get them over the WebSocket and integrations through webhooks
+  const events = createEventBus();
+  setupRealtime(httpServer, events);
+  setupWebhooks(httpServer, events);
+
+  // User route - Get all students enrolled in a course
+  app.get("/api/students", requirePermission("roster:view"), async (req, res) => {
+    try {
+      const students = await storage.getAllStudents(req.course!.id);
+      return res.json(sanitizeUsers(students));
+    } catch (error) {
+      console.error("Error fetching students:", error);
+      return res.status(500).json({ message: "Failed to fetch students" });
+    }
+  });
+
+  // Academic terms, shared by every course
+  app.get("/api/terms", ensureAuthenticated, async (req, res) => {
+    try {
+      return res.json(await storage.getAllTerms());
+    } catch (error) {
+      console.error("Error fetching terms:", error);
+      return res.status(500).json({ message: "Failed to fetch terms" });
+    }
+  });
+
+  app.post("/api/terms", requirePermission("terms:manage"), async (req, res) => {
+    try {
+      const termData = insertTermSchema.parse(req.body);
+      const term = await storage.createTerm(termData);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: null,
+        action: "term.create",
+        targetType: "term",
+        targetId: term.id,
+        after: term
+      });
+
+      return res.status(201).json(term);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating term:", error);
+      return res.status(500).json({ message: "Failed to create term" });
+    }
+  });
+
+  app.patch("/api/terms/:termId", requirePermission("terms:manage"), async (req, res) => {
+    try {
+      const termId = parseInt(req.params.termId);
+      const existing = await storage.getTerm(termId);
+      if (!existing) {
+        return res.status(404).json({ message: "Term not found" });
+      }
+
+      // Validate the merged term so the date checks see both old and new values
+      const updates = termFieldsSchema.partial().parse(req.body);
+      const { id, ...current } = existing;
+      const termData = insertTermSchema.parse({ ...current, ...updates });
+      const term = await storage.updateTerm(termId, termData);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: null,
+        action: "term.update",
+        targetType: "term",
+        targetId: termId,
+        before: existing,
+        after: term
+      });
+
+      return res.json(term);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating term:", error);
+      return res.status(500).json({ message: "Failed to update term" });
+    }
+  });
+
+  // Course routes
+  app.get("/api/courses", ensureAuthenticated, async (req, res) => {
+    try {
+      if (req.user!.role === "admin") {
+        return res.json(await storage.getCoursesByAdmin(req.user!.id));
+      }
+
+      const courses: Course[] = req.user!.role === "ta"
+        ? await storage.getCoursesByStaff(req.user!.id)
+        : await storage.getCoursesByStudent(req.user!.id);
+      return res.json(courses.map(sanitizeCourse));
+    } catch (error) {
+      console.error("Error fetching courses:", error);
+      return res.status(500).json({ message: "Failed to fetch courses" });
+    }
+  });
+
+  // Every course, for students browsing courses to join
+  app.get("/api/all-courses", ensureAuthenticated, async (req, res) => {
+    try {
+      const courses: Course[] = await storage.getAllCourses();
+      return res.json(courses.map(sanitizeCourse));
+    } catch (error) {
+      console.error("Error fetching all courses:", error);
+      return res.status(500).json({ message: "Failed to fetch courses" });
+    }
+  });
+
+  app.get("/api/courses/:courseId", requirePermission("course:view"), async (req, res) => {
+    // The join code is only shown to those who manage the roster
+    if (hasPermission(req.courseRole, "roster:manage")) {
+      return res.json(req.course);
+    }
+    return res.json(sanitizeCourse(req.course!));
+  });
+
+  app.post("/api/courses", requirePermission("courses:create"), async (req, res) => {
+    try {
+      const courseData = insertCourseSchema.parse(req.body);
+      if (courseData.termId && !(await storage.getTerm(courseData.termId))) {
+        return res.status(400).json({ message: "Term not found" });
+      }
+
+      const course = await createCourse(courseData, req.user!.id);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: course.id,
+        action: "course.create",
+        targetType: "course",
+        targetId: course.id,
+        after: course
+      });
+
+      return res.status(201).json(course);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating course:", error);
+      return res.status(500).json({ message: "Failed to create course" });
+    }
+  });
+
+  app.patch("/api/courses/:courseId", requirePermission("course:manage"), async (req, res) => {
+    try {
+      const courseData = insertCourseSchema.partial().parse(req.body);
+      if (courseData.termId && !(await storage.getTerm(courseData.termId))) {
+        return res.status(400).json({ message: "Term not found" });
+      }
+
+      const course = await storage.updateCourse(req.course!.id, courseData);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "course.update",
+        targetType: "course",
+        targetId: req.course!.id,
+        before: req.course,
+        after: course
+      });
+
+      return res.json(course);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating course:", error);
+      return res.status(500).json({ message: "Failed to update course" });
+    }
+  });
+
+  app.delete("/api/courses/:courseId", requirePermission("course:manage"), async (req, res) => {
+    try {
+      await storage.deleteCourse(req.course!.id);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "course.delete",
+        targetType: "course",
+        targetId: req.course!.id,
+        before: req.course
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting course:", error);
+      return res.status(500).json({ message: "Failed to delete course" });
+    }
+  });
+
+  // Issue a new join code, invalidating the old one
+  app.post("/api/courses/:courseId/join-code", requirePermission("roster:manage"), async (req, res) => {
+    try {
+      const course = await storage.updateCourse(req.course!.id, { joinCode: generateJoinCode() });
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "course.join_code.regenerate",
+        targetType: "course",
+        targetId: req.course!.id,
+        before: { joinCode: req.course!.joinCode },
+        after: { joinCode: course?.joinCode }
+      });
+
+      return res.json(course);
+    } catch (error) {
+      console.error("Error regenerating join code:", error);
+      return res.status(500).json({ message: "Failed to regenerate join code" });
+    }
+  });
+
+  // Enrollment routes
+  // Students enroll themselves with the course join code; staff who manage the roster can enroll any student directly
+  app.post("/api/enrollments", ensureAuthenticated, async (req, res) => {
+    try {
+      const enrollmentData = enrollmentRequestSchema.parse(req.body);
+      const course = await storage.getCourse(enrollmentData.courseId);
+
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      let studentId: number;
+
+      if (req.user!.role !== "student") {
+        if (!(await authorize(req.user!, course, "roster:manage"))) {
+          return res.status(403).json({ message: "Not authorized to manage this course" });
+        }
+        if (!enrollmentData.studentId) {
+          return res.status(400).json({ message: "A studentId is required" });
+        }
+
+        const student = await storage.getUser(enrollmentData.studentId);
+        if (!student || student.role !== "student") {
+          return res.status(400).json({ message: "Invalid student ID" });
+        }
+        studentId = student.id;
+      } else {
+        if (enrollmentData.joinCode?.toUpperCase() !== course.joinCode.toUpperCase()) {
+          return res.status(400).json({ message: "Invalid join code" });
+        }
+        studentId = req.user!.id;
+      }
+
+      const enrollment = await storage.enrollStudent(studentId, course.id);
 
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Unauthorized: Login required" });
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: course.id,
+        action: "enrollment.create",
+        targetType: "user",
+        targetId: studentId,
+        after: enrollment
+      });
+
+      return res.status(201).json(enrollment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error enrolling student:", error);
+      return res.status(500).json({ message: "Failed to enroll in course" });
+    }
+  });
+
+  // Students can unenroll themselves; staff who manage the roster can remove anyone
+  app.delete("/api/courses/:courseId/enrollments/:studentId", requirePermission("course:view"), async (req, res) => {
+    try {
+      const studentId = parseInt(req.params.studentId);
+
+      if (req.user!.id !== studentId && !hasPermission(req.courseRole, "roster:manage")) {
+        return res.status(403).json({ message: "Not authorized to unenroll other students" });
+      }
+
+      const removed = await storage.unenrollStudent(studentId, req.course!.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Enrollment not found" });
+      }
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "enrollment.delete",
+        targetType: "user",
+        targetId: studentId
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error unenrolling student:", error);
+      return res.status(500).json({ message: "Failed to unenroll from course" });
+    }
+  });
+
+  // Locks a student out of their current password and emails them a link for choosing a new one
+  app.post("/api/courses/:courseId/students/:studentId/password-reset", requirePermission("roster:manage"), requireSession, async (req, res) => {
+    try {
+      const studentId = parseInt(req.params.studentId);
+      const student: User | undefined = await storage.getUser(studentId);
+
+      if (!student || student.role !== "student" || !(await storage.isStudentEnrolled(studentId, req.course!.id))) {
+        return res.status(404).json({ message: "Student not found in this course" });
+      }
+
+      await storage.updateUser(studentId, { password: await hashPassword(randomBytes(24).toString("base64url")) });
+      await storage.deletePasswordResetTokens(studentId);
+      await revokeLogins(studentId);
+      const resetToken = await sendPasswordResetLink(student, getAppUrl(req), req.user!.id);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "user.password.force_reset",
+        targetType: "user",
+        targetId: studentId
+      });
+
+      const forcedReset: ForcedPasswordReset = { email: student.email, expiresAt: resetToken.expiresAt };
+      return res.json(forcedReset);
+    } catch (error) {
+      console.error("Error resetting student password:", error);
+      return res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Personal API tokens; managing them takes a session, so a leaked token can't mint more
+  app.get("/api/tokens", ensureAuthenticated, requireSession, async (req, res) => {
+    try {
+      const tokens: ApiToken[] = await storage.getApiTokens(req.user!.id);
+      return res.json(tokens.map(summarizeApiToken));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      return res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", ensureAuthenticated, requireSession, async (req, res) => {
+    try {
+      const settings = createApiTokenSchema.parse(req.body);
+      const created = await issueApiToken(req.user!.id, settings);
+      const { token, ...summary } = created;
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        action: "api_token.create",
+        targetType: "api_token",
+        targetId: created.id,
+        after: summary
+      });
+
+      return res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating API token:", error);
+      return res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:tokenId", ensureAuthenticated, requireSession, async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.tokenId);
+      if (!(await storage.deleteApiToken(req.user!.id, tokenId))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        action: "api_token.revoke",
+        targetType: "api_token",
+        targetId: tokenId
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      return res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // The OpenAPI document for /api/v1; no login needed
+  app.get("/api/openapi.json", (req, res) => {
+    return res.json(buildOpenApiDocument(req));
+  });
+
+  // Invitations: single-use, expiring links for registering as an admin, or as a student of a course
+  app.get("/api/invitations", requirePermission("invitations:manage"), async (req, res) => {
+    try {
+      const invitations: Invitation[] = await storage.getInvitationsByCreator(req.user!.id);
+      return res.json(await Promise.all(invitations.map(summarizeInvitation)));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      return res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/invitations", requirePermission("invitations:manage"), requireSession, async (req, res) => {
+    try {
+      const settings = createInvitationSchema.parse(req.body);
+
+      if (settings.courseId !== null) {
+        const course = await storage.getCourse(settings.courseId);
+        if (!course) {
+          return res.status(400).json({ message: "Course not found" });
+        }
+        // Inviting a TA changes who runs the course, which is more than enrolling a student
+        const permission = settings.role === "ta" ? "staff:manage" : "roster:manage";
+        if (!(await authorize(req.user!, course, permission))) {
+          return res.status(403).json({ message: "Not authorized to invite people to this course" });
+        }
+      }
+
+      const invitation = await issueInvitation(req.user!.id, settings);
+      const { token, ...summary } = invitation;
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: invitation.courseId,
+        action: "invitation.create",
+        targetType: "invitation",
+        targetId: invitation.id,
+        after: summary
+      });
+
+      return res.status(201).json(invitation);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating invitation:", error);
+      return res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.delete("/api/invitations/:invitationId", requirePermission("invitations:manage"), async (req, res) => {
+    try {
+      const invitation = await storage.getInvitation(parseInt(req.params.invitationId));
+      if (!invitation || invitation.createdBy !== req.user!.id) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const revoked = await storage.revokeInvitation(invitation.id);
+      if (!revoked) {
+        return res.status(400).json({ message: "Only pending invitations can be revoked" });
+      }
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: invitation.courseId,
+        action: "invitation.revoke",
+        targetType: "invitation",
+        targetId: invitation.id
+      });
+
+      return res.json(await summarizeInvitation(revoked));
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      return res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // What an invitation is for, shown on the registration page; no login needed
+  app.get("/api/invitations/preview", async (req, res) => {
+    try {
+      const { token } = invitationTokenSchema.parse(req.query);
+      const invitation = await findPendingInvitation(token);
+      if (!invitation) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      return res.json(await previewInvitation(invitation));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error fetching invitation:", error);
+      return res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Students and TAs who already have an account use a course invitation as a one-time code to join it
+  app.post("/api/invitations/accept", ensureAuthenticated, async (req, res) => {
+    try {
+      const { token } = invitationTokenSchema.parse(req.body);
+      const invitation = await findPendingInvitation(token);
+      if (!invitation) {
+        return res.status(400).json({ message: "This invitation is invalid or has expired" });
+      }
+      if (invitation.role !== req.user!.role || invitation.courseId === null) {
+        return res.status(400).json({ message: "This invitation is for registering a new account" });
+      }
+      if (invitation.email && invitation.email !== req.user!.email.toLowerCase()) {
+        return res.status(400).json({ message: "This invitation is for a different email address" });
+      }
+      if (!(await storage.claimInvitation(invitation.id))) {
+        return res.status(400).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      await storage.setInvitationUser(invitation.id, req.user!.id);
+      const membership = await joinInvitationCourse(invitation, req.user!.id);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: invitation.courseId,
+        action: "invitation.accept",
+        targetType: "invitation",
+        targetId: invitation.id,
+        after: membership
+      });
+
+      return res.status(201).json(membership);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error accepting invitation:", error);
+      return res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // LTI 1.3: LMS platforms registered to launch ClassParticipate, and the values to register it with them
+  app.get("/api/lti/platforms", requirePermission("lti:manage"), async (req, res) => {
+    try {
+      const platforms: LtiPlatform[] = await storage.getLtiPlatforms();
+      const withDeployments: LtiPlatformWithDeployments[] = await Promise.all(
+        platforms.map(async platform => ({ ...platform, deployments: await storage.getLtiDeployments(platform.id) }))
+      );
+      return res.json(withDeployments);
+    } catch (error) {
+      console.error("Error fetching LTI platforms:", error);
+      return res.status(500).json({ message: "Failed to fetch LMS platforms" });
+    }
+  });
+
+  app.get("/api/lti/config", requirePermission("lti:manage"), (req, res) => {
+    return res.json(getToolConfig(req));
+  });
+
+  app.post("/api/lti/platforms", requirePermission("lti:manage"), async (req, res) => {
+    try {
+      const platformData = insertLtiPlatformSchema.parse(req.body);
+      // An issuer belongs to one platform, and never to the SSO provider
+      if (await storage.findLtiPlatform(platformData.issuer)) {
+        return res.status(400).json({ message: "A platform with this issuer is already registered" });
+      }
+      if (platformData.issuer.replace(/\/+$/, "") === getOidcConfig()?.issuer) {
+        return res.status(400).json({ message: "This issuer is the single sign-on provider, not an LMS" });
+      }
+
+      const platform: LtiPlatform = await storage.createLtiPlatform({ ...platformData, createdBy: req.user!.id });
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        action: "lti.platform.create",
+        targetType: "lti_platform",
+        targetId: platform.id,
+        after: platform
+      });
+
+      return res.status(201).json({ ...platform, deployments: [] } satisfies LtiPlatformWithDeployments);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error registering LTI platform:", error);
+      return res.status(500).json({ message: "Failed to register LMS platform" });
+    }
+  });
+
+  // Courses stay, but their LMS links go, so launches from the platform stop working
+  app.delete("/api/lti/platforms/:platformId", requirePermission("lti:manage"), async (req, res) => {
+    try {
+      const platform: LtiPlatform | undefined = await storage.getLtiPlatform(parseInt(req.params.platformId));
+      if (!platform) {
+        return res.status(404).json({ message: "Platform not found" });
+      }
+
+      await storage.deleteLtiPlatform(platform.id);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        action: "lti.platform.delete",
+        targetType: "lti_platform",
+        targetId: platform.id,
+        before: platform
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting LTI platform:", error);
+      return res.status(500).json({ message: "Failed to delete LMS platform" });
+    }
+  });
+
+  app.post("/api/lti/platforms/:platformId/deployments", requirePermission("lti:manage"), async (req, res) => {
+    try {
+      const platform: LtiPlatform | undefined = await storage.getLtiPlatform(parseInt(req.params.platformId));
+      if (!platform) {
+        return res.status(404).json({ message: "Platform not found" });
+      }
+
+      const { deploymentId } = insertLtiDeploymentSchema.parse(req.body);
+      const deployment: LtiDeployment = await storage.addLtiDeployment(platform.id, deploymentId);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        action: "lti.deployment.add",
+        targetType: "lti_platform",
+        targetId: platform.id,
+        after: deployment
+      });
+
+      return res.status(201).json(deployment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error adding LTI deployment:", error);
+      return res.status(500).json({ message: "Failed to add deployment" });
+    }
+  });
+
+  app.delete("/api/lti/platforms/:platformId/deployments/:deploymentId", requirePermission("lti:manage"), async (req, res) => {
+    try {
+      const platformId = parseInt(req.params.platformId);
+      const deployments: LtiDeployment[] = await storage.getLtiDeployments(platformId);
+      const deployment = deployments.find(d => d.id === parseInt(req.params.deploymentId));
+      if (!deployment) {
+        return res.status(404).json({ message: "Deployment not found" });
+      }
+
+      await storage.removeLtiDeployment(platformId, deployment.id);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        action: "lti.deployment.remove",
+        targetType: "lti_platform",
+        targetId: platformId,
+        before: deployment
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error removing LTI deployment:", error);
+      return res.status(500).json({ message: "Failed to remove deployment" });
+    }
+  });
+
+  // The launch itself is driven by the LMS in the user's browser, so problems are shown as plain text
+  app.get("/api/lti/jwks", (_req, res) => {
+    return res.json(getToolJwks());
+  });
+
+  const handleLtiLogin = async (req: Request, res: Response) => {
+    try {
+      const params = req.method === "POST" ? req.body : req.query;
+      return res.redirect(await initiateLaunch(req, res, params));
+    } catch (error) {
+      if (error instanceof LtiError) {
+        return res.status(400).type("text").send(error.message);
+      }
+      console.error("Error starting LTI launch:", error);
+      return res.status(500).type("text").send("Failed to start the launch");
+    }
+  };
+  app.get("/api/lti/login", handleLtiLogin);
+  app.post("/api/lti/login", handleLtiLogin);
+
+  app.post("/api/lti/launch", async (req, res, next) => {
+    try {
+      const { user, course } = await completeLaunch(req, res);
+      req.login(user, (err) => {
+        if (err) return next(err);
+        return res.redirect(`/?courseId=${course.id}`);
+      });
+    } catch (error) {
+      if (error instanceof ExternalLinkRequiredError) {
+        req.session.pendingExternalLink = error.pendingLink();
+        return res.redirect("/auth?ssoError=link_required");
+      }
+      if (error instanceof LtiError) {
+        return res.status(400).type("text").send(error.message);
+      }
+      console.error("Error completing LTI launch:", error);
+      return res.status(500).type("text").send("Failed to launch ClassParticipate");
+    }
+  });
+
+  if (process.env.LTI_MOCK_PLATFORM === "true" && app.get("env") !== "production") {
+    await setupMockLtiPlatform(app);
   }
 
-  if (!req.user) {
-    return res.status(401).json({ message: "Unauthorized: User data missing" });
-  }
+  // The LMS course a course is linked to, if any
+  app.get("/api/courses/:courseId/lti", requirePermission("course:view"), async (req, res) => {
+    try {
+      return res.json(await getCourseLtiLink(req.course!.id));
+    } catch (error) {
+      console.error("Error fetching LTI link:", error);
+      return res.status(500).json({ message: "Failed to fetch LMS link" });
+    }
+  });
+
+  app.post("/api/courses/:courseId/lti/grades", requirePermission("grades:publish"), async (req, res) => {
+    try {
+      const result = await sendGradesToLms(req.course!);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "grades.publish",
+        targetType: "course",
+        targetId: req.course!.id,
+        after: result
+      });
+
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof LtiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error sending grades to LMS:", error);
+      return res.status(500).json({ message: "Failed to send grades to the LMS" });
+    }
+  });
+
+  // Webhooks: course events posted to the admin's own integrations
+  app.get("/api/courses/:courseId/webhooks", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhooks: Webhook[] = await storage.getWebhooks(req.course!.id);
+      return res.json(webhooks.map(summarizeWebhook));
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      return res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  // The secret is only part of this response; receivers need it to check signatures
+  app.post("/api/courses/:courseId/webhooks", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhookData = insertWebhookSchema.parse(req.body);
+      const urlProblem = await checkWebhookUrl(webhookData.url);
+      if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
+      }
+
+      const webhook: Webhook = await storage.createWebhook({
+        ...webhookData,
+        events: Array.from(new Set(webhookData.events)),
+        courseId: req.course!.id,
+        secret: generateWebhookSecret(),
+        createdBy: req.user!.id
+      });
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "webhook.create",
+        targetType: "webhook",
+        targetId: webhook.id,
+        after: summarizeWebhook(webhook)
+      });
+
+      return res.status(201).json({ ...summarizeWebhook(webhook), secret: webhook.secret } satisfies CreatedWebhook);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating webhook:", error);
+      return res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/courses/:courseId/webhooks/:webhookId", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhookId = parseInt(req.params.webhookId);
+      const existing: Webhook | undefined = await storage.getWebhook(webhookId);
+      if (!existing || existing.courseId !== req.course!.id) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const updates = updateWebhookSchema.parse(req.body);
+      const urlProblem = updates.url ? await checkWebhookUrl(updates.url) : null;
+      if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
+      }
+      if (updates.events) {
+        updates.events = Array.from(new Set(updates.events));
+      }
+      const webhook = await storage.updateWebhook(webhookId, updates);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "webhook.update",
+        targetType: "webhook",
+        targetId: webhookId,
+        before: summarizeWebhook(existing),
+        after: summarizeWebhook(webhook)
+      });
+
+      return res.json(summarizeWebhook(webhook));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating webhook:", error);
+      return res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/courses/:courseId/webhooks/:webhookId", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhookId = parseInt(req.params.webhookId);
+      const existing: Webhook | undefined = await storage.getWebhook(webhookId);
+      if (!existing || existing.courseId !== req.course!.id) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      await storage.deleteWebhook(webhookId);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "webhook.delete",
+        targetType: "webhook",
+        targetId: webhookId,
+        before: summarizeWebhook(existing)
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      return res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // The latest 50 deliveries of a webhook, newest first, with the outcome of their last attempt
+  app.get("/api/courses/:courseId/webhooks/:webhookId/deliveries", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhook: Webhook | undefined = await storage.getWebhook(parseInt(req.params.webhookId));
+      if (!webhook || webhook.courseId !== req.course!.id) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      return res.json(await storage.getWebhookDeliveries(webhook.id, 50));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      return res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post(
+    "/api/courses/:courseId/webhooks/:webhookId/deliveries/:deliveryId/replay",
+    requirePermission("webhooks:manage"),
+    async (req, res) => {
+      try {
+        const webhook: Webhook | undefined = await storage.getWebhook(parseInt(req.params.webhookId));
+        const delivery: WebhookDelivery | undefined = await storage.getWebhookDelivery(parseInt(req.params.deliveryId));
+        if (!webhook || webhook.courseId !== req.course!.id || !delivery || delivery.webhookId !== webhook.id) {
+          return res.status(404).json({ message: "Delivery not found" });
+        }
+        if (!webhook.active) {
+          return res.status(400).json({ message: "Resume the webhook before replaying its deliveries" });
+        }
+
+        const replay = await replayWebhookDelivery(delivery);
+
+        await recordAuditEvent({
+          actorId: req.user!.id,
+          courseId: req.course!.id,
+          action: "webhook.replay",
+          targetType: "webhook_delivery",
+          targetId: replay.id,
+          after: { webhookId: webhook.id, replayOf: delivery.id, eventType: delivery.eventType }
+        });
+
+        return res.status(201).json(replay);
+      } catch (error) {
+        console.error("Error replaying webhook delivery:", error);
+        return res.status(500).json({ message: "Failed to replay webhook delivery" });
+      }
+    }
+  );
+
+  // Roster import: the preview runs the same checks as the import without changing anything
+  app.post("/api/courses/:courseId/roster/preview", requirePermission("roster:manage"), async (req, res) => {
+    try {
+      const input = rosterImportSchema.parse(req.body);
+      return res.json(await importRoster(req.course!, input, { apply: false }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error previewing roster import:", error);
+      return res.status(500).json({ message: "Failed to read roster" });
+    }
+  });
+
+  app.post("/api/courses/:courseId/roster/import", requirePermission("roster:manage"), requireSession, async (req, res) => {
+    try {
+      const input = rosterImportSchema.parse(req.body);
+      const result = await importRoster(req.course!, input, {
+        apply: true,
+        appUrl: getAppUrl(req),
+        importedBy: req.user!.id,
+      });
+
+      const count = (status: string) => result.rows.filter(row => row.status === status).length;
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "roster.import",
+        targetType: "course",
+        targetId: req.course!.id,
+        after: {
+          created: count("create"),
+          enrolled: count("create") + count("enroll"),
+          unenrolled: result.unenrolled,
+          errors: count("error")
+        }
+      });
+
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error importing roster:", error);
+      return res.status(500).json({ message: "Failed to import roster" });
+    }
+  });
+
+  // TAs assigned to a course; new ones join through a TA invitation
+  app.get("/api/courses/:courseId/staff", requirePermission("roster:view"), async (req, res) => {
+    try {
+      const staff: User[] = await storage.getCourseStaff(req.course!.id);
+      return res.json(sanitizeUsers(staff));
+    } catch (error) {
+      console.error("Error fetching course staff:", error);
+      return res.status(500).json({ message: "Failed to fetch course staff" });
+    }
+  });
+
+  app.delete("/api/courses/:courseId/staff/:userId", requirePermission("staff:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const removed = await storage.removeCourseStaff(req.course!.id, userId);
+      if (!removed) {
+        return res.status(404).json({ message: "TA not found in this course" });
+      }
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "staff.remove",
+        targetType: "user",
+        targetId: userId
+      });
+
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error removing course staff:", error);
+      return res.status(500).json({ message: "Failed to remove TA" });
+    }
+  });
 
-  // For debugging, log the user object
-  console.log("User object in ensureAdmin:", {
-    id: req.user.id,
-    username: req.user.username,
-    role: req.user.role
+  // Points rubric of a course; students can see it too
+  app.get("/api/courses/:courseId/rubric", requirePermission("course:view"), async (req, res) => {
+    try {
+      return res.json(await storage.getRubricCategories(req.course!.id));
+    } catch (error) {
+      console.error("Error fetching rubric:", error);
+      return res.status(500).json({ message: "Failed to fetch rubric" });
+    }
   });
 
-  // Actually check if the user is an admin
-  if (req.user.role === "admin") {
-    return next();
-  }
+  app.post("/api/courses/:courseId/rubric", requirePermission("grading:manage"), async (req, res) => {
+    try {
+      const categoryData = insertRubricCategorySchema.parse(req.body);
+      const category = await storage.createRubricCategory(req.course!.id, categoryData);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "rubric.create",
+        targetType: "rubric_category",
+        targetId: category.id,
+        after: category
+      });
 
-  // Return a proper error message
-  res.status(403).json({ message: "Forbidden: Admin access required" });
-};
+      return res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating rubric category:", error);
+      return res.status(500).json({ message: "Failed to create rubric category" });
+    }
+  });
 
-type WebSocketMessage = {
-  type: string;
-  payload: any;
-};
+  // Records already awarded keep their points when a category changes
+  app.patch("/api/courses/:courseId/rubric/:categoryId", requirePermission("grading:manage"), async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.categoryId);
+      const existing = await storage.getRubricCategory(categoryId);
+      if (!existing || existing.courseId !== req.course!.id) {
+        return res.status(404).json({ message: "Rubric category not found" });
+      }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Set up authentication routes
-  setupAuth(app);
+      const updates = insertRubricCategorySchema.partial().parse(req.body);
+      const category = await storage.updateRubricCategory(categoryId, updates);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "rubric.update",
+        targetType: "rubric_category",
+        targetId: categoryId,
+        before: existing,
+        after: category
+      });
 
-  const httpServer = createServer(app);
+      return res.json(category);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating rubric category:", error);
+      return res.status(500).json({ message: "Failed to update rubric category" });
+    }
+  });
 
-  // Set up WebSocket server for real-time updates
-  console.log("Setting up WebSocket server on path /ws");
-  const wss = new WebSocketServer({
-    server: httpServer,
-    path: "/ws",
-    perMessageDeflate: false,
-    // Add a longer ping timeout to help with reconnection issues
-    clientTracking: true
-  });
-
-  // Keep track of connected clients by user ID
-  const connectedClients = new Map<number, Set<WebSocket>>();
-
-  // Set up a interval to check connection status and clean up dead connections
-  const connectionCheckInterval = setInterval(() => {
-    // Check each connection
-    wss.clients.forEach(client => {
-      if (client.readyState !== WebSocket.OPEN) {
-        try {
-          client.terminate();
-        } catch (err) {
-          // Ignore errors on termination
-        }
+  app.delete("/api/courses/:courseId/rubric/:categoryId", requirePermission("grading:manage"), async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.categoryId);
+      const existing = await storage.getRubricCategory(categoryId);
+      if (!existing || existing.courseId !== req.course!.id) {
+        return res.status(404).json({ message: "Rubric category not found" });
       }
-    });
 
-    // Log current connected users
-    if (wss.clients.size > 0) {
-      console.log(`Active WebSocket connections: ${wss.clients.size}`);
-    }
-  }, 60000); // Check every minute
+      await storage.deleteRubricCategory(categoryId);
 
-  // Clean up interval on server shutdown
-  httpServer.on('close', () => {
-    clearInterval(connectionCheckInterval);
-  });
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "rubric.delete",
+        targetType: "rubric_category",
+        targetId: categoryId,
+        before: existing
+      });
 
-  // WebSocket connection handler
-  wss.on("connection", (ws, req) => {
-    const clientIp = req.socket.remoteAddress || 'unknown';
-    console.log(`WebSocket client connected from ${clientIp}`);
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting rubric category:", error);
+      return res.status(500).json({ message: "Failed to delete rubric category" });
+    }
+  });
 
-    // Send a welcome message to verify the connection works
+  // How the course turns points into a grade; students can see it too
+  app.get("/api/courses/:courseId/grading-policy", requirePermission("course:view"), async (req, res) => {
     try {
-      ws.send(JSON.stringify({ type: "welcome", payload: { message: "Connected to ClassTrack WebSocket server" } }));
+      return res.json(await getGradingPolicy(req.course!.id));
     } catch (error) {
-      console.error("Error sending welcome message:", error);
+      console.error("Error fetching grading policy:", error);
+      return res.status(500).json({ message: "Failed to fetch grading policy" });
     }
+  });
 
-    // Initialize connection data
-    let userId: number | null = null;
-
-    // Handler for client messages
-    ws.on("message", async (message) => {
-      try {
-        const messageStr = message.toString();
-        const parsedMessage = JSON.parse(messageStr) as WebSocketMessage;
-
-        // Handle different message types
-        switch (parsedMessage.type) {
-          case "ping":
-            // Respond to ping with pong but don't log to reduce noise
-            ws.send(JSON.stringify({ type: "pong" }));
-            break;
-
-          case "join":
-            // User is joining a room - store their info
-            userId = parsedMessage.payload.userId;
-
-            if (!userId) {
-              console.warn("Received join message without userId");
-              break;
-            }
-
-            // Associate this connection with the user ID
-            (ws as any).userData = { userId };
-
-            // Register in connected clients
-            if (!connectedClients.has(userId)) {
-              connectedClients.set(userId, new Set());
-            }
-            connectedClients.get(userId)!.add(ws);
-
-            console.log(`User ${userId} joined WebSocket room`);
-
-            // Confirm the join
-            ws.send(JSON.stringify({
-              type: "joinConfirmed",
-              payload: {
-                userId,
-                courseName: DEFAULT_COURSE.name,
-                message: "Successfully joined WebSocket room"
-              }
-            }));
-            break;
-
-          default:
-            // Log other message types
-            if (parsedMessage.type !== "ping" && parsedMessage.type !== "pong") {
-              console.log(`Received message type: ${parsedMessage.type}`);
-            }
-        }
-      } catch (error) {
-        console.error("WebSocket message error:", error);
-      }
-    });
-
-    // Handle connection errors
-    ws.on("error", (error) => {
-      console.error("WebSocket connection error:", error);
-    });
-
-    // Handle connection close
-    ws.on("close", (code, reason) => {
-      // Remove from connected clients map
-      if (userId) {
-        const userConnections = connectedClients.get(userId);
-        if (userConnections) {
-          userConnections.delete(ws);
-          if (userConnections.size === 0) {
-            connectedClients.delete(userId);
-          }
-        }
+  app.put("/api/courses/:courseId/grading-policy", requirePermission("grading:manage"), async (req, res) => {
+    try {
+      const settings = gradingPolicySchema.parse(req.body);
+      const before = await getGradingPolicy(req.course!.id);
+      const policy = await storage.saveGradingPolicy(req.course!.id, settings);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "grading_policy.update",
+        targetType: "course",
+        targetId: req.course!.id,
+        before,
+        after: policy
+      });
 
-        // Don't log normal closures to reduce console noise
-        if (code !== 1000 && code !== 1001 && code !== 1005) {
-          console.log(`WebSocket client (user ${userId}) disconnected with code ${code}`);
-        }
+      return res.json(policy);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
       }
-    });
+      console.error("Error saving grading policy:", error);
+      return res.status(500).json({ message: "Failed to save grading policy" });
+    }
   });
 
-  // Log any server-level errors
-  wss.on("error", (error) => {
-    console.error("WebSocket server error:", error);
+  // Class session routes (a single meeting of the course)
+  app.get("/api/class-sessions", requirePermission("course:view"), async (req, res) => {
+    try {
+      const sessions = await storage.getClassSessionsByCourse(req.course!.id);
+      return res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching class sessions:", error);
+      return res.status(500).json({ message: "Failed to fetch class sessions" });
+    }
   });
 
-  // Broadcast to all clients
-  const broadcastToAll = (message: WebSocketMessage) => {
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        try {
-          client.send(JSON.stringify(message));
-        } catch (error) {
-          console.error("WebSocket broadcast error:", error);
-        }
-      }
-    });
-  };
-
-  // User route - Get all students
-  app.get("/api/students", ensureAuthenticated, async (req, res) => {
+  // The open session for a course, or null between classes
+  app.get("/api/class-sessions/current", requirePermission("course:view"), async (req, res) => {
     try {
-      const students = await storage.getAllStudents();
-      return res.json(sanitizeUsers(students));
+      const session = await storage.getOpenClassSession(req.course!.id);
+      return res.json(session ?? null);
     } catch (error) {
-      console.error("Error fetching students:", error);
-      return res.status(500).json({ message: "Failed to fetch students" });
+      console.error("Error fetching current class session:", error);
+      return res.status(500).json({ message: "Failed to fetch current class session" });
     }
   });
 
-  // Course info
-  app.get("/api/course", ensureAuthenticated, async (req, res) => {
-    return res.json(DEFAULT_COURSE);
+  app.post("/api/class-sessions", requirePermission("session:manage"), async (req, res) => {
+    try {
+      const sessionData = insertClassSessionSchema.parse({
+        ...req.body,
+        courseId: req.course!.id,
+      });
+
+      const openSession = await storage.getOpenClassSession(req.course!.id);
+      if (openSession) {
+        return res.status(400).json({ message: "A class session is already open for this course" });
+      }
+
+      const session = await storage.createClassSession(sessionData);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "session.open",
+        targetType: "class_session",
+        targetId: session.id,
+        after: session
+      });
+
+      await events.publish({
+        type: "sessionOpened",
+        course: req.course!,
+        audience: "course",
+        payload: session
+      });
+
+      return res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error opening class session:", error);
+      return res.status(500).json({ message: "Failed to open class session" });
+    }
   });
 
-  // Participation request routes (raise hand)
-  app.post("/api/participation-requests", ensureAuthenticated, async (req, res) => {
+  // Closing a session also clears whatever is left in the queue
+  app.post("/api/class-sessions/:id/close", ensureAuthenticated, async (req, res) => {
     try {
-      if (req.user!.role !== "student") {
-        return res.status(403).json({ message: "Only students can raise hands" });
+      const sessionId = parseInt(req.params.id);
+      const existingSession = await storage.getClassSession(sessionId);
+
+      if (!existingSession) {
+        return res.status(404).json({ message: "Class session not found" });
       }
 
+      const course = await storage.getCourse(existingSession.courseId);
+      if (!course || !(await authorize(req.user!, course, "session:manage"))) {
+        return res.status(403).json({ message: "Not authorized to close this class session" });
+      }
+
+      const session = await storage.closeClassSession(sessionId);
+      if (!session) {
+        return res.status(400).json({ message: "Class session is already closed" });
+      }
+
+      const clearedCount = await storage.deactivateParticipationRequestsByCourse(session.courseId);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: session.courseId,
+        action: "session.close",
+        targetType: "class_session",
+        targetId: session.id,
+        before: existingSession,
+        after: { ...session, clearedCount }
+      });
+
+      await events.publish({
+        type: "sessionClosed",
+        course,
+        audience: "course",
+        payload: { ...session, clearedCount }
+      });
+
+      return res.json(session);
+    } catch (error) {
+      console.error("Error closing class session:", error);
+      return res.status(500).json({ message: "Failed to close class session" });
+    }
+  });
+
+  // Participation request routes (raise hand)
+  app.post("/api/participation-requests", requirePermission("queue:join"), async (req, res) => {
+    try {
       const requestData = insertParticipationRequestSchema.parse({
         ...req.body,
         studentId: req.user!.id,
+        courseId: req.course!.id,
       });
 
-      // Check if student already has an active request
-      const hasActiveRequest = await storage.hasActiveParticipationRequest(req.user!.id);
+      // Hands can only be raised while a class session is open
+      const openSession = await storage.getOpenClassSession(req.course!.id);
+      if (!openSession) {
+        return res.status(400).json({ message: "Class is not in session" });
+      }
+
+      // Check if student already has an active request in this course
+      const hasActiveRequest = await storage.hasActiveParticipationRequest(req.user!.id, req.course!.id);
 
       if (hasActiveRequest) {
         return res.status(400).json({ message: "You already have an active participation request" });
       }
 
-      const request = await storage.createParticipationRequest(requestData);
+      const request = await storage.createParticipationRequest({
+        ...requestData,
+        sessionId: openSession.id,
+      });
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "request.create",
+        targetType: "participation_request",
+        targetId: request.id,
+        after: request
+      });
 
-      // Broadcast the new request to all clients
-      broadcastToAll({
+      // Send the new request to the course staff
+      await events.publish({
         type: "participationRequest",
+        course: req.course!,
+        audience: "staff",
         payload: {
           ...request,
           student: {
@@ -285,9 +1395,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/participation-requests", ensureAuthenticated, async (req, res) => {
+  app.get("/api/participation-requests", requirePermission("course:view"), async (req, res) => {
     try {
-      const requests = await storage.getActiveParticipationRequests();
+      const requests = await storage.getActiveParticipationRequests(req.course!.id);
+
+      // Students only ever see their own raised hand, not who else is waiting
+      if (!hasPermission(req.courseRole, "queue:view")) {
+        return res.json(requests.filter(request => request.studentId === req.user!.id));
+      }
+
       return res.json(requests);
     } catch (error) {
       return res.status(500).json({ message: "Error fetching participation requests" });
@@ -303,17 +1419,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Participation request not found" });
       }
 
-      // Verify access to deactivate this request
-      if (req.user!.role === "student" && request.studentId !== req.user!.id) {
+      // Students can lower their own hand; lowering anybody else's takes running the queue
+      const course = await storage.getCourse(request.courseId);
+      const permission = request.studentId === req.user!.id ? "queue:join" : "queue:manage";
+      if (!course || !(await authorize(req.user!, course, permission))) {
         return res.status(403).json({ message: "Not authorized to deactivate this request" });
       }
 
       const updatedRequest = await storage.deactivateParticipationRequest(requestId);
 
-      // Broadcast the deactivation to all clients
-      broadcastToAll({
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: request.courseId,
+        action: "request.deactivate",
+        targetType: "participation_request",
+        targetId: requestId,
+        before: request,
+        after: updatedRequest
+      });
+
+      // Notify the course staff and the student whose hand was lowered
+      await events.publish({
         type: "participationRequestDeactivated",
-        payload: { id: requestId }
+        course,
+        audience: "staff",
+        studentIds: [request.studentId],
+        payload: { id: requestId, courseId: request.courseId }
       });
 
       return res.json(updatedRequest);
@@ -323,48 +1454,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Participation record routes (award points)
-  app.post("/api/participation-records", ensureAdmin, async (req, res) => {
+  app.post("/api/participation-records", requirePermission("records:award"), async (req, res) => {
     try {
-      console.log("Received participation record request:", req.body);
-
-      // Extract requestId before validation as it's not part of the schema
-      const requestId = req.body.requestId ? parseInt(req.body.requestId) : null;
+      const award = awardParticipationSchema.parse(req.body);
+      const requestId = award.requestId ?? null;
+      const request = requestId ? await storage.getParticipationRequestById(requestId) : undefined;
+
+      // Link the record to the session the hand was raised in, or else the session in progress
+      const openSession = await storage.getOpenClassSession(req.course!.id);
+      const sessionId = request && request.courseId === req.course!.id
+        ? request.sessionId
+        : openSession?.id ?? null;
+
+      // Points are awarded for a rubric category, and must be what the category is worth
+      const category = await storage.getRubricCategory(award.categoryId);
+      if (!category || category.courseId !== req.course!.id) {
+        return res.status(400).json({ message: "Choose a category from the course rubric" });
+      }
+      if (award.points !== undefined && award.points !== category.points) {
+        return res.status(400).json({ message: `${category.name} is worth ${category.points} point(s)` });
+      }
+      const awardLimit = getAwardLimit(req.course!, req.courseRole);
+      if (awardLimit !== null && category.points > awardLimit) {
+        return res.status(403).json({ message: `TAs can award at most ${awardLimit} point(s) at a time` });
+      }
 
-      // Only pass schema-valid fields to parser
-      const { studentId, points, feedback, note } = req.body;
       const recordData = insertParticipationRecordSchema.parse({
-        studentId,
-        points,
-        feedback,
-        note
+        studentId: award.studentId,
+        courseId: req.course!.id,
+        sessionId,
+        categoryId: category.id,
+        points: category.points,
+        feedback: award.feedback,
+        note: award.note
       });
 
-      // Verify the student exists
+      // Verify the student exists and is enrolled in this course
       const student = await storage.getUser(recordData.studentId);
       if (!student || student.role !== "student") {
         return res.status(400).json({ message: "Invalid student ID" });
       }
+      if (!(await storage.isStudentEnrolled(student.id, req.course!.id))) {
+        return res.status(400).json({ message: "Student is not enrolled in this course" });
+      }
+
+      if (sessionId && category.maxPerSession !== null) {
+        const awarded = await storage.countSessionRecordsInCategory(student.id, sessionId, category.id);
+        if (awarded >= category.maxPerSession) {
+          return res.status(400).json({
+            message: `${category.name} can only be awarded ${category.maxPerSession} time(s) per session`
+          });
+        }
+      }
 
       const record = await storage.createParticipationRecord(recordData);
 
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "record.create",
+        targetType: "participation_record",
+        targetId: record.id,
+        after: { ...record, requestId }
+      });
+
       // If this is tied to a participation request, deactivate it
       if (requestId) {
-        const request = await storage.getParticipationRequestById(requestId);
-
-        if (request && request.active) {
-          await storage.deactivateParticipationRequest(requestId);
+        if (request && request.active && request.courseId === req.course!.id) {
+          const updatedRequest = await storage.deactivateParticipationRequest(requestId);
+
+          await recordAuditEvent({
+            actorId: req.user!.id,
+            courseId: request.courseId,
+            action: "request.deactivate",
+            targetType: "participation_request",
+            targetId: requestId,
+            before: request,
+            after: updatedRequest
+          });
 
-          // Broadcast deactivation
-          broadcastToAll({
+          // Notify the course staff and the student whose hand was lowered
+          await events.publish({
             type: "participationRequestDeactivated",
-            payload: { id: requestId }
+            course: req.course!,
+            audience: "staff",
+            studentIds: [request.studentId],
+            payload: { id: requestId, courseId: request.courseId }
           });
         }
       }
 
-      // Broadcast the new record
-      broadcastToAll({
+      // Send the new record to the course staff and the student it belongs to only
+      await events.publish({
         type: "participationRecordCreated",
+        course: req.course!,
+        audience: "staff",
+        studentIds: [student.id],
         payload: {
           ...record,
           student: {
@@ -386,94 +1571,370 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/participation-records", ensureAuthenticated, async (req, res) => {
+  // One page of a course's records; filters and the cursor are applied by the storage layer
+  app.get("/api/participation-records", requirePermission("course:view"), async (req, res) => {
     try {
-      const showHidden = req.query.showHidden === 'true';
-
-      if (req.user!.role === "admin") {
-        const records = await storage.getAllParticipationRecords();
+      const filter = participationRecordFilterSchema.parse(req.query);
+      const page = pageRequestSchema.parse(req.query);
 
-        // Filter out hidden records if showHidden is false
-        const filteredRecords = showHidden
-          ? records
-          : records.filter((record: ParticipationRecordWithStudent) => !record.hidden);
-
-        return res.json(filteredRecords);
-      } else {
-        const records = await storage.getParticipationRecordsByStudent(req.user!.id);
-
-        // Filter out hidden records if showHidden is false
-        const filteredRecords = showHidden
-          ? records
-          : records.filter((record: ParticipationRecord) => !record.hidden);
-
-        return res.json(filteredRecords);
+      // Students only ever see their own records
+      if (!hasPermission(req.courseRole, "records:view")) {
+        filter.studentId = req.user!.id;
       }
+
+      const records = await storage.getParticipationRecordsPage(req.course!.id, filter, page);
+      return res.json(records);
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
       return res.status(500).json({ message: "Error fetching participation records" });
     }
   });
 
   // Delete all today's participation records
-  app.delete("/api/participation-records/today", ensureAdmin, async (req, res) => {
+  app.delete("/api/participation-records/today", requirePermission("records:delete"), async (req, res) => {
     try {
-      // Get today's date in UTC to match database storage logic
-      const today = new Date();
-
-      // Delete all records from today
-      const deletedCount = await storage.deleteParticipationRecordsFromDate(today);
+      // "Today" runs from midnight to midnight in the course's time zone
+      const now = new Date();
+      const today = getDateKey(now, req.course!.timeZone);
+      const day = getDayRange(now, req.course!.timeZone);
+
+      // Delete all records from today in this course, as one batch that can be restored with a single undo
+      const batchId = randomUUID();
+      const deletedCount = await storage.deleteParticipationRecordsFromDate(req.course!.id, day, batchId);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "records.delete_day",
+        targetType: "course",
+        targetId: req.course!.id,
+        after: { date: today, count: deletedCount, batchId }
+      });
 
-      // Broadcast the deletion to all clients
-      broadcastToAll({
+      // Let everyone in the course know (the payload carries no private data)
+      await events.publish({
         type: "participationRecordsDeleted",
-        payload: { date: today.toISOString() }
+        course: req.course!,
+        audience: "course",
+        payload: { courseId: req.course!.id, date: today, batchId }
       });
 
-      return res.json({ message: `Deleted ${deletedCount} participation records from today`, count: deletedCount });
+      return res.json({
+        message: `Deleted ${deletedCount} participation records from today`,
+        count: deletedCount,
+        batchId
+      } satisfies ParticipationRecordsBatchResult);
     } catch (error) {
       console.error("Error deleting today's participation records:", error);
       return res.status(500).json({ message: "Failed to delete today's participation records" });
     }
   });
 
-  app.get("/api/students/:id/participation-records", ensureAdmin, async (req, res) => {
+  // Restore soft-deleted records by the batch id of the delete call, or by day
+  app.post("/api/participation-records/restore", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const { batchId, date } = restoreParticipationRecordsSchema.parse(req.body);
+
+      const restoredCount = batchId
+        ? await storage.restoreParticipationRecordsByBatch(req.course!.id, batchId)
+        : await storage.restoreParticipationRecordsFromDate(req.course!.id, getDayRange(date!, req.course!.timeZone));
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: req.course!.id,
+        action: "records.restore",
+        targetType: "course",
+        targetId: req.course!.id,
+        after: { batchId, date: date && getDateKey(date, req.course!.timeZone), count: restoredCount }
+      });
+
+      await events.publish({
+        type: "participationRecordsRestored",
+        course: req.course!,
+        audience: "course",
+        payload: { courseId: req.course!.id, count: restoredCount }
+      });
+
+      return res.json({
+        message: `Restored ${restoredCount} participation records`,
+        count: restoredCount
+      } satisfies ParticipationRecordsBatchResult);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error restoring participation records:", error);
+      return res.status(500).json({ message: "Failed to restore participation records" });
+    }
+  });
+
+  // Restore a single soft-deleted record
+  app.post("/api/participation-records/:id/restore", ensureAuthenticated, async (req, res) => {
+    try {
+      const recordId = parseInt(req.params.id);
+      const record = await storage.getParticipationRecordById(recordId);
+
+      if (!record) {
+        return res.status(404).json({ message: "Participation record not found" });
+      }
+
+      const course = await storage.getCourse(record.courseId);
+      if (!course || !(await authorize(req.user!, course, "records:delete"))) {
+        return res.status(403).json({ message: "Not authorized to restore this record" });
+      }
+
+      if (!record.hidden) {
+        return res.status(400).json({ message: "Participation record is not deleted" });
+      }
+
+      const restoredRecord = await storage.restoreParticipationRecord(recordId);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: record.courseId,
+        action: "record.restore",
+        targetType: "participation_record",
+        targetId: recordId,
+        before: record,
+        after: restoredRecord
+      });
+
+      await events.publish({
+        type: "participationRecordsRestored",
+        course,
+        audience: "course",
+        payload: { courseId: record.courseId, count: 1 }
+      });
+
+      return res.json(restoredRecord);
+    } catch (error) {
+      console.error("Error restoring participation record:", error);
+      return res.status(500).json({ message: "Failed to restore participation record" });
+    }
+  });
+
+  // Correct the points, feedback or note of a single record
+  app.patch("/api/participation-records/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const recordId = parseInt(req.params.id);
+      const record = await storage.getParticipationRecordById(recordId);
+
+      if (!record) {
+        return res.status(404).json({ message: "Participation record not found" });
+      }
+
+      const course = await storage.getCourse(record.courseId);
+      if (!course || !(await authorize(req.user!, course, "records:edit"))) {
+        return res.status(403).json({ message: "Not authorized to edit this record" });
+      }
+
+      const updates = updateParticipationRecordSchema.parse(req.body);
+
+      // Corrections can't award more than the rubric's most valuable category
+      if (updates.points !== undefined) {
+        const rubric: RubricCategory[] = await storage.getRubricCategories(course.id);
+        const maxPoints = Math.max(...rubric.map(category => category.points));
+        if (rubric.length > 0 && updates.points > maxPoints) {
+          return res.status(400).json({ message: `Points can't exceed ${maxPoints}, the most the rubric awards` });
+        }
+      }
+
+      const updatedRecord = await storage.updateParticipationRecord(recordId, updates);
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: record.courseId,
+        action: "record.update",
+        targetType: "participation_record",
+        targetId: recordId,
+        before: record,
+        after: updatedRecord
+      });
+
+      // Notify the course staff and the student the record belongs to
+      await events.publish({
+        type: "participationRecordUpdated",
+        course,
+        audience: "staff",
+        studentIds: [record.studentId],
+        payload: updatedRecord
+      });
+
+      return res.json(updatedRecord);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating participation record:", error);
+      return res.status(500).json({ message: "Failed to update participation record" });
+    }
+  });
+
+  // Delete a single record (soft delete, like "Delete All")
+  app.delete("/api/participation-records/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const recordId = parseInt(req.params.id);
+      const record = await storage.getParticipationRecordById(recordId);
+
+      if (!record) {
+        return res.status(404).json({ message: "Participation record not found" });
+      }
+
+      const course = await storage.getCourse(record.courseId);
+      if (!course || !(await authorize(req.user!, course, "records:delete"))) {
+        return res.status(403).json({ message: "Not authorized to delete this record" });
+      }
+
+      const hiddenRecord = await storage.hideParticipationRecord(recordId, randomUUID());
+
+      await recordAuditEvent({
+        actorId: req.user!.id,
+        courseId: record.courseId,
+        action: "record.delete",
+        targetType: "participation_record",
+        targetId: recordId,
+        before: record,
+        after: hiddenRecord
+      });
+
+      // Notify the course staff and the student the record belongs to
+      await events.publish({
+        type: "participationRecordUpdated",
+        course,
+        audience: "staff",
+        studentIds: [record.studentId],
+        payload: hiddenRecord
+      });
+
+      return res.json(hiddenRecord);
+    } catch (error) {
+      console.error("Error deleting participation record:", error);
+      return res.status(500).json({ message: "Failed to delete participation record" });
+    }
+  });
+
+  app.get("/api/students/:id/participation-records", requirePermission("records:view"), async (req, res) => {
     try {
       const studentId = parseInt(req.params.id);
       const student = await storage.getUser(studentId);
-      const showHidden = req.query.showHidden === 'true';
+      const filter = participationRecordFilterSchema.parse(req.query);
 
       if (!student || student.role !== "student") {
         return res.status(404).json({ message: "Student not found" });
       }
 
-      const records = await storage.getParticipationRecordsByStudent(studentId);
-
-      // Filter out hidden records if showHidden is false
-      const filteredRecords = showHidden
-        ? records
-        : records.filter((record: ParticipationRecord) => !record.hidden);
-
-      return res.json(filteredRecords);
+      const records = await storage.getParticipationRecordsByStudent(studentId, req.course!.id, {
+        ...filter,
+        studentId: undefined
+      });
+      return res.json(records);
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
       return res.status(500).json({ message: "Error fetching student participation records" });
     }
   });
 
-  app.get("/api/students/:id/participation-points", ensureAuthenticated, async (req, res) => {
+  app.get("/api/students/:id/participation-points", requirePermission("course:view"), async (req, res) => {
     try {
       const studentId = parseInt(req.params.id);
 
       // Students can only view their own points
-      if (req.user!.role === "student" && req.user!.id !== studentId) {
+      if (req.user!.id !== studentId && !hasPermission(req.courseRole, "grades:view")) {
         return res.status(403).json({ message: "Not authorized to view other student's points" });
       }
 
-      const points = await storage.getTotalParticipationPointsByStudent(studentId);
-      return res.json({ studentId, points });
+      const points = await storage.getTotalParticipationPointsByStudent(studentId, req.course!.id);
+      return res.json({ studentId, courseId: req.course!.id, points } satisfies ParticipationPoints);
     } catch (error) {
       return res.status(500).json({ message: "Error fetching participation points" });
     }
   });
 
+  // Participation grades under the course's grading policy; students only get their own
+  app.get("/api/grades", requirePermission("course:view"), async (req, res) => {
+    try {
+      const studentId = hasPermission(req.courseRole, "grades:view") ? undefined : req.user!.id;
+      return res.json(await getCourseGrades(req.course!, studentId));
+    } catch (error) {
+      console.error("Error fetching grades:", error);
+      return res.status(500).json({ message: "Failed to fetch grades" });
+    }
+  });
+
+  // Gradebook for an LMS import, or a dump of the matching records, streamed as it's produced
+  app.get("/api/exports", requirePermission("records:export"), async (req, res) => {
+    try {
+      const { format, ...filter } = exportQuerySchema.parse(req.query);
+      await streamExport(res, req.course!, format, filter);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error exporting participation data:", error);
+      // Once rows have gone out the status can't change, so cut the download short instead
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      return res.status(500).json({ message: "Failed to export participation data" });
+    }
+  });
+
+  // Per-student totals, percentile rank and trend over a date range
+  app.get("/api/stats/students", requirePermission("stats:view"), async (req, res) => {
+    try {
+      const { range } = studentStatsQuerySchema.parse(req.query);
+      const stats = await getStudentStats(req.course!, range);
+      return res.json(stats);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error fetching student stats:", error);
+      return res.status(500).json({ message: "Failed to fetch student statistics" });
+    }
+  });
+
+  // Audit trail for a course, newest first
+  app.get("/api/audit", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const filter = auditEventFilterSchema.parse(req.query);
+      const events = await storage.getAuditEvents(req.course!.id, filter);
+      return res.json(events);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error fetching audit events:", error);
+      return res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  // Audit trail of the events outside any course (registrations, logins, password changes), newest first
+  app.get("/api/audit/site", requirePermission("audit:site"), async (req, res) => {
+    try {
+      const filter = auditEventFilterSchema.parse(req.query);
+      const events = await storage.getAuditEvents(null, filter);
+      return res.json(events);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error fetching site audit events:", error);
+      return res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
   return httpServer;
 }
\ No newline at end of file
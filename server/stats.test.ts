@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemStorage, setStorage } from "./storage";
+import { getStudentStats, getTermBounds } from "./stats";
+import type { Course, Term } from "@shared/schema";
+
+const TIME_ZONE = "America/Santiago";
+
+// Starts on a day whose midnight Santiago skips, and ends in summer time (UTC-3)
+const TERM = { name: "Spring 2025", startDate: "2025-09-07", endDate: "2025-12-12", holidays: [] };
+
+describe("getTermBounds", () => {
+  it("runs from the first day's start to the start of the day after the last", () => {
+    const bounds = getTermBounds({ id: 1, ...TERM }, TIME_ZONE);
+    expect(bounds.start.toISOString()).toBe("2025-09-07T04:00:00.000Z");
+    expect(bounds.end.toISOString()).toBe("2025-12-13T03:00:00.000Z");
+  });
+});
+
+describe("getStudentStats", () => {
+  let storage: MemStorage;
+  let course: Course;
+
+  // Records are stamped with the current time, so the clock is set to each record's instant
+  async function recordAt(instant: string, points: number) {
+    vi.setSystemTime(new Date(instant));
+    await storage.createParticipationRecord({ courseId: course.id, studentId: 2, sessionId: null, categoryId: null, points });
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    storage = new MemStorage();
+    setStorage(storage);
+
+    const term: Term = await storage.createTerm(TERM);
+    course = (await storage.updateCourse(1, { termId: term.id, timeZone: TIME_ZONE }))!;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts the semester by the course's local days", async () => {
+    await recordAt("2025-09-07T03:59:59Z", 1); // the evening before the term, local time
+    await recordAt("2025-09-07T04:00:00Z", 2); // the term's first instant
+    await recordAt("2025-12-13T02:59:59Z", 4); // the last evening of the term
+    await recordAt("2025-12-13T03:00:00Z", 8); // the day after the term
+    vi.setSystemTime(new Date("2025-12-20T12:00:00Z"));
+
+    const stats = await getStudentStats(course, "semester");
+    expect(stats.from?.toISOString()).toBe("2025-09-07T04:00:00.000Z");
+    expect(stats.to.toISOString()).toBe("2025-12-13T03:00:00.000Z");
+    expect(stats.students).toHaveLength(1);
+    expect(stats.students[0].totalPoints).toBe(6);
+    expect(stats.students[0].participationCount).toBe(2);
+  });
+
+  it("reaches back past holidays so a week covers seven class days", async () => {
+    await storage.updateTerm(course.termId!, { ...TERM, holidays: [{ date: "2025-10-13", name: "Columbus Day" }] });
+    await recordAt("2025-10-07T14:00:00Z", 1); // before the stretched week
+    await recordAt("2025-10-07T16:00:00Z", 2); // only in the week because of the holiday
+    await recordAt("2025-10-15T12:00:00Z", 4);
+    vi.setSystemTime(new Date("2025-10-15T15:00:00Z"));
+
+    const stats = await getStudentStats(course, "week");
+    expect(stats.from?.toISOString()).toBe("2025-10-07T15:00:00.000Z");
+    expect(stats.students[0].totalPoints).toBe(6);
+    expect(stats.students[0].previousPoints).toBe(1);
+  });
+});
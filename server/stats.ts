@@ -0,0 +1,143 @@
+import { storage } from "./storage";
+import type {
+  Course,
+  Term,
+  StudentParticipationTotals,
+  StudentStats,
+  StudentStatsQuery,
+  StudentStatsResponse
+} from "@shared/schema";
+import { nextDateKey, startOfDateInTimeZone } from "@shared/time-zone";
+
+type StatsPeriod = {
+  from: Date | null;
+  to: Date;
+  previousFrom: Date | null;
+};
+
+type Interval = {
+  start: Date;
+  end: Date;
+};
+
+type TermBounds = Interval & {
+  holidays: Interval[];
+};
+
+// A day runs from its midnight to the next one, in the course's time zone
+function getDateInterval(startDate: string, endDate: string, timeZone: string): Interval {
+  return {
+    start: startOfDateInTimeZone(startDate, timeZone),
+    end: startOfDateInTimeZone(nextDateKey(endDate), timeZone)
+  };
+}
+
+// A term runs from midnight on its first day to midnight after its last day, in the course's time zone
+export function getTermBounds(term: Term, timeZone: string): TermBounds {
+  return {
+    ...getDateInterval(term.startDate, term.endDate, timeZone),
+    holidays: term.holidays.map(holiday => getDateInterval(holiday.date, holiday.date, timeZone))
+  };
+}
+
+// How much of [start, end) falls on holidays
+function holidayOverlap(start: Date, end: Date, holidays: Interval[]): number {
+  return holidays.reduce((total, holiday) => {
+    const overlap = Math.min(end.getTime(), holiday.end.getTime()) - Math.max(start.getTime(), holiday.start.getTime());
+    return total + Math.max(overlap, 0);
+  }, 0);
+}
+
+// The start of a period ending at `end` that covers `length` ms of non-holiday time
+function startBeforeHolidays(end: Date, length: number, holidays: Interval[]): Date {
+  let start = new Date(end.getTime() - length);
+  for (;;) {
+    const extended = new Date(end.getTime() - length - holidayOverlap(start, end, holidays));
+    if (extended.getTime() === start.getTime()) {
+      return start;
+    }
+    start = extended;
+  }
+}
+
+/**
+ * The period a range covers, ending now (or when the term ended), and the
+ * equally long period before it.
+ *
+ * "semester" covers the course's term so far. Week and month periods skip the
+ * term's holidays: they reach back past each holiday they cover, so every
+ * period spans as many class days. Periods are clipped to the term, and there
+ * is nothing to compare against once the previous period would start before
+ * the term did. Courses without a term fall back to the whole life of the
+ * course for "semester" and unclipped week/month periods.
+ */
+function getStatsPeriod(range: StudentStatsQuery["range"], now: Date, term?: TermBounds): StatsPeriod {
+  const to = term && term.end < now ? term.end : now;
+
+  if (range === "semester") {
+    return { from: term ? term.start : null, to, previousFrom: null };
+  }
+
+  const calendarFrom = new Date(to);
+  if (range === "week") {
+    calendarFrom.setDate(calendarFrom.getDate() - 7);
+  } else {
+    calendarFrom.setMonth(calendarFrom.getMonth() - 1);
+  }
+  const length = to.getTime() - calendarFrom.getTime();
+  const holidays = term?.holidays ?? [];
+
+  const from = startBeforeHolidays(to, length, holidays);
+  if (term && from < term.start) {
+    return { from: term.start, to, previousFrom: null };
+  }
+
+  const previousFrom = startBeforeHolidays(from, length, holidays);
+  if (term && previousFrom < term.start) {
+    return { from, to, previousFrom: null };
+  }
+
+  return { from, to, previousFrom };
+}
+
+// Percentile rank by points: the share of the class below a student, counting ties as half
+function percentileRank(points: number, allPoints: number[]): number {
+  const below = allPoints.filter(other => other < points).length;
+  const equal = allPoints.filter(other => other === points).length;
+  return Math.round(((below + 0.5 * equal) / allPoints.length) * 100);
+}
+
+function compareToPrevious(current: StudentParticipationTotals, previous?: StudentParticipationTotals): Pick<StudentStats, "previousPoints" | "trend"> {
+  if (!previous) {
+    return { previousPoints: null, trend: null };
+  }
+
+  const difference = current.totalPoints - previous.totalPoints;
+  return {
+    previousPoints: previous.totalPoints,
+    trend: difference > 0 ? "up" : difference < 0 ? "down" : "flat"
+  };
+}
+
+// Per-student totals, percentile rank and trend for the Class Participation Overview
+export async function getStudentStats(course: Course, range: StudentStatsQuery["range"]): Promise<StudentStatsResponse> {
+  const courseId = course.id;
+  const term: Term | undefined = course.termId ? await storage.getTerm(course.termId) : undefined;
+  const { from, to, previousFrom } = getStatsPeriod(range, new Date(), term && getTermBounds(term, course.timeZone));
+
+  const current: StudentParticipationTotals[] = await storage.getStudentParticipationTotals(courseId, from, to);
+  const previous: StudentParticipationTotals[] = previousFrom && from
+    ? await storage.getStudentParticipationTotals(courseId, previousFrom, from)
+    : [];
+
+  const allPoints = current.map(totals => totals.totalPoints);
+  const previousByStudent = new Map(previous.map(totals => [totals.student.id, totals]));
+
+  const students = current.map(totals => ({
+    ...totals,
+    percentileRank: percentileRank(totals.totalPoints, allPoints),
+    ...compareToPrevious(totals, previousByStudent.get(totals.student.id))
+  }));
+
+  return { range, from, to, students };
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "./storage";
+import { getDayRange } from "@shared/time-zone";
+import { participationRecordFilterSchema } from "@shared/schema";
+
+// The seeded course 1 with its enrolled student 2, moved to Santiago, where DST starts at midnight
+const COURSE_ID = 1;
+const STUDENT_ID = 2;
+const TIME_ZONE = "America/Santiago";
+
+// Records are stamped with the current time, so the clock is set to each record's instant
+async function recordAt(storage: MemStorage, instant: string, points: number) {
+  vi.setSystemTime(new Date(instant));
+  return storage.createParticipationRecord({ courseId: COURSE_ID, studentId: STUDENT_ID, sessionId: null, categoryId: null, points });
+}
+
+describe("MemStorage day bucketing", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    storage = new MemStorage();
+    await storage.updateCourse(COURSE_ID, { timeZone: TIME_ZONE });
+
+    await recordAt(storage, "2025-09-07T03:59:59Z", 1); // 23:59:59 on the 6th, UTC-4
+    await recordAt(storage, "2025-09-07T04:00:00Z", 2); // 01:00 on the 7th, UTC-3: the day's first instant
+    await recordAt(storage, "2025-09-08T02:59:59Z", 4); // 23:59:59 on the 7th
+    await recordAt(storage, "2025-09-08T03:00:00Z", 8); // midnight on the 8th
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deletes and restores exactly the records from one local day", async () => {
+    const day = getDayRange(new Date("2025-09-07T15:00:00Z"), TIME_ZONE);
+
+    expect(await storage.deleteParticipationRecordsFromDate(COURSE_ID, day, "batch-1")).toBe(2);
+    const hidden = (await storage.getAllParticipationRecords(COURSE_ID, participationRecordFilterSchema.parse({ onlyHidden: true })))
+      .map(record => record.points)
+      .sort((a, b) => a - b);
+    expect(hidden).toEqual([2, 4]);
+
+    expect(await storage.restoreParticipationRecordsFromDate(COURSE_ID, day)).toBe(2);
+    expect(await storage.getAllParticipationRecords(COURSE_ID, participationRecordFilterSchema.parse({}))).toHaveLength(4);
+  });
+
+  it("totals points over a local day", async () => {
+    const day = getDayRange(new Date("2025-09-07T15:00:00Z"), TIME_ZONE);
+    const [totals] = await storage.getStudentParticipationTotals(COURSE_ID, day.start, day.end);
+
+    expect(totals.student.id).toBe(STUDENT_ID);
+    expect(totals.totalPoints).toBe(6);
+    expect(totals.participationCount).toBe(2);
+  });
+});
@@ -1,6 +1,15 @@
-import { User, InsertUser, ParticipationRequest, InsertParticipationRequest, 
+import { User, InsertUser, Course, InsertCourse, StudentCourse, ClassSession, InsertClassSession, ParticipationRequest, InsertParticipationRequest, 
   ParticipationRecord, InsertParticipationRecord, ParticipationRequestWithStudent, 
-  ParticipationRecordWithStudent, DEFAULT_COURSE } from "@shared/schema";
+  ParticipationRecordWithStudent, UpdateParticipationRecord,
+  AuditEvent, InsertAuditEvent, AuditEventFilter, AuditEventWithActor,
+  ParticipationRecordFilter, PageRequest, Page, encodeRecordCursor,
+  StudentParticipationTotals, Term, InsertTerm, RubricCategory, InsertRubricCategory, DEFAULT_RUBRIC,
+  GradingPolicy, GradingPolicySettings, SessionPoints, Invitation, InsertInvitation, CourseStaff, DEFAULT_TA_AWARD_LIMIT,
+  ExternalIdentity, InsertExternalIdentity,
+  LtiPlatform, InsertLtiPlatform, LtiDeployment, LtiContext, InsertLtiContext, LtiLaunchState,
+  PasswordResetToken, InsertPasswordResetToken, LoginAttempt, ApiToken, InsertApiToken,
+  Webhook, InsertWebhook, UpdateWebhook, WebhookDelivery, InsertWebhookDelivery, WebhookDeliveryAttempt } from "@shared/schema";
+import { DEFAULT_TIME_ZONE, type DayRange } from "@shared/time-zone";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 
@@ -10,27 +19,179 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Emails are matched case-insensitively
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<Pick<User, "name" | "email" | "password" | "emailVerified">>): Promise<User | undefined>;
+  countUsersByRole(role: string): Promise<number>;
   
   // Student methods
-  getAllStudents(): Promise<User[]>;
+  getAllStudents(courseId: number): Promise<User[]>;
+  
+  // Term methods
+  getTerm(id: number): Promise<Term | undefined>;
+  getAllTerms(): Promise<Term[]>;
+  createTerm(term: InsertTerm): Promise<Term>;
+  updateTerm(id: number, term: InsertTerm): Promise<Term | undefined>;
+  
+  // Course methods
+  getCourse(id: number): Promise<Course | undefined>;
+  getAllCourses(): Promise<Course[]>;
+  getCoursesByAdmin(adminId: number): Promise<Course[]>;
+  getCoursesByStudent(studentId: number): Promise<Course[]>;
+  getCoursesByStaff(userId: number): Promise<Course[]>;
+  createCourse(course: InsertCourse & { adminId: number, joinCode: string }): Promise<Course>;
+  updateCourse(id: number, course: Partial<InsertCourse & { joinCode: string }>): Promise<Course | undefined>;
+  deleteCourse(id: number): Promise<boolean>;
+  
+  // RubricCategory methods
+  getRubricCategories(courseId: number): Promise<RubricCategory[]>;
+  getRubricCategory(id: number): Promise<RubricCategory | undefined>;
+  createRubricCategory(courseId: number, category: InsertRubricCategory): Promise<RubricCategory>;
+  updateRubricCategory(id: number, updates: Partial<InsertRubricCategory>): Promise<RubricCategory | undefined>;
+  deleteRubricCategory(id: number): Promise<boolean>;
+  // Visible records a student was awarded in one category during one session
+  countSessionRecordsInCategory(studentId: number, sessionId: number, categoryId: number): Promise<number>;
+  
+  // GradingPolicy methods (undefined until the course saves one)
+  getGradingPolicy(courseId: number): Promise<GradingPolicy | undefined>;
+  saveGradingPolicy(courseId: number, policy: GradingPolicySettings): Promise<GradingPolicy>;
+  
+  // Invitation methods
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  getInvitation(id: number): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  getInvitationsByCreator(userId: number): Promise<Invitation[]>; // newest first
+  // Mark a pending invitation used; undefined if it was used, revoked or expired in the meantime
+  claimInvitation(id: number): Promise<Invitation | undefined>;
+  setInvitationUser(id: number, userId: number): Promise<void>;
+  revokeInvitation(id: number): Promise<Invitation | undefined>;
+  
+  // PasswordResetToken methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Mark an unused token used; undefined if it was used or expired in the meantime
+  claimPasswordResetToken(id: number): Promise<PasswordResetToken | undefined>;
+  // Drop every reset link a user still has, e.g. once their password changes
+  deletePasswordResetTokens(userId: number): Promise<void>;
+  
+  // ApiToken methods (personal tokens for the REST API)
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(userId: number): Promise<ApiToken[]>; // newest first
+  deleteApiToken(userId: number, id: number): Promise<boolean>;
+  deleteApiTokens(userId: number): Promise<void>;
+  touchApiToken(id: number): Promise<void>; // record that the token was just used
+  
+  // ExternalIdentity methods (single sign-on accounts linked to users)
+  getExternalIdentity(issuer: string, subject: string): Promise<ExternalIdentity | undefined>;
+  // Linking the same account twice returns the existing link
+  createExternalIdentity(identity: InsertExternalIdentity): Promise<ExternalIdentity>;
+  getUserExternalIdentity(userId: number, issuer: string): Promise<ExternalIdentity | undefined>;
+  
+  // LtiPlatform methods (LMSs registered for LTI launches, and their deployments)
+  getLtiPlatforms(): Promise<LtiPlatform[]>;
+  getLtiPlatform(id: number): Promise<LtiPlatform | undefined>;
+  // clientId tells registrations apart when one LMS registered the tool more than once
+  findLtiPlatform(issuer: string, clientId?: string): Promise<LtiPlatform | undefined>;
+  createLtiPlatform(platform: InsertLtiPlatform & { createdBy: number | null }): Promise<LtiPlatform>;
+  // Removes the platform's deployments and course links with it
+  deleteLtiPlatform(id: number): Promise<boolean>;
+  getLtiDeployments(platformId: number): Promise<LtiDeployment[]>;
+  // Adding a deployment twice returns the existing one
+  addLtiDeployment(platformId: number, deploymentId: string): Promise<LtiDeployment>;
+  removeLtiDeployment(platformId: number, id: number): Promise<boolean>;
+  hasLtiDeployment(platformId: number, deploymentId: string): Promise<boolean>;
+  
+  // LtiContext methods (LMS courses linked to courses)
+  getLtiContext(platformId: number, contextId: string): Promise<LtiContext | undefined>;
+  getLtiContextByCourse(courseId: number): Promise<LtiContext | undefined>;
+  createLtiContext(context: InsertLtiContext): Promise<LtiContext>;
+  updateLtiContext(id: number, updates: Partial<Pick<LtiContext, "title" | "lineItemsUrl" | "lineItemUrl" | "agsScopes">>): Promise<LtiContext | undefined>;
+  
+  // LtiLaunchState methods
+  createLtiLaunchState(state: LtiLaunchState): Promise<void>;
+  // Remove a launch state and return it unless it expired, so each launch completes once
+  claimLtiLaunchState(state: string): Promise<LtiLaunchState | undefined>;
+  
+  // Webhook methods (URLs a course's events are posted to)
+  getWebhooks(courseId: number): Promise<Webhook[]>; // oldest first
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook & { courseId: number; secret: string; createdBy: number | null }): Promise<Webhook>;
+  updateWebhook(id: number, updates: UpdateWebhook): Promise<Webhook | undefined>;
+  // Removes the webhook's delivery log with it
+  deleteWebhook(id: number): Promise<boolean>;
+  
+  // WebhookDelivery methods (the delivery log, which is also the retry queue)
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>; // newest first
+  // Pending deliveries whose next attempt is due by the given time, oldest first
+  getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, attempt: WebhookDeliveryAttempt): Promise<WebhookDelivery | undefined>;
+  
+  // LoginAttempt methods (failed-login counters, keyed by account or IP address)
+  // Count an attempt as a failed login, in one atomic step, and return the counter as it was before it.
+  // The count starts over once the previous failure is older than resetAfterMs
+  takeLoginAttempt(key: string, resetAfterMs: number): Promise<LoginAttempt | undefined>;
+  // Uncount one attempt, after it turned out to succeed
+  refundLoginAttempt(key: string): Promise<void>;
+  clearLoginAttempts(key: string): Promise<void>;
+  
+  // CourseStaff methods (TAs assigned to a course; the owning admin isn't listed)
+  addCourseStaff(courseId: number, userId: number): Promise<CourseStaff>;
+  removeCourseStaff(courseId: number, userId: number): Promise<boolean>;
+  getCourseStaff(courseId: number): Promise<User[]>;
+  isCourseStaff(userId: number, courseId: number): Promise<boolean>;
+  
+  // Enrollment methods
+  enrollStudent(studentId: number, courseId: number): Promise<StudentCourse>;
+  unenrollStudent(studentId: number, courseId: number): Promise<boolean>;
+  isStudentEnrolled(studentId: number, courseId: number): Promise<boolean>;
+  
+  // ClassSession methods
+  createClassSession(session: InsertClassSession): Promise<ClassSession>;
+  getClassSession(id: number): Promise<ClassSession | undefined>;
+  getOpenClassSession(courseId: number): Promise<ClassSession | undefined>;
+  getClassSessionsByCourse(courseId: number): Promise<ClassSession[]>;
+  closeClassSession(id: number): Promise<ClassSession | undefined>;
   
   // ParticipationRequest methods
   createParticipationRequest(request: InsertParticipationRequest): Promise<ParticipationRequest>;
-  getActiveParticipationRequests(): Promise<ParticipationRequestWithStudent[]>;
-  hasActiveParticipationRequest(studentId: number): Promise<boolean>;
+  getActiveParticipationRequests(courseId: number): Promise<ParticipationRequestWithStudent[]>;
+  hasActiveParticipationRequest(studentId: number, courseId: number): Promise<boolean>;
   deactivateParticipationRequest(id: number): Promise<ParticipationRequest | undefined>;
+  deactivateParticipationRequestsByCourse(courseId: number): Promise<number>;
   getParticipationRequestById(id: number): Promise<ParticipationRequest | undefined>;
   
   // ParticipationRecord methods
   createParticipationRecord(record: InsertParticipationRecord): Promise<ParticipationRecord>;
-  getAllParticipationRecords(): Promise<ParticipationRecordWithStudent[]>;
-  getParticipationRecordsByStudent(studentId: number): Promise<ParticipationRecord[]>;
-  getTotalParticipationPointsByStudent(studentId: number): Promise<number>;
-  deleteParticipationRecordsFromDate(date: Date): Promise<number>;
+  getParticipationRecordById(id: number): Promise<ParticipationRecord | undefined>;
+  updateParticipationRecord(id: number, updates: UpdateParticipationRecord): Promise<ParticipationRecord | undefined>;
+  hideParticipationRecord(id: number, batchId: string): Promise<ParticipationRecord | undefined>;
+  restoreParticipationRecord(id: number): Promise<ParticipationRecord | undefined>;
+  // Without a filter these return every record, hidden ones included, newest first
+  getAllParticipationRecords(courseId: number, filter?: ParticipationRecordFilter): Promise<ParticipationRecordWithStudent[]>;
+  getParticipationRecordsByStudent(studentId: number, courseId: number, filter?: ParticipationRecordFilter): Promise<ParticipationRecord[]>;
+  getParticipationRecordsPage(courseId: number, filter: ParticipationRecordFilter, page: PageRequest): Promise<Page<ParticipationRecordWithStudent>>;
+  getTotalParticipationPointsByStudent(studentId: number, courseId: number): Promise<number>;
+  // Totals of visible records in [from, to) for every enrolled student, including those with none; from = null is unbounded
+  getStudentParticipationTotals(courseId: number, from: Date | null, to: Date): Promise<StudentParticipationTotals[]>;
+  deleteParticipationRecordsFromDate(courseId: number, day: DayRange, batchId: string): Promise<number>;
+  restoreParticipationRecordsFromDate(courseId: number, day: DayRange): Promise<number>;
+  restoreParticipationRecordsByBatch(courseId: number, batchId: string): Promise<number>;
+  // Visible points per student per session, for grading
+  getSessionPointsByStudent(courseId: number): Promise<SessionPoints[]>;
+  
+  // AuditEvent methods (append-only: there is deliberately no update or delete)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  // A course's events, or with a null courseId the events outside any course (accounts, logins, LMS platforms)
+  getAuditEvents(courseId: number | null, filter: AuditEventFilter): Promise<AuditEventWithActor[]>;
   
   // Session store
   sessionStore: session.Store;
+  // Log a user out of every session, except the one given
+  deleteUserSessions(userId: number, exceptSessionId?: string): Promise<void>;
 }
 
 /**
@@ -38,18 +199,88 @@ export interface IStorage {
  */
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private terms: Map<number, Term>;
+  private courses: Map<number, Course>;
+  private rubricCategories: Map<number, RubricCategory>;
+  private gradingPolicies: Map<number, GradingPolicy>;
+  private invitations: Map<number, Invitation>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private apiTokens: Map<number, ApiToken>;
+  private loginAttempts: Map<string, LoginAttempt>;
+  private externalIdentities: Map<number, ExternalIdentity>;
+  private ltiPlatforms: Map<number, LtiPlatform>;
+  private ltiDeployments: Map<number, LtiDeployment>;
+  private ltiContexts: Map<number, LtiContext>;
+  private ltiLaunchStates: Map<string, LtiLaunchState>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private studentCourses: Map<number, StudentCourse>;
+  private courseStaff: Map<number, CourseStaff>;
+  private classSessions: Map<number, ClassSession>;
+  private auditEvents: AuditEvent[];
   private participationRequests: Map<number, ParticipationRequest>;
   private participationRecords: Map<number, ParticipationRecord>;
   sessionStore: session.Store;
   userCurrentId: number;
+  termCurrentId: number;
+  courseCurrentId: number;
+  rubricCategoryCurrentId: number;
+  invitationCurrentId: number;
+  passwordResetTokenCurrentId: number;
+  apiTokenCurrentId: number;
+  externalIdentityCurrentId: number;
+  ltiPlatformCurrentId: number;
+  ltiDeploymentCurrentId: number;
+  ltiContextCurrentId: number;
+  webhookCurrentId: number;
+  webhookDeliveryCurrentId: number;
+  studentCourseCurrentId: number;
+  courseStaffCurrentId: number;
+  classSessionCurrentId: number;
+  auditEventCurrentId: number;
   participationRequestCurrentId: number;
   participationRecordCurrentId: number;
 
   constructor() {
     this.users = new Map();
+    this.terms = new Map();
+    this.courses = new Map();
+    this.rubricCategories = new Map();
+    this.gradingPolicies = new Map();
+    this.invitations = new Map();
+    this.passwordResetTokens = new Map();
+    this.apiTokens = new Map();
+    this.loginAttempts = new Map();
+    this.externalIdentities = new Map();
+    this.ltiPlatforms = new Map();
+    this.ltiDeployments = new Map();
+    this.ltiContexts = new Map();
+    this.ltiLaunchStates = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.studentCourses = new Map();
+    this.courseStaff = new Map();
+    this.classSessions = new Map();
+    this.auditEvents = [];
     this.participationRequests = new Map();
     this.participationRecords = new Map();
     this.userCurrentId = 1;
+    this.termCurrentId = 1;
+    this.courseCurrentId = 1;
+    this.rubricCategoryCurrentId = 1;
+    this.invitationCurrentId = 1;
+    this.passwordResetTokenCurrentId = 1;
+    this.apiTokenCurrentId = 1;
+    this.externalIdentityCurrentId = 1;
+    this.ltiPlatformCurrentId = 1;
+    this.ltiDeploymentCurrentId = 1;
+    this.ltiContextCurrentId = 1;
+    this.webhookCurrentId = 1;
+    this.webhookDeliveryCurrentId = 1;
+    this.studentCourseCurrentId = 1;
+    this.courseStaffCurrentId = 1;
+    this.classSessionCurrentId = 1;
+    this.auditEventCurrentId = 1;
     this.participationRequestCurrentId = 1;
     this.participationRecordCurrentId = 1;
     this.sessionStore = new MemoryStore({
@@ -63,6 +294,7 @@ export class MemStorage implements IStorage {
       email: "admin@example.com",
       name: "Admin User",
       role: "admin",
+      siteAdmin: true,
     });
 
     // Create a default student user for testing
@@ -73,6 +305,16 @@ export class MemStorage implements IStorage {
       name: "Student User",
       role: "student",
     });
+
+    // Create a default course owned by the admin user, with the student enrolled
+    this.createCourse({
+      name: "ENT615: Strategy and Leadership for Entrepreneurs",
+      description: "This course explores the strategic frameworks and leadership principles essential for entrepreneurial success.",
+      adminId: 1,
+      joinCode: "ENT615",
+    });
+    DEFAULT_RUBRIC.forEach(category => this.createRubricCategory(1, category));
+    this.enrollStudent(2, 1);
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -85,29 +327,634 @@ export class MemStorage implements IStorage {
     return userArray.find(user => user.username === username);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values())
+      .find(user => user.email.toLowerCase() === email.toLowerCase());
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
     const userWithRole = {
       ...insertUser,
-      role: insertUser.role || "student"
+      role: insertUser.role || "student",
+      siteAdmin: insertUser.siteAdmin ?? false,
+      emailVerified: insertUser.emailVerified ?? false
     };
     const user: User = { ...userWithRole, id };
     this.users.set(id, user);
     return user;
   }
 
-  async getAllStudents(): Promise<User[]> {
-    // Use spread operator to convert Map values to array
-    return [...this.users.values()]
-      .filter(user => user.role === "student");
+  async updateUser(id: number, updates: Partial<Pick<User, "name" | "email" | "password" | "emailVerified">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async countUsersByRole(role: string): Promise<number> {
+    return Array.from(this.users.values()).filter(user => user.role === role).length;
+  }
+
+  async getAllStudents(courseId: number): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.role === "student" && this.isEnrolled(user.id, courseId));
+  }
+
+  async getTerm(id: number): Promise<Term | undefined> {
+    return this.terms.get(id);
+  }
+
+  async getAllTerms(): Promise<Term[]> {
+    return Array.from(this.terms.values())
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }
+
+  async createTerm(insertTerm: InsertTerm): Promise<Term> {
+    const id = this.termCurrentId++;
+    const term: Term = { ...insertTerm, id };
+    this.terms.set(id, term);
+    return term;
+  }
+
+  async updateTerm(id: number, updates: InsertTerm): Promise<Term | undefined> {
+    const term = this.terms.get(id);
+    if (!term) return undefined;
+
+    const updatedTerm = { ...term, ...updates };
+    this.terms.set(id, updatedTerm);
+    return updatedTerm;
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    return this.courses.get(id);
+  }
+
+  async getAllCourses(): Promise<Course[]> {
+    return Array.from(this.courses.values());
+  }
+
+  async getCoursesByAdmin(adminId: number): Promise<Course[]> {
+    return Array.from(this.courses.values())
+      .filter(course => course.adminId === adminId);
+  }
+
+  async getCoursesByStudent(studentId: number): Promise<Course[]> {
+    return Array.from(this.courses.values())
+      .filter(course => this.isEnrolled(studentId, course.id));
+  }
+
+  async getCoursesByStaff(userId: number): Promise<Course[]> {
+    return Array.from(this.courses.values())
+      .filter(course => this.isStaff(userId, course.id));
+  }
+
+  async createCourse(insertCourse: InsertCourse & { adminId: number, joinCode: string }): Promise<Course> {
+    const id = this.courseCurrentId++;
+    const course: Course = {
+      ...insertCourse,
+      description: insertCourse.description || null,
+      termId: insertCourse.termId ?? null,
+      timeZone: insertCourse.timeZone ?? DEFAULT_TIME_ZONE,
+      taAwardLimit: insertCourse.taAwardLimit ?? DEFAULT_TA_AWARD_LIMIT,
+      id
+    };
+    this.courses.set(id, course);
+    return course;
+  }
+
+  async updateCourse(id: number, updates: Partial<InsertCourse & { joinCode: string }>): Promise<Course | undefined> {
+    const course = this.courses.get(id);
+    if (!course) return undefined;
+
+    const updatedCourse = { ...course, ...updates };
+    this.courses.set(id, updatedCourse);
+    return updatedCourse;
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    // Remove the course's participation data along with it
+    Array.from(this.participationRequests.values())
+      .filter(request => request.courseId === id)
+      .forEach(request => this.participationRequests.delete(request.id));
+    Array.from(this.participationRecords.values())
+      .filter(record => record.courseId === id)
+      .forEach(record => this.participationRecords.delete(record.id));
+    Array.from(this.classSessions.values())
+      .filter(session => session.courseId === id)
+      .forEach(session => this.classSessions.delete(session.id));
+    Array.from(this.studentCourses.values())
+      .filter(enrollment => enrollment.courseId === id)
+      .forEach(enrollment => this.studentCourses.delete(enrollment.id));
+    Array.from(this.courseStaff.values())
+      .filter(staff => staff.courseId === id)
+      .forEach(staff => this.courseStaff.delete(staff.id));
+    Array.from(this.rubricCategories.values())
+      .filter(category => category.courseId === id)
+      .forEach(category => this.rubricCategories.delete(category.id));
+    this.gradingPolicies.delete(id);
+    Array.from(this.ltiContexts.values())
+      .filter(context => context.courseId === id)
+      .forEach(context => this.ltiContexts.delete(context.id));
+    Array.from(this.invitations.values())
+      .filter(invitation => invitation.courseId === id)
+      .forEach(invitation => this.invitations.delete(invitation.id));
+    for (const webhook of await this.getWebhooks(id)) {
+      await this.deleteWebhook(webhook.id);
+    }
+    return this.courses.delete(id);
+  }
+
+  async getRubricCategories(courseId: number): Promise<RubricCategory[]> {
+    return Array.from(this.rubricCategories.values())
+      .filter(category => category.courseId === courseId)
+      .sort((a, b) => a.points - b.points || a.id - b.id);
+  }
+
+  async getRubricCategory(id: number): Promise<RubricCategory | undefined> {
+    return this.rubricCategories.get(id);
+  }
+
+  async createRubricCategory(courseId: number, insertCategory: InsertRubricCategory): Promise<RubricCategory> {
+    const id = this.rubricCategoryCurrentId++;
+    const category: RubricCategory = { ...insertCategory, courseId, id };
+    this.rubricCategories.set(id, category);
+    return category;
+  }
+
+  async updateRubricCategory(id: number, updates: Partial<InsertRubricCategory>): Promise<RubricCategory | undefined> {
+    const category = this.rubricCategories.get(id);
+    if (!category) return undefined;
+
+    const updatedCategory = { ...category, ...updates };
+    this.rubricCategories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteRubricCategory(id: number): Promise<boolean> {
+    return this.rubricCategories.delete(id);
+  }
+
+  async getGradingPolicy(courseId: number): Promise<GradingPolicy | undefined> {
+    return this.gradingPolicies.get(courseId);
+  }
+
+  async saveGradingPolicy(courseId: number, settings: GradingPolicySettings): Promise<GradingPolicy> {
+    const policy: GradingPolicy = { ...settings, courseId };
+    this.gradingPolicies.set(courseId, policy);
+    return policy;
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const id = this.invitationCurrentId++;
+    const invitation: Invitation = {
+      ...insertInvitation,
+      id,
+      createdAt: new Date(),
+      usedAt: null,
+      usedBy: null,
+      revokedAt: null
+    };
+    this.invitations.set(id, invitation);
+    return invitation;
+  }
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return this.invitations.get(id);
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    return Array.from(this.invitations.values()).find(invitation => invitation.tokenHash === tokenHash);
+  }
+
+  async getInvitationsByCreator(userId: number): Promise<Invitation[]> {
+    return Array.from(this.invitations.values())
+      .filter(invitation => invitation.createdBy === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async claimInvitation(id: number): Promise<Invitation | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.usedAt || invitation.revokedAt || invitation.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    const claimed = { ...invitation, usedAt: new Date() };
+    this.invitations.set(id, claimed);
+    return claimed;
+  }
+
+  async setInvitationUser(id: number, userId: number): Promise<void> {
+    const invitation = this.invitations.get(id);
+    if (invitation) {
+      this.invitations.set(id, { ...invitation, usedBy: userId });
+    }
+  }
+
+  async revokeInvitation(id: number): Promise<Invitation | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.usedAt || invitation.revokedAt) return undefined;
+
+    const revoked = { ...invitation, revokedAt: new Date() };
+    this.invitations.set(id, revoked);
+    return revoked;
+  }
+
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenCurrentId++;
+    const token: PasswordResetToken = { ...insertToken, id, createdAt: new Date(), usedAt: null };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async claimPasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    const claimed = { ...token, usedAt: new Date() };
+    this.passwordResetTokens.set(id, claimed);
+    return claimed;
+  }
+
+  async deletePasswordResetTokens(userId: number): Promise<void> {
+    Array.from(this.passwordResetTokens.values())
+      .filter(token => token.userId === userId)
+      .forEach(token => this.passwordResetTokens.delete(token.id));
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenCurrentId++;
+    const token: ApiToken = { ...insertToken, id, createdAt: new Date(), lastUsedAt: null };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async deleteApiToken(userId: number, id: number): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId) return false;
+    return this.apiTokens.delete(id);
+  }
+
+  async deleteApiTokens(userId: number): Promise<void> {
+    for (const token of Array.from(this.apiTokens.values())) {
+      if (token.userId === userId) this.apiTokens.delete(token.id);
+    }
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) this.apiTokens.set(id, { ...token, lastUsedAt: new Date() });
+  }
+
+  async getExternalIdentity(issuer: string, subject: string): Promise<ExternalIdentity | undefined> {
+    return Array.from(this.externalIdentities.values())
+      .find(identity => identity.issuer === issuer && identity.subject === subject);
+  }
+
+  async createExternalIdentity(insertIdentity: InsertExternalIdentity): Promise<ExternalIdentity> {
+    const existing = await this.getExternalIdentity(insertIdentity.issuer, insertIdentity.subject);
+    if (existing) return existing;
+
+    const id = this.externalIdentityCurrentId++;
+    const identity: ExternalIdentity = { ...insertIdentity, id, createdAt: new Date() };
+    this.externalIdentities.set(id, identity);
+    return identity;
+  }
+
+  async getUserExternalIdentity(userId: number, issuer: string): Promise<ExternalIdentity | undefined> {
+    return Array.from(this.externalIdentities.values())
+      .find(identity => identity.userId === userId && identity.issuer === issuer);
+  }
+
+  async getLtiPlatforms(): Promise<LtiPlatform[]> {
+    return Array.from(this.ltiPlatforms.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLtiPlatform(id: number): Promise<LtiPlatform | undefined> {
+    return this.ltiPlatforms.get(id);
+  }
+
+  async findLtiPlatform(issuer: string, clientId?: string): Promise<LtiPlatform | undefined> {
+    return Array.from(this.ltiPlatforms.values())
+      .find(platform => platform.issuer === issuer && (clientId === undefined || platform.clientId === clientId));
+  }
+
+  async createLtiPlatform(insertPlatform: InsertLtiPlatform & { createdBy: number | null }): Promise<LtiPlatform> {
+    const id = this.ltiPlatformCurrentId++;
+    const platform: LtiPlatform = { ...insertPlatform, id, createdAt: new Date() };
+    this.ltiPlatforms.set(id, platform);
+    return platform;
+  }
+
+  async deleteLtiPlatform(id: number): Promise<boolean> {
+    Array.from(this.ltiDeployments.values())
+      .filter(deployment => deployment.platformId === id)
+      .forEach(deployment => this.ltiDeployments.delete(deployment.id));
+    Array.from(this.ltiContexts.values())
+      .filter(context => context.platformId === id)
+      .forEach(context => this.ltiContexts.delete(context.id));
+    return this.ltiPlatforms.delete(id);
+  }
+
+  async getLtiDeployments(platformId: number): Promise<LtiDeployment[]> {
+    return Array.from(this.ltiDeployments.values()).filter(deployment => deployment.platformId === platformId);
+  }
+
+  async addLtiDeployment(platformId: number, deploymentId: string): Promise<LtiDeployment> {
+    const existing = Array.from(this.ltiDeployments.values())
+      .find(deployment => deployment.platformId === platformId && deployment.deploymentId === deploymentId);
+    if (existing) return existing;
+
+    const id = this.ltiDeploymentCurrentId++;
+    const deployment: LtiDeployment = { id, platformId, deploymentId };
+    this.ltiDeployments.set(id, deployment);
+    return deployment;
+  }
+
+  async removeLtiDeployment(platformId: number, id: number): Promise<boolean> {
+    const deployment = this.ltiDeployments.get(id);
+    return deployment?.platformId === platformId ? this.ltiDeployments.delete(id) : false;
+  }
+
+  async hasLtiDeployment(platformId: number, deploymentId: string): Promise<boolean> {
+    return Array.from(this.ltiDeployments.values())
+      .some(deployment => deployment.platformId === platformId && deployment.deploymentId === deploymentId);
+  }
+
+  async getLtiContext(platformId: number, contextId: string): Promise<LtiContext | undefined> {
+    return Array.from(this.ltiContexts.values())
+      .find(context => context.platformId === platformId && context.contextId === contextId);
+  }
+
+  async getLtiContextByCourse(courseId: number): Promise<LtiContext | undefined> {
+    return Array.from(this.ltiContexts.values()).find(context => context.courseId === courseId);
+  }
+
+  async createLtiContext(insertContext: InsertLtiContext): Promise<LtiContext> {
+    const id = this.ltiContextCurrentId++;
+    const context: LtiContext = { ...insertContext, id };
+    this.ltiContexts.set(id, context);
+    return context;
+  }
+
+  async updateLtiContext(
+    id: number,
+    updates: Partial<Pick<LtiContext, "title" | "lineItemsUrl" | "lineItemUrl" | "agsScopes">>
+  ): Promise<LtiContext | undefined> {
+    const context = this.ltiContexts.get(id);
+    if (!context) return undefined;
+
+    const updated: LtiContext = { ...context, ...updates };
+    this.ltiContexts.set(id, updated);
+    return updated;
+  }
+
+  async createLtiLaunchState(state: LtiLaunchState): Promise<void> {
+    this.ltiLaunchStates.set(state.state, state);
+  }
+
+  async claimLtiLaunchState(state: string): Promise<LtiLaunchState | undefined> {
+    const launchState = this.ltiLaunchStates.get(state);
+    this.ltiLaunchStates.delete(state);
+    return launchState && launchState.expiresAt > new Date() ? launchState : undefined;
+  }
+
+  async getWebhooks(courseId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhook => webhook.courseId === courseId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(
+    insertWebhook: InsertWebhook & { courseId: number; secret: string; createdBy: number | null }
+  ): Promise<Webhook> {
+    const id = this.webhookCurrentId++;
+    const webhook: Webhook = { ...insertWebhook, id, createdAt: new Date() };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: number, updates: UpdateWebhook): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return undefined;
+
+    const updated: Webhook = { ...webhook, ...updates };
+    this.webhooks.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === id)
+      .forEach(delivery => this.webhookDeliveries.delete(delivery.id));
+    return this.webhooks.delete(id);
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.webhookDeliveryCurrentId++;
+    const delivery: WebhookDelivery = {
+      ...insertDelivery,
+      id,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+      lastAttemptAt: null
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === "pending" && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= dueBy)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async updateWebhookDelivery(id: number, attempt: WebhookDeliveryAttempt): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) return undefined;
+
+    const updated: WebhookDelivery = { ...delivery, ...attempt };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async takeLoginAttempt(key: string, resetAfterMs: number): Promise<LoginAttempt | undefined> {
+    const now = new Date();
+    const previous = this.loginAttempts.get(key);
+    const failures = previous && now.getTime() - previous.lastFailureAt.getTime() <= resetAfterMs
+      ? previous.failures + 1
+      : 1;
+    this.loginAttempts.set(key, { key, failures, lastFailureAt: now });
+    return previous;
+  }
+
+  async refundLoginAttempt(key: string): Promise<void> {
+    const attempt = this.loginAttempts.get(key);
+    if (attempt && attempt.failures > 0) {
+      this.loginAttempts.set(key, { ...attempt, failures: attempt.failures - 1 });
+    }
+  }
+
+  async clearLoginAttempts(key: string): Promise<void> {
+    this.loginAttempts.delete(key);
+  }
+
+  async countSessionRecordsInCategory(studentId: number, sessionId: number, categoryId: number): Promise<number> {
+    return Array.from(this.participationRecords.values())
+      .filter(record =>
+        record.studentId === studentId &&
+        record.sessionId === sessionId &&
+        record.categoryId === categoryId &&
+        !record.hidden
+      ).length;
+  }
+
+  private isEnrolled(studentId: number, courseId: number): boolean {
+    return Array.from(this.studentCourses.values())
+      .some(enrollment => enrollment.studentId === studentId && enrollment.courseId === courseId);
+  }
+
+  async enrollStudent(studentId: number, courseId: number): Promise<StudentCourse> {
+    const existing = Array.from(this.studentCourses.values())
+      .find(enrollment => enrollment.studentId === studentId && enrollment.courseId === courseId);
+    if (existing) return existing;
+
+    const id = this.studentCourseCurrentId++;
+    const enrollment: StudentCourse = { id, studentId, courseId };
+    this.studentCourses.set(id, enrollment);
+    return enrollment;
+  }
+
+  async unenrollStudent(studentId: number, courseId: number): Promise<boolean> {
+    const enrollment = Array.from(this.studentCourses.values())
+      .find(enrollment => enrollment.studentId === studentId && enrollment.courseId === courseId);
+    if (!enrollment) return false;
+
+    // Take the student out of the queue as well
+    Array.from(this.participationRequests.values())
+      .filter(request => request.active && request.studentId === studentId && request.courseId === courseId)
+      .forEach(request => this.participationRequests.set(request.id, { ...request, active: false }));
+
+    return this.studentCourses.delete(enrollment.id);
+  }
+
+  async isStudentEnrolled(studentId: number, courseId: number): Promise<boolean> {
+    return this.isEnrolled(studentId, courseId);
+  }
+
+  private isStaff(userId: number, courseId: number): boolean {
+    return Array.from(this.courseStaff.values())
+      .some(staff => staff.userId === userId && staff.courseId === courseId);
+  }
+
+  async addCourseStaff(courseId: number, userId: number): Promise<CourseStaff> {
+    const existing = Array.from(this.courseStaff.values())
+      .find(staff => staff.userId === userId && staff.courseId === courseId);
+    if (existing) return existing;
+
+    const id = this.courseStaffCurrentId++;
+    const staff: CourseStaff = { id, courseId, userId };
+    this.courseStaff.set(id, staff);
+    return staff;
+  }
+
+  async removeCourseStaff(courseId: number, userId: number): Promise<boolean> {
+    const staff = Array.from(this.courseStaff.values())
+      .find(staff => staff.userId === userId && staff.courseId === courseId);
+    return staff ? this.courseStaff.delete(staff.id) : false;
+  }
+
+  async getCourseStaff(courseId: number): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => this.isStaff(user.id, courseId))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async isCourseStaff(userId: number, courseId: number): Promise<boolean> {
+    return this.isStaff(userId, courseId);
+  }
+
+  async createClassSession(insertSession: InsertClassSession): Promise<ClassSession> {
+    const id = this.classSessionCurrentId++;
+    const session: ClassSession = {
+      id,
+      courseId: insertSession.courseId,
+      topic: insertSession.topic || null,
+      status: "open",
+      startedAt: new Date(),
+      endedAt: null
+    };
+    this.classSessions.set(id, session);
+    return session;
+  }
+
+  async getClassSession(id: number): Promise<ClassSession | undefined> {
+    return this.classSessions.get(id);
+  }
+
+  async getOpenClassSession(courseId: number): Promise<ClassSession | undefined> {
+    return Array.from(this.classSessions.values())
+      .find(session => session.courseId === courseId && session.status === "open");
+  }
+
+  async getClassSessionsByCourse(courseId: number): Promise<ClassSession[]> {
+    return Array.from(this.classSessions.values())
+      .filter(session => session.courseId === courseId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async closeClassSession(id: number): Promise<ClassSession | undefined> {
+    const session = this.classSessions.get(id);
+    if (!session || session.status !== "open") return undefined;
+
+    const closedSession = { ...session, status: "closed", endedAt: new Date() };
+    this.classSessions.set(id, closedSession);
+    return closedSession;
   }
 
   async createParticipationRequest(insertRequest: InsertParticipationRequest): Promise<ParticipationRequest> {
     const id = this.participationRequestCurrentId++;
     const requestWithNull = {
       ...insertRequest,
+      sessionId: insertRequest.sessionId ?? null,
       note: insertRequest.note || null,
-      courseId: DEFAULT_COURSE.id,
       active: true,
       timestamp: new Date()
     };
@@ -116,9 +963,10 @@ export class MemStorage implements IStorage {
     return request;
   }
 
-  async getActiveParticipationRequests(): Promise<ParticipationRequestWithStudent[]> {
-    const activeRequests = [...this.participationRequests.values()]
-      .filter(request => request.active);
+  async getActiveParticipationRequests(courseId: number): Promise<ParticipationRequestWithStudent[]> {
+    const activeRequests = Array.from(this.participationRequests.values())
+      .filter(request => request.active && request.courseId === courseId &&
+        this.isEnrolled(request.studentId, courseId));
     
     return Promise.all(activeRequests.map(async request => {
       const student = await this.getUser(request.studentId);
@@ -133,6 +981,11 @@ export class MemStorage implements IStorage {
     }));
   }
 
+  async hasActiveParticipationRequest(studentId: number, courseId: number): Promise<boolean> {
+    return Array.from(this.participationRequests.values())
+      .some(request => request.active && request.studentId === studentId && request.courseId === courseId);
+  }
+
   async deactivateParticipationRequest(id: number): Promise<ParticipationRequest | undefined> {
     const request = this.participationRequests.get(id);
     if (!request) return undefined;
@@ -142,6 +995,17 @@ export class MemStorage implements IStorage {
     return updatedRequest;
   }
 
+  async deactivateParticipationRequestsByCourse(courseId: number): Promise<number> {
+    const activeRequests = Array.from(this.participationRequests.values())
+      .filter(request => request.active && request.courseId === courseId);
+
+    activeRequests.forEach(request => {
+      this.participationRequests.set(request.id, { ...request, active: false });
+    });
+
+    return activeRequests.length;
+  }
+
   async getParticipationRequestById(id: number): Promise<ParticipationRequest | undefined> {
     return this.participationRequests.get(id);
   }
@@ -150,19 +1014,72 @@ export class MemStorage implements IStorage {
     const id = this.participationRecordCurrentId++;
     const recordWithNulls = {
       ...insertRecord,
-      courseId: DEFAULT_COURSE.id,
+      sessionId: insertRecord.sessionId ?? null,
+      categoryId: insertRecord.categoryId ?? null,
       note: insertRecord.note || null,
       feedback: insertRecord.feedback || null,
       timestamp: new Date(),
-      hidden: false // Add hidden field with default value
+      hidden: false, // Add hidden field with default value
+      deletedAt: null,
+      deleteBatchId: null
     };
     const record: ParticipationRecord = { ...recordWithNulls, id };
     this.participationRecords.set(id, record);
     return record;
   }
 
-  async getAllParticipationRecords(): Promise<ParticipationRecordWithStudent[]> {
-    const records = [...this.participationRecords.values()];
+  async getParticipationRecordById(id: number): Promise<ParticipationRecord | undefined> {
+    return this.participationRecords.get(id);
+  }
+
+  async updateParticipationRecord(id: number, updates: UpdateParticipationRecord): Promise<ParticipationRecord | undefined> {
+    const record = this.participationRecords.get(id);
+    if (!record) return undefined;
+
+    const updatedRecord = {
+      ...record,
+      ...(updates.points !== undefined && { points: updates.points }),
+      ...(updates.feedback !== undefined && { feedback: updates.feedback || null }),
+      ...(updates.note !== undefined && { note: updates.note || null }),
+    };
+    this.participationRecords.set(id, updatedRecord);
+    return updatedRecord;
+  }
+
+  async hideParticipationRecord(id: number, batchId: string): Promise<ParticipationRecord | undefined> {
+    const record = this.participationRecords.get(id);
+    if (!record) return undefined;
+
+    const hiddenRecord = { ...record, hidden: true, deletedAt: new Date(), deleteBatchId: batchId };
+    this.participationRecords.set(id, hiddenRecord);
+    return hiddenRecord;
+  }
+
+  async restoreParticipationRecord(id: number): Promise<ParticipationRecord | undefined> {
+    const record = this.participationRecords.get(id);
+    if (!record) return undefined;
+
+    const restoredRecord = { ...record, hidden: false, deletedAt: null, deleteBatchId: null };
+    this.participationRecords.set(id, restoredRecord);
+    return restoredRecord;
+  }
+
+  private matchesRecordFilter(record: ParticipationRecord, filter?: ParticipationRecordFilter): boolean {
+    if (!filter) return true;
+
+    const timestamp = new Date(record.timestamp);
+    return (filter.onlyHidden ? record.hidden : filter.showHidden || !record.hidden) &&
+      (filter.from === undefined || timestamp >= filter.from) &&
+      (filter.to === undefined || timestamp <= filter.to) &&
+      (filter.studentId === undefined || record.studentId === filter.studentId) &&
+      (filter.sessionId === undefined || record.sessionId === filter.sessionId) &&
+      (filter.minPoints === undefined || record.points >= filter.minPoints);
+  }
+
+  async getAllParticipationRecords(courseId: number, filter?: ParticipationRecordFilter): Promise<ParticipationRecordWithStudent[]> {
+    const records = Array.from(this.participationRecords.values())
+      .filter(record => record.courseId === courseId && this.matchesRecordFilter(record, filter))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     
     return Promise.all(records.map(async record => {
       const student = await this.getUser(record.studentId);
@@ -177,42 +1094,183 @@ export class MemStorage implements IStorage {
     }));
   }
 
-  async getParticipationRecordsByStudent(studentId: number): Promise<ParticipationRecord[]> {
-    return [...this.participationRecords.values()]
-      .filter(record => record.studentId === studentId);
+  async getParticipationRecordsPage(courseId: number, filter: ParticipationRecordFilter, page: PageRequest): Promise<Page<ParticipationRecordWithStudent>> {
+    // Same (timestamp, id) ordering and keyset cursor as the database implementation
+    const direction = page.order === "asc" ? 1 : -1;
+    const compare = (a: { timestamp: Date, id: number }, b: { timestamp: Date, id: number }) =>
+      (new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) || (a.id - b.id);
+
+    const records = (await this.getAllParticipationRecords(courseId, filter))
+      .filter(record => !page.cursor || compare(record, page.cursor) * direction > 0)
+      .sort((a, b) => compare(a, b) * direction);
+
+    const items = records.slice(0, page.limit);
+    const nextCursor = records.length > page.limit ? encodeRecordCursor(items[items.length - 1]) : null;
+    return { items, nextCursor };
   }
 
-  async getTotalParticipationPointsByStudent(studentId: number): Promise<number> {
-    const studentRecords = await this.getParticipationRecordsByStudent(studentId);
-    return studentRecords.reduce((sum, record) => sum + record.points, 0);
+  async getParticipationRecordsByStudent(studentId: number, courseId: number, filter?: ParticipationRecordFilter): Promise<ParticipationRecord[]> {
+    return Array.from(this.participationRecords.values())
+      .filter(record =>
+        record.studentId === studentId &&
+        record.courseId === courseId &&
+        this.matchesRecordFilter(record, filter))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+
+  async getTotalParticipationPointsByStudent(studentId: number, courseId: number): Promise<number> {
+    const studentRecords = await this.getParticipationRecordsByStudent(studentId, courseId);
+    return studentRecords
+      .filter(record => !record.hidden)
+      .reduce((sum, record) => sum + record.points, 0);
   }
   
-  async deleteParticipationRecordsFromDate(date: Date): Promise<number> {
-    const startOfDay = date;
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    // Find records from the specified date
-    const recordsToUpdate = [...this.participationRecords.values()]
+  async getStudentParticipationTotals(courseId: number, from: Date | null, to: Date): Promise<StudentParticipationTotals[]> {
+    const students = await this.getAllStudents(courseId);
+    const records = Array.from(this.participationRecords.values())
+      .filter(record => {
+        const timestamp = new Date(record.timestamp);
+        return record.courseId === courseId && !record.hidden &&
+          (from === null || timestamp >= from) && timestamp < to;
+      });
+
+    return students
+      .map(student => {
+        const studentRecords = records.filter(record => record.studentId === student.id);
+        const timestamps = studentRecords.map(record => new Date(record.timestamp).getTime());
+
+        return {
+          student: { id: student.id, name: student.name, username: student.username },
+          totalPoints: studentRecords.reduce((sum, record) => sum + record.points, 0),
+          participationCount: studentRecords.length,
+          lastParticipation: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null
+        };
+      })
+      .sort((a, b) => b.totalPoints - a.totalPoints || a.student.name.localeCompare(b.student.name));
+  }
+  
+  async deleteParticipationRecordsFromDate(courseId: number, day: DayRange, batchId: string): Promise<number> {
+    // Find records from the specified day
+    const recordsToUpdate = Array.from(this.participationRecords.values())
       .filter(record => {
         const recordDate = new Date(record.timestamp);
-        return recordDate >= startOfDay && recordDate <= endOfDay;
+        return record.courseId === courseId && !record.hidden && recordDate >= day.start && recordDate < day.end;
       });
     
     // Mark the records as hidden instead of deleting them
+    const deletedAt = new Date();
     recordsToUpdate.forEach(record => {
       this.participationRecords.set(record.id, {
         ...record,
-        hidden: true
+        hidden: true,
+        deletedAt,
+        deleteBatchId: batchId
       });
     });
     
     return recordsToUpdate.length;
   }
+
+  async restoreParticipationRecordsFromDate(courseId: number, day: DayRange): Promise<number> {
+    const recordsToRestore = Array.from(this.participationRecords.values())
+      .filter(record => {
+        const recordDate = new Date(record.timestamp);
+        return record.courseId === courseId && record.hidden && recordDate >= day.start && recordDate < day.end;
+      });
+
+    recordsToRestore.forEach(record => {
+      this.participationRecords.set(record.id, { ...record, hidden: false, deletedAt: null, deleteBatchId: null });
+    });
+
+    return recordsToRestore.length;
+  }
+
+  async restoreParticipationRecordsByBatch(courseId: number, batchId: string): Promise<number> {
+    const recordsToRestore = Array.from(this.participationRecords.values())
+      .filter(record => record.courseId === courseId && record.hidden && record.deleteBatchId === batchId);
+
+    recordsToRestore.forEach(record => {
+      this.participationRecords.set(record.id, { ...record, hidden: false, deletedAt: null, deleteBatchId: null });
+    });
+
+    return recordsToRestore.length;
+  }
+
+  async getSessionPointsByStudent(courseId: number): Promise<SessionPoints[]> {
+    const totals = new Map<string, SessionPoints>();
+    Array.from(this.participationRecords.values())
+      .filter(record => record.courseId === courseId && !record.hidden)
+      .forEach(record => {
+        const key = `${record.studentId}:${record.sessionId}`;
+        const existing = totals.get(key);
+        if (existing) {
+          existing.points += record.points;
+        } else {
+          totals.set(key, { studentId: record.studentId, sessionId: record.sessionId, points: record.points });
+        }
+      });
+    return Array.from(totals.values());
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      id: this.auditEventCurrentId++,
+      actorId: insertEvent.actorId ?? null,
+      courseId: insertEvent.courseId ?? null,
+      action: insertEvent.action,
+      targetType: insertEvent.targetType,
+      targetId: insertEvent.targetId ?? null,
+      before: insertEvent.before ?? null,
+      after: insertEvent.after ?? null,
+      timestamp: new Date()
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(courseId: number | null, filter: AuditEventFilter): Promise<AuditEventWithActor[]> {
+    const events = this.auditEvents
+      .filter(event =>
+        event.courseId === courseId &&
+        (filter.actorId === undefined || event.actorId === filter.actorId) &&
+        (filter.action === undefined || event.action === filter.action) &&
+        (filter.targetType === undefined || event.targetType === filter.targetType) &&
+        (filter.targetId === undefined || event.targetId === filter.targetId) &&
+        (filter.from === undefined || event.timestamp >= filter.from) &&
+        (filter.to === undefined || event.timestamp <= filter.to))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit);
+
+    return events.map(event => {
+      const actor = event.actorId !== null ? this.users.get(event.actorId) : undefined;
+      return {
+        ...event,
+        actor: actor ? { id: actor.id, name: actor.name, username: actor.username } : null
+      };
+    });
+  }
+
+  async deleteUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    const store = this.sessionStore;
+    const sessions = await new Promise<Record<string, session.SessionData>>((resolve, reject) => {
+      store.all!((err, all) => (err ? reject(err) : resolve((all ?? {}) as Record<string, session.SessionData>)));
+    });
+
+    const sids = Object.keys(sessions)
+      .filter(sid => sid !== exceptSessionId && sessions[sid].passport?.user === userId);
+    await Promise.all(sids.map(sid => new Promise<void>((resolve, reject) => {
+      store.destroy(sid, (err?: Error) => (err ? reject(err) : resolve()));
+    })));
+  }
 }
 
 // Import DatabaseStorage to use PostgreSQL database
 import { DatabaseStorage } from "./database-storage";
 
-// Export an instance of the DatabaseStorage
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// The storage every server module imports; PostgreSQL unless setStorage swaps it
+export let storage: IStorage = new DatabaseStorage();
+
+// Use another implementation, e.g. MemStorage for development; imports see the change
+export function setStorage(next: IStorage) {
+  storage = next;
+}
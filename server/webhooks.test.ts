@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkWebhookUrl, getRetryDelay, signPayload } from "./webhooks";
+
+const BLOCKED = "Webhooks can't be sent to private or local addresses";
+
+describe("checkWebhookUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    ["loopback", "http://127.0.0.1/hook"],
+    ["loopback, anywhere in 127/8", "http://127.1.2.3:8080/hook"],
+    ["IPv6 loopback", "http://[::1]/hook"],
+    ["the unspecified address", "http://0.0.0.0/hook"],
+    ["localhost", "http://localhost/hook"],
+    ["10/8", "https://10.0.0.5/hook"],
+    ["172.16/12", "https://172.31.255.255/hook"],
+    ["192.168/16", "https://192.168.1.10/hook"],
+    ["carrier-grade NAT", "https://100.64.0.1/hook"],
+    ["the metadata service", "http://169.254.169.254/latest/meta-data/"],
+    ["IPv6 link-local", "http://[fe80::1]/hook"],
+    ["IPv6 unique local", "http://[fd12:3456::1]/hook"],
+    ["IPv4-mapped loopback", "http://[::ffff:127.0.0.1]/hook"],
+    ["IPv4-mapped private, in hex", "http://[::ffff:a00:1]/hook"],
+    ["IPv4-mapped metadata service", "http://[::ffff:169.254.169.254]/hook"],
+    ["multicast", "http://224.0.0.1/hook"],
+  ])("refuses %s", async (_, url) => {
+    expect(await checkWebhookUrl(url)).toBe(BLOCKED);
+  });
+
+  it.each([
+    "https://93.184.216.34/hook",
+    "https://8.8.8.8/hook",
+    "https://172.32.0.1/hook", // just past 172.16/12
+    "https://[2606:4700:4700::1111]/hook",
+  ])("accepts the public address in %s", async url => {
+    expect(await checkWebhookUrl(url)).toBeNull();
+  });
+
+  it("requires https in production", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    expect(await checkWebhookUrl("http://93.184.216.34/hook")).toBe("Webhook URLs must start with https://");
+    expect(await checkWebhookUrl("https://93.184.216.34/hook")).toBeNull();
+  });
+});
+
+describe("signPayload", () => {
+  const body = '{"id":"evt_1","type":"participationRecordCreated"}';
+
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    expect(signPayload("whsec_test", 1700000000, body))
+      .toBe("t=1700000000,v1=878f96f931a1259a2819068357a94d108f62d9ff249b979b608880a71e6cbf27");
+  });
+
+  it("changes with the secret, the timestamp and the body", () => {
+    const signature = signPayload("whsec_test", 1700000000, body);
+    expect(signPayload("whsec_other", 1700000000, body)).not.toBe(signature);
+    expect(signPayload("whsec_test", 1700000001, body).split(",v1=")[1]).not.toBe(signature.split(",v1=")[1]);
+    expect(signPayload("whsec_test", 1700000000, body + " ")).not.toBe(signature);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it.each([
+    [1, 30 * 1000],
+    [2, 2 * 60 * 1000],
+    [3, 8 * 60 * 1000],
+    [4, 32 * 60 * 1000],
+    [5, 128 * 60 * 1000],
+  ])("after attempt %j waits %j ms", (attempts, delay) => {
+    expect(getRetryDelay(attempts)).toBe(delay);
+  });
+});
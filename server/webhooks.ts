@@ -0,0 +1,254 @@
+import { request as httpRequest, type Server } from "http";
+import { request as httpsRequest } from "https";
+import { lookup as dnsLookup, promises as dns, type LookupAddress, type LookupOptions } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { createHmac, randomBytes } from "crypto";
+import type { DomainEvent, EventBus } from "./events";
+import { storage } from "./storage";
+import type { Webhook, WebhookDelivery, WebhookSummary } from "@shared/schema";
+
+// Each event is tried this many times before the delivery is given up
+const MAX_ATTEMPTS = 6;
+// Retries wait 30 seconds, then 2, 8 and 32 minutes, then a little over 2 hours
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_BACKOFF_FACTOR = 4;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+const POLL_BATCH_SIZE = 20;
+
+// Addresses webhooks may never reach: this server, private networks and cloud metadata services.
+// BlockList applies the IPv4 rules to IPv4 addresses written as IPv6 (::ffff:127.0.0.1) too.
+const blockedAddresses = new BlockList();
+blockedAddresses.addSubnet("0.0.0.0", 8);
+blockedAddresses.addSubnet("10.0.0.0", 8);
+blockedAddresses.addSubnet("100.64.0.0", 10); // carrier-grade NAT
+blockedAddresses.addSubnet("127.0.0.0", 8);
+blockedAddresses.addSubnet("169.254.0.0", 16); // link-local, including metadata services
+blockedAddresses.addSubnet("172.16.0.0", 12);
+blockedAddresses.addSubnet("192.168.0.0", 16);
+blockedAddresses.addSubnet("224.0.0.0", 3); // multicast and reserved
+blockedAddresses.addAddress("::", "ipv6");
+blockedAddresses.addAddress("::1", "ipv6");
+blockedAddresses.addSubnet("fc00::", 7, "ipv6"); // unique local
+blockedAddresses.addSubnet("fe80::", 10, "ipv6"); // link-local
+blockedAddresses.addSubnet("ff00::", 8, "ipv6"); // multicast
+
+// The request body of every delivery
+type WebhookPayload = {
+  id: string; // the event's id, so receivers can drop duplicates
+  type: string;
+  courseId: number;
+  occurredAt: string;
+  data: any;
+};
+
+// Deliveries being attempted right now, so the retry poller doesn't send them twice
+const inFlight = new Set<number>();
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+export function summarizeWebhook(webhook: Webhook): WebhookSummary {
+  const { secret, ...summary } = webhook;
+  return summary;
+}
+
+/**
+ * The X-ClassParticipate-Signature header: "t=<unix seconds>,v1=<hex>", where
+ * the hex is the HMAC-SHA256 of "<t>.<body>" keyed with the webhook's secret.
+ * Signing the timestamp too lets receivers refuse old requests replayed at them.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// How long to wait after a delivery's nth failed attempt
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * RETRY_BACKOFF_FACTOR ** (attempts - 1);
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Why a webhook can't be sent to a URL, or null when it can. Deliveries are
+ * sent from inside our network, so they may only reach public addresses, and
+ * in production only over HTTPS, since payloads hold student data.
+ */
+export async function checkWebhookUrl(value: string): Promise<string | null> {
+  const url = new URL(value);
+  if (process.env.NODE_ENV === "production" && url.protocol !== "https:") {
+    return "Webhook URLs must start with https://";
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(({ address }) => address);
+  } catch {
+    return `The host ${host} couldn't be found`;
+  }
+  return addresses.some(isBlockedAddress) ? "Webhooks can't be sent to private or local addresses" : null;
+}
+
+// dns.lookup for the delivery's own connection, so a name can't switch to a private address after the check
+const publicLookup = ((hostname: string, options: LookupOptions, callback: (...args: any[]) => void) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    if (addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private or local address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+// POST the body and resolve with the response status. Redirects aren't followed, since one could send
+// the signed payload somewhere the admin didn't register, and the response body is thrown away.
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const send = new URL(url).protocol === "https:" ? httpsRequest : httpRequest;
+    const request = send(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, (response) => {
+      response.resume();
+      response.on("end", () => resolve(response.statusCode ?? 0));
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// POST the delivery once; 2xx answers succeed, anything else is retried later
+async function attemptDelivery(deliveryId: number): Promise<void> {
+  // Read it again: the poller may have listed it just before another attempt finished
+  const attemptedAt = new Date();
+  const delivery: WebhookDelivery | undefined = await storage.getWebhookDelivery(deliveryId);
+  if (!delivery || delivery.status !== "pending" || !delivery.nextAttemptAt || delivery.nextAttemptAt > attemptedAt) {
+    return;
+  }
+
+  const webhook: Webhook | undefined = await storage.getWebhook(delivery.webhookId);
+  if (!webhook) return;
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  if (!webhook.active) {
+    error = "The webhook was paused";
+  } else {
+    try {
+      // Checked on every attempt: the URL's host may have moved, or been registered before the check existed
+      error = await checkWebhookUrl(webhook.url);
+      if (!error) {
+        const body = JSON.stringify(delivery.payload);
+        responseStatus = await postWebhook(webhook.url, {
+          "Content-Type": "application/json",
+          "User-Agent": "ClassParticipate-Webhooks/1",
+          "X-ClassParticipate-Event": delivery.eventType,
+          "X-ClassParticipate-Delivery": String(delivery.id),
+          "X-ClassParticipate-Signature": signPayload(webhook.secret, Math.floor(attemptedAt.getTime() / 1000), body),
+        }, body);
+        // Only the status is logged: the body of an error page could be anything the endpoint's server holds
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `HTTP ${responseStatus}`;
+        }
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const succeeded = error === null;
+  const gaveUp = !succeeded && (attempts >= MAX_ATTEMPTS || !webhook.active);
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: succeeded ? "succeeded" : gaveUp ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    error,
+    nextAttemptAt: succeeded || gaveUp ? null : new Date(attemptedAt.getTime() + getRetryDelay(attempts)),
+    lastAttemptAt: attemptedAt,
+  });
+}
+
+// Attempt a delivery in the background; the request that caused it doesn't wait for the endpoint
+function startDelivery(delivery: WebhookDelivery) {
+  if (inFlight.has(delivery.id)) return;
+  inFlight.add(delivery.id);
+
+  attemptDelivery(delivery.id)
+    .catch((error) => console.error("Error delivering webhook:", delivery.id, error))
+    .finally(() => inFlight.delete(delivery.id));
+}
+
+async function deliverEvent(event: DomainEvent) {
+  const webhooks: Webhook[] = await storage.getWebhooks(event.course.id);
+  const payload: WebhookPayload = {
+    id: event.id,
+    type: event.type,
+    courseId: event.course.id,
+    occurredAt: event.occurredAt.toISOString(),
+    data: event.payload,
+  };
+
+  for (const webhook of webhooks) {
+    if (!webhook.active || !webhook.events.includes(event.type)) continue;
+
+    const delivery: WebhookDelivery = await storage.createWebhookDelivery({
+      webhookId: webhook.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+      nextAttemptAt: event.occurredAt,
+      replayOf: null,
+    });
+    startDelivery(delivery);
+  }
+}
+
+// Send a logged delivery again as a new delivery, with a fresh set of attempts
+export async function replayWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const replay: WebhookDelivery = await storage.createWebhookDelivery({
+    webhookId: delivery.webhookId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: delivery.payload,
+    nextAttemptAt: new Date(),
+    replayOf: delivery.id,
+  });
+  startDelivery(replay);
+  return replay;
+}
+
+/**
+ * Post course events to the course's webhooks. Every delivery is written to
+ * the delivery log before it is attempted, and the log doubles as the retry
+ * queue: pending deliveries are picked up again once their next attempt is
+ * due, so retries survive a restart.
+ */
+export function setupWebhooks(httpServer: Server, events: EventBus): void {
+  events.subscribe(deliverEvent);
+
+  const retryInterval = setInterval(async () => {
+    try {
+      const due: WebhookDelivery[] = await storage.getDueWebhookDeliveries(new Date(), POLL_BATCH_SIZE);
+      due.forEach(startDelivery);
+    } catch (error) {
+      console.error("Error retrying webhook deliveries:", error);
+    }
+  }, POLL_INTERVAL_MS);
+
+  // Clean up interval on server shutdown
+  httpServer.on("close", () => {
+    clearInterval(retryInterval);
+  });
+}
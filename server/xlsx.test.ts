@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { PassThrough } from "stream";
+import { crc32 } from "zlib";
+import { createXlsxWriter, escapeFormula, type XlsxCell } from "./xlsx";
+
+async function writeXlsx(rows: XlsxCell[][]): Promise<Buffer> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise(resolve => out.on("end", resolve));
+
+  const xlsx = await createXlsxWriter(out, "Participation");
+  for (const row of rows) {
+    await xlsx.addRow(row);
+  }
+  await xlsx.end();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+// Read every entry of a zip through its central directory, as spreadsheet apps do, checking each CRC
+function unzip(zip: Buffer): Map<string, string> {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const method = zip.readUInt16LE(position + 10);
+    const crc = zip.readUInt32LE(position + 16);
+    const size = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const extraLength = zip.readUInt16LE(position + 30);
+    const commentLength = zip.readUInt16LE(position + 32);
+    const offset = zip.readUInt32LE(position + 42);
+    const name = zip.toString("utf8", position + 46, position + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26) + zip.readUInt16LE(offset + 28);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(method).toBe(0);
+    expect(crc32(data)).toBe(crc);
+
+    files.set(name, data.toString("utf8"));
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+// The text or number of each cell of each row of a worksheet
+function parseSheet(xml: string): (string | number | null)[][] {
+  expect(xml).toMatch(/<sheetData>.*<\/sheetData><\/worksheet>$/s);
+  return Array.from(xml.matchAll(/<row>(.*?)<\/row>/g), ([, row]) =>
+    Array.from(row.matchAll(/<c\/>|<c><v>([^<]*)<\/v><\/c>|<c t="inlineStr"><is><t xml:space="preserve">([^<]*)<\/t><\/is><\/c>/g),
+      ([, number, text]) => number !== undefined ? Number(number) : text !== undefined ? decodeXml(text) : null)
+  );
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&amp;/g, "&");
+}
+
+describe("escapeFormula", () => {
+  it.each(["=1+1", "+1", "-1", "@SUM(A1)", "\t=1", "\r=1"])("prefixes %j with a quote", value => {
+    expect(escapeFormula(value)).toBe(`'${value}`);
+  });
+
+  it.each(["Jane", "1-2", "a=b", ""])("leaves %j alone", value => {
+    expect(escapeFormula(value)).toBe(value);
+  });
+});
+
+describe("createXlsxWriter", () => {
+  it("writes a zip with the workbook parts and a readable worksheet", async () => {
+    const files = unzip(await writeXlsx([
+      ["Student", "Points", "Note"],
+      ["Doe, Jane", 3, 'Said "<b>" & left'],
+      ["=cmd", -2, null],
+      ["Tab\u0001", 0.5, ""],
+    ]));
+
+    expect(Array.from(files.keys())).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(files.get("xl/workbook.xml")).toContain('<sheet name="Participation" sheetId="1" r:id="rId1"/>');
+    expect(parseSheet(files.get("xl/worksheets/sheet1.xml")!)).toEqual([
+      ["Student", "Points", "Note"],
+      ["Doe, Jane", 3, 'Said "<b>" & left'],
+      ["'=cmd", -2, null],
+      ["Tab", 0.5, null],
+    ]);
+  });
+
+  it("writes a valid empty worksheet", async () => {
+    const files = unzip(await writeXlsx([]));
+    expect(parseSheet(files.get("xl/worksheets/sheet1.xml")!)).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+import type { Writable } from "stream";
+
+/**
+ * Minimal streaming XLSX writer: one worksheet of inline strings and numbers.
+ *
+ * An XLSX file is a zip of XML parts. The small fixed parts are written up
+ * front; the worksheet is streamed row by row as a stored (uncompressed) entry
+ * followed by a data descriptor, since its size and CRC are only known at the
+ * end. Spreadsheet apps read sizes from the central directory, so this is
+ * valid for them. No zip64 support, so the file must stay under 4 GB.
+ */
+
+export type XlsxCell = string | number | null | undefined;
+
+export type XlsxWriter = {
+  addRow(cells: XlsxCell[]): Promise<void>;
+  end(): Promise<void>;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function updateCrc32(crc: number, data: Buffer): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Write honouring backpressure, so large exports don't pile up in memory.
+// Fails once the client has gone away instead of waiting for a drain that never comes.
+export async function writeChunk(out: Writable, chunk: Buffer | string): Promise<void> {
+  if (out.destroyed) {
+    throw new Error("Export stream was closed");
+  }
+  if (!out.write(chunk)) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        out.off("drain", done);
+        out.off("close", done);
+        resolve();
+      };
+      out.once("drain", done);
+      out.once("close", done);
+    });
+  }
+}
+
+// MS-DOS date and time fields of a zip entry
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+type ZipEntry = {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  streamed: boolean;
+};
+
+function localFileHeader(entry: ZipEntry, modified: { time: number; date: number }): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4); // version needed
+  header.writeUInt16LE(entry.streamed ? 0x0808 : 0x0800, 6); // UTF-8 names, plus "sizes follow" when streamed
+  header.writeUInt16LE(0, 8); // stored
+  header.writeUInt16LE(modified.time, 10);
+  header.writeUInt16LE(modified.date, 12);
+  header.writeUInt32LE(entry.streamed ? 0 : entry.crc, 14);
+  header.writeUInt32LE(entry.streamed ? 0 : entry.size, 18);
+  header.writeUInt32LE(entry.streamed ? 0 : entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, entry.name]);
+}
+
+function centralDirectoryHeader(entry: ZipEntry, modified: { time: number; date: number }): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(20, 4); // version made by
+  header.writeUInt16LE(20, 6); // version needed
+  header.writeUInt16LE(entry.streamed ? 0x0808 : 0x0800, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(modified.time, 12);
+  header.writeUInt16LE(modified.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.size, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  // extra field, comment, disk number, attributes: all zero
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters aren't allowed in XML at all
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Spreadsheet apps run text starting with =, +, - or @ (and tab or CR, which
+ * some of them skip first) as a formula. Student names and notes are typed by
+ * users, so a leading ' makes such text show as the plain text it is.
+ */
+export function escapeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function cellXml(cell: XlsxCell): string {
+  if (cell === null || cell === undefined || cell === "") return "<c/>";
+  if (typeof cell === "number" && Number.isFinite(cell)) return `<c><v>${cell}</v></c>`;
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(escapeFormula(String(cell)))}</t></is></c>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function staticParts(sheetName: string): [string, string][] {
+  return [
+    ["[Content_Types].xml", XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>"],
+    ["_rels/.rels", XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>"],
+    ["xl/workbook.xml", XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>"],
+    ["xl/_rels/workbook.xml.rels", XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>"],
+  ];
+}
+
+export async function createXlsxWriter(out: Writable, sheetName: string): Promise<XlsxWriter> {
+  const modified = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  const emit = async (chunk: Buffer) => {
+    await writeChunk(out, chunk);
+    offset += chunk.length;
+  };
+
+  for (const [name, content] of staticParts(sheetName)) {
+    const data = Buffer.from(content, "utf8");
+    const entry = { name: Buffer.from(name, "utf8"), offset, crc: updateCrc32(0, data), size: data.length, streamed: false };
+    entries.push(entry);
+    await emit(localFileHeader(entry, modified));
+    await emit(data);
+  }
+
+  const sheet: ZipEntry = { name: Buffer.from("xl/worksheets/sheet1.xml", "utf8"), offset, crc: 0, size: 0, streamed: true };
+  entries.push(sheet);
+  await emit(localFileHeader(sheet, modified));
+
+  const emitSheetXml = async (xml: string) => {
+    const data = Buffer.from(xml, "utf8");
+    sheet.crc = updateCrc32(sheet.crc, data);
+    sheet.size += data.length;
+    await emit(data);
+  };
+
+  await emitSheetXml(XML_HEADER + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>');
+
+  return {
+    addRow: (cells) => emitSheetXml(`<row>${cells.map(cellXml).join("")}</row>`),
+
+    async end() {
+      await emitSheetXml("</sheetData></worksheet>");
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(sheet.crc, 4);
+      descriptor.writeUInt32LE(sheet.size, 8);
+      descriptor.writeUInt32LE(sheet.size, 12);
+      await emit(descriptor);
+
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        await emit(centralDirectoryHeader(entry, modified));
+      }
+
+      const endOfDirectory = Buffer.alloc(22);
+      endOfDirectory.writeUInt32LE(0x06054b50, 0);
+      endOfDirectory.writeUInt16LE(entries.length, 8);
+      endOfDirectory.writeUInt16LE(entries.length, 10);
+      endOfDirectory.writeUInt32LE(offset - directoryOffset, 12);
+      endOfDirectory.writeUInt32LE(directoryOffset, 16);
+      await emit(endOfDirectory);
+
+      out.end();
+    },
+  };
+}
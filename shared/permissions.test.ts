@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { PERMISSIONS, getAwardLimit, hasGlobalPermission, hasPermission, isGlobalPermission, type Permission } from "./permissions";
+
+// Which of admin, TA and student hold each permission; every permission has a row
+const MATRIX: Record<Permission, [admin: boolean, ta: boolean, student: boolean]> = {
+  "courses:create": [true, false, false],
+  "terms:manage": [true, false, false],
+  "invitations:manage": [true, false, false],
+  "lti:manage": [false, false, false],
+  "audit:site": [false, false, false],
+  "course:view": [true, true, true],
+  "course:manage": [true, false, false],
+  "staff:manage": [true, false, false],
+  "roster:view": [true, true, false],
+  "roster:manage": [true, false, false],
+  "session:manage": [true, true, false],
+  "queue:join": [false, false, true],
+  "queue:view": [true, true, false],
+  "queue:manage": [true, true, false],
+  "records:view": [true, true, false],
+  "records:award": [true, true, false],
+  "records:edit": [true, false, false],
+  "records:delete": [true, false, false],
+  "records:export": [true, false, false],
+  "grading:manage": [true, false, false],
+  "grades:view": [true, true, false],
+  "grades:publish": [true, false, false],
+  "webhooks:manage": [true, false, false],
+  "stats:view": [true, true, false],
+  "audit:view": [true, false, false],
+};
+
+describe("hasPermission", () => {
+  it("covers every permission", () => {
+    expect(Object.keys(MATRIX).sort()).toEqual([...PERMISSIONS].sort());
+  });
+
+  it.each(Object.entries(MATRIX) as [Permission, [boolean, boolean, boolean]][])(
+    "%s: admin %j, TA %j, student %j",
+    (permission, [admin, ta, student]) => {
+      expect(hasPermission("admin", permission)).toBe(admin);
+      expect(hasPermission("ta", permission)).toBe(ta);
+      expect(hasPermission("student", permission)).toBe(student);
+    }
+  );
+
+  it.each([null, undefined, "", "superuser", "toString"])("gives no permissions to role %j", role => {
+    expect(PERMISSIONS.filter(permission => hasPermission(role, permission))).toEqual([]);
+  });
+});
+
+describe("hasGlobalPermission", () => {
+  it.each([
+    ["lti:manage", { role: "admin", siteAdmin: false }, false],
+    ["lti:manage", { role: "admin", siteAdmin: true }, true],
+    ["lti:manage", { role: "student", siteAdmin: true }, true],
+    ["audit:site", { role: "admin", siteAdmin: false }, false],
+    ["audit:site", { role: "ta", siteAdmin: true }, true],
+    ["courses:create", { role: "admin", siteAdmin: false }, true],
+    ["courses:create", { role: "ta", siteAdmin: true }, false],
+    ["invitations:manage", { role: "student", siteAdmin: false }, false],
+  ] as const)("%s for %j is %j", (permission, user, expected) => {
+    expect(isGlobalPermission(permission)).toBe(true);
+    expect(hasGlobalPermission(user, permission)).toBe(expected);
+  });
+
+  it("gives nothing to signed-out users", () => {
+    expect(hasGlobalPermission(null, "courses:create")).toBe(false);
+    expect(hasGlobalPermission(undefined, "lti:manage")).toBe(false);
+  });
+});
+
+describe("getAwardLimit", () => {
+  it.each([
+    ["ta", 2],
+    ["admin", null],
+    ["student", null],
+    [null, null],
+  ] as const)("for %j is %j", (role, expected) => {
+    expect(getAwardLimit({ taAwardLimit: 2 }, role)).toBe(expected);
+  });
+});
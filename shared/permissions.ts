@@ -0,0 +1,92 @@
+/**
+ * Who may do what, shared by the server (which enforces it) and the client
+ * (which hides controls the user can't use).
+ *
+ * A user's role in a course decides their permissions there: admins in the
+ * courses they own, TAs in the courses they're assigned to and students in the
+ * courses they're enrolled in. Global permissions aren't tied to a course and
+ * only depend on the account's role, except site permissions, which only site
+ * admins hold whatever their role.
+ */
+import type { Course, User } from "./schema";
+
+export const USER_ROLES = ["admin", "ta", "student"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Professor",
+  ta: "TA",
+  student: "Student",
+};
+
+export const PERMISSIONS = [
+  // Global
+  "courses:create",
+  "terms:manage",
+  "invitations:manage",
+  "lti:manage", // register LMS platforms (site admins only)
+  "audit:site", // the audit trail of events outside any course, such as logins (site admins only)
+  // Course
+  "course:view",
+  "course:manage", // edit or delete the course itself
+  "staff:manage",
+  "roster:view",
+  "roster:manage", // enroll, unenroll, import, join code
+  "session:manage", // open and close class sessions
+  "queue:join", // raise a hand
+  "queue:view",
+  "queue:manage", // lower anybody's hand
+  "records:view", // every student's records, not just your own
+  "records:award",
+  "records:edit",
+  "records:delete", // and restore
+  "records:export",
+  "grading:manage", // rubric and grading policy
+  "grades:view", // every student's grade, not just your own
+  "grades:publish", // send grades to the linked LMS course
+  "webhooks:manage", // post course events to integrations
+  "stats:view",
+  "audit:view",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const GLOBAL_PERMISSIONS: readonly Permission[] = ["courses:create", "terms:manage", "invitations:manage", "lti:manage", "audit:site"];
+// A registered LMS can sign people in, and account events concern every user, so both are for whoever runs the site
+const SITE_PERMISSIONS: readonly Permission[] = ["lti:manage", "audit:site"];
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS.filter(permission => permission !== "queue:join" && !SITE_PERMISSIONS.includes(permission)),
+  // TAs run class, but can't take points away or change how the course is graded or staffed
+  ta: [
+    "course:view",
+    "roster:view",
+    "session:manage",
+    "queue:view",
+    "queue:manage",
+    "records:view",
+    "records:award",
+    "grades:view",
+    "stats:view",
+  ],
+  student: ["course:view", "queue:join"],
+};
+
+export function isGlobalPermission(permission: Permission): boolean {
+  return GLOBAL_PERMISSIONS.includes(permission);
+}
+
+// Roles outside USER_ROLES, and no role at all, have no permissions
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return USER_ROLES.includes(role as UserRole) && ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
+
+// Whether an account holds a global permission: its role's, or a site permission as a site admin
+export function hasGlobalPermission(user: Pick<User, "role" | "siteAdmin"> | null | undefined, permission: Permission): boolean {
+  if (SITE_PERMISSIONS.includes(permission)) return !!user?.siteAdmin;
+  return hasPermission(user?.role, permission);
+}
+
+// The most points a role can give in one award; null when only the rubric limits it
+export function getAwardLimit(course: Pick<Course, "taAwardLimit">, role: string | null | undefined): number | null {
+  return role === "ta" ? course.taAwardLimit : null;
+}
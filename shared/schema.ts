@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./time-zone";
 
 // User model
 export const users = pgTable("users", {
@@ -8,8 +9,10 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull(),
-  role: text("role").notNull().default("student"), // "admin" or "student"
+  role: text("role").notNull().default("student"), // one of USER_ROLES in permissions.ts
   name: text("name").notNull(),
+  siteAdmin: boolean("site_admin").notNull().default(false), // runs the installation, e.g. registers LMS platforms
+  emailVerified: boolean("email_verified").notNull().default(false), // the user proved the inbox is theirs, e.g. with a reset link
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -18,27 +21,341 @@ export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
   name: true,
   role: true,
+  siteAdmin: true,
+  emailVerified: true,
 });
 
-// Default course constant - the only course used in the application
-export const DEFAULT_COURSE = {
-  id: 1,
-  name: "ENT615: Strategy and Leadership for Entrepreneurs",
-  description: "This course explores the strategic frameworks and leadership principles essential for entrepreneurial success."
+// Term model (an academic term such as "Fall 2025"; dates are "YYYY-MM-DD", both ends inclusive)
+export type TermHoliday = {
+  date: string;
+  name: string;
 };
 
+export const terms = pgTable("terms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  holidays: jsonb("holidays").$type<TermHoliday[]>().notNull().default([]),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted as YYYY-MM-DD");
+
+export const termFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Term name is required").max(100),
+  startDate: isoDate,
+  endDate: isoDate,
+  holidays: z.array(z.object({
+    date: isoDate,
+    name: z.string().trim().min(1).max(100),
+  })).default([]),
+});
+
+// ISO dates compare correctly as strings
+export const insertTermSchema = termFieldsSchema.superRefine((term, ctx) => {
+  if (term.endDate < term.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "The term must end after it starts" });
+  }
+  term.holidays.forEach((holiday, index) => {
+    if (holiday.date < term.startDate || holiday.date > term.endDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["holidays", index, "date"], message: "Holidays must fall within the term" });
+    }
+  });
+});
+
+// Most points a TA can give in one award until the professor changes it
+export const DEFAULT_TA_AWARD_LIMIT = 2;
+
+// Course model (one per section taught)
+export const courses = pgTable("courses", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  adminId: integer("admin_id").notNull(),
+  joinCode: text("join_code").notNull().unique(), // shared with students to enroll
+  termId: integer("term_id"),
+  timeZone: text("time_zone").notNull().default(DEFAULT_TIME_ZONE), // IANA zone that decides where each day starts
+  taAwardLimit: integer("ta_award_limit").notNull().default(DEFAULT_TA_AWARD_LIMIT),
+});
+
+export const insertCourseSchema = createInsertSchema(courses).pick({
+  name: true,
+  description: true,
+  termId: true,
+}).extend({
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  taAwardLimit: z.number().int().min(0, "The limit can't be negative").max(100).optional(),
+});
+
+// RubricCategory model (the named ways a student can earn points in a course)
+export const rubricCategories = pgTable("rubric_categories", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  name: text("name").notNull(), // e.g. "Insightful answer"
+  points: integer("points").notNull(),
+  maxPerSession: integer("max_per_session"), // per student; null means no limit
+});
+
+export const insertRubricCategorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required").max(50),
+  points: z.number().int().min(0, "Points can't be negative").max(100),
+  maxPerSession: z.number().int().min(1, "The limit must be at least 1").nullable().default(null),
+});
+
+// Rubric every new course starts with, matching the old +1/+2 buttons
+export const DEFAULT_RUBRIC = [
+  { name: "Participation", points: 1, maxPerSession: null },
+  { name: "Insightful answer", points: 2, maxPerSession: null },
+] satisfies z.input<typeof insertRubricCategorySchema>[];
+
+// StudentCourse model (enrollment of a student in a course)
+export const studentCourses = pgTable("student_courses", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  courseId: integer("course_id").notNull(),
+});
+
+export const insertStudentCourseSchema = createInsertSchema(studentCourses).pick({
+  studentId: true,
+  courseId: true,
+});
+
+// CourseStaff model (a TA assigned to help run a course)
+export const courseStaff = pgTable("course_staff", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  userId: integer("user_id").notNull(),
+});
+
+// ExternalIdentity model (an account at a single sign-on provider, linked to a user)
+export const externalIdentities = pgTable("external_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  issuer: text("issuer").notNull(), // who vouches for the account: "oidc:<issuer URL>" for SSO, "lti:<platform id>" for an LMS
+  subject: text("subject").notNull(), // the provider's stable id for the account
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const enrollmentRequestSchema = z.object({
+  courseId: z.coerce.number().int().positive(),
+  joinCode: z.string().trim().optional(),
+  studentId: z.coerce.number().int().positive().optional(),
+});
+
+// One student of a roster import, checked like a self-registration
+export const rosterRowSchema = insertUserSchema.pick({
+  username: true,
+  email: true,
+  name: true,
+}).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+// The uploaded CSV/TSV file as text; missing students are only unenrolled when asked to
+export const rosterImportSchema = z.object({
+  text: z.string().min(1, "The roster file is empty"),
+  unenrollMissing: z.boolean().default(false),
+});
+
+// Invitation model (a single-use, expiring link for registering with a role; only the token's hash is stored)
+export const INVITATION_ROLES = ["admin", "ta", "student"] as const;
+export type InvitationRole = (typeof INVITATION_ROLES)[number];
+
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  role: text("role").$type<InvitationRole>().notNull(),
+  courseId: integer("course_id"), // course a student is enrolled in, or a TA assigned to, on accepting
+  email: text("email"), // when set, only this address can accept
+  createdBy: integer("created_by"), // null for the invitation that bootstraps the first admin
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Student and TA invitations belong to a course; admin invitations aren't tied to one
+export const createInvitationSchema = z.object({
+  role: z.enum(INVITATION_ROLES),
+  courseId: z.number().int().positive().nullable().default(null),
+  email: z.string().trim().toLowerCase().email("Invalid email address").nullable().default(null),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
+}).superRefine((invitation, ctx) => {
+  if (invitation.role !== "admin" && invitation.courseId === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["courseId"], message: "Student and TA invitations need a course" });
+  }
+  if (invitation.role === "admin" && invitation.courseId !== null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["courseId"], message: "Admin invitations can't be tied to a course" });
+  }
+});
+
+export const invitationTokenSchema = z.object({
+  token: z.string().trim().min(1, "An invitation token is required"),
+});
+
+// Every password a user chooses, whether registering, changing or resetting it
+const newPasswordSchema = z.string().min(6, "Password must be at least 6 characters");
+
+// Self-registration creates a student account; any other role needs an invitation
+export const registerUserSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  email: true,
+  name: true,
+}).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: newPasswordSchema,
+  email: z.string().trim().email("Invalid email address"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  inviteToken: z.string().trim().min(1).optional(),
+});
+
+// Changing the email, where password resets are sent, takes the current password too
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+  email: z.string().trim().email("Invalid email address").optional(),
+  currentPassword: z.string().optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: newPasswordSchema,
+});
+
+// PasswordResetToken model (a single-use, expiring link for choosing a new password; only the token's hash is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  createdBy: integer("created_by"), // the admin who forced the reset; null when users asked themselves
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// A username or an email address, whichever the user remembers
+export const passwordResetRequestSchema = z.object({
+  identifier: z.string().trim().min(1, "Enter your username or email"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().trim().min(1, "A reset token is required"),
+  password: newPasswordSchema,
+});
+
+// LtiPlatform model (an LMS registered to launch ClassParticipate with LTI 1.3)
+export const ltiPlatforms = pgTable("lti_platforms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  issuer: text("issuer").notNull(),
+  clientId: text("client_id").notNull(), // the id the platform gave this tool
+  authLoginUrl: text("auth_login_url").notNull(), // where launches are authorized
+  authTokenUrl: text("auth_token_url").notNull(), // where grade service tokens come from
+  jwksUrl: text("jwks_url").notNull(), // the platform's signing keys
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLtiPlatformSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  issuer: z.string().trim().url("The issuer must be a URL"),
+  clientId: z.string().trim().min(1, "Client ID is required").max(255),
+  authLoginUrl: z.string().trim().url("The authentication request URL must be a URL"),
+  authTokenUrl: z.string().trim().url("The access token URL must be a URL"),
+  jwksUrl: z.string().trim().url("The keyset URL must be a URL"),
+});
+
+// LtiDeployment model (an installation of the tool on a platform; launches must name a registered one)
+export const ltiDeployments = pgTable("lti_deployments", {
+  id: serial("id").primaryKey(),
+  platformId: integer("platform_id").notNull(),
+  deploymentId: text("deployment_id").notNull(),
+});
+
+export const insertLtiDeploymentSchema = z.object({
+  deploymentId: z.string().trim().min(1, "Deployment ID is required").max(255),
+});
+
+// LtiContext model (an LMS course, linked to the ClassParticipate course it launches into)
+export const ltiContexts = pgTable("lti_contexts", {
+  id: serial("id").primaryKey(),
+  platformId: integer("platform_id").notNull(),
+  contextId: text("context_id").notNull(),
+  courseId: integer("course_id").notNull(),
+  title: text("title"),
+  lineItemsUrl: text("line_items_url"), // Assignment and Grade Services, when the platform offers them
+  lineItemUrl: text("line_item_url"), // the gradebook column grades are sent to, once there is one
+  agsScopes: text("ags_scopes").array().notNull().default([]),
+});
+
+// LtiLaunchState model (a launch between login initiation and the platform posting its token back)
+export const ltiLaunchStates = pgTable("lti_launch_states", {
+  state: text("state").primaryKey(),
+  nonce: text("nonce").notNull(),
+  platformId: integer("platform_id").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// ApiToken model (a personal token for scripts and integrations; only the token's hash is stored)
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(), // the token's first characters, to tell tokens apart
+  scopes: text("scopes").array().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+// "read" allows GET requests and "write" everything else; a token never does more than its user can
+export const API_TOKEN_SCOPES = ["read", "write"] as const;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Choose at least one scope"),
+  expiresInDays: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// LoginAttempt model (failed logins counted per account and per IP address, for throttling)
+export const loginAttempts = pgTable("login_attempts", {
+  key: text("key").primaryKey(), // "account:<username>" or "ip:<address>"
+  failures: integer("failures").notNull(),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+});
+
+// ClassSession model (a single class meeting that is opened and closed by the professor)
+export const classSessions = pgTable("class_sessions", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  topic: text("topic"),
+  status: text("status").notNull().default("open"), // "open" or "closed"
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+});
+
+export const insertClassSessionSchema = createInsertSchema(classSessions)
+  .pick({ courseId: true })
+  .merge(z.object({
+    topic: z.string().trim().max(200).optional()
+  }));
+
 // ParticipationRequest model (for raised hands)
 export const participationRequests = pgTable("participation_requests", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").notNull(),
-  courseId: integer("course_id").notNull().default(DEFAULT_COURSE.id),
+  courseId: integer("course_id").notNull(),
+  sessionId: integer("session_id"),
   note: text("note"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   active: boolean("active").notNull().default(true),
 });
 
 export const insertParticipationRequestSchema = createInsertSchema(participationRequests)
-  .omit({ courseId: true })
   .merge(z.object({
     note: z.string().optional()
   }));
@@ -47,21 +364,233 @@ export const insertParticipationRequestSchema = createInsertSchema(participation
 export const participationRecords = pgTable("participation_records", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").notNull(),
-  courseId: integer("course_id").notNull().default(DEFAULT_COURSE.id),
+  courseId: integer("course_id").notNull(),
+  sessionId: integer("session_id"),
+  categoryId: integer("category_id"), // rubric category the points were awarded for
   points: integer("points").notNull(),
   feedback: text("feedback"),
   note: text("note"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   hidden: boolean("hidden").notNull().default(false),
+  deletedAt: timestamp("deleted_at"),
+  deleteBatchId: text("delete_batch_id"), // shared by every record hidden in the same delete call
 });
 
 export const insertParticipationRecordSchema = createInsertSchema(participationRecords)
-  .omit({ courseId: true })
+  .omit({ deletedAt: true, deleteBatchId: true })
   .merge(z.object({
+    points: z.number().int().min(0, "Points can't be negative"),
     feedback: z.string().optional(),
     note: z.string().optional()
   }));
 
+// Awarding points: the category decides how many, so points only need sending as a check
+export const awardParticipationSchema = z.object({
+  courseId: z.coerce.number().int().positive(),
+  studentId: z.coerce.number().int().positive(),
+  categoryId: z.coerce.number().int().positive(),
+  points: z.number().int().optional(),
+  requestId: z.coerce.number().int().positive().nullable().optional(), // the raised hand being answered, lowered once awarded
+  feedback: z.string().optional(),
+  note: z.string().optional(),
+});
+
+// Query-string booleans arrive as "true"/"false"
+const queryBoolean = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform(value => value === "true")
+]);
+
+// Filters accepted by the participation record list endpoints
+export const participationRecordFilterSchema = z.object({
+  showHidden: queryBoolean.default(false),
+  onlyHidden: queryBoolean.default(false), // only soft-deleted records (implies showHidden)
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  studentId: z.coerce.number().int().optional(),
+  sessionId: z.coerce.number().int().optional(),
+  minPoints: z.coerce.number().int().optional(),
+});
+
+// Gradebook formats (one row per student) followed by raw record dumps
+export const EXPORT_FORMATS = ["canvas", "moodle", "blackboard", "csv", "jsonl", "xlsx"] as const;
+
+// GET /api/exports: the format plus the same filters as the record list
+export const exportQuerySchema = participationRecordFilterSchema.extend({
+  format: z.enum(EXPORT_FORMATS),
+});
+
+// Cursors point just past the last record of a page: "<timestamp ms>:<id>"
+export type RecordCursor = { timestamp: Date; id: number };
+
+export function encodeRecordCursor(record: { timestamp: Date | string; id: number }): string {
+  return `${new Date(record.timestamp).getTime()}:${record.id}`;
+}
+
+// Keyset pagination over records ordered by (timestamp, id)
+export const pageRequestSchema = z.object({
+  cursor: z.string().transform((value, ctx): RecordCursor => {
+    const [time, id] = value.split(":").map(Number);
+    if (!Number.isInteger(time) || !Number.isInteger(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return { timestamp: new Date(time), id };
+  }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  order: z.enum(["desc", "asc"]).default("desc"),
+});
+
+// Date range of the Class Participation Overview
+export const studentStatsQuerySchema = z.object({
+  range: z.enum(["week", "month", "semester"]).default("month"),
+});
+
+// Restore soft-deleted records, either everything hidden by one delete call or everything from one day
+export const restoreParticipationRecordsSchema = z.object({
+  batchId: z.string().min(1).optional(),
+  date: z.coerce.date().optional(),
+}).refine(data => (data.batchId === undefined) !== (data.date === undefined), {
+  message: "Provide either a batchId or a date",
+});
+
+// AuditEvent model (append-only trail of every mutating action)
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // null for anonymous actions such as registration
+  courseId: integer("course_id"),
+  action: text("action").notNull(), // e.g. "record.update"
+  targetType: text("target_type").notNull(), // e.g. "participation_record"
+  targetId: integer("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  timestamp: timestamp("timestamp").notNull().defaultNow(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  timestamp: true,
+});
+
+// Filters accepted by GET /api/audit
+export const auditEventFilterSchema = z.object({
+  actorId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  targetType: z.string().optional(),
+  targetId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Domain events, published by the routes to the WebSocket clients and to webhooks
+export const DOMAIN_EVENT_TYPES = [
+  "sessionOpened",
+  "sessionClosed",
+  "participationRequest",
+  "participationRequestDeactivated",
+  "participationRecordCreated",
+  "participationRecordUpdated",
+  "participationRecordsDeleted",
+  "participationRecordsRestored",
+] as const;
+
+// Webhook model (a URL a course's events are posted to, signed with the webhook's secret)
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC key; only shown to the admin when the webhook is created
+  events: text("events").array().notNull(), // DOMAIN_EVENT_TYPES it receives
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const webhookUrlSchema = z.string().trim().url("The URL must be a URL")
+  .refine(url => /^https?:\/\//i.test(url), "The URL must start with http:// or https://");
+
+export const insertWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(DOMAIN_EVENT_TYPES)).min(1, "Choose at least one event"),
+  active: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
+
+// WebhookDelivery model (one event sent to one webhook, retried until it succeeds or runs out of attempts)
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  eventId: text("event_id").notNull(), // the same for every delivery of one event, replays included
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(), // the request body, as sent
+  status: text("status").$type<WebhookDeliveryStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // of the last attempt; null when no response came back
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // null once it succeeded or gave up
+  replayOf: integer("replay_of"), // the delivery this one replays
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+});
+
+// GradingPolicy model (how a course turns participation points into a grade; at most one per course)
+export type GradeScaling = "linear" | "curve";
+export type LetterCutoff = { letter: string; minPercent: number };
+
+export const gradingPolicies = pgTable("grading_policies", {
+  courseId: integer("course_id").primaryKey(),
+  targetPoints: integer("target_points").notNull(), // counted points needed for full credit
+  sessionCap: integer("session_cap"), // most points that count from one session; null means no cap
+  dropLowestSessions: integer("drop_lowest_sessions").notNull().default(0),
+  scaling: text("scaling").$type<GradeScaling>().notNull().default("linear"),
+  curveExponent: real("curve_exponent").notNull().default(0.5), // "curve" grades as (points / target) ^ exponent
+  letterCutoffs: jsonb("letter_cutoffs").$type<LetterCutoff[]>().notNull(),
+});
+
+export const gradingPolicySchema = z.object({
+  targetPoints: z.number().int().min(1, "The target must be at least 1 point"),
+  sessionCap: z.number().int().min(1, "The cap must be at least 1 point").nullable().default(null),
+  dropLowestSessions: z.number().int().min(0).default(0),
+  scaling: z.enum(["linear", "curve"]).default("linear"),
+  curveExponent: z.number().gt(0, "The curve exponent must be above 0").max(1, "The curve exponent can't be above 1").default(0.5),
+  letterCutoffs: z.array(z.object({
+    letter: z.string().trim().min(1).max(3),
+    minPercent: z.number().min(0).max(100),
+  })).min(1, "Add at least one letter grade"),
+}).superRefine((policy, ctx) => {
+  // Every percentage needs a letter, so the lowest cutoff has to start at 0
+  if (!policy.letterCutoffs.some(cutoff => cutoff.minPercent === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["letterCutoffs"], message: "One letter grade must start at 0%" });
+  }
+});
+
+// Policy used until a professor saves one for the course
+export const DEFAULT_GRADING_POLICY: z.infer<typeof gradingPolicySchema> = {
+  targetPoints: 20,
+  sessionCap: null,
+  dropLowestSessions: 0,
+  scaling: "linear",
+  curveExponent: 0.5,
+  letterCutoffs: [
+    { letter: "A", minPercent: 90 },
+    { letter: "B", minPercent: 80 },
+    { letter: "C", minPercent: 70 },
+    { letter: "D", minPercent: 60 },
+    { letter: "F", minPercent: 0 },
+  ],
+};
+
+// Corrections to an existing record (all fields optional)
+export const updateParticipationRecordSchema = z.object({
+  points: z.number().int().min(0, "Points can't be negative"),
+  feedback: z.string().nullable(),
+  note: z.string().nullable(),
+}).partial();
+
 // Type exports
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -80,18 +609,103 @@ export function sanitizeUsers(users: User[]): SafeUser[] {
   return users.map(sanitizeUser);
 }
 
-// We maintain a Course type for compatibility
-export type Course = {
-  id: number;
-  name: string;
-  description: string;
-};
+export type InsertCourse = z.infer<typeof insertCourseSchema>;
+export type Course = typeof courses.$inferSelect;
+
+export type InsertRubricCategory = z.infer<typeof insertRubricCategorySchema>;
+export type RubricCategory = typeof rubricCategories.$inferSelect;
+
+// Course as shown to students, without the join code
+export type PublicCourse = Omit<Course, "joinCode">;
+
+// Helper function to remove the join code from a course object
+export function sanitizeCourse(course: Course): PublicCourse {
+  const { joinCode, ...publicCourse } = course;
+  return publicCourse;
+}
+
+export type InsertStudentCourse = z.infer<typeof insertStudentCourseSchema>;
+export type StudentCourse = typeof studentCourses.$inferSelect;
+export type CourseStaff = typeof courseStaff.$inferSelect;
+export type ExternalIdentity = typeof externalIdentities.$inferSelect;
+export type InsertExternalIdentity = Omit<ExternalIdentity, "id" | "createdAt">;
+// Login methods besides username and password, for the login form
+export type AuthProviders = { sso: { name: string } | null };
+// Why an SSO login failed; only the code goes back to the login page (/auth?ssoError=<code>), which words it
+export const SSO_ERROR_CODES = ["denied", "expired", "no_email", "unverified_email", "privileged_email", "link_required", "no_role", "failed"] as const;
+export type SsoErrorCode = (typeof SSO_ERROR_CODES)[number];
+export type LtiPlatform = typeof ltiPlatforms.$inferSelect;
+export type InsertLtiPlatform = z.infer<typeof insertLtiPlatformSchema>;
+export type LtiDeployment = typeof ltiDeployments.$inferSelect;
+export type LtiPlatformWithDeployments = LtiPlatform & { deployments: LtiDeployment[] };
+export type LtiContext = typeof ltiContexts.$inferSelect;
+export type InsertLtiContext = Omit<LtiContext, "id">;
+export type LtiLaunchState = typeof ltiLaunchStates.$inferSelect;
+// What an LMS admin enters on their side to register the tool
+export type LtiToolConfig = { loginUrl: string; launchUrl: string; jwksUrl: string };
+// The LMS course a course is linked to, if any
+export type CourseLtiLink = { platformName: string; contextTitle: string | null; canSendGrades: boolean } | null;
+export type LtiGradeSyncResult = { sent: number; skipped: number; failed: number };
+export type DomainEventType = (typeof DOMAIN_EVENT_TYPES)[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+// Webhooks as listed to admins; the secret is only returned once, when the webhook is created
+export type WebhookSummary = Omit<Webhook, "secret">;
+export type CreatedWebhook = WebhookSummary & { secret: string };
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = Omit<WebhookDelivery, "id" | "status" | "attempts" | "responseStatus" | "error" | "createdAt" | "lastAttemptAt">;
+// What an attempt changes on a delivery
+export type WebhookDeliveryAttempt = Pick<WebhookDelivery, "status" | "attempts" | "responseStatus" | "error" | "nextAttemptAt" | "lastAttemptAt">;
+export type EnrollmentRequest = z.infer<typeof enrollmentRequestSchema>;
+export type RosterRow = z.infer<typeof rosterRowSchema>;
+export type RosterImportRequest = z.input<typeof rosterImportSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = Omit<Invitation, "id" | "createdAt" | "usedAt" | "usedBy" | "revokedAt">;
+export type CreateInvitationRequest = z.input<typeof createInvitationSchema>;
+export type InvitationSettings = z.infer<typeof createInvitationSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = Omit<PasswordResetToken, "id" | "createdAt" | "usedAt">;
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordReset = z.infer<typeof passwordResetSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = Omit<ApiToken, "id" | "createdAt" | "lastUsedAt">;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+export type CreateApiTokenRequest = z.input<typeof createApiTokenSchema>;
+export type ApiTokenSettings = z.infer<typeof createApiTokenSchema>;
+// Tokens as listed to their owner; the token itself is only returned once, when it's created
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+export type CreatedApiToken = ApiTokenSummary & { token: string };
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+// Body of the 429 answer to a login that is throttled
+export type LoginLockout = { message: string; lockedUntil: Date; lockedOut: boolean };
+// Response to an admin forcing a student's password reset
+export type ForcedPasswordReset = { email: string; expiresAt: Date };
+
+export type InsertClassSession = z.infer<typeof insertClassSessionSchema>;
+export type ClassSession = typeof classSessions.$inferSelect;
 
 export type InsertParticipationRequest = z.infer<typeof insertParticipationRequestSchema>;
 export type ParticipationRequest = typeof participationRequests.$inferSelect;
 
 export type InsertParticipationRecord = z.infer<typeof insertParticipationRecordSchema>;
 export type ParticipationRecord = typeof participationRecords.$inferSelect;
+export type UpdateParticipationRecord = z.infer<typeof updateParticipationRecordSchema>;
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditEventFilter = z.infer<typeof auditEventFilterSchema>;
+export type ParticipationRecordFilter = z.infer<typeof participationRecordFilterSchema>;
+// What a client may send: every filter is optional
+export type ParticipationRecordQuery = z.input<typeof participationRecordFilterSchema>;
+export type AuditEventQuery = z.input<typeof auditEventFilterSchema>;
+export type StudentStatsQuery = z.infer<typeof studentStatsQuerySchema>;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type PageRequest = z.infer<typeof pageRequestSchema>;
+export type PageQuery = z.input<typeof pageRequestSchema>;
 
 // Extended types for frontend use
 export type ParticipationRequestWithStudent = ParticipationRequest & {
@@ -109,3 +723,128 @@ export type ParticipationRecordWithStudent = ParticipationRecord & {
     username: string;
   };
 };
+
+export type AuditEventWithActor = AuditEvent & {
+  actor: {
+    id: number;
+    name: string;
+    username: string;
+  } | null;
+};
+
+// Response bodies shared by the API routes and the client
+export type InsertTerm = z.infer<typeof insertTermSchema>;
+export type Term = typeof terms.$inferSelect;
+
+export type GradingPolicySettings = z.infer<typeof gradingPolicySchema>;
+export type GradingPolicy = typeof gradingPolicies.$inferSelect;
+
+export type ParticipationPoints = {
+  studentId: number;
+  courseId: number;
+  points: number;
+};
+
+// One page of a cursor-paginated list; nextCursor is null on the last page
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+/**
+ * Outcome of one roster row. In a preview "create" and "enroll" say what the
+ * import would do; after the import they say what it did. "enrolled" rows
+ * were already in the course and are left alone.
+ */
+export type RosterImportStatus = "create" | "enroll" | "enrolled" | "error";
+
+export type RosterImportRow = {
+  line: number; // row number in the file, the header being line 1
+  name: string;
+  email: string;
+  username: string;
+  status: RosterImportStatus;
+  message: string | null;
+  userId: number | null;
+};
+
+export type RosterImportResult = {
+  applied: boolean;
+  rows: RosterImportRow[];
+  missing: SafeUser[]; // enrolled students the file doesn't mention
+  unenrolled: number;
+};
+
+export type InvitationStatus = "pending" | "used" | "expired" | "revoked";
+
+// An invitation as listed to admins; the token itself is only returned once, on creation
+export type InvitationSummary = Omit<Invitation, "tokenHash"> & {
+  status: InvitationStatus;
+  course: { id: number; name: string } | null;
+};
+
+export type CreatedInvitation = InvitationSummary & {
+  token: string;
+};
+
+// What the registration page may show about an invitation before it's accepted
+export type InvitationPreview = Pick<Invitation, "role" | "email" | "expiresAt"> & {
+  course: { id: number; name: string } | null;
+};
+
+// Per-student aggregates over a period, as computed by the storage layer
+export type StudentParticipationTotals = {
+  student: {
+    id: number;
+    name: string;
+    username: string;
+  };
+  totalPoints: number;
+  participationCount: number;
+  lastParticipation: Date | null;
+};
+
+export type StudentStats = StudentParticipationTotals & {
+  percentileRank: number; // 0-100 within the course
+  previousPoints: number | null; // null when the range has no previous period
+  trend: "up" | "down" | "flat" | null;
+};
+
+export type StudentStatsResponse = {
+  range: StudentStatsQuery["range"];
+  from: Date | null;
+  to: Date;
+  students: StudentStats[];
+};
+
+// Points a student earned in one class session (sessionId null for records outside any session)
+export type SessionPoints = {
+  studentId: number;
+  sessionId: number | null;
+  points: number;
+};
+
+// A student's participation grade under the course's grading policy
+export type StudentGrade = {
+  student: {
+    id: number;
+    name: string;
+    username: string;
+  };
+  rawPoints: number; // every visible point
+  countedPoints: number; // after session caps and dropped sessions
+  percent: number; // 0-100, one decimal
+  letter: string;
+};
+
+export type CourseGrades = {
+  policy: GradingPolicy;
+  grades: StudentGrade[];
+};
+
+// Result of a bulk delete or restore of participation records
+export type ParticipationRecordsBatchResult = {
+  message: string;
+  count: number;
+  batchId?: string;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { getDateKey, getDayRange, isValidTimeZone, nextDateKey, startOfDateInTimeZone } from "./time-zone";
+
+// Hours in a day range, to spot 23- and 25-hour days
+function hours(range: { start: Date; end: Date }): number {
+  return (range.end.getTime() - range.start.getTime()) / (60 * 60 * 1000);
+}
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and refuses anything else", () => {
+    expect(isValidTimeZone("America/Chicago")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("getDateKey", () => {
+  it("gives the date on the zone's wall clock, not in UTC", () => {
+    const instant = new Date("2025-01-15T03:30:00Z");
+    expect(getDateKey(instant, "UTC")).toBe("2025-01-15");
+    expect(getDateKey(instant, "America/Chicago")).toBe("2025-01-14");
+    expect(getDateKey(instant, "Pacific/Auckland")).toBe("2025-01-15");
+  });
+
+  it("pads months and days", () => {
+    expect(getDateKey(new Date("2025-03-05T12:00:00Z"), "UTC")).toBe("2025-03-05");
+  });
+});
+
+describe("nextDateKey", () => {
+  it("rolls over months, leap days and years", () => {
+    expect(nextDateKey("2025-01-31")).toBe("2025-02-01");
+    expect(nextDateKey("2024-02-28")).toBe("2024-02-29");
+    expect(nextDateKey("2025-12-31")).toBe("2026-01-01");
+  });
+});
+
+describe("startOfDateInTimeZone", () => {
+  it("is local midnight on ordinary days", () => {
+    expect(startOfDateInTimeZone("2025-01-15", "UTC").toISOString()).toBe("2025-01-15T00:00:00.000Z");
+    expect(startOfDateInTimeZone("2025-01-15", "America/Chicago").toISOString()).toBe("2025-01-15T06:00:00.000Z");
+    expect(startOfDateInTimeZone("2025-01-15", "Pacific/Auckland").toISOString()).toBe("2025-01-14T11:00:00.000Z");
+  });
+
+  it("is the moment the clocks jump when DST skips midnight", () => {
+    // Santiago goes from 00:00 at UTC-4 straight to 01:00 at UTC-3
+    const start = startOfDateInTimeZone("2025-09-07", "America/Santiago");
+    expect(start.toISOString()).toBe("2025-09-07T04:00:00.000Z");
+    expect(getDateKey(start, "America/Santiago")).toBe("2025-09-07");
+    expect(getDateKey(new Date(start.getTime() - 1000), "America/Santiago")).toBe("2025-09-06");
+
+    // Beirut does the same east of UTC, at 00:00 UTC+2
+    expect(startOfDateInTimeZone("2025-03-30", "Asia/Beirut").toISOString()).toBe("2025-03-29T22:00:00.000Z");
+  });
+
+  it("is the first midnight once DST ends at midnight", () => {
+    // Santiago goes back from 00:00 at UTC-3 to 23:00 the evening before, so the date starts at 00:00 UTC-4
+    expect(startOfDateInTimeZone("2025-04-06", "America/Santiago").toISOString()).toBe("2025-04-06T04:00:00.000Z");
+    // The Azores repeat the hour after midnight instead, so the date starts at the first one
+    expect(startOfDateInTimeZone("2025-10-26", "Atlantic/Azores").toISOString()).toBe("2025-10-26T00:00:00.000Z");
+  });
+});
+
+describe("getDayRange", () => {
+  it("covers the local day containing the instant", () => {
+    const range = getDayRange(new Date("2025-01-15T03:30:00Z"), "America/Chicago");
+    expect(range.start.toISOString()).toBe("2025-01-14T06:00:00.000Z");
+    expect(range.end.toISOString()).toBe("2025-01-15T06:00:00.000Z");
+  });
+
+  it("is 23 or 25 hours long across DST changes", () => {
+    expect(hours(getDayRange(new Date("2025-03-09T18:00:00Z"), "America/Chicago"))).toBe(23);
+    expect(hours(getDayRange(new Date("2025-11-02T18:00:00Z"), "America/Chicago"))).toBe(25);
+    expect(hours(getDayRange(new Date("2025-09-07T18:00:00Z"), "America/Santiago"))).toBe(23);
+    expect(hours(getDayRange(new Date("2025-04-05T18:00:00Z"), "America/Santiago"))).toBe(25);
+  });
+
+  it("ends where the next day starts", () => {
+    const day = getDayRange(new Date("2025-09-06T18:00:00Z"), "America/Santiago");
+    const nextDay = getDayRange(day.end, "America/Santiago");
+    expect(day.end.toISOString()).toBe("2025-09-07T04:00:00.000Z");
+    expect(nextDay.start).toEqual(day.end);
+  });
+});
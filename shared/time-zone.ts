@@ -0,0 +1,105 @@
+/**
+ * Calendar-day math in a course's IANA time zone (e.g. "America/Chicago").
+ *
+ * Timestamps are stored as instants, so "today" for a course is the half-open
+ * range between two local midnights in its zone. That range can span two UTC
+ * dates, which is why none of this uses setHours/setUTCHours.
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// [start, end) instants bounding one local calendar day
+export type DayRange = {
+  start: Date;
+  end: Date;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formatters are costly to build, and the same few zones are used over and over
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getDateParts(date: Date, timeZone: string) {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value);
+  }
+  return parts;
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getDateParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The local calendar date of an instant, as "YYYY-MM-DD"
+export function getDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * The instant a "YYYY-MM-DD" date starts in the zone: local midnight, or, where
+ * DST starts at midnight and skips it (America/Santiago), the moment the clocks
+ * jump. Either way it's the first instant whose date key is the date.
+ */
+export function startOfDateInTimeZone(dateKey: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, day);
+
+  // Guess with the offset at UTC midnight, then correct with the offset at the guess in case a DST
+  // change lies in between. When midnight is skipped one of the two lands on the evening before,
+  // so the answer is the earlier of them that falls on the date.
+  const guess = midnightUtc - getTimeZoneOffset(new Date(midnightUtc), timeZone);
+  const corrected = midnightUtc - getTimeZoneOffset(new Date(guess), timeZone);
+  const onDate = [guess, corrected].filter(instant => getDateKey(new Date(instant), timeZone) === dateKey);
+  return new Date(onDate.length > 0 ? Math.min(...onDate) : corrected);
+}
+
+export function startOfDayInTimeZone(date: Date, timeZone: string): Date {
+  return startOfDateInTimeZone(getDateKey(date, timeZone), timeZone);
+}
+
+// The "YYYY-MM-DD" date after the given one
+export function nextDateKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+// The local day containing an instant (23 or 25 hours long across DST changes)
+export function getDayRange(date: Date, timeZone: string): DayRange {
+  const dateKey = getDateKey(date, timeZone);
+  return {
+    start: startOfDateInTimeZone(dateKey, timeZone),
+    end: startOfDateInTimeZone(nextDateKey(dateKey), timeZone),
+  };
+}
+
+// Intl formatting pinned to the zone, e.g. formatInTimeZone(date, tz, { timeStyle: "short" })
+export function formatInTimeZone(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(date);
+}